@@ -101,6 +101,7 @@ export class RoutingAPIStack extends cdk.Stack {
     const {
       routesDynamoDb,
       routesDbCachingRequestFlagDynamoDb,
+      routesDbIndexDynamoDb,
       cachedRoutesDynamoDb,
       cachingRequestFlagDynamoDb,
       cachedV3PoolsDynamoDb,
@@ -109,7 +110,14 @@ export class RoutingAPIStack extends cdk.Stack {
       rpcProviderHealthStateDynamoDb,
     } = new RoutingDatabaseStack(this, 'RoutingDatabaseStack', {})
 
-    const { routingLambda, routingLambdaAlias } = new RoutingLambdaStack(this, 'RoutingLambdaStack', {
+    const {
+      routingLambda,
+      routingLambdaAlias,
+      quotesLambdaAlias,
+      priceCheckLambdaAlias,
+      cachedRoutesPurgeLambda,
+      openApiLambda,
+    } = new RoutingLambdaStack(this, 'RoutingLambdaStack', {
       poolCacheBucket,
       poolCacheBucket2,
       poolCacheBucket3,
@@ -126,6 +134,7 @@ export class RoutingAPIStack extends cdk.Stack {
       tenderlyNodeApiKey,
       routesDynamoDb,
       routesDbCachingRequestFlagDynamoDb,
+      routesDbIndexDynamoDb,
       cachedRoutesDynamoDb,
       cachingRequestFlagDynamoDb,
       cachedV3PoolsDynamoDb,
@@ -261,6 +270,44 @@ export class RoutingAPIStack extends cdk.Stack {
       },
     })
     quote.addMethod('GET', lambdaIntegration)
+    quote.addMethod('POST', lambdaIntegration)
+
+    const quotes = api.root.addResource('quotes', {
+      defaultCorsPreflightOptions: {
+        allowOrigins: aws_apigateway.Cors.ALL_ORIGINS,
+        allowMethods: aws_apigateway.Cors.ALL_METHODS,
+      },
+    })
+    quotes.addMethod('POST', new aws_apigateway.LambdaIntegration(quotesLambdaAlias))
+
+    const priceCheck = api.root.addResource('price-check', {
+      defaultCorsPreflightOptions: {
+        allowOrigins: aws_apigateway.Cors.ALL_ORIGINS,
+        allowMethods: aws_apigateway.Cors.ALL_METHODS,
+      },
+    })
+    priceCheck.addMethod('GET', new aws_apigateway.LambdaIntegration(priceCheckLambdaAlias))
+
+    // Admin endpoints are only called by operators, so they are not opened to browsers with CORS. Callers sign their
+    // requests as IAM principals allowed to invoke the method, on top of the unicorn secret checked by the handler.
+    const cachedRoutesPurge = api.root.addResource('admin').addResource('cached-routes').addResource('purge')
+    const cachedRoutesPurgeMethod = cachedRoutesPurge.addMethod(
+      'POST',
+      new aws_apigateway.LambdaIntegration(cachedRoutesPurgeLambda),
+      { authorizationType: aws_apigateway.AuthorizationType.IAM }
+    )
+    new CfnOutput(this, 'CachedRoutesPurgeMethodArn', {
+      value: cachedRoutesPurgeMethod.methodArn,
+      description: 'Grant execute-api:Invoke on this ARN to the operators allowed to purge cached routes',
+    })
+
+    const openApi = api.root.addResource('openapi.json', {
+      defaultCorsPreflightOptions: {
+        allowOrigins: aws_apigateway.Cors.ALL_ORIGINS,
+        allowMethods: aws_apigateway.Cors.ALL_METHODS,
+      },
+    })
+    openApi.addMethod('GET', new aws_apigateway.LambdaIntegration(openApiLambda))
 
     // All alarms default to GreaterThanOrEqualToThreshold for when to be triggered.
     const apiAlarm5xxSev2 = new aws_cloudwatch.Alarm(this, 'RoutingAPI-SEV2-5XXAlarm', {
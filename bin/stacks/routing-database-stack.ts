@@ -16,6 +16,11 @@ export const DynamoDBTableProps = {
     PartitionKeyName: 'pairTradeTypeChainId',
     SortKeyName: 'amount',
   },
+  RoutesDbIndexTable: {
+    Name: 'RoutesDbIndexDB',
+    PartitionKeyName: 'indexKey',
+    SortKeyName: 'routeKey',
+  },
   CacheRouteDynamoDbTable: {
     Name: 'RouteCachingDB',
     PartitionKeyName: 'pairTradeTypeChainId',
@@ -55,6 +60,7 @@ export const DynamoDBTableProps = {
 export class RoutingDatabaseStack extends cdk.NestedStack {
   public readonly routesDynamoDb: aws_dynamodb.Table
   public readonly routesDbCachingRequestFlagDynamoDb: aws_dynamodb.Table
+  public readonly routesDbIndexDynamoDb: aws_dynamodb.Table
 
   // WARNING: even though cachedRoutesDynamoDb and cachingRequestFlagDynamoDb are not used in prod
   //          we still have to keep there here. Removing them will cause routes DB to stop receiving
@@ -95,6 +101,15 @@ export class RoutingDatabaseStack extends cdk.NestedStack {
       }
     )
 
+    // Creates a DynamoDB Table for storing the routes of the RoutesDb by the pools and tokens they go through
+    this.routesDbIndexDynamoDb = new aws_dynamodb.Table(this, DynamoDBTableProps.RoutesDbIndexTable.Name, {
+      tableName: DynamoDBTableProps.RoutesDbIndexTable.Name,
+      partitionKey: { name: DynamoDBTableProps.RoutesDbIndexTable.PartitionKeyName, type: AttributeType.STRING },
+      sortKey: { name: DynamoDBTableProps.RoutesDbIndexTable.SortKeyName, type: AttributeType.STRING },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: DynamoDBTableProps.TTLAttributeName,
+    })
+
     // Creates a DynamoDB Table for storing the cached routes
     this.cachedRoutesDynamoDb = new aws_dynamodb.Table(this, DynamoDBTableProps.CacheRouteDynamoDbTable.Name, {
       tableName: DynamoDBTableProps.CacheRouteDynamoDbTable.Name,
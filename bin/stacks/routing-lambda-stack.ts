@@ -6,13 +6,17 @@ import * as aws_cloudwatch from 'aws-cdk-lib/aws-cloudwatch'
 import * as aws_cloudwatch_actions from 'aws-cdk-lib/aws-cloudwatch-actions'
 import * as aws_iam from 'aws-cdk-lib/aws-iam'
 import * as aws_lambda from 'aws-cdk-lib/aws-lambda'
+import * as aws_lambda_event_sources from 'aws-cdk-lib/aws-lambda-event-sources'
 import * as aws_lambda_nodejs from 'aws-cdk-lib/aws-lambda-nodejs'
 import * as aws_s3 from 'aws-cdk-lib/aws-s3'
+import * as aws_s3_deployment from 'aws-cdk-lib/aws-s3-deployment'
 import * as aws_sns from 'aws-cdk-lib/aws-sns'
+import * as aws_sqs from 'aws-cdk-lib/aws-sqs'
 import { Construct } from 'constructs'
 import * as path from 'path'
 import { DynamoDBTableProps } from './routing-database-stack'
 import { RetentionDays } from 'aws-cdk-lib/aws-logs'
+import RPC_PROVIDER_PROD_CONFIG from '../../lib/config/rpcProviderProdConfig.json'
 
 export interface RoutingLambdaStackProps extends cdk.NestedStackProps {
   poolCacheBucket: aws_s3.Bucket
@@ -31,6 +35,7 @@ export interface RoutingLambdaStackProps extends cdk.NestedStackProps {
   chatbotSNSArn?: string
   routesDynamoDb: aws_dynamodb.Table
   routesDbCachingRequestFlagDynamoDb: aws_dynamodb.Table
+  routesDbIndexDynamoDb: aws_dynamodb.Table
   cachedRoutesDynamoDb: aws_dynamodb.Table
   cachingRequestFlagDynamoDb: aws_dynamodb.Table
   cachedV3PoolsDynamoDb: aws_dynamodb.Table
@@ -44,6 +49,14 @@ export interface RoutingLambdaStackProps extends cdk.NestedStackProps {
 export class RoutingLambdaStack extends cdk.NestedStack {
   public readonly routingLambda: aws_lambda_nodejs.NodejsFunction
   public readonly routingLambdaAlias: aws_lambda.Alias
+  public readonly quotesLambda: aws_lambda_nodejs.NodejsFunction
+  public readonly quotesLambdaAlias: aws_lambda.Alias
+  public readonly quoteStreamLambda: aws_lambda_nodejs.NodejsFunction
+  public readonly priceCheckLambda: aws_lambda_nodejs.NodejsFunction
+  public readonly priceCheckLambdaAlias: aws_lambda.Alias
+  public readonly cachedRoutesPurgeLambda: aws_lambda_nodejs.NodejsFunction
+  public readonly openApiLambda: aws_lambda_nodejs.NodejsFunction
+  public readonly cachingRefreshLambda: aws_lambda_nodejs.NodejsFunction
 
   constructor(scope: Construct, name: string, props: RoutingLambdaStackProps) {
     super(scope, name, props)
@@ -63,6 +76,7 @@ export class RoutingLambdaStack extends cdk.NestedStack {
       tenderlyNodeApiKey,
       routesDynamoDb,
       routesDbCachingRequestFlagDynamoDb,
+      routesDbIndexDynamoDb,
       cachedRoutesDynamoDb,
       cachingRequestFlagDynamoDb,
       cachedV3PoolsDynamoDb,
@@ -93,6 +107,7 @@ export class RoutingLambdaStack extends cdk.NestedStack {
     tokenListCacheBucket.grantRead(lambdaRole)
     routesDynamoDb.grantReadWriteData(lambdaRole)
     routesDbCachingRequestFlagDynamoDb.grantReadWriteData(lambdaRole)
+    routesDbIndexDynamoDb.grantReadWriteData(lambdaRole)
     cachedRoutesDynamoDb.grantReadWriteData(lambdaRole)
     cachingRequestFlagDynamoDb.grantReadWriteData(lambdaRole)
     cachedV3PoolsDynamoDb.grantReadWriteData(lambdaRole)
@@ -100,9 +115,29 @@ export class RoutingLambdaStack extends cdk.NestedStack {
     tokenPropertiesCachingDynamoDb.grantReadWriteData(lambdaRole)
     rpcProviderHealthStateDynamoDb.grantReadWriteData(lambdaRole)
 
+    // Caching refreshes dispatched by the quote lambdas, grouped by chain and deduplicated by pair and amount bucket.
+    // Refreshes are only useful while they are fresh, so a backlog expires rather than piling up.
+    const cachingRefreshQueue = new aws_sqs.Queue(this, 'CachingRefreshQueue', {
+      fifo: true,
+      retentionPeriod: Duration.minutes(5),
+      // At least the timeout of its consumer.
+      visibilityTimeout: Duration.seconds(30),
+    })
+    cachingRefreshQueue.grantSendMessages(lambdaRole)
+
+    // The RPC provider ProdConfig polled by the lambdas. Each deployment resets it to the bundled config, which it can
+    // then be edited from without a deployment.
+    const rpcProviderProdConfigBucket = new aws_s3.Bucket(this, 'RpcProviderProdConfigBucket')
+    const rpcProviderProdConfigKey = 'rpcProviderProdConfig.json'
+    new aws_s3_deployment.BucketDeployment(this, 'RpcProviderProdConfigDeployment', {
+      destinationBucket: rpcProviderProdConfigBucket,
+      sources: [aws_s3_deployment.Source.jsonData(rpcProviderProdConfigKey, RPC_PROVIDER_PROD_CONFIG)],
+    })
+    rpcProviderProdConfigBucket.grantRead(lambdaRole)
+
     const region = cdk.Stack.of(this).region
 
-    this.routingLambda = new aws_lambda_nodejs.NodejsFunction(this, 'RoutingLambda2', {
+    const routingLambdaProps: aws_lambda_nodejs.NodejsFunctionProps = {
       role: lambdaRole,
       runtime: aws_lambda.Runtime.NODEJS_18_X,
       entry: path.join(__dirname, '../../lib/handlers/index.ts'),
@@ -141,11 +176,17 @@ export class RoutingLambdaStack extends cdk.NestedStack {
         //          Hence we do not want to modify the table name below.
         ROUTES_TABLE_NAME: DynamoDBTableProps.RoutesDbTable.Name,
         ROUTES_CACHING_REQUEST_FLAG_TABLE_NAME: DynamoDBTableProps.RoutesDbCachingRequestFlagTable.Name,
+        ROUTES_INDEX_TABLE_NAME: DynamoDBTableProps.RoutesDbIndexTable.Name,
+        // Switch to 'binary' once every deployed version reads binary RoutesDb items.
+        ROUTES_DB_ENCODING: 'json',
         CACHED_ROUTES_TABLE_NAME: DynamoDBTableProps.CacheRouteDynamoDbTable.Name,
         CACHING_REQUEST_FLAG_TABLE_NAME: DynamoDBTableProps.CachingRequestFlagDynamoDbTable.Name,
         CACHED_V3_POOLS_TABLE_NAME: DynamoDBTableProps.V3PoolsDynamoDbTable.Name,
         V2_PAIRS_CACHE_TABLE_NAME: DynamoDBTableProps.V2PairsDynamoCache.Name,
         RPC_PROVIDER_HEALTH_TABLE_NAME: DynamoDBTableProps.RpcProviderHealthStateDbTable.Name,
+        CACHING_REFRESH_QUEUE_URL: cachingRefreshQueue.queueUrl,
+        RPC_PROVIDER_PROD_CONFIG_BUCKET: rpcProviderProdConfigBucket.bucketName,
+        RPC_PROVIDER_PROD_CONFIG_KEY: rpcProviderProdConfigKey,
 
         // tokenPropertiesCachingDynamoDb.tableName is the correct format.
         // we will start using the correct ones going forward
@@ -164,6 +205,61 @@ export class RoutingLambdaStack extends cdk.NestedStack {
       ],
       tracing: aws_lambda.Tracing.ACTIVE,
       logRetention: RetentionDays.TWO_WEEKS,
+    }
+
+    this.routingLambda = new aws_lambda_nodejs.NodejsFunction(this, 'RoutingLambda2', routingLambdaProps)
+
+    // Batch quotes are served from the same bundle, but by their own function so that large batches
+    // do not eat into the provisioned concurrency of the single quote endpoint.
+    this.quotesLambda = new aws_lambda_nodejs.NodejsFunction(this, 'RoutingQuotesLambda', {
+      ...routingLambdaProps,
+      handler: 'quotesHandler',
+      description: 'Routing Batch Quotes Lambda',
+    })
+
+    // Price checks are polled by bots, so they are kept off the provisioned concurrency of the quote endpoint as well.
+    this.priceCheckLambda = new aws_lambda_nodejs.NodejsFunction(this, 'RoutingPriceCheckLambda', {
+      ...routingLambdaProps,
+      handler: 'priceCheckHandler',
+      description: 'Routing Price Check Lambda',
+    })
+
+    // Purges cached routes on demand. Rarely invoked, so it is not given an alias nor provisioned concurrency.
+    this.cachedRoutesPurgeLambda = new aws_lambda_nodejs.NodejsFunction(this, 'RoutingCachedRoutesPurgeLambda', {
+      ...routingLambdaProps,
+      handler: 'cachedRoutesPurgeHandler',
+      description: 'Routing Cached Routes Purge Lambda',
+    })
+
+    // Runs the caching refreshes of the queue. Messages of a chain share a FIFO message group, so each chain has at most
+    // one refresh running at once, however many quote lambdas dispatch them.
+    this.cachingRefreshLambda = new aws_lambda_nodejs.NodejsFunction(this, 'RoutingCachingRefreshLambda', {
+      ...routingLambdaProps,
+      handler: 'cachingRefreshHandler',
+      description: 'Routing Caching Refresh Lambda',
+      deadLetterQueueEnabled: false,
+    })
+    this.cachingRefreshLambda.addEventSource(
+      new aws_lambda_event_sources.SqsEventSource(cachingRefreshQueue, {
+        batchSize: 1,
+      })
+    )
+
+    // Only serves the committed OpenAPI document, so it is bundled from its own entry without the routing dependencies.
+    this.openApiLambda = new aws_lambda_nodejs.NodejsFunction(this, 'RoutingOpenApiLambda', {
+      role: lambdaRole,
+      runtime: aws_lambda.Runtime.NODEJS_18_X,
+      entry: path.join(__dirname, '../../lib/handlers/openapi/index.ts'),
+      handler: 'openApiHandler',
+      timeout: cdk.Duration.seconds(5),
+      memorySize: 256,
+      description: 'Routing OpenAPI Document Lambda',
+      bundling: {
+        minify: true,
+        sourceMap: true,
+      },
+      tracing: aws_lambda.Tracing.ACTIVE,
+      logRetention: RetentionDays.ONE_WEEK,
     })
 
     const lambdaAlarmErrorRate = new aws_cloudwatch.Alarm(this, 'RoutingAPI-LambdaErrorRate', {
@@ -201,6 +297,41 @@ export class RoutingLambdaStack extends cdk.NestedStack {
       lambdaThrottlesErrorRate.addAlarmAction(new aws_cloudwatch_actions.SnsAction(chatBotTopic))
     }
 
+    // Progressive quotes are streamed over Server-Sent Events, which API Gateway REST APIs
+    // can not proxy, so this function is exposed through a function URL with response streaming instead.
+    // The function URL skips the throttling and WAF of the API Gateway, and every streamed quote routes twice,
+    // so callers have to sign their requests with IAM credentials and the concurrency of the function is capped.
+    this.quoteStreamLambda = new aws_lambda_nodejs.NodejsFunction(this, 'RoutingQuoteStreamLambda', {
+      ...routingLambdaProps,
+      handler: 'quoteStreamHandler',
+      description: 'Routing Streaming Quote Lambda',
+      reservedConcurrentExecutions: 50,
+    })
+
+    const quoteStreamLambdaUrl = this.quoteStreamLambda.addFunctionUrl({
+      authType: aws_lambda.FunctionUrlAuthType.AWS_IAM,
+      invokeMode: aws_lambda.InvokeMode.RESPONSE_STREAM,
+      cors: {
+        allowedOrigins: ['*'],
+        allowedMethods: [aws_lambda.HttpMethod.GET],
+        allowedHeaders: ['Authorization', 'X-Amz-Date', 'X-Amz-Security-Token', 'X-Amz-Content-Sha256'],
+      },
+    })
+
+    new CfnOutput(this, 'quoteStreamUrl', {
+      value: quoteStreamLambdaUrl.url,
+    })
+
+    this.quotesLambdaAlias = new aws_lambda.Alias(this, 'RoutingQuotesLiveAlias', {
+      aliasName: 'live',
+      version: this.quotesLambda.currentVersion,
+    })
+
+    this.priceCheckLambdaAlias = new aws_lambda.Alias(this, 'RoutingPriceCheckLiveAlias', {
+      aliasName: 'live',
+      version: this.priceCheckLambda.currentVersion,
+    })
+
     const enableProvisionedConcurrency = provisionedConcurrency > 0
 
     this.routingLambdaAlias = new aws_lambda.Alias(this, 'RoutingLiveAlias', {
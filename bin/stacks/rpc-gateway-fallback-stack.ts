@@ -7,11 +7,43 @@ import { ComparisonOperator, MathExpression } from 'aws-cdk-lib/aws-cloudwatch'
 import { RetentionDays } from 'aws-cdk-lib/aws-logs'
 import { DynamoDBTableProps } from './routing-database-stack'
 import * as aws_dynamodb from 'aws-cdk-lib/aws-dynamodb'
+import { MethodGroup, PROVIDER_WIDE_METHOD_GROUPS } from '../../lib/rpc/ProviderHealthState'
 
 export interface RpcGatewayFallbackStackPros extends cdk.NestedStackProps {
   rpcProviderHealthStateDynamoDb: aws_dynamodb.Table
 }
 
+// Sum of the calls of the method groups with the given outcome.
+function methodGroupCallsMetrics(
+  chainId: number,
+  providerName: string,
+  methodGroups: MethodGroup[],
+  outcome: 'SUCCESS' | 'FAILED'
+): Record<string, aws_cloudwatch.IMetric> {
+  const metrics: Record<string, aws_cloudwatch.IMetric> = {}
+  for (const methodGroup of methodGroups) {
+    metrics[`${methodGroup}${outcome === 'SUCCESS' ? 'Successes' : 'Fails'}`] = new aws_cloudwatch.Metric({
+      namespace: 'Uniswap',
+      metricName: `RPC_GATEWAY_${chainId}_${providerName}_MethodGroup_${methodGroup}_${outcome}`,
+      dimensionsMap: { Service: 'RoutingAPI' },
+      unit: aws_cloudwatch.Unit.COUNT,
+      period: cdk.Duration.minutes(5),
+      statistic: 'sum',
+    })
+  }
+  return metrics
+}
+
+function errorRateMetric(chainId: number, providerName: string, methodGroups: MethodGroup[]): MathExpression {
+  const callSuccesses = methodGroupCallsMetrics(chainId, providerName, methodGroups, 'SUCCESS')
+  const callFails = methodGroupCallsMetrics(chainId, providerName, methodGroups, 'FAILED')
+  const fails = Object.keys(callFails).join('+')
+  return new MathExpression({
+    expression: `100*((${fails})/(${Object.keys(callSuccesses).join('+')}+${fails}))`,
+    usingMetrics: { ...callSuccesses, ...callFails },
+  })
+}
+
 export class RpcGatewayFallbackStack extends cdk.NestedStack {
   constructor(scope: Construct, name: string, props: RpcGatewayFallbackStackPros) {
     super(scope, name, props)
@@ -58,32 +90,12 @@ export class RpcGatewayFallbackStack extends cdk.NestedStack {
       },
     })
 
-    // Add error rate alarms for each {chainId, provider} pair.
+    // Add error rate alarms for each {chainId, provider} pair, on the method groups failing the whole provider.
     for (const [chainId, providerNames] of getRpcGatewayEnabledChains()) {
       for (const providerName of providerNames) {
         const providerNameFix = providerName === 'QUICKNODE' ? 'QUIKNODE' : providerName
         const alarmName = `RoutingAPI-RpcGateway-ErrorRateAlarm-ChainId-${chainId}-Provider-${providerNameFix}`
-        const metric = new MathExpression({
-          expression: '100*(callFails/(callSuccesses+callFails))',
-          usingMetrics: {
-            callSuccesses: new aws_cloudwatch.Metric({
-              namespace: 'Uniswap',
-              metricName: `RPC_GATEWAY_${chainId}_${providerNameFix}_SUCCESS`,
-              dimensionsMap: { Service: 'RoutingAPI' },
-              unit: aws_cloudwatch.Unit.COUNT,
-              period: cdk.Duration.minutes(5),
-              statistic: 'sum',
-            }),
-            callFails: new aws_cloudwatch.Metric({
-              namespace: 'Uniswap',
-              metricName: `RPC_GATEWAY_${chainId}_${providerNameFix}_FAILED`,
-              dimensionsMap: { Service: 'RoutingAPI' },
-              unit: aws_cloudwatch.Unit.COUNT,
-              period: cdk.Duration.minutes(5),
-              statistic: 'sum',
-            }),
-          },
-        })
+        const metric = errorRateMetric(chainId, providerNameFix, PROVIDER_WIDE_METHOD_GROUPS)
         const alarm = new aws_cloudwatch.Alarm(this, alarmName, {
           alarmName,
           metric,
@@ -104,6 +116,36 @@ export class RpcGatewayFallbackStack extends cdk.NestedStack {
       }
     }
 
+    // Add error rate alarms for each {chainId, provider} pair on each of the other method groups. These only fail over
+    // the calls of their group, see FallbackHandler.
+    const ownAlarmMethodGroups = Object.values(MethodGroup).filter(
+      (methodGroup) => !PROVIDER_WIDE_METHOD_GROUPS.includes(methodGroup)
+    )
+    for (const [chainId, providerNames] of getRpcGatewayEnabledChains()) {
+      for (const providerName of providerNames) {
+        const providerNameFix = providerName === 'QUICKNODE' ? 'QUIKNODE' : providerName
+        for (const methodGroup of ownAlarmMethodGroups) {
+          const alarmName = `RoutingAPI-RpcGateway-ErrorRateAlarm-ChainId-${chainId}-Provider-${providerNameFix}-MethodGroup-${methodGroup}`
+          const alarm = new aws_cloudwatch.Alarm(this, alarmName, {
+            alarmName,
+            metric: errorRateMetric(chainId, providerNameFix, [methodGroup]),
+            comparisonOperator: ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+            threshold: 5.0, // Alarm when error rate >= 5.0%
+            evaluationPeriods: 1,
+          })
+
+          const lambdaAliasName = `ErrorRate-${chainId}-${providerNameFix}-${methodGroup}`
+          const lambdaAlias = new aws_lambda.Alias(this, lambdaAliasName, {
+            aliasName: lambdaAliasName,
+            version: providerFallbackLambda.currentVersion,
+          })
+
+          alarm.addAlarmAction(new aws_cloudwatch_actions.LambdaAction(lambdaAlias))
+          alarm.addOkAction(new aws_cloudwatch_actions.LambdaAction(lambdaAlias))
+        }
+      }
+    }
+
     // Add latency alarms for each {chainId, provider} pair.
     for (const [chainId, providerNames] of getRpcGatewayEnabledChains()) {
       for (const providerName of providerNames) {
@@ -0,0 +1,149 @@
+import retry from 'async-retry'
+import axios from 'axios'
+import { QuoteQueryParams, QuoteRequestBody } from '../handlers/quote/schema/quote-params'
+import { QuoteResponse } from '../handlers/quote-response'
+import { RoutingApiError, RoutingApiTimeoutError } from './errors'
+
+export type RoutingApiRequest = {
+  method: 'GET' | 'POST'
+  // Relative to the base url, e.g. 'quote'.
+  path: string
+  queryString?: string
+  body?: string
+  headers: { [header: string]: string }
+  timeoutMs: number
+}
+
+export type RoutingApiTransportResponse = {
+  statusCode: number
+  body: string
+}
+
+// Sends a request and resolves with the raw response, whatever its status code.
+// Rejects with a RoutingApiTimeoutError on timeouts and with any other error when the request could not be sent.
+export type RoutingApiTransport = (request: RoutingApiRequest) => Promise<RoutingApiTransportResponse>
+
+export type RoutingApiClientOptions = {
+  baseUrl: string
+  timeoutMs?: number
+  // Number of retries after the first attempt, for timeouts, network errors and 5XX responses.
+  retries?: number
+  // Delay before the first retry, doubled on every retry.
+  retryDelayMs?: number
+  headers?: { [header: string]: string }
+  transport?: RoutingApiTransport
+}
+
+export type QuoteRequestQueryParams = Omit<QuoteQueryParams, 'outputs'>
+
+const DEFAULT_TIMEOUT_MS = 10_000
+const DEFAULT_RETRIES = 2
+const DEFAULT_RETRY_DELAY_MS = 200
+
+export const axiosTransport =
+  (baseUrl: string): RoutingApiTransport =>
+  async ({ method, path, queryString, body, headers, timeoutMs }) => {
+    try {
+      const response = await axios.request<string>({
+        method,
+        url: `${baseUrl.replace(/\/$/, '')}/${path}${queryString ? `?${queryString}` : ''}`,
+        data: body,
+        headers,
+        timeout: timeoutMs,
+        // Error responses are parsed by the client, and the body is kept as is so that it is parsed once.
+        validateStatus: () => true,
+        transformResponse: (data) => data,
+      })
+      return { statusCode: response.status, body: response.data }
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.code === 'ECONNABORTED') {
+        throw new RoutingApiTimeoutError(timeoutMs)
+      }
+      throw err
+    }
+  }
+
+/**
+ * Builds the query string of GET /quote. Arrays are sent comma separated, which is the format
+ * of the stringArray parameters like protocols.
+ *
+ * @param params
+ */
+export const buildQuoteQueryString = (params: QuoteRequestQueryParams): string => {
+  const searchParams = new URLSearchParams()
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null) {
+      continue
+    }
+    searchParams.append(key, Array.isArray(value) ? value.join(',') : String(value))
+  }
+  return searchParams.toString()
+}
+
+export class RoutingApiClient {
+  private readonly transport: RoutingApiTransport
+  private readonly timeoutMs: number
+  private readonly retries: number
+  private readonly retryDelayMs: number
+
+  constructor(private readonly options: RoutingApiClientOptions) {
+    this.transport = options.transport ?? axiosTransport(options.baseUrl)
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    this.retries = options.retries ?? DEFAULT_RETRIES
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS
+  }
+
+  public async getQuote(params: QuoteRequestQueryParams): Promise<QuoteResponse> {
+    return this.request<QuoteResponse>('GET', 'quote', { queryString: buildQuoteQueryString(params) })
+  }
+
+  public async postQuote(body: QuoteRequestBody): Promise<QuoteResponse> {
+    return this.request<QuoteResponse>('POST', 'quote', { body: JSON.stringify(body) })
+  }
+
+  private async request<Res>(
+    method: 'GET' | 'POST',
+    path: string,
+    { queryString, body }: { queryString?: string; body?: string }
+  ): Promise<Res> {
+    const request: RoutingApiRequest = {
+      method,
+      path,
+      queryString,
+      body,
+      headers: { 'Content-Type': 'application/json', ...this.options.headers },
+      timeoutMs: this.timeoutMs,
+    }
+
+    return retry(
+      async (bail) => {
+        const response = await this.transport(request)
+
+        if (response.statusCode >= 200 && response.statusCode < 300) {
+          return JSON.parse(response.body) as Res
+        }
+
+        const error = RoutingApiClient.parseError(response)
+        // Client errors will fail again, only server errors are retried.
+        if (response.statusCode < 500) {
+          bail(error)
+          return undefined as never
+        }
+        throw error
+      },
+      { retries: this.retries, minTimeout: this.retryDelayMs, factor: 2, randomize: false }
+    )
+  }
+
+  private static parseError({ statusCode, body }: RoutingApiTransportResponse): RoutingApiError {
+    try {
+      const { errorCode, detail, id } = JSON.parse(body)
+      if (typeof errorCode === 'string') {
+        return new RoutingApiError(statusCode, errorCode, detail, id)
+      }
+    } catch (err) {
+      // Not an ErrorResponse, e.g. an error page of the API gateway.
+    }
+    return new RoutingApiError(statusCode, 'UNKNOWN_ERROR', body)
+  }
+}
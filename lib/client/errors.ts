@@ -0,0 +1,48 @@
+// Error codes returned by the routing API. Other codes can be returned as the API evolves.
+export type RoutingApiErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'INTERNAL_ERROR'
+  | 'NO_ROUTE'
+  | 'NO_BRIDGE_ROUTE'
+  | 'INVALID_PROTOCOL'
+  | 'TOKEN_IN_INVALID'
+  | 'TOKEN_OUT_INVALID'
+  | 'TOKEN_IN_OUT_SAME'
+  | 'TOKEN_CHAINS_DIFFERENT'
+  | 'PRICE_IMPACT_TOO_HIGH'
+  | 'OUTPUTS_REQUIRE_UNIVERSAL_ROUTER'
+  | 'OUTPUTS_SIMULATION_UNSUPPORTED'
+  | 'HISTORICAL_SIMULATION_UNSUPPORTED'
+  | 'CROSS_CHAIN_EXACT_OUT_UNSUPPORTED'
+  | 'CROSS_CHAIN_MAX_PRICE_IMPACT_UNSUPPORTED'
+  | 'CROSS_CHAIN_BLOCK_NUMBER_UNSUPPORTED'
+  | 'INVALID_TARGET_PRICE'
+  // Set by the client when an error response could not be parsed.
+  | 'UNKNOWN_ERROR'
+
+export class RoutingApiError extends Error {
+  public name = 'RoutingApiError'
+
+  constructor(
+    public readonly statusCode: number,
+    public readonly errorCode: RoutingApiErrorCode | (string & {}),
+    public readonly detail?: string,
+    public readonly id?: string
+  ) {
+    super(`Routing API responded ${statusCode} ${errorCode}${detail ? `: ${detail}` : ''}`)
+  }
+}
+
+export class RoutingApiTimeoutError extends Error {
+  public name = 'RoutingApiTimeoutError'
+
+  constructor(public readonly timeoutMs: number) {
+    super(`Routing API did not respond within ${timeoutMs}ms`)
+  }
+}
+
+export const isRoutingApiError = <Code extends RoutingApiErrorCode>(
+  error: unknown,
+  errorCode?: Code
+): error is RoutingApiError & { errorCode: Code } =>
+  error instanceof RoutingApiError && (errorCode === undefined || error.errorCode === errorCode)
@@ -0,0 +1,21 @@
+export * from './errors'
+export * from './RoutingApiClient'
+// Only the API types are re-exported, which are declared apart from the handlers so that the client does not load them.
+export type {
+  CachedRoutesParam,
+  QuoteOutputParams,
+  QuoteQueryParams,
+  QuoteRequestBody,
+  TradeTypeParam,
+} from '../handlers/quote/schema/quote-params'
+export type {
+  MethodParameters,
+  QuoteResponse,
+  SupportedPoolInRoute,
+  TokenInRoute,
+  V2PoolInRoute,
+  V3PoolInRoute,
+  V4PoolInRoute,
+} from '../handlers/quote-response'
+export { RoutingApiSimulationStatus } from '../handlers/quote/util/simulation-status'
+export { HookClassification, HooksPolicyStrictness } from '../handlers/router-entities/hooks-policy/hook-classification'
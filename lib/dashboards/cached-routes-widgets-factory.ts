@@ -1,3 +1,13 @@
+import _ from 'lodash'
+import {
+  buildCachedRoutesConfiguration,
+  CachedRoutesStrategy,
+  TAPCOMPARE_DIFFERENT_ROUTES,
+  TAPCOMPARE_GAS_USED_DELTA,
+  TAPCOMPARE_QUOTE_DELTA_BIPS,
+  TAPCOMPARE_SAME_ROUTES,
+  tapcompareMetricName,
+} from '../handlers/router-entities/route-caching'
 import { Widget } from './core/model/widget'
 import { WidgetsFactory } from './core/widgets-factory'
 
@@ -13,7 +23,100 @@ export class CachedRoutesWidgetsFactory implements WidgetsFactory {
   }
 
   generateWidgets(): Widget[] {
-    return this.generateCacheHitMissMetricsWidgets()
+    return this.generateCacheHitMissMetricsWidgets().concat(this.generateTapcompareWidgets())
+  }
+
+  private generateTapcompareWidgets(): Widget[] {
+    const strategies = Array.from(buildCachedRoutesConfiguration().values()).filter(
+      (strategy) => strategy.willTapcompare
+    )
+
+    return _.flatMap(strategies, (strategy) => this.generateTapcompareWidgetsForStrategy(strategy))
+  }
+
+  private generateTapcompareWidgetsForStrategy(strategy: CachedRoutesStrategy): Widget[] {
+    const buckets = strategy.tapcompareBuckets()
+    const bucketMetrics = (name: string, stat: string) =>
+      buckets.map((bucket) => [
+        this.namespace,
+        tapcompareMetricName(name, strategy, bucket),
+        'Service',
+        'RoutingAPI',
+        { label: `Bucket ${bucket}`, stat },
+      ])
+
+    return [
+      {
+        type: 'text',
+        width: 24,
+        height: 1,
+        properties: {
+          markdown: `# Tapcompare ${strategy.readablePairTradeTypeChainId()}`,
+        },
+      },
+      {
+        type: 'metric',
+        width: 8,
+        height: 7,
+        properties: {
+          view: 'timeSeries',
+          stacked: false,
+          metrics: bucketMetrics(TAPCOMPARE_QUOTE_DELTA_BIPS, 'p90'),
+          region: this.region,
+          title: 'P90 of the cached route misquote in bips',
+          period: 300,
+        },
+      },
+      {
+        type: 'metric',
+        width: 8,
+        height: 7,
+        properties: {
+          view: 'timeSeries',
+          stacked: false,
+          metrics: bucketMetrics(TAPCOMPARE_GAS_USED_DELTA, 'Average'),
+          region: this.region,
+          title: 'Average gas used by the cached route over the fresh route',
+          period: 300,
+        },
+      },
+      {
+        type: 'metric',
+        width: 8,
+        height: 7,
+        properties: {
+          view: 'timeSeries',
+          stacked: false,
+          metrics: _.flatMap(buckets, (bucket, i) => [
+            [{ expression: `s${i}/(s${i}+d${i}) * 100`, label: `Bucket ${bucket}`, id: `e${i}` }],
+            [
+              this.namespace,
+              tapcompareMetricName(TAPCOMPARE_SAME_ROUTES, strategy, bucket),
+              'Service',
+              'RoutingAPI',
+              { id: `s${i}`, visible: false },
+            ],
+            [
+              '.',
+              tapcompareMetricName(TAPCOMPARE_DIFFERENT_ROUTES, strategy, bucket),
+              '.',
+              '.',
+              { id: `d${i}`, visible: false },
+            ],
+          ]),
+          region: this.region,
+          title: 'Rate of cached routes equal to the fresh route',
+          period: 300,
+          stat: 'Sum',
+          yAxis: {
+            left: {
+              min: 0,
+              max: 100,
+            },
+          },
+        },
+      },
+    ]
   }
 
   private generateCacheHitMissMetricsWidgets(): Widget[] {
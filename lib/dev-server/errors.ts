@@ -0,0 +1,8 @@
+// Mirrors the code of the AWSError the real service would throw, callers only look at the code.
+export class LocalAwsError extends Error {
+  public name = 'LocalAwsError'
+
+  constructor(public readonly code: string, message: string) {
+    super(message)
+  }
+}
@@ -0,0 +1,35 @@
+import fs from 'fs'
+import path from 'path'
+import { LocalAwsError } from './errors'
+
+/**
+ * Stands in for S3 with a directory, every object is a file at <rootDir>/<Bucket>/<Key>.
+ * Pool and token list caches can be seeded by copying the objects of a deployed stack there.
+ */
+export class FileS3Store {
+  constructor(private readonly rootDir: string) {}
+
+  public getObject({ Bucket, Key }: { Bucket: string; Key: string }): { Body: Buffer } {
+    const objectPath = this.objectPath(Bucket, Key)
+    if (!fs.existsSync(objectPath)) {
+      throw new LocalAwsError('NoSuchKey', `No object ${Key} in bucket ${Bucket} under ${this.rootDir}`)
+    }
+    return { Body: fs.readFileSync(objectPath) }
+  }
+
+  public putObject({ Bucket, Key, Body }: { Bucket: string; Key: string; Body?: Buffer | string }): {} {
+    const objectPath = this.objectPath(Bucket, Key)
+    fs.mkdirSync(path.dirname(objectPath), { recursive: true })
+    fs.writeFileSync(objectPath, Body ?? '')
+    return {}
+  }
+
+  private objectPath(bucket: string, key: string): string {
+    const bucketDir = path.resolve(this.rootDir, bucket)
+    const objectPath = path.resolve(bucketDir, key)
+    if (!objectPath.startsWith(bucketDir + path.sep)) {
+      throw new LocalAwsError('InvalidArgument', `Key ${key} resolves outside of bucket ${bucket}`)
+    }
+    return objectPath
+  }
+}
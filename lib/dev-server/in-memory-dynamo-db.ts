@@ -0,0 +1,184 @@
+import { DocumentClient } from 'aws-sdk/clients/dynamodb'
+import _ from 'lodash'
+import { LocalAwsError } from './errors'
+
+export type LocalTableKeySchema = {
+  partitionKey: string
+  sortKey?: string
+}
+
+type Item = DocumentClient.AttributeMap
+type KeyCondition = (item: Item) => boolean
+
+/**
+ * Stands in for the DynamoDB tables of the routing API, with the subset of the DocumentClient API the caches use.
+ *
+ * Items whose TTL attribute is in the past are not returned, like DynamoDB would eventually stop returning them.
+ * Tables only hold the items written since the process started.
+ */
+export class InMemoryDynamoDb {
+  private readonly tables: { [tableName: string]: Map<string, Item> }
+
+  constructor(
+    private readonly keySchemas: { [tableName: string]: LocalTableKeySchema },
+    private readonly ttlAttributeName?: string
+  ) {
+    this.tables = _.mapValues(keySchemas, () => new Map<string, Item>())
+  }
+
+  public get({ TableName, Key }: DocumentClient.GetItemInput): DocumentClient.GetItemOutput {
+    const item = this.table(TableName).get(this.itemKey(TableName, Key))
+    return { Item: item && !this.isExpired(item) ? _.cloneDeep(item) : undefined }
+  }
+
+  public put({ TableName, Item }: DocumentClient.PutItemInput): DocumentClient.PutItemOutput {
+    this.table(TableName).set(this.itemKey(TableName, Item), _.cloneDeep(Item))
+    return {}
+  }
+
+  public delete({ TableName, Key }: DocumentClient.DeleteItemInput): DocumentClient.DeleteItemOutput {
+    this.table(TableName).delete(this.itemKey(TableName, Key))
+    return {}
+  }
+
+  public batchGet({ RequestItems }: DocumentClient.BatchGetItemInput): DocumentClient.BatchGetItemOutput {
+    return {
+      Responses: _.mapValues(RequestItems, ({ Keys }, tableName) =>
+        _.compact(Keys.map((Key) => this.get({ TableName: tableName, Key }).Item))
+      ),
+      UnprocessedKeys: {},
+    }
+  }
+
+  public batchWrite({ RequestItems }: DocumentClient.BatchWriteItemInput): DocumentClient.BatchWriteItemOutput {
+    _.forEach(RequestItems, (requests, tableName) => {
+      for (const { PutRequest, DeleteRequest } of requests) {
+        if (PutRequest) {
+          this.put({ TableName: tableName, Item: PutRequest.Item })
+        }
+        if (DeleteRequest) {
+          this.delete({ TableName: tableName, Key: DeleteRequest.Key })
+        }
+      }
+    })
+    return { UnprocessedItems: {} }
+  }
+
+  public query({
+    TableName,
+    KeyConditionExpression,
+    ExpressionAttributeNames = {},
+    ExpressionAttributeValues = {},
+    ScanIndexForward = true,
+    Limit,
+  }: DocumentClient.QueryInput): DocumentClient.QueryOutput {
+    if (!KeyConditionExpression) {
+      throw new LocalAwsError('ValidationException', 'Queries require a KeyConditionExpression')
+    }
+
+    const conditions = parseKeyConditionExpression(
+      KeyConditionExpression,
+      ExpressionAttributeNames,
+      ExpressionAttributeValues
+    )
+    const { sortKey } = this.keySchemas[TableName]!
+
+    let items = Array.from(this.table(TableName).values()).filter(
+      (item) => !this.isExpired(item) && conditions.every((condition) => condition(item))
+    )
+    if (sortKey) {
+      items = _.sortBy(items, (item) => item[sortKey])
+    }
+    if (!ScanIndexForward) {
+      items.reverse()
+    }
+    if (Limit !== undefined) {
+      items = items.slice(0, Limit)
+    }
+
+    return { Items: _.cloneDeep(items), Count: items.length, ScannedCount: items.length }
+  }
+
+  private table(tableName: string): Map<string, Item> {
+    const table = this.tables[tableName]
+    if (!table) {
+      throw new LocalAwsError('ResourceNotFoundException', `Table ${tableName} is not configured in the local DynamoDB`)
+    }
+    return table
+  }
+
+  private itemKey(tableName: string, key: Item): string {
+    const { partitionKey, sortKey } = this.keySchemas[tableName] ?? {}
+    if (!partitionKey || key[partitionKey] === undefined || (sortKey && key[sortKey] === undefined)) {
+      throw new LocalAwsError('ValidationException', `The key does not match the key schema of table ${tableName}`)
+    }
+    return JSON.stringify(sortKey ? [key[partitionKey], key[sortKey]] : [key[partitionKey]])
+  }
+
+  private isExpired(item: Item): boolean {
+    const ttl = this.ttlAttributeName && item[this.ttlAttributeName]
+    return typeof ttl === 'number' && ttl < Date.now() / 1000
+  }
+}
+
+const COMPARISON = /^(\S+)\s*(=|<=|>=|<|>)\s*(\S+)$/
+const BETWEEN = /^(\S+)\s+BETWEEN\s+(\S+)\s+AND\s+(\S+)$/i
+const BEGINS_WITH = /^begins_with\s*\(\s*([^,\s]+)\s*,\s*([^)\s]+)\s*\)$/i
+
+/**
+ * Parses the key condition expressions DynamoDB supports: a partition key equality, optionally AND-ed with
+ * a sort key comparison, BETWEEN or begins_with.
+ */
+const parseKeyConditionExpression = (
+  expression: string,
+  names: DocumentClient.ExpressionAttributeNameMap,
+  values: DocumentClient.ExpressionAttributeValueMap
+): KeyCondition[] => {
+  const name = (token: string) => names[token] ?? token
+  const value = (token: string) => {
+    if (!(token in values)) {
+      throw new LocalAwsError('ValidationException', `No value for ${token} in ExpressionAttributeValues`)
+    }
+    return values[token]
+  }
+
+  // The AND of a BETWEEN belongs to the condition, not to the expression.
+  const conditions: string[] = []
+  for (const part of expression.trim().split(/\s+AND\s+/i)) {
+    const previous = _.last(conditions)
+    if (previous && /\sBETWEEN\s/i.test(previous) && !/\sAND\s/i.test(previous)) {
+      conditions[conditions.length - 1] = `${previous} AND ${part}`
+    } else {
+      conditions.push(part)
+    }
+  }
+
+  return conditions.map((condition): KeyCondition => {
+    let match = condition.match(BETWEEN)
+    if (match) {
+      const [, attribute, low, high] = match
+      return (item) => item[name(attribute!)] >= value(low!) && item[name(attribute!)] <= value(high!)
+    }
+
+    match = condition.match(BEGINS_WITH)
+    if (match) {
+      const [, attribute, prefix] = match
+      return (item) => _.startsWith(item[name(attribute!)], value(prefix!))
+    }
+
+    match = condition.match(COMPARISON)
+    if (match) {
+      const [, attribute, operator, operand] = match
+      const compare = {
+        '=': (a: any, b: any) => a === b,
+        '<': (a: any, b: any) => a < b,
+        '<=': (a: any, b: any) => a <= b,
+        '>': (a: any, b: any) => a > b,
+        '>=': (a: any, b: any) => a >= b,
+      }[operator!]!
+      return (item) => compare(item[name(attribute!)], value(operand!))
+    }
+
+    throw new LocalAwsError('ValidationException', `Unsupported key condition ${condition}`)
+  })
+}
@@ -0,0 +1,60 @@
+import { DynamoDB, Lambda, S3 } from 'aws-sdk'
+import Logger from 'bunyan'
+import { LocalAwsError } from './errors'
+import { FileS3Store } from './file-s3-store'
+import { InMemoryDynamoDb, LocalTableKeySchema } from './in-memory-dynamo-db'
+
+export type LocalAwsOptions = {
+  // Directory holding the S3 buckets, one sub directory per bucket.
+  s3Dir: string
+  tables: { [tableName: string]: LocalTableKeySchema }
+  ttlAttributeName?: string
+  log: Logger
+}
+
+const DOCUMENT_CLIENT_METHODS = ['get', 'put', 'delete', 'batchGet', 'batchWrite', 'query'] as const
+const UNSUPPORTED_DOCUMENT_CLIENT_METHODS = ['update', 'scan', 'transactGet', 'transactWrite']
+
+// The clients are only ever used as `client.method(params).promise()`, so that is all the stand-ins implement.
+const localRequest = <T>(run: () => T) => ({ promise: async () => run() })
+
+/**
+ * Replaces the S3, DynamoDB DocumentClient and Lambda clients of aws-sdk with local stand-ins, for every
+ * client of the process including the ones already constructed. Nothing is sent to AWS afterwards.
+ *
+ * S3 objects are read from and written to files, DynamoDB tables are kept in memory and
+ * Lambda invocations are logged and dropped.
+ *
+ * @param options
+ */
+export const installLocalAws = ({ s3Dir, tables, ttlAttributeName, log }: LocalAwsOptions) => {
+  const s3 = new FileS3Store(s3Dir)
+  const dynamoDb = new InMemoryDynamoDb(tables, ttlAttributeName)
+
+  // The S3 and Lambda methods are defined on a prototype generated for the API version, not on the class itself.
+  const s3Prototype = Object.getPrototypeOf(new S3())
+  s3Prototype.getObject = (params: S3.GetObjectRequest) => localRequest(() => s3.getObject(params))
+  s3Prototype.putObject = (params: S3.PutObjectRequest) =>
+    localRequest(() => s3.putObject(params as { Bucket: string; Key: string; Body?: Buffer | string }))
+
+  const documentClientPrototype: any = DynamoDB.DocumentClient.prototype
+  for (const method of DOCUMENT_CLIENT_METHODS) {
+    documentClientPrototype[method] = (params: any) => localRequest(() => dynamoDb[method](params))
+  }
+  for (const method of UNSUPPORTED_DOCUMENT_CLIENT_METHODS) {
+    documentClientPrototype[method] = () =>
+      localRequest(() => {
+        throw new LocalAwsError('UnsupportedOperation', `${method} is not supported by the local DynamoDB`)
+      })
+  }
+
+  // e.g. the requests the route cache sends to the caching lambda, which has no local counterpart.
+  const lambdaPrototype = Object.getPrototypeOf(new Lambda())
+  lambdaPrototype.invoke = (params: Lambda.InvocationRequest) =>
+    localRequest(() => {
+      log.info({ functionName: params.FunctionName }, 'Dropped a Lambda invocation, it is not supported locally')
+      return { StatusCode: 202 }
+    })
+
+  return { s3, dynamoDb }
+}
@@ -0,0 +1,132 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda'
+import Logger from 'bunyan'
+import { randomUUID } from 'crypto'
+import http from 'http'
+import _ from 'lodash'
+import { APIGatewayProxyHandler } from '../handlers/handler'
+
+// Handlers by method and path, e.g. 'GET /quote'.
+export type DevServerRoutes = { [route: string]: APIGatewayProxyHandler }
+
+export type DevServerRequest = {
+  method: string
+  url: string
+  headers: http.IncomingHttpHeaders
+  body: string
+}
+
+// Matches the timeout of the routing lambda.
+const DEFAULT_TIMEOUT_MS = 9_000
+
+/**
+ * Maps a request to the event API Gateway sends to the lambdas of a REST API with proxy integration.
+ *
+ * @param request
+ */
+export const toAPIGatewayProxyEvent = ({ method, url, headers, body }: DevServerRequest): APIGatewayProxyEvent => {
+  const { pathname, searchParams } = new URL(url, 'http://localhost')
+  const multiValueHeaders = _.mapValues(headers, (value) => _.castArray(value ?? []))
+
+  const multiValueQueryStringParameters: { [name: string]: string[] } = {}
+  searchParams.forEach((value, name) => {
+    multiValueQueryStringParameters[name] = [...(multiValueQueryStringParameters[name] ?? []), value]
+  })
+  const hasQueryString = !_.isEmpty(multiValueQueryStringParameters)
+
+  return {
+    body: body.length > 0 ? body : null,
+    // Like API Gateway, the last value wins when a header or parameter is repeated.
+    headers: _.mapValues(multiValueHeaders, (values) => _.last(values)),
+    multiValueHeaders,
+    httpMethod: method,
+    isBase64Encoded: false,
+    path: pathname,
+    pathParameters: null,
+    queryStringParameters: hasQueryString ? _.mapValues(multiValueQueryStringParameters, _.last) : null,
+    multiValueQueryStringParameters: hasQueryString ? multiValueQueryStringParameters : null,
+    stageVariables: null,
+    requestContext: {
+      requestId: randomUUID(),
+      httpMethod: method,
+      path: pathname,
+      stage: 'local',
+      requestTimeEpoch: Date.now(),
+    } as APIGatewayProxyEvent['requestContext'],
+    resource: pathname,
+  }
+}
+
+export const buildLambdaContext = (functionName: string, timeoutMs: number): Context => {
+  const deadline = Date.now() + timeoutMs
+  return {
+    callbackWaitsForEmptyEventLoop: true,
+    functionName,
+    functionVersion: '$LATEST',
+    invokedFunctionArn: `arn:aws:lambda:local:000000000000:function:${functionName}`,
+    memoryLimitInMB: '2560',
+    awsRequestId: randomUUID(),
+    logGroupName: `/aws/lambda/${functionName}`,
+    logStreamName: 'local',
+    getRemainingTimeInMillis: () => Math.max(0, deadline - Date.now()),
+    done: () => {},
+    fail: () => {},
+    succeed: () => {},
+  }
+}
+
+/**
+ * Invokes the handler routed to by the method and path of the request, the way API Gateway would.
+ *
+ * @param routes
+ * @param request
+ * @param log
+ * @param timeoutMs
+ */
+export const invokeRoute = async (
+  routes: DevServerRoutes,
+  request: DevServerRequest,
+  log: Logger,
+  timeoutMs = DEFAULT_TIMEOUT_MS
+): Promise<APIGatewayProxyResult> => {
+  const event = toAPIGatewayProxyEvent(request)
+  const route = `${event.httpMethod} ${event.path}`
+  const handler = routes[route]
+
+  if (!handler) {
+    return {
+      statusCode: 404,
+      body: JSON.stringify({ errorCode: 'NOT_FOUND', detail: `No handler for ${route}` }),
+    }
+  }
+
+  try {
+    return await handler(event, buildLambdaContext(route, timeoutMs))
+  } catch (err) {
+    // A lambda that throws makes API Gateway respond with a 502.
+    log.error({ err, route }, 'Handler threw')
+    return { statusCode: 502, body: JSON.stringify({ message: 'Internal server error' }) }
+  }
+}
+
+export const createDevServer = (routes: DevServerRoutes, log: Logger, timeoutMs = DEFAULT_TIMEOUT_MS): http.Server =>
+  http.createServer(async (req, res) => {
+    const chunks: Buffer[] = []
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer)
+    }
+
+    const result = await invokeRoute(
+      routes,
+      {
+        method: req.method ?? 'GET',
+        url: req.url ?? '/',
+        headers: req.headers,
+        body: Buffer.concat(chunks).toString(),
+      },
+      log,
+      timeoutMs
+    )
+
+    res.writeHead(result.statusCode, _.mapValues(result.headers ?? {}, String))
+    res.end(result.isBase64Encoded ? Buffer.from(result.body, 'base64') : result.body)
+  })
@@ -0,0 +1,133 @@
+import Joi from '@hapi/joi'
+import { MetricLoggerUnit } from '@uniswap/smart-order-router'
+import { MetricsLogger } from 'aws-embedded-metrics'
+import { createHash, timingSafeEqual } from 'crypto'
+import { APIGLambdaHandler, ErrorResponse, HandleRequestParams, Response } from '../handler'
+import { ContainerInjected } from '../injector-sor'
+import { CachedRoutesPurgeTarget, DynamoRouteCachingProvider } from '../router-entities/route-caching'
+import { CachedRoutesPurgeRequestInjected } from './injector'
+import {
+  CachedRoutesPurgeRequestBody,
+  CachedRoutesPurgeRequestBodyJoi,
+  CachedRoutesPurgeResponse,
+  CachedRoutesPurgeResponseSchemaJoi,
+  CachedRoutesPurgeTargetJoi,
+} from './schema/cached-routes-purge-schema'
+
+// Compares the secrets in constant time. Their digests are compared rather than the secrets themselves, as
+// timingSafeEqual needs inputs of the same length.
+function isUnicornSecret(secret: string | undefined): boolean {
+  const unicornSecret = process.env.UNICORN_SECRET
+  if (!secret || !unicornSecret) {
+    return false
+  }
+  const digest = (value: string) => createHash('sha256').update(value).digest()
+  return timingSafeEqual(digest(secret), digest(unicornSecret))
+}
+
+/**
+ * Purges cached routes from the RoutesDb, e.g. once a pool is drained or a token exploited, rather than serving them
+ * until they expire. Restricted to IAM principals allowed to invoke the endpoint (see RoutingAPIStack) who also have
+ * the unicorn secret, and every attempt is recorded in an audit log entry.
+ */
+export class CachedRoutesPurgeHandler extends APIGLambdaHandler<
+  ContainerInjected,
+  CachedRoutesPurgeRequestInjected,
+  CachedRoutesPurgeRequestBody,
+  void,
+  CachedRoutesPurgeResponse
+> {
+  public async handleRequest(
+    params: HandleRequestParams<ContainerInjected, CachedRoutesPurgeRequestInjected, CachedRoutesPurgeRequestBody, void>
+  ): Promise<Response<CachedRoutesPurgeResponse> | ErrorResponse> {
+    const {
+      requestBody: { unicornSecret, reason, ...target },
+      requestInjected: { log, metric },
+      containerInjected,
+      event,
+    } = params
+
+    // Logged with every outcome, so that the audit log also records the rejected attempts.
+    const audit = {
+      action: 'PurgeCachedRoutes',
+      target,
+      reason,
+      caller: event.requestContext?.identity?.userArn,
+      sourceIp: event.requestContext?.identity?.sourceIp,
+      userAgent: event.requestContext?.identity?.userAgent,
+    }
+
+    if (!isUnicornSecret(unicornSecret)) {
+      metric.putMetric('CachedRoutesPurgeUnauthorized', 1, MetricLoggerUnit.Count)
+      log.warn({ audit: { ...audit, outcome: 'UNAUTHORIZED' } }, 'Cached routes purge rejected')
+      return {
+        statusCode: 403,
+        errorCode: 'UNAUTHORIZED',
+        detail: 'A valid unicornSecret is required to purge cached routes',
+      }
+    }
+
+    const validation = CachedRoutesPurgeTargetJoi.validate(target)
+    if (validation.error) {
+      return {
+        statusCode: 400,
+        errorCode: 'INVALID_PURGE_TARGET',
+        detail: validation.error.message,
+      }
+    }
+    const purgeTarget: CachedRoutesPurgeTarget = validation.value
+
+    if (target.pairTradeTypeChainId && !target.pairTradeTypeChainId.endsWith(`/${target.chainId}`)) {
+      return {
+        statusCode: 400,
+        errorCode: 'CHAIN_ID_MISMATCH',
+        detail: `pairTradeTypeChainId is not on chain ${target.chainId}`,
+      }
+    }
+
+    const routeCachingProvider = containerInjected.dependencies[target.chainId]?.routeCachingProvider
+    if (!(routeCachingProvider instanceof DynamoRouteCachingProvider)) {
+      return {
+        statusCode: 404,
+        errorCode: 'ROUTES_DB_NOT_FOUND',
+        detail: `Routes are not cached on chain ${target.chainId}`,
+      }
+    }
+
+    try {
+      const result = await routeCachingProvider.purgeCachedRoutes(purgeTarget)
+
+      metric.putMetric('CachedRoutesPurged', result.routesDeleted, MetricLoggerUnit.Count)
+      log.warn({ audit: { ...audit, outcome: 'PURGED', result } }, 'Cached routes purged')
+
+      return {
+        statusCode: 200,
+        body: result,
+      }
+    } catch (error) {
+      metric.putMetric('CachedRoutesPurgeFailed', 1, MetricLoggerUnit.Count)
+      log.error({ error, audit: { ...audit, outcome: 'FAILED' } }, 'Cached routes purge failed')
+      return {
+        statusCode: 500,
+        errorCode: 'PURGE_FAILED',
+        detail: 'Cached routes may have been partially purged, the purge can be retried',
+      }
+    }
+  }
+
+  protected requestBodySchema(): Joi.ObjectSchema | null {
+    return CachedRoutesPurgeRequestBodyJoi
+  }
+
+  protected requestQueryParamsSchema(): Joi.ObjectSchema | null {
+    return null
+  }
+
+  protected responseBodySchema(): Joi.ObjectSchema | null {
+    return CachedRoutesPurgeResponseSchemaJoi
+  }
+
+  protected afterHandler(metric: MetricsLogger, _response: CachedRoutesPurgeResponse, requestStart: number): void {
+    metric.putMetric('POST_CACHED_ROUTES_PURGE_LATENCY', Date.now() - requestStart, MetricLoggerUnit.Milliseconds)
+  }
+}
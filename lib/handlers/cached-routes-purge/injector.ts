@@ -0,0 +1,57 @@
+import { IMetric } from '@uniswap/smart-order-router'
+import { MetricsLogger } from 'aws-embedded-metrics'
+import { APIGatewayProxyEvent, Context } from 'aws-lambda'
+import { default as bunyan, default as Logger } from 'bunyan'
+import { BaseRInj, Injector } from '../handler'
+import { ContainerInjected } from '../injector-sor'
+import { QuoteHandlerInjector } from '../quote/injector'
+import { AWSMetricsLogger } from '../router-entities/aws-metrics-logger'
+import { CachedRoutesPurgeRequestBody } from './schema/cached-routes-purge-schema'
+
+export interface CachedRoutesPurgeRequestInjected extends BaseRInj {
+  metric: IMetric
+}
+
+export class CachedRoutesPurgeHandlerInjector extends Injector<
+  ContainerInjected,
+  CachedRoutesPurgeRequestInjected,
+  CachedRoutesPurgeRequestBody,
+  void
+> {
+  // Purges go through the route caching providers of the quote injector, so that they use the same RoutesDb.
+  public constructor(injectorName: string, private readonly quoteInjectorPromise: Promise<QuoteHandlerInjector>) {
+    super(injectorName)
+  }
+
+  public async buildContainerInjected(): Promise<ContainerInjected> {
+    const quoteInjector = await this.quoteInjectorPromise
+    return quoteInjector.getContainerInjected()
+  }
+
+  public async getRequestInjected(
+    containerInjected: ContainerInjected,
+    _requestBody: CachedRoutesPurgeRequestBody,
+    _requestQueryParams: void,
+    _event: APIGatewayProxyEvent,
+    context: Context,
+    log: Logger,
+    metricsLogger: MetricsLogger
+  ): Promise<CachedRoutesPurgeRequestInjected> {
+    const requestId = context.awsRequestId
+
+    log = log.child({
+      serializers: bunyan.stdSerializers,
+      requestId,
+      activityId: containerInjected.activityId,
+    })
+
+    metricsLogger.setNamespace('Uniswap')
+    metricsLogger.setDimensions({ Service: 'RoutingAPI' })
+
+    return {
+      id: requestId,
+      log,
+      metric: new AWSMetricsLogger(metricsLogger),
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import Joi from '@hapi/joi'
+import { ChainId } from '@uniswap/sdk-core'
+import { SUPPORTED_CHAINS } from '../../injector-sor'
+
+const CHAIN_ID = Joi.number()
+  .valid(...SUPPORTED_CHAINS.values())
+  .required()
+// v4 pools are identified by their 32 bytes pool id.
+const POOL_ADDRESS = Joi.string().pattern(/^0x([a-fA-F0-9]{40}|[a-fA-F0-9]{64})$/)
+const TOKEN_ADDRESS = Joi.string().pattern(/^0x[a-fA-F0-9]{40}$/)
+// As stored in the RoutesDb, e.g. 0xc02a...6cc2/0xa0b8...eb48/0/1
+const PAIR_TRADE_TYPE_CHAIN_ID = Joi.string().pattern(/^0x[a-f0-9]{40}\/0x[a-f0-9]{40}\/[01]\/[0-9]+$/)
+
+// Exactly one of poolAddress, tokenAddress or pairTradeTypeChainId selects the cached routes to purge.
+export const CachedRoutesPurgeRequestBodyJoi = Joi.object({
+  unicornSecret: Joi.string().required(),
+  chainId: CHAIN_ID,
+  poolAddress: POOL_ADDRESS,
+  tokenAddress: TOKEN_ADDRESS,
+  pairTradeTypeChainId: PAIR_TRADE_TYPE_CHAIN_ID,
+  // Why the routes are purged, recorded in the audit log.
+  reason: Joi.string().max(500).required(),
+}).xor('poolAddress', 'tokenAddress', 'pairTradeTypeChainId')
+
+// The cached routes to purge out of the request body, one of the shapes of CachedRoutesPurgeTarget.
+export const CachedRoutesPurgeTargetJoi = Joi.alternatives().try(
+  Joi.object({ chainId: CHAIN_ID, poolAddress: POOL_ADDRESS.required() }),
+  Joi.object({ chainId: CHAIN_ID, tokenAddress: TOKEN_ADDRESS.required() }),
+  Joi.object({ chainId: CHAIN_ID, pairTradeTypeChainId: PAIR_TRADE_TYPE_CHAIN_ID.required() })
+)
+
+export type CachedRoutesPurgeRequestBody = {
+  unicornSecret: string
+  chainId: ChainId
+  poolAddress?: string
+  tokenAddress?: string
+  pairTradeTypeChainId?: string
+  reason: string
+}
+
+export const CachedRoutesPurgeResponseSchemaJoi = Joi.object({
+  pairTradeTypeChainIds: Joi.array().items(Joi.string()).required(),
+  routesDeleted: Joi.number().required(),
+  cachingRequestFlagsDeleted: Joi.number().required(),
+  indexEntriesDeleted: Joi.number().required(),
+})
+
+export type CachedRoutesPurgeResponse = {
+  // The pairs that had routes purged
+  pairTradeTypeChainIds: string[]
+  routesDeleted: number
+  cachingRequestFlagsDeleted: number
+  indexEntriesDeleted: number
+}
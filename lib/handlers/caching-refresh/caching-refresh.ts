@@ -0,0 +1,54 @@
+import { ChainId } from '@uniswap/sdk-core'
+import { ID_TO_NETWORK_NAME, log, metric, MetricLoggerUnit } from '@uniswap/smart-order-router'
+import { APIGatewayProxyEvent, Context, SQSEvent, SQSRecord } from 'aws-lambda'
+import { APIGatewayProxyHandler } from '../handler'
+import { CachingRefreshEvent } from '../router-entities/route-caching'
+
+// Refreshes waiting in the queue for longer than this are dropped, so that a backlog built up during volatility
+// does not keep the consumer busy with refreshes of routes that have been refreshed or expired since.
+const DEFAULT_MAX_REFRESH_AGE_MS = 60_000
+
+/**
+ * Consumes the caching refresh queue fed by the SqsCachingRefreshDispatcher, running the caching quote of each
+ * message through the regular quote handler.
+ *
+ * Failed refreshes are logged and not retried: the next quote for the pair dispatches a new one.
+ */
+export class CachingRefreshHandler {
+  constructor(
+    private readonly quoteHandler: APIGatewayProxyHandler,
+    private readonly maxRefreshAgeMs: number = DEFAULT_MAX_REFRESH_AGE_MS
+  ) {}
+
+  get handler() {
+    return async (event: SQSEvent, context: Context): Promise<void> => {
+      for (const record of event.Records) {
+        await this.refresh(record, context)
+      }
+    }
+  }
+
+  private async refresh(record: SQSRecord, context: Context): Promise<void> {
+    const { queryStringParameters }: CachingRefreshEvent = JSON.parse(record.body)
+
+    const ageMs = Date.now() - parseInt(record.attributes.SentTimestamp)
+    if (ageMs > this.maxRefreshAgeMs) {
+      const chainId: ChainId = parseInt(queryStringParameters.tokenInChainId)
+      metric.putMetric('CachingRefreshStale', 1, MetricLoggerUnit.Count)
+      metric.putMetric(`CachingRefreshStale_${ID_TO_NETWORK_NAME(chainId)}`, 1, MetricLoggerUnit.Count)
+      log.info({ messageId: record.messageId, ageMs }, `[CachingRefreshHandler] Dropped stale caching refresh`)
+      return
+    }
+    try {
+      const result = await this.quoteHandler({ queryStringParameters } as unknown as APIGatewayProxyEvent, context)
+      if (result.statusCode !== 200) {
+        log.warn(
+          { messageId: record.messageId, statusCode: result.statusCode, body: result.body },
+          `[CachingRefreshHandler] Caching refresh failed`
+        )
+      }
+    } catch (error) {
+      log.error({ error, messageId: record.messageId }, `[CachingRefreshHandler] Caching refresh failed`)
+    }
+  }
+}
@@ -1,5 +1,13 @@
+import { CachingRefreshHandler } from './caching-refresh/caching-refresh'
+import { CachedRoutesPurgeHandler } from './cached-routes-purge/cached-routes-purge'
+import { CachedRoutesPurgeHandlerInjector } from './cached-routes-purge/injector'
+import { PriceCheckHandlerInjector } from './price-check/injector'
+import { PriceCheckHandler } from './price-check/price-check'
 import { QuoteHandlerInjector } from './quote/injector'
 import { QuoteHandler } from './quote/quote'
+import { QuoteStreamHandler } from './quote/stream/quote-stream'
+import { QuotesHandlerInjector } from './quotes/injector'
+import { QuotesHandler } from './quotes/quotes'
 import { default as bunyan, default as Logger } from 'bunyan'
 
 const log: Logger = bunyan.createLogger({
@@ -9,9 +17,30 @@ const log: Logger = bunyan.createLogger({
 })
 
 let quoteHandler: QuoteHandler
+let quotesHandler: QuotesHandler
+let quoteStreamHandler: QuoteStreamHandler
+let priceCheckHandler: PriceCheckHandler
+let cachedRoutesPurgeHandler: CachedRoutesPurgeHandler
+let cachingRefreshHandler: CachingRefreshHandler
 try {
   const quoteInjectorPromise = new QuoteHandlerInjector('quoteInjector').build()
   quoteHandler = new QuoteHandler('quote', quoteInjectorPromise)
+
+  const quotesInjectorPromise = new QuotesHandlerInjector('quotesInjector', quoteInjectorPromise).build()
+  quotesHandler = new QuotesHandler('quotes', quotesInjectorPromise, quoteHandler)
+
+  quoteStreamHandler = new QuoteStreamHandler(quoteHandler.handler)
+
+  cachingRefreshHandler = new CachingRefreshHandler(quoteHandler.handler)
+
+  const priceCheckInjectorPromise = new PriceCheckHandlerInjector('priceCheckInjector', quoteInjectorPromise).build()
+  priceCheckHandler = new PriceCheckHandler('price-check', priceCheckInjectorPromise, quoteHandler)
+
+  const cachedRoutesPurgeInjectorPromise = new CachedRoutesPurgeHandlerInjector(
+    'cachedRoutesPurgeInjector',
+    quoteInjectorPromise
+  ).build()
+  cachedRoutesPurgeHandler = new CachedRoutesPurgeHandler('cached-routes-purge', cachedRoutesPurgeInjectorPromise)
 } catch (error) {
   log.fatal({ error }, 'Fatal error')
   throw error
@@ -19,4 +48,9 @@ try {
 
 module.exports = {
   quoteHandler: quoteHandler.handler,
+  quotesHandler: quotesHandler.handler,
+  quoteStreamHandler: quoteStreamHandler.handler,
+  priceCheckHandler: priceCheckHandler.handler,
+  cachedRoutesPurgeHandler: cachedRoutesPurgeHandler.handler,
+  cachingRefreshHandler: cachingRefreshHandler.handler,
 }
@@ -59,6 +59,14 @@ import {
 } from './router-entities/aws-subgraph-provider'
 import { AWSTokenListProvider } from './router-entities/aws-token-list-provider'
 import { DynamoRouteCachingProvider } from './router-entities/route-caching/dynamo-route-caching-provider'
+import {
+  CachingRefreshDispatcher,
+  LambdaCachingRefreshDispatcher,
+  SqsCachingRefreshDispatcher,
+} from './router-entities/route-caching/refresh'
+import { buildCachedRoutesConfiguration } from './router-entities/route-caching/cached-routes-configuration'
+import { routesStoreFromEnv } from './router-entities/route-caching/store'
+import { CachedRoutesEncoding } from './marshalling'
 import { DynamoDBCachingV3PoolProvider } from './pools/pool-caching/v3/dynamo-caching-pool-provider'
 import { TrafficSwitchV3PoolProvider } from './pools/provider-migration/v3/traffic-switch-v3-pool-provider'
 import { DefaultEVMClient } from './evm/EVMClient'
@@ -68,6 +76,7 @@ import { V2DynamoCache } from './pools/pool-caching/v2/v2-dynamo-cache'
 import { OnChainTokenFeeFetcher } from '@uniswap/smart-order-router/build/main/providers/token-fee-fetcher'
 import { PortionProvider } from '@uniswap/smart-order-router/build/main/providers/portion-provider'
 import { GlobalRpcProviders } from '../rpc/GlobalRpcProviders'
+import { prodConfigSourceFromEnv } from '../rpc/ProdConfigSource'
 import { StaticJsonRpcProvider } from '@ethersproject/providers'
 import { TrafficSwitchOnChainQuoteProvider } from './quote/provider-migration/v3/traffic-switch-on-chain-quote-provider'
 import {
@@ -85,6 +94,9 @@ import { UniJsonRpcProvider } from '../rpc/UniJsonRpcProvider'
 import { GraphQLTokenFeeFetcher } from '../graphql/graphql-token-fee-fetcher'
 import { UniGraphQLProvider } from '../graphql/graphql-provider'
 import { TrafficSwitcherITokenFeeFetcher } from '../util/traffic-switch/traffic-switcher-i-token-fee-fetcher'
+import { IBridgeQuoteProvider } from './router-entities/bridge/bridge-quote-provider'
+import { CandidatePoolsRecorder } from './quote/explain/RecordingPoolProviders'
+import { HooksPolicyProvider } from './router-entities/hooks-policy'
 
 export const SUPPORTED_CHAINS: ChainId[] = [
   ChainId.MAINNET,
@@ -113,9 +125,14 @@ export interface RequestInjected<Router> extends BaseRInj {
   v2PoolProvider: IV2PoolProvider
   tokenProvider: ITokenProvider
   tokenListProvider: ITokenListProvider
+  hooksPolicyProvider: HooksPolicyProvider
   router: Router
   quoteSpeed?: string
   intent?: string
+  // Only set for cross chain requests when a bridge is configured.
+  destinationRequestInjected?: RequestInjected<Router>
+  // Only set when explain=true was requested, records the pools loaded by the router.
+  candidatePoolsRecorder?: CandidatePoolsRecorder
 }
 
 export type ContainerDependencies = {
@@ -130,6 +147,10 @@ export type ContainerDependencies = {
   v4PoolProvider: IV4PoolProvider
   v3PoolProvider: IV3PoolProvider
   v2PoolProvider: IV2PoolProvider
+  // The pool providers above without any cache in front, reading pools on chain at the requested block.
+  noCacheV4PoolProvider: IV4PoolProvider
+  noCacheV3PoolProvider: IV3PoolProvider
+  noCacheV2PoolProvider: IV2PoolProvider
   tokenProvider: ITokenProvider
   multicallProvider: UniswapMulticallProvider
   onChainQuoteProvider?: IOnChainQuoteProvider
@@ -138,6 +159,7 @@ export type ContainerDependencies = {
   routeCachingProvider?: IRouteCachingProvider
   tokenValidatorProvider: TokenValidatorProvider
   tokenPropertiesProvider: ITokenPropertiesProvider
+  hooksPolicyProvider: HooksPolicyProvider
   v2Supported: ChainId[]
 }
 
@@ -146,12 +168,13 @@ export interface ContainerInjected {
     [chainId in ChainId]?: ContainerDependencies
   }
   activityId?: string
+  bridgeQuoteProvider?: IBridgeQuoteProvider
 }
 
-export abstract class InjectorSOR<Router, QueryParams> extends Injector<
+export abstract class InjectorSOR<Router, QueryParams, RequestBody = void> extends Injector<
   ContainerInjected,
   RequestInjected<Router>,
-  void,
+  RequestBody,
   QueryParams
 > {
   public async buildContainerInjected(): Promise<ContainerInjected> {
@@ -169,13 +192,22 @@ export abstract class InjectorSOR<Router, QueryParams> extends Injector<
         POOL_CACHE_BUCKET_3,
         POOL_CACHE_GZIP_KEY,
         TOKEN_LIST_CACHE_BUCKET,
-        ROUTES_TABLE_NAME,
-        ROUTES_CACHING_REQUEST_FLAG_TABLE_NAME,
-        CACHED_ROUTES_TABLE_NAME,
+        ROUTES_DB_ENCODING,
         AWS_LAMBDA_FUNCTION_NAME,
         V2_PAIRS_CACHE_TABLE_NAME,
+        CACHING_REFRESH_QUEUE_URL,
       } = process.env
 
+      // Refreshes sent to the queue are deduplicated across all lambdas, and run one at a time per chain by its consumer.
+      // Without a queue, e.g. locally, every refresh invokes this lambda.
+      const cachingRefreshDispatcher: CachingRefreshDispatcher =
+        CACHING_REFRESH_QUEUE_URL && CACHING_REFRESH_QUEUE_URL !== ''
+          ? new SqsCachingRefreshDispatcher(CACHING_REFRESH_QUEUE_URL)
+          : new LambdaCachingRefreshDispatcher(AWS_LAMBDA_FUNCTION_NAME!)
+      const cachedRoutesConfiguration = buildCachedRoutesConfiguration()
+      const routesStore = routesStoreFromEnv()
+      GlobalRpcProviders.pollProdConfigFrom(prodConfigSourceFromEnv())
+
       const dependenciesByChain: {
         [chainId in ChainId]?: ContainerDependencies
       } = {}
@@ -235,9 +267,10 @@ export abstract class InjectorSOR<Router, QueryParams> extends Injector<
           // We didn't switch caching from in-memory to dynamo for V3, and we haven't seen perf degradation
           // We switched caching from in-memory to dynamo for V2, and we haven't seen perf improvement
           // V2 has a lot more pools than V3, so for V4 we don't need to pre-emptively switch to dynamo
+          const noCacheV4PoolProvider = new V4PoolProvider(chainId, multicall2Provider)
           const v4PoolProvider = new CachingV4PoolProvider(
             chainId,
-            new V4PoolProvider(chainId, multicall2Provider),
+            noCacheV4PoolProvider,
             new NodeJSCache(new NodeCache({ stdTTL: 180, useClones: false }))
           )
 
@@ -447,12 +480,19 @@ export abstract class InjectorSOR<Router, QueryParams> extends Injector<
             ethEstimateGasSimulator
           )
 
+          const hooksPolicyProvider = HooksPolicyProvider.fromList(chainId)
+
           let routeCachingProvider: IRouteCachingProvider | undefined = undefined
-          if (CACHED_ROUTES_TABLE_NAME && CACHED_ROUTES_TABLE_NAME !== '') {
+          if (routesStore) {
             routeCachingProvider = new DynamoRouteCachingProvider({
-              routesTableName: ROUTES_TABLE_NAME!,
-              routesCachingRequestFlagTableName: ROUTES_CACHING_REQUEST_FLAG_TABLE_NAME!,
-              cachingQuoteLambdaName: AWS_LAMBDA_FUNCTION_NAME!,
+              routesStore,
+              routesDbEncoding:
+                ROUTES_DB_ENCODING === CachedRoutesEncoding.BINARY
+                  ? CachedRoutesEncoding.BINARY
+                  : CachedRoutesEncoding.JSON,
+              cachingRefreshDispatcher,
+              cachedRoutesConfiguration,
+              hooksPolicyProvider,
             })
           }
 
@@ -493,12 +533,16 @@ export abstract class InjectorSOR<Router, QueryParams> extends Injector<
               v4PoolProvider,
               v3PoolProvider,
               v2PoolProvider,
+              noCacheV4PoolProvider,
+              noCacheV3PoolProvider,
+              noCacheV2PoolProvider: underlyingV2PoolProvider,
               v2QuoteProvider: new V2QuoteProvider(),
               v2SubgraphProvider,
               simulator,
               routeCachingProvider,
               tokenValidatorProvider,
               tokenPropertiesProvider,
+              hooksPolicyProvider,
               v2Supported,
               v4Supported,
             },
@@ -513,6 +557,7 @@ export abstract class InjectorSOR<Router, QueryParams> extends Injector<
       return {
         dependencies: dependenciesByChain,
         activityId: activityId,
+        bridgeQuoteProvider: this.buildBridgeQuoteProvider(),
       }
     } catch (err) {
       log.fatal({ err }, `Fatal: Failed to build container`)
@@ -520,6 +565,12 @@ export abstract class InjectorSOR<Router, QueryParams> extends Injector<
     }
   }
 
+  // No bridge is configured by default, which means cross chain quotes are rejected.
+  // Override to plug in an IBridgeQuoteProvider and enable them.
+  protected buildBridgeQuoteProvider(): IBridgeQuoteProvider | undefined {
+    return undefined
+  }
+
   private async instantiateSubgraphProvider(
     chainId: ChainId,
     protocol: Protocol,
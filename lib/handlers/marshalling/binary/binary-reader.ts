@@ -0,0 +1,79 @@
+import { Currency } from '@uniswap/sdk-core'
+import { utils } from 'ethers'
+import JSBI from 'jsbi'
+import { Pool as V3Pool } from '@uniswap/v3-sdk'
+import { Pool as V4Pool } from '@uniswap/v4-sdk'
+import { Pair } from '@uniswap/v2-sdk'
+
+/**
+ * Reads back the fields written by a BinaryWriter, in the same order.
+ * Keeps the currencies and pools read so far, in the order they were interned by the writer.
+ * Pools are only interned by writers from version 2 of the encoding.
+ */
+export class BinaryReader {
+  private offset: number = 0
+  public readonly currencies: Currency[] = []
+  public readonly pools: (V3Pool | V4Pool | Pair)[] = []
+
+  constructor(private readonly buffer: Buffer, public readonly internsPools: boolean = true) {}
+
+  public readUint8(): number {
+    this.ensure(1)
+    return this.buffer[this.offset++]
+  }
+
+  public readVarUint(): number {
+    let value = 0
+    let multiplier = 1
+    let byte: number
+    do {
+      byte = this.readUint8()
+      value += (byte & 0x7f) * multiplier
+      multiplier *= 0x80
+    } while (byte & 0x80)
+    return value
+  }
+
+  public readVarInt(): number {
+    const value = this.readVarUint()
+    return value % 2 ? -(value + 1) / 2 : value / 2
+  }
+
+  public readFloat64(): number {
+    this.ensure(8)
+    const value = this.buffer.readDoubleLE(this.offset)
+    this.offset += 8
+    return value
+  }
+
+  public readBytes(): Buffer {
+    const length = this.readVarUint()
+    this.ensure(length)
+    const bytes = this.buffer.subarray(this.offset, this.offset + length)
+    this.offset += length
+    return bytes
+  }
+
+  public readString(): string {
+    return this.readBytes().toString('utf8')
+  }
+
+  // Checksummed, as token addresses are in token lists.
+  public readAddress(): string {
+    this.ensure(20)
+    const address = utils.getAddress(`0x${this.buffer.toString('hex', this.offset, this.offset + 20)}`)
+    this.offset += 20
+    return address
+  }
+
+  public readBigUint(): JSBI {
+    const bytes = this.readBytes()
+    return JSBI.BigInt(bytes.length === 0 ? 0 : `0x${bytes.toString('hex')}`)
+  }
+
+  private ensure(length: number): void {
+    if (this.offset + length > this.buffer.length) {
+      throw new Error(`Unexpected end of buffer reading ${length} bytes at ${this.offset}`)
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import JSBI from 'jsbi'
+
+const INITIAL_SIZE = 512
+
+/**
+ * Writes the fields of a binary encoding one after the other, growing its buffer as needed.
+ * Currencies and pools are interned: the writer keeps the index of every currency written so far, by address,
+ * and of every pool, by its marshalled form.
+ */
+export class BinaryWriter {
+  private buffer: Buffer = Buffer.allocUnsafe(INITIAL_SIZE)
+  private offset: number = 0
+  public readonly currencies: Map<string, number> = new Map()
+  public readonly pools: Map<string, number> = new Map()
+
+  public writeUint8(value: number): void {
+    this.ensure(1)
+    this.buffer[this.offset++] = value
+  }
+
+  // Unsigned integers up to Number.MAX_SAFE_INTEGER, 7 bits per byte.
+  public writeVarUint(value: number): void {
+    if (!Number.isSafeInteger(value) || value < 0) {
+      throw new Error(`Can not encode ${value} as an unsigned integer`)
+    }
+    this.ensure(8)
+    while (value >= 0x80) {
+      this.buffer[this.offset++] = value % 0x80 | 0x80
+      value = Math.floor(value / 0x80)
+    }
+    this.buffer[this.offset++] = value
+  }
+
+  // Signed integers, zigzag encoded so that small negative numbers such as ticks stay small.
+  public writeVarInt(value: number): void {
+    this.writeVarUint(value < 0 ? -value * 2 - 1 : value * 2)
+  }
+
+  public writeFloat64(value: number): void {
+    this.ensure(8)
+    this.offset = this.buffer.writeDoubleLE(value, this.offset)
+  }
+
+  public writeBytes(bytes: Buffer): void {
+    this.writeVarUint(bytes.length)
+    this.ensure(bytes.length)
+    this.offset += bytes.copy(this.buffer, this.offset)
+  }
+
+  public writeString(value: string): void {
+    this.writeBytes(Buffer.from(value, 'utf8'))
+  }
+
+  // 20 bytes, without the length prefix.
+  public writeAddress(address: string): void {
+    const bytes = Buffer.from(address.slice(2), 'hex')
+    if (bytes.length !== 20) {
+      throw new Error(`Can not encode ${address} as an address`)
+    }
+    this.ensure(20)
+    this.offset += bytes.copy(this.buffer, this.offset)
+  }
+
+  // Unsigned integers of any size, e.g. liquidity or sqrtRatioX96, big endian.
+  public writeBigUint(value: JSBI): void {
+    const hex = value.toString(16)
+    this.writeBytes(Buffer.from(hex.length % 2 ? `0${hex}` : hex, 'hex'))
+  }
+
+  public toBuffer(): Buffer {
+    return this.buffer.subarray(0, this.offset)
+  }
+
+  private ensure(length: number): void {
+    if (this.offset + length > this.buffer.length) {
+      const buffer = Buffer.allocUnsafe(Math.max(this.buffer.length * 2, this.offset + length))
+      this.buffer.copy(buffer, 0, 0, this.offset)
+      this.buffer = buffer
+    }
+  }
+}
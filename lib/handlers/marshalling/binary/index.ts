@@ -0,0 +1,3 @@
+export * from './binary-reader'
+export * from './binary-writer'
+export * from './protocols'
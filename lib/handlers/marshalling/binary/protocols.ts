@@ -0,0 +1,22 @@
+import { Protocol } from '@uniswap/router-sdk'
+import { BinaryReader } from './binary-reader'
+import { BinaryWriter } from './binary-writer'
+
+// Protocols are encoded as their index in this list, new protocols must be appended.
+const ENCODED_PROTOCOLS: Protocol[] = [Protocol.V2, Protocol.V3, Protocol.V4, Protocol.MIXED]
+
+export const writeProtocol = (writer: BinaryWriter, protocol: Protocol): void => {
+  const code = ENCODED_PROTOCOLS.indexOf(protocol)
+  if (code < 0) {
+    throw new Error(`Unsupported protocol ${protocol}`)
+  }
+  writer.writeUint8(code)
+}
+
+export const readProtocol = (reader: BinaryReader): Protocol => {
+  const code = reader.readUint8()
+  if (code >= ENCODED_PROTOCOLS.length) {
+    throw new Error(`Unsupported protocol code ${code}`)
+  }
+  return ENCODED_PROTOCOLS[code]
+}
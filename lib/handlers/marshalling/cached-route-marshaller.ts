@@ -1,5 +1,6 @@
 import { CachedRoute, SupportedRoutes } from '@uniswap/smart-order-router'
 import { MarshalledRoute, RouteMarshaller } from './route-marshaller'
+import { BinaryReader, BinaryWriter } from './binary'
 
 export interface MarshalledCachedRoute {
   route: MarshalledRoute
@@ -20,4 +21,15 @@ export class CachedRouteMarshaller {
       percent: marshalledCachedRoute.percent,
     })
   }
+
+  public static encode(cachedRoute: CachedRoute<SupportedRoutes>, writer: BinaryWriter): void {
+    RouteMarshaller.encode(cachedRoute.route, writer)
+    writer.writeFloat64(cachedRoute.percent)
+  }
+
+  public static decode(reader: BinaryReader): CachedRoute<SupportedRoutes> {
+    const route = RouteMarshaller.decode(reader)
+    const percent = reader.readFloat64()
+    return new CachedRoute<SupportedRoutes>({ route, percent })
+  }
 }
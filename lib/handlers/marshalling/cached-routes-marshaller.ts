@@ -3,6 +3,7 @@ import { ChainId, TradeType } from '@uniswap/sdk-core'
 import { Protocol } from '@uniswap/router-sdk'
 import { MarshalledCurrency, TokenMarshaller } from './token-marshaller'
 import { CachedRouteMarshaller, MarshalledCachedRoute } from './cached-route-marshaller'
+import { BinaryReader, BinaryWriter, readProtocol, writeProtocol } from './binary'
 
 export interface MarshalledCachedRoutes {
   routes: MarshalledCachedRoute[]
@@ -16,6 +17,22 @@ export interface MarshalledCachedRoutes {
   blocksToLive: number
 }
 
+/**
+ * How CachedRoutes are serialized into the items of the RoutesDb.
+ */
+export enum CachedRoutesEncoding {
+  // The MarshalledCachedRoutes as JSON, which every version of the RoutesDb reads.
+  JSON = 'json',
+  // The compact binary encoding, with currencies and pools interned.
+  BINARY = 'binary',
+}
+
+// JSON items start with the '{' of the MarshalledCachedRoutes object, binary items with their version.
+// Version 1 only interned currencies, version 2 interns pools too. Both are read, only version 2 is written.
+const JSON_FIRST_BYTE = 0x7b
+const BINARY_VERSION_1 = 0x01
+const BINARY_VERSION_2 = 0x02
+
 export class CachedRoutesMarshaller {
   public static marshal(cachedRoutes: CachedRoutes): MarshalledCachedRoutes {
     return {
@@ -44,4 +61,79 @@ export class CachedRoutesMarshaller {
       blocksToLive: marshalledCachedRoutes.blocksToLive,
     })
   }
+
+  public static encode(cachedRoutes: CachedRoutes, writer: BinaryWriter): void {
+    writer.writeVarUint(cachedRoutes.chainId)
+    TokenMarshaller.encode(cachedRoutes.currencyIn, writer)
+    TokenMarshaller.encode(cachedRoutes.currencyOut, writer)
+    writer.writeVarUint(cachedRoutes.protocolsCovered.length)
+    cachedRoutes.protocolsCovered.forEach((protocol) => writeProtocol(writer, protocol))
+    writer.writeVarUint(cachedRoutes.blockNumber)
+    writer.writeUint8(cachedRoutes.tradeType)
+    writer.writeString(cachedRoutes.originalAmount)
+    writer.writeVarUint(cachedRoutes.blocksToLive)
+    writer.writeVarUint(cachedRoutes.routes.length)
+    cachedRoutes.routes.forEach((route) => CachedRouteMarshaller.encode(route, writer))
+  }
+
+  public static decode(reader: BinaryReader): CachedRoutes {
+    const chainId = reader.readVarUint()
+    const currencyIn = TokenMarshaller.decode(reader)
+    const currencyOut = TokenMarshaller.decode(reader)
+    const protocolsCovered = Array.from({ length: reader.readVarUint() }, () => readProtocol(reader))
+    const blockNumber = reader.readVarUint()
+    const tradeType = reader.readUint8()
+    const originalAmount = reader.readString()
+    const blocksToLive = reader.readVarUint()
+    const routes = Array.from({ length: reader.readVarUint() }, () => CachedRouteMarshaller.decode(reader))
+
+    return new CachedRoutes({
+      routes,
+      chainId,
+      currencyIn,
+      currencyOut,
+      protocolsCovered,
+      blockNumber,
+      tradeType,
+      originalAmount,
+      blocksToLive,
+    })
+  }
+
+  /**
+   * Serializes the CachedRoutes into an item of the RoutesDb.
+   *
+   * @param cachedRoutes
+   * @param encoding
+   */
+  public static serialize(cachedRoutes: CachedRoutes, encoding: CachedRoutesEncoding): Buffer {
+    switch (encoding) {
+      case CachedRoutesEncoding.JSON:
+        return Buffer.from(JSON.stringify(CachedRoutesMarshaller.marshal(cachedRoutes)))
+      case CachedRoutesEncoding.BINARY:
+        const writer = new BinaryWriter()
+        writer.writeUint8(BINARY_VERSION_2)
+        CachedRoutesMarshaller.encode(cachedRoutes, writer)
+        return writer.toBuffer()
+    }
+  }
+
+  /**
+   * Deserializes an item of the RoutesDb, whichever encoding it was serialized with.
+   *
+   * @param item
+   */
+  public static deserialize(item: Buffer): CachedRoutes {
+    switch (item[0]) {
+      case JSON_FIRST_BYTE:
+        return CachedRoutesMarshaller.unmarshal(JSON.parse(item.toString()))
+      case BINARY_VERSION_1:
+      case BINARY_VERSION_2:
+        const reader = new BinaryReader(item, item[0] >= BINARY_VERSION_2)
+        reader.readUint8()
+        return CachedRoutesMarshaller.decode(reader)
+      default:
+        throw new Error(`Unsupported RoutesDb item version ${item[0]}`)
+    }
+  }
 }
@@ -1,5 +1,6 @@
 import { Currency, CurrencyAmount } from '@uniswap/sdk-core'
 import { MarshalledCurrency, TokenMarshaller } from './token-marshaller'
+import { BinaryReader, BinaryWriter } from './binary'
 
 export interface MarshalledCurrencyAmount {
   currency: MarshalledCurrency
@@ -23,4 +24,17 @@ export class CurrencyAmountMarshaller {
       marshalledCurrencyAmount.denominator
     )
   }
+
+  public static encode(currencyAmount: CurrencyAmount<Currency>, writer: BinaryWriter): void {
+    TokenMarshaller.encode(currencyAmount.currency, writer)
+    writer.writeBigUint(currencyAmount.numerator)
+    writer.writeBigUint(currencyAmount.denominator)
+  }
+
+  public static decode(reader: BinaryReader): CurrencyAmount<Currency> {
+    const currency = TokenMarshaller.decode(reader)
+    const numerator = reader.readBigUint()
+    const denominator = reader.readBigUint()
+    return CurrencyAmount.fromFractionalAmount<Currency>(currency, numerator, denominator)
+  }
 }
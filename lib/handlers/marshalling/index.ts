@@ -1,7 +1,9 @@
+export * from './binary'
 export * from './cached-route-marshaller'
 export * from './cached-routes-marshaller'
 export * from './currency-amount-marshaller'
 export * from './pair-marshaller'
 export * from './v3/pool-marshaller'
+export { MarshalledPool as V4MarshalledPool, PoolMarshaller as V4PoolMarshaller } from './v4/pool-marshaller'
 export * from './route-marshaller'
 export * from './token-marshaller'
@@ -1,6 +1,7 @@
 import { Pair } from '@uniswap/v2-sdk'
 import { CurrencyAmountMarshaller, MarshalledCurrencyAmount } from './currency-amount-marshaller'
 import { Protocol } from '@uniswap/router-sdk'
+import { BinaryReader, BinaryWriter } from './binary'
 
 export interface MarshalledPair {
   protocol: Protocol
@@ -23,4 +24,15 @@ export class PairMarshaller {
       CurrencyAmountMarshaller.unmarshal(marshalledPair.tokenAmountB).wrapped
     )
   }
+
+  public static encode(pair: Pair, writer: BinaryWriter): void {
+    CurrencyAmountMarshaller.encode(pair.reserve0, writer)
+    CurrencyAmountMarshaller.encode(pair.reserve1, writer)
+  }
+
+  public static decode(reader: BinaryReader): Pair {
+    const reserve0 = CurrencyAmountMarshaller.decode(reader).wrapped
+    const reserve1 = CurrencyAmountMarshaller.decode(reader).wrapped
+    return new Pair(reserve0, reserve1)
+  }
 }
@@ -8,6 +8,7 @@ import { Pool as V3Pool } from '@uniswap/v3-sdk'
 import { Pool as V4Pool } from '@uniswap/v4-sdk'
 import { SupportedRoutes } from '@uniswap/smart-order-router'
 import { Pair } from '@uniswap/v2-sdk'
+import { BinaryReader, BinaryWriter, readProtocol, writeProtocol } from './binary'
 
 export interface MarshalledV2Route {
   protocol: Protocol
@@ -37,7 +38,7 @@ export interface MarshalledMixedRoute {
   pools: (V4MarshalledPool | V3MarshalledPool | MarshalledPair)[]
 }
 
-export type MarshalledRoute = MarshalledV2Route | MarshalledV3Route | MarshalledMixedRoute
+export type MarshalledRoute = MarshalledV2Route | MarshalledV3Route | MarshalledV4Route | MarshalledMixedRoute
 
 export class RouteMarshaller {
   public static marshal(route: SupportedRoutes): MarshalledRoute {
@@ -130,4 +131,167 @@ export class RouteMarshaller {
         )
     }
   }
+
+  public static encode(route: SupportedRoutes, writer: BinaryWriter): void {
+    writeProtocol(writer, route.protocol)
+    TokenMarshaller.encode(route.input, writer)
+    TokenMarshaller.encode(route.output, writer)
+
+    switch (route.protocol) {
+      case Protocol.V2:
+        writer.writeVarUint(route.pairs.length)
+        route.pairs.forEach((pair) =>
+          RouteMarshaller.encodeInterned(PairMarshaller.marshal(pair), writer, () =>
+            PairMarshaller.encode(pair, writer)
+          )
+        )
+        break
+      case Protocol.V3:
+        writer.writeVarUint(route.pools.length)
+        route.pools.forEach((pool) =>
+          RouteMarshaller.encodeInterned(V3PoolMarshaller.marshal(pool), writer, () =>
+            V3PoolMarshaller.encode(pool, writer)
+          )
+        )
+        break
+      case Protocol.V4:
+        writer.writeVarUint(route.pools.length)
+        route.pools.forEach((pool) =>
+          RouteMarshaller.encodeInterned(V4PoolMarshaller.marshal(pool), writer, () =>
+            V4PoolMarshaller.encode(pool, writer)
+          )
+        )
+        break
+      case Protocol.MIXED:
+        // Every pool is preceded by its protocol, unless it is a reference to a pool already written
+        writer.writeVarUint(route.pools.length)
+        route.pools.forEach((tpool) => {
+          if (tpool instanceof V3Pool) {
+            RouteMarshaller.encodeInterned(V3PoolMarshaller.marshal(tpool), writer, () => {
+              writeProtocol(writer, Protocol.V3)
+              V3PoolMarshaller.encode(tpool, writer)
+            })
+          } else if (tpool instanceof V4Pool) {
+            RouteMarshaller.encodeInterned(V4PoolMarshaller.marshal(tpool), writer, () => {
+              writeProtocol(writer, Protocol.V4)
+              V4PoolMarshaller.encode(tpool, writer)
+            })
+          } else if (tpool instanceof Pair) {
+            RouteMarshaller.encodeInterned(PairMarshaller.marshal(tpool), writer, () => {
+              writeProtocol(writer, Protocol.V2)
+              PairMarshaller.encode(tpool, writer)
+            })
+          } else {
+            throw new Error(`Unsupported pool type ${JSON.stringify(tpool)}`)
+          }
+        })
+        break
+      default:
+        throw new Error(`Unsupported protocol ${JSON.stringify(route)}`)
+    }
+  }
+
+  public static decode(reader: BinaryReader): SupportedRoutes {
+    const protocol = readProtocol(reader)
+    const input = TokenMarshaller.decode(reader)
+    const output = TokenMarshaller.decode(reader)
+    const poolsLength = reader.readVarUint()
+
+    switch (protocol) {
+      case Protocol.V2:
+        return new V2Route(
+          RouteMarshaller.decodeTimes(poolsLength, () =>
+            RouteMarshaller.decodeInterned(reader, () => PairMarshaller.decode(reader))
+          ),
+          input.wrapped,
+          output.wrapped
+        )
+      case Protocol.V3:
+        return new V3Route(
+          RouteMarshaller.decodeTimes(poolsLength, () =>
+            RouteMarshaller.decodeInterned(reader, () => V3PoolMarshaller.decode(reader))
+          ),
+          input.wrapped,
+          output.wrapped
+        )
+      case Protocol.V4:
+        return new V4Route(
+          RouteMarshaller.decodeTimes(poolsLength, () =>
+            RouteMarshaller.decodeInterned(reader, () => V4PoolMarshaller.decode(reader))
+          ),
+          input,
+          output
+        )
+      case Protocol.MIXED:
+        const tpools = RouteMarshaller.decodeTimes(poolsLength, () =>
+          RouteMarshaller.decodeInterned<V3Pool | V4Pool | Pair>(reader, () => {
+            const poolProtocol = readProtocol(reader)
+            switch (poolProtocol) {
+              case Protocol.V2:
+                return PairMarshaller.decode(reader)
+              case Protocol.V3:
+                return V3PoolMarshaller.decode(reader)
+              case Protocol.V4:
+                return V4PoolMarshaller.decode(reader)
+              default:
+                throw new Error(`Unsupported protocol ${poolProtocol}`)
+            }
+          })
+        )
+
+        return new MixedRoute(tpools, input, output)
+    }
+  }
+
+  /**
+   * Writes the pool the first time it is encoded by the writer, and only a reference to it afterwards.
+   * Routes of a split often share pools, which are then decoded once per item.
+   *
+   * @param marshalledPool identifies the pool
+   * @param writer
+   * @param encode writes the pool
+   */
+  private static encodeInterned(
+    marshalledPool: MarshalledPair | V3MarshalledPool | V4MarshalledPool,
+    writer: BinaryWriter,
+    encode: () => void
+  ): void {
+    const key = JSON.stringify(marshalledPool)
+    const index = writer.pools.get(key)
+    if (index !== undefined) {
+      writer.writeVarUint(index + 1)
+      return
+    }
+
+    writer.pools.set(key, writer.pools.size)
+    writer.writeVarUint(0)
+    encode()
+  }
+
+  private static decodeInterned<T extends V3Pool | V4Pool | Pair>(reader: BinaryReader, decode: () => T): T {
+    if (!reader.internsPools) {
+      return decode()
+    }
+
+    const reference = reader.readVarUint()
+    if (reference > 0) {
+      const pool = reader.pools[reference - 1]
+      if (!pool) {
+        throw new Error(`Unknown pool reference ${reference}`)
+      }
+      return pool as T
+    }
+
+    const pool = decode()
+    reader.pools.push(pool)
+    return pool
+  }
+
+  private static decodeTimes<T>(times: number, decode: () => T): T[] {
+    const decoded: T[] = []
+    for (let i = 0; i < times; i++) {
+      decoded.push(decode())
+    }
+    return decoded
+  }
 }
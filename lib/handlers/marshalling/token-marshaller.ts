@@ -1,7 +1,9 @@
 import { Currency, Token } from '@uniswap/sdk-core'
 import { BigNumber } from 'ethers'
+import JSBI from 'jsbi'
 import { getAddress, nativeOnChain } from '@uniswap/smart-order-router'
 import { isNativeCurrency } from '@uniswap/universal-router-sdk'
+import { BinaryReader, BinaryWriter } from './binary'
 
 export interface MarshalledCurrency {
   chainId: number
@@ -13,6 +15,14 @@ export interface MarshalledCurrency {
   sellFeeBps?: string
 }
 
+// Which of the optional fields of a MarshalledCurrency follow it in the binary encoding.
+enum EncodedCurrencyFields {
+  Symbol = 1,
+  Name = 2,
+  BuyFeeBps = 4,
+  SellFeeBps = 8,
+}
+
 export class TokenMarshaller {
   public static marshal(currency: Currency): MarshalledCurrency {
     return {
@@ -40,4 +50,74 @@ export class TokenMarshaller {
           marshalledCurrency.sellFeeBps ? BigNumber.from(marshalledCurrency.sellFeeBps) : undefined
         )
   }
+
+  /**
+   * Writes the currency the first time it is encoded by the writer, and only a reference to it afterwards.
+   *
+   * @param currency
+   * @param writer
+   */
+  public static encode(currency: Currency, writer: BinaryWriter): void {
+    const marshalledCurrency = TokenMarshaller.marshal(currency)
+    const key = marshalledCurrency.address.toLowerCase()
+    const index = writer.currencies.get(key)
+    if (index !== undefined) {
+      writer.writeVarUint(index + 1)
+      return
+    }
+
+    writer.currencies.set(key, writer.currencies.size)
+    writer.writeVarUint(0)
+    writer.writeVarUint(marshalledCurrency.chainId)
+    writer.writeAddress(marshalledCurrency.address)
+    writer.writeUint8(marshalledCurrency.decimals)
+
+    const { symbol, name, buyFeeBps, sellFeeBps } = marshalledCurrency
+    writer.writeUint8(
+      (symbol !== undefined ? EncodedCurrencyFields.Symbol : 0) |
+        (name !== undefined ? EncodedCurrencyFields.Name : 0) |
+        (buyFeeBps !== undefined ? EncodedCurrencyFields.BuyFeeBps : 0) |
+        (sellFeeBps !== undefined ? EncodedCurrencyFields.SellFeeBps : 0)
+    )
+    if (symbol !== undefined) {
+      writer.writeString(symbol)
+    }
+    if (name !== undefined) {
+      writer.writeString(name)
+    }
+    if (buyFeeBps !== undefined) {
+      writer.writeBigUint(JSBI.BigInt(buyFeeBps))
+    }
+    if (sellFeeBps !== undefined) {
+      writer.writeBigUint(JSBI.BigInt(sellFeeBps))
+    }
+  }
+
+  public static decode(reader: BinaryReader): Currency {
+    const reference = reader.readVarUint()
+    if (reference > 0) {
+      const currency = reader.currencies[reference - 1]
+      if (!currency) {
+        throw new Error(`Unknown currency reference ${reference}`)
+      }
+      return currency
+    }
+
+    const chainId = reader.readVarUint()
+    const address = reader.readAddress()
+    const decimals = reader.readUint8()
+    const fields = reader.readUint8()
+    const currency = TokenMarshaller.unmarshal({
+      chainId,
+      address,
+      decimals,
+      symbol: fields & EncodedCurrencyFields.Symbol ? reader.readString() : undefined,
+      name: fields & EncodedCurrencyFields.Name ? reader.readString() : undefined,
+      buyFeeBps: fields & EncodedCurrencyFields.BuyFeeBps ? reader.readBigUint().toString() : undefined,
+      sellFeeBps: fields & EncodedCurrencyFields.SellFeeBps ? reader.readBigUint().toString() : undefined,
+    })
+
+    reader.currencies.push(currency)
+    return currency
+  }
 }
@@ -2,6 +2,7 @@ import { Pool } from '@uniswap/v3-sdk'
 import { FeeAmount } from '@uniswap/v3-sdk/dist/constants'
 import { MarshalledCurrency, TokenMarshaller } from '../token-marshaller'
 import { Protocol } from '@uniswap/router-sdk'
+import { BinaryReader, BinaryWriter } from '../binary'
 
 export interface MarshalledPool {
   protocol: Protocol
@@ -36,4 +37,23 @@ export class PoolMarshaller {
       marshalledPool.tickCurrent
     )
   }
+
+  public static encode(pool: Pool, writer: BinaryWriter): void {
+    TokenMarshaller.encode(pool.token0, writer)
+    TokenMarshaller.encode(pool.token1, writer)
+    writer.writeVarUint(pool.fee)
+    writer.writeBigUint(pool.sqrtRatioX96)
+    writer.writeBigUint(pool.liquidity)
+    writer.writeVarInt(pool.tickCurrent)
+  }
+
+  public static decode(reader: BinaryReader): Pool {
+    const token0 = TokenMarshaller.decode(reader).wrapped
+    const token1 = TokenMarshaller.decode(reader).wrapped
+    const fee = reader.readVarUint()
+    const sqrtRatioX96 = reader.readBigUint()
+    const liquidity = reader.readBigUint()
+    const tickCurrent = reader.readVarInt()
+    return new Pool(token0, token1, fee, sqrtRatioX96, liquidity, tickCurrent)
+  }
 }
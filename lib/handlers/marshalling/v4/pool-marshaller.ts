@@ -1,13 +1,14 @@
 import { Pool } from '@uniswap/v4-sdk'
-import { FeeAmount } from '@uniswap/v3-sdk/dist/constants'
 import { MarshalledCurrency, TokenMarshaller } from '../token-marshaller'
 import { Protocol } from '@uniswap/router-sdk'
+import { BinaryReader, BinaryWriter } from '../binary'
 
 export interface MarshalledPool {
   protocol: Protocol
   token0: MarshalledCurrency
   token1: MarshalledCurrency
-  fee: FeeAmount
+  // Any fee in hundredths of a bip, or DYNAMIC_FEE_FLAG for pools whose hooks set the fee of every swap.
+  fee: number
   tickSpacing: number
   hooks: string
   sqrtRatioX96: string
@@ -42,4 +43,27 @@ export class PoolMarshaller {
       marshalledPool.tickCurrent
     )
   }
+
+  public static encode(pool: Pool, writer: BinaryWriter): void {
+    TokenMarshaller.encode(pool.token0, writer)
+    TokenMarshaller.encode(pool.token1, writer)
+    writer.writeVarUint(pool.fee)
+    writer.writeVarInt(pool.tickSpacing)
+    writer.writeAddress(pool.hooks)
+    writer.writeBigUint(pool.sqrtRatioX96)
+    writer.writeBigUint(pool.liquidity)
+    writer.writeVarInt(pool.tickCurrent)
+  }
+
+  public static decode(reader: BinaryReader): Pool {
+    const currency0 = TokenMarshaller.decode(reader)
+    const currency1 = TokenMarshaller.decode(reader)
+    const fee = reader.readVarUint()
+    const tickSpacing = reader.readVarInt()
+    const hooks = reader.readAddress()
+    const sqrtRatioX96 = reader.readBigUint()
+    const liquidity = reader.readBigUint()
+    const tickCurrent = reader.readVarInt()
+    return new Pool(currency0, currency1, fee, tickSpacing, hooks, sqrtRatioX96, liquidity, tickCurrent)
+  }
 }
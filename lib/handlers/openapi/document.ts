@@ -0,0 +1,154 @@
+import Joi from '@hapi/joi'
+import _ from 'lodash'
+import { PriceCheckQueryParamsJoi, PriceCheckResponseSchemaJoi } from '../price-check/schema/price-check-schema'
+import { QuoteQueryParamsJoi, QuoteRequestBodyJoi } from '../quote/schema/quote-schema'
+import { QuotesRequestBodyJoi, QuotesResponseSchemaJoi } from '../quotes/schema/quotes-schema'
+import {
+  QuoteResponseSchemaJoi,
+  TokenInRouteSchemaJoi,
+  V2PoolInRouteSchemaJoi,
+  V3PoolInRouteSchemaJoi,
+  V4PoolInRouteSchemaJoi,
+} from '../schema'
+import { componentRef, joiToJsonSchema, JsonSchema } from './util/joi-to-json-schema'
+
+export type OpenApiDocument = {
+  openapi: string
+  info: { title: string; version: string; description?: string }
+  paths: { [path: string]: { [method: string]: JsonSchema } }
+  components: { schemas: { [name: string]: JsonSchema } }
+}
+
+// Schemas referenced wherever they are nested in another schema of the document.
+const COMPONENT_SCHEMAS: { [name: string]: Joi.ObjectSchema } = {
+  QuoteResponse: QuoteResponseSchemaJoi,
+  QuoteRequestBody: QuoteRequestBodyJoi,
+  QuotesRequestBody: QuotesRequestBodyJoi,
+  QuotesResponse: QuotesResponseSchemaJoi,
+  PriceCheckResponse: PriceCheckResponseSchemaJoi,
+  TokenInRoute: TokenInRouteSchemaJoi,
+  V2PoolInRoute: V2PoolInRouteSchemaJoi,
+  V3PoolInRoute: V3PoolInRouteSchemaJoi,
+  V4PoolInRoute: V4PoolInRouteSchemaJoi,
+}
+
+const POOL_IN_ROUTE_COMPONENTS: { [type: string]: string } = {
+  'v2-pool': 'V2PoolInRoute',
+  'v3-pool': 'V3PoolInRoute',
+  'v4-pool': 'V4PoolInRoute',
+}
+
+const jsonResponse = (description: string, schema: JsonSchema): JsonSchema => ({
+  description,
+  content: { 'application/json': { schema } },
+})
+
+const ERROR_RESPONSES = _.fromPairs(
+  [
+    ['400', 'The request failed validation or can not be served.'],
+    ['404', 'No route was found.'],
+    ['422', 'The request body is not valid JSON.'],
+    ['500', 'Unexpected error.'],
+  ].map(([statusCode, description]) => [statusCode, jsonResponse(description!, componentRef('ErrorResponse'))])
+)
+
+const queryParameters = (schema: Joi.ObjectSchema): JsonSchema[] => {
+  const { properties, required = [] } = joiToJsonSchema(schema)
+  return _.map(properties, (propertySchema: JsonSchema, name: string) => ({
+    name,
+    in: 'query',
+    required: required.includes(name),
+    schema: propertySchema,
+    // Arrays are sent comma separated, e.g. protocols=v2,v3.
+    ...(propertySchema.type === 'array' ? { style: 'form', explode: false } : {}),
+  }))
+}
+
+/**
+ * Builds the OpenAPI document of the routing API from the Joi schemas the handlers validate with.
+ * The generated document is committed to openapi-document.json, regenerate it with scripts/generate_openapi.ts.
+ */
+export const buildOpenApiDocument = (): OpenApiDocument => {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Uniswap Routing API',
+      version: '1.0.0',
+      description: 'Finds the best routes for swaps across the Uniswap protocols.',
+    },
+    paths: {
+      '/quote': {
+        get: {
+          operationId: 'getQuote',
+          summary: 'Get a quote',
+          parameters: queryParameters(QuoteQueryParamsJoi),
+          responses: { '200': jsonResponse('The quote.', componentRef('QuoteResponse')), ...ERROR_RESPONSES },
+        },
+        post: {
+          operationId: 'postQuote',
+          summary: 'Get a quote, with the parameters sent as a JSON body',
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: componentRef('QuoteRequestBody') } },
+          },
+          responses: { '200': jsonResponse('The quote.', componentRef('QuoteResponse')), ...ERROR_RESPONSES },
+        },
+      },
+      '/quotes': {
+        post: {
+          operationId: 'postQuotes',
+          summary: 'Get a batch of quotes',
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: componentRef('QuotesRequestBody') } },
+          },
+          responses: {
+            '200': jsonResponse('A result for every quote, in request order.', componentRef('QuotesResponse')),
+            ...ERROR_RESPONSES,
+          },
+        },
+      },
+      '/price-check': {
+        get: {
+          operationId: 'getPriceCheck',
+          summary: 'Check whether a quote meets a target price',
+          parameters: queryParameters(PriceCheckQueryParamsJoi),
+          responses: {
+            '200': jsonResponse('The price check.', componentRef('PriceCheckResponse')),
+            ...ERROR_RESPONSES,
+          },
+        },
+      },
+      '/openapi.json': {
+        get: {
+          operationId: 'getOpenApiDocument',
+          summary: 'Get this document',
+          responses: { '200': jsonResponse('The OpenAPI document.', { type: 'object' }) },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        ..._.mapValues(COMPONENT_SCHEMAS, (schema) => joiToJsonSchema(schema, { refs: COMPONENT_SCHEMAS })),
+        PoolInRoute: {
+          oneOf: _.values(POOL_IN_ROUTE_COMPONENTS).map(componentRef),
+          discriminator: {
+            propertyName: 'type',
+            mapping: _.mapValues(POOL_IN_ROUTE_COMPONENTS, (name) => componentRef(name).$ref),
+          },
+        },
+        // Every route is a list of pools, a quote can be split across several routes.
+        Route: { type: 'array', items: { type: 'array', items: componentRef('PoolInRoute') } },
+        ErrorResponse: {
+          type: 'object',
+          properties: {
+            errorCode: { type: 'string' },
+            detail: { type: 'string' },
+            id: { type: 'string' },
+          },
+          required: ['errorCode'],
+        },
+      },
+    },
+  }
+}
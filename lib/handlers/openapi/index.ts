@@ -0,0 +1,22 @@
+import { default as bunyan, default as Logger } from 'bunyan'
+import { OpenApiHandler } from './openapi'
+import { OpenApiHandlerInjector } from './injector'
+
+const log: Logger = bunyan.createLogger({
+  name: 'Root',
+  serializers: bunyan.stdSerializers,
+  level: bunyan.INFO,
+})
+
+let openApiHandler: OpenApiHandler
+try {
+  const openApiInjectorPromise = new OpenApiHandlerInjector('openApiInjector').build()
+  openApiHandler = new OpenApiHandler('openapi', openApiInjectorPromise)
+} catch (error) {
+  log.fatal({ error }, 'Fatal error')
+  throw error
+}
+
+module.exports = {
+  openApiHandler: openApiHandler.handler,
+}
@@ -0,0 +1,29 @@
+import { MetricsLogger } from 'aws-embedded-metrics'
+import { APIGatewayProxyEvent, Context } from 'aws-lambda'
+import Logger from 'bunyan'
+import { BaseRInj, Injector } from '../handler'
+import { OpenApiDocument } from './document'
+import document from './openapi-document.json'
+
+export type OpenApiContainerInjected = {
+  document: OpenApiDocument
+}
+
+// Serves the committed document, so that the lambda does not load the routing dependencies the schemas import.
+export class OpenApiHandlerInjector extends Injector<OpenApiContainerInjected, BaseRInj, void, void> {
+  public async buildContainerInjected(): Promise<OpenApiContainerInjected> {
+    return { document }
+  }
+
+  public async getRequestInjected(
+    _containerInjected: OpenApiContainerInjected,
+    _requestBody: void,
+    _requestQueryParams: void,
+    _event: APIGatewayProxyEvent,
+    context: Context,
+    log: Logger,
+    _metricsLogger: MetricsLogger
+  ): Promise<BaseRInj> {
+    return { id: context.awsRequestId, log }
+  }
+}
@@ -0,0 +1,27 @@
+import Joi from '@hapi/joi'
+import { APIGLambdaHandler, BaseRInj, ErrorResponse, HandleRequestParams, Response } from '../handler'
+import { OpenApiDocument } from './document'
+import { OpenApiContainerInjected } from './injector'
+
+export class OpenApiHandler extends APIGLambdaHandler<OpenApiContainerInjected, BaseRInj, void, void, OpenApiDocument> {
+  public async handleRequest(
+    params: HandleRequestParams<OpenApiContainerInjected, BaseRInj, void, void>
+  ): Promise<Response<OpenApiDocument> | ErrorResponse> {
+    return {
+      statusCode: 200,
+      body: params.containerInjected.document,
+    }
+  }
+
+  protected requestBodySchema(): Joi.ObjectSchema | null {
+    return null
+  }
+
+  protected requestQueryParamsSchema(): Joi.ObjectSchema | null {
+    return null
+  }
+
+  protected responseBodySchema(): Joi.ObjectSchema | null {
+    return null
+  }
+}
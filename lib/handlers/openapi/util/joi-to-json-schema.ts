@@ -0,0 +1,143 @@
+import Joi from '@hapi/joi'
+import _ from 'lodash'
+
+export type JsonSchema = { [key: string]: any }
+
+export type JoiToJsonSchemaOptions = {
+  // Nested schemas matching one of these are replaced by a reference to the component of the same name.
+  refs?: { [name: string]: Joi.Schema }
+}
+
+// Joi's describe() output. Only the parts used by the conversion are typed.
+type JoiDescription = {
+  type: string
+  flags?: { [flag: string]: any }
+  allow?: any[]
+  rules?: { name: string; args?: { [arg: string]: any } }[]
+  keys?: { [key: string]: JoiDescription }
+  items?: JoiDescription[]
+  patterns?: { schema?: JoiDescription; regex?: string; rule: JoiDescription }[]
+  matches?: { schema?: JoiDescription }[]
+  whens?: any[]
+  metas?: { [key: string]: any }[]
+}
+
+export const componentRef = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` })
+
+/**
+ * Converts a Joi schema to the JSON Schema dialect of OpenAPI 3.1.
+ *
+ * Conditional rules (when, without, ...) have no JSON Schema equivalent the document could use,
+ * so keys that are only conditionally required are documented as optional.
+ *
+ * @param schema
+ * @param options
+ */
+export const joiToJsonSchema = (schema: Joi.Schema, options: JoiToJsonSchemaOptions = {}): JsonSchema => {
+  const refs = _.mapValues(options.refs ?? {}, (ref) =>
+    JSON.stringify(withoutPresence(ref.describe() as JoiDescription))
+  )
+  return convert(schema.describe() as JoiDescription, refs, true)
+}
+
+const convert = (description: JoiDescription, refs: { [name: string]: string }, root = false): JsonSchema => {
+  const metaRef = _.find(description.metas, (meta) => meta.openApiRef)?.openApiRef
+  if (metaRef) {
+    return componentRef(metaRef)
+  }
+
+  if (!root) {
+    const serialized = JSON.stringify(withoutPresence(description))
+    const ref = _.findKey(refs, (refSerialized) => refSerialized === serialized)
+    if (ref) {
+      return componentRef(ref)
+    }
+  }
+
+  const jsonSchema: JsonSchema = convertType(description, refs)
+  const { flags = {} } = description
+
+  if (flags.description) {
+    jsonSchema.description = flags.description
+  }
+  if (flags.only && description.allow) {
+    jsonSchema.enum = description.allow.filter((value) => !_.isObject(value))
+  }
+  if (flags.default !== undefined && !_.isFunction(flags.default)) {
+    jsonSchema.default = flags.default
+  }
+
+  return jsonSchema
+}
+
+const convertType = (description: JoiDescription, refs: { [name: string]: string }): JsonSchema => {
+  const rules = description.rules ?? []
+  const hasRule = (name: string) => _.some(rules, (r) => r.name === name)
+  const rule = (name: string) => _.find(rules, (r) => r.name === name)?.args
+
+  switch (description.type) {
+    case 'string': {
+      const pattern = rule('pattern')?.regex ?? (hasRule('alphanum') ? '/^[a-zA-Z0-9]*$/' : undefined)
+      return _.omitBy(
+        {
+          type: 'string',
+          pattern: pattern && pattern.slice(pattern.indexOf('/') + 1, pattern.lastIndexOf('/')),
+          minLength: rule('min')?.limit ?? rule('length')?.limit,
+          maxLength: rule('max')?.limit ?? rule('length')?.limit,
+        },
+        _.isUndefined
+      )
+    }
+    case 'number':
+      return _.omitBy(
+        {
+          type: hasRule('integer') ? 'integer' : 'number',
+          minimum: rule('min')?.limit,
+          maximum: rule('max')?.limit,
+          exclusiveMinimum: rule('greater')?.limit,
+          exclusiveMaximum: rule('less')?.limit,
+        },
+        _.isUndefined
+      )
+    case 'boolean':
+      return { type: 'boolean' }
+    // The stringArray extension of the quote query params is a comma separated array.
+    case 'array':
+    case 'stringArray': {
+      const items = (description.items ?? []).map((item) => convert(item, refs))
+      return _.omitBy(
+        {
+          type: 'array',
+          items: items.length > 1 ? { anyOf: items } : items[0],
+          minItems: rule('min')?.limit,
+          maxItems: rule('max')?.limit,
+        },
+        _.isUndefined
+      )
+    }
+    case 'object': {
+      const keys = _.pickBy(description.keys ?? {}, (key) => key.flags?.presence !== 'forbidden')
+      const required = _.keys(keys).filter((key) => keys[key]!.flags?.presence === 'required' && !keys[key]!.whens)
+      const pattern = description.patterns?.[0]
+      return _.omitBy(
+        {
+          type: 'object',
+          properties: _.isEmpty(keys) ? undefined : _.mapValues(keys, (key) => convert(key, refs)),
+          required: _.isEmpty(required) ? undefined : required,
+          additionalProperties: pattern ? convert(pattern.rule, refs) : undefined,
+        },
+        _.isUndefined
+      )
+    }
+    case 'alternatives':
+      return { anyOf: _.compact((description.matches ?? []).map((match) => match.schema)).map((s) => convert(s, refs)) }
+    default:
+      return {}
+  }
+}
+
+// Whether a schema is required depends on where it is used, not on the schema itself.
+const withoutPresence = (description: JoiDescription): JoiDescription => {
+  const flags = _.omit(description.flags, 'presence')
+  return _.isEmpty(flags) ? _.omit(description, 'flags') : { ...description, flags }
+}
@@ -0,0 +1,49 @@
+import { AlphaRouterConfig, IRouter } from '@uniswap/smart-order-router'
+import { MetricsLogger } from 'aws-embedded-metrics'
+import { APIGatewayProxyEvent, Context } from 'aws-lambda'
+import Logger from 'bunyan'
+import { Injector } from '../handler'
+import { ContainerInjected, RequestInjected } from '../injector-sor'
+import { QuoteHandlerInjector } from '../quote/injector'
+import { PriceCheckQueryParams } from './schema/price-check-schema'
+
+export class PriceCheckHandlerInjector extends Injector<
+  ContainerInjected,
+  RequestInjected<IRouter<AlphaRouterConfig>>,
+  void,
+  PriceCheckQueryParams
+> {
+  // Price checks run the exact same routing as quotes, so both the container and the per request
+  // router are taken from the quote injector.
+  public constructor(injectorName: string, private readonly quoteInjectorPromise: Promise<QuoteHandlerInjector>) {
+    super(injectorName)
+  }
+
+  public async buildContainerInjected(): Promise<ContainerInjected> {
+    const quoteInjector = await this.quoteInjectorPromise
+    return quoteInjector.getContainerInjected()
+  }
+
+  public async getRequestInjected(
+    containerInjected: ContainerInjected,
+    _requestBody: void,
+    requestQueryParams: PriceCheckQueryParams,
+    event: APIGatewayProxyEvent,
+    context: Context,
+    log: Logger,
+    metricsLogger: MetricsLogger
+  ): Promise<RequestInjected<IRouter<AlphaRouterConfig>>> {
+    const quoteInjector = await this.quoteInjectorPromise
+    const { targetPrice: _, ...quoteQueryParams } = requestQueryParams
+
+    return quoteInjector.getRequestInjected(
+      containerInjected,
+      undefined,
+      quoteQueryParams,
+      event,
+      context,
+      log,
+      metricsLogger
+    ) as Promise<RequestInjected<IRouter<AlphaRouterConfig>>>
+  }
+}
@@ -0,0 +1,186 @@
+import Joi from '@hapi/joi'
+import { ChainId } from '@uniswap/sdk-core'
+import { AlphaRouterConfig, IRouter, MetricLoggerUnit } from '@uniswap/smart-order-router'
+import { MetricsLogger } from 'aws-embedded-metrics'
+import Logger from 'bunyan'
+import NodeCache from 'node-cache'
+import { APIGLambdaHandler, ErrorResponse, HandleRequestParams, Injector, Response } from '../handler'
+import { ContainerInjected, RequestInjected } from '../injector-sor'
+import { QuoteHandler } from '../quote/quote'
+import { QuoteQueryParams } from '../quote/schema/quote-schema'
+import { QuoteResponse } from '../schema'
+import {
+  PriceCheckQueryParams,
+  PriceCheckQueryParamsJoi,
+  PriceCheckResponse,
+  PriceCheckResponseSchemaJoi,
+} from './schema/price-check-schema'
+import { decimalToFraction, evaluateTargetPrice } from './util/target-price'
+
+// Quotes only change when a new block lands, so bots polling a target price within the same block
+// are served the quote of the previous check. Entries are only served for the block they were quoted at.
+// They live for about one block of their chain, so that the latest block number is only fetched for
+// checks that may hit the cache.
+const PRICE_CHECK_CACHE = new NodeCache({ useClones: false })
+
+// In seconds, see DEFAULT_BLOCKS_TO_LIVE_ROUTES_DB for the sources of the block times.
+export const PRICE_CHECK_CACHE_TTL = (chainId: ChainId): number => {
+  switch (chainId) {
+    case ChainId.ARBITRUM_ONE:
+      return 0.25
+
+    case ChainId.BASE:
+    case ChainId.OPTIMISM:
+    case ChainId.AVALANCHE:
+    case ChainId.POLYGON:
+      return 2
+
+    case ChainId.BNB:
+      return 3
+
+    case ChainId.CELO:
+      return 5
+
+    case ChainId.MAINNET:
+      return 12
+
+    default:
+      return 1
+  }
+}
+
+export class PriceCheckHandler extends APIGLambdaHandler<
+  ContainerInjected,
+  RequestInjected<IRouter<AlphaRouterConfig>>,
+  void,
+  PriceCheckQueryParams,
+  PriceCheckResponse
+> {
+  constructor(
+    handlerName: string,
+    injectorPromise: Promise<
+      Injector<ContainerInjected, RequestInjected<IRouter<AlphaRouterConfig>>, void, PriceCheckQueryParams>
+    >,
+    private readonly quoteHandler: QuoteHandler,
+    private readonly cache: NodeCache = PRICE_CHECK_CACHE
+  ) {
+    super(handlerName, injectorPromise)
+  }
+
+  public async handleRequest(
+    params: HandleRequestParams<
+      ContainerInjected,
+      RequestInjected<IRouter<AlphaRouterConfig>>,
+      void,
+      PriceCheckQueryParams
+    >
+  ): Promise<Response<PriceCheckResponse> | ErrorResponse> {
+    const {
+      requestQueryParams: { targetPrice, ...quoteQueryParams },
+      requestInjected: { chainId, log, metric },
+      containerInjected,
+    } = params
+
+    if (decimalToFraction(targetPrice).equalTo(0)) {
+      return {
+        statusCode: 400,
+        errorCode: 'INVALID_TARGET_PRICE',
+        detail: 'targetPrice must be greater than 0',
+      }
+    }
+
+    const cacheKey = PriceCheckHandler.cacheKey(chainId, quoteQueryParams)
+    let quote = this.cache.get<QuoteResponse>(cacheKey)
+    if (quote && !(await this.isQuotedAtLatestBlock(quote, containerInjected, chainId, log))) {
+      quote = undefined
+    }
+
+    if (quote) {
+      metric.putMetric('PriceCheckCacheHit', 1, MetricLoggerUnit.Count)
+    } else {
+      metric.putMetric('PriceCheckCacheMiss', 1, MetricLoggerUnit.Count)
+
+      const result = await this.quoteHandler.handleRequest({
+        ...params,
+        requestBody: undefined,
+        requestQueryParams: quoteQueryParams,
+      })
+
+      if (result.statusCode != 200 && result.statusCode != 202) {
+        return result as ErrorResponse
+      }
+
+      quote = (result as Response<QuoteResponse>).body
+      this.cache.set<QuoteResponse>(cacheKey, quote, PRICE_CHECK_CACHE_TTL(chainId))
+    }
+
+    const evaluation = evaluateTargetPrice(
+      quoteQueryParams.type,
+      quote.amountDecimals,
+      quote.quoteGasAdjustedDecimals,
+      targetPrice
+    )
+
+    if (!evaluation) {
+      return {
+        statusCode: 404,
+        errorCode: 'NO_ROUTE',
+        detail: 'No route found',
+      }
+    }
+
+    const { targetMet, price, distanceBips } = evaluation
+
+    log.info({ targetPrice, price, distanceBips, targetMet, blockNumber: quote.blockNumber }, 'Price check completed')
+
+    return {
+      statusCode: 200,
+      body: {
+        targetMet,
+        targetPrice,
+        price,
+        distanceBips,
+        blockNumber: quote.blockNumber,
+        quote,
+      },
+    }
+  }
+
+  // A failure to fetch the block number only disables the cache for this request.
+  private async isQuotedAtLatestBlock(
+    quote: QuoteResponse,
+    containerInjected: ContainerInjected,
+    chainId: ChainId,
+    log: Logger
+  ): Promise<boolean> {
+    try {
+      const blockNumber = await containerInjected.dependencies[chainId]!.provider.getBlockNumber()
+      return Number(quote.blockNumber) >= blockNumber
+    } catch (err) {
+      log.warn({ err }, 'Failed to fetch the block number for the price check cache')
+      return false
+    }
+  }
+
+  // Everything but the target price affects the route, so the quote is shared across target prices.
+  private static cacheKey(chainId: ChainId, quoteQueryParams: QuoteQueryParams): string {
+    return JSON.stringify([chainId, ...Object.entries(quoteQueryParams).sort(([a], [b]) => a.localeCompare(b))])
+  }
+
+  protected requestBodySchema(): Joi.ObjectSchema | null {
+    return null
+  }
+
+  protected requestQueryParamsSchema(): Joi.ObjectSchema | null {
+    return PriceCheckQueryParamsJoi
+  }
+
+  protected responseBodySchema(): Joi.ObjectSchema | null {
+    return PriceCheckResponseSchemaJoi
+  }
+
+  protected afterHandler(metric: MetricsLogger, response: PriceCheckResponse, requestStart: number): void {
+    metric.putMetric('GET_PRICE_CHECK_LATENCY_TOP_LEVEL', Date.now() - requestStart, MetricLoggerUnit.Milliseconds)
+    metric.putMetric(`GET_PRICE_CHECK_TARGET_${response.targetMet ? 'MET' : 'NOT_MET'}`, 1, MetricLoggerUnit.Count)
+  }
+}
@@ -0,0 +1,36 @@
+import Joi from '@hapi/joi'
+import { QuoteQueryParams, QuoteQueryParamsJoi } from '../../quote/schema/quote-schema'
+import { QuoteResponse, QuoteResponseSchemaJoi } from '../../schema'
+
+// Accepts the same parameters as GET /quote, plus the execution price to check for.
+export const PriceCheckQueryParamsJoi = QuoteQueryParamsJoi.keys({
+  // Amount of tokenOut per one tokenIn, in decimals.
+  targetPrice: Joi.string()
+    .pattern(/^[0-9]*\.?[0-9]+$/)
+    .max(80)
+    .required(),
+})
+
+export type PriceCheckQueryParams = QuoteQueryParams & {
+  targetPrice: string
+}
+
+export const PriceCheckResponseSchemaJoi = Joi.object({
+  targetMet: Joi.boolean().required(),
+  targetPrice: Joi.string().required(),
+  price: Joi.string().required(),
+  distanceBips: Joi.number().required(),
+  blockNumber: Joi.string().required(),
+  quote: QuoteResponseSchemaJoi.required(),
+})
+
+export type PriceCheckResponse = {
+  targetMet: boolean
+  targetPrice: string
+  // Gas adjusted execution price of the quote, as an amount of tokenOut per one tokenIn.
+  price: string
+  // How far price is above targetPrice, negative while the target is not met.
+  distanceBips: number
+  blockNumber: string
+  quote: QuoteResponse
+}
@@ -0,0 +1,54 @@
+import { Fraction } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
+import { TradeTypeParam } from '../../quote/schema/quote-schema'
+
+export const PRICE_DECIMALS = 18
+
+export type TargetPriceEvaluation = {
+  targetMet: boolean
+  price: string
+  distanceBips: number
+}
+
+// Parses an unsigned decimal string, e.g. "1234.5678", into an exact fraction.
+export const decimalToFraction = (decimal: string): Fraction => {
+  const [whole, fraction = ''] = decimal.split('.')
+  return new Fraction(
+    JSBI.BigInt(`${whole}${fraction}` || '0'),
+    JSBI.exponentiate(JSBI.BigInt(10), JSBI.BigInt(fraction.length))
+  )
+}
+
+/**
+ * Compares the gas adjusted execution price of a quote against a target price. Both prices are
+ * expressed as an amount of tokenOut per one tokenIn, so a higher price is always better for the swapper.
+ *
+ * @param type The trade type of the quote.
+ * @param amountDecimals The amount that was quoted, in decimals.
+ * @param quoteGasAdjustedDecimals The gas adjusted quote, in decimals.
+ * @param targetPrice The target price, in decimals.
+ * @returns The evaluation, or undefined if the quote has no price: an exactOut quote of zero tokenIn.
+ */
+export function evaluateTargetPrice(
+  type: TradeTypeParam,
+  amountDecimals: string,
+  quoteGasAdjustedDecimals: string,
+  targetPrice: string
+): TargetPriceEvaluation | undefined {
+  const amount = decimalToFraction(amountDecimals)
+  const quoteGasAdjusted = decimalToFraction(quoteGasAdjustedDecimals)
+  const target = decimalToFraction(targetPrice)
+
+  if (type == 'exactOut' && quoteGasAdjusted.equalTo(0)) {
+    return undefined
+  }
+
+  // For exactIn the quote is the tokenOut received, for exactOut it is the tokenIn paid.
+  const price = type == 'exactIn' ? quoteGasAdjusted.divide(amount) : amount.divide(quoteGasAdjusted)
+
+  return {
+    targetMet: !price.lessThan(target),
+    price: price.toFixed(PRICE_DECIMALS),
+    distanceBips: Number(price.subtract(target).divide(target).multiply(10_000).toFixed(2)),
+  }
+}
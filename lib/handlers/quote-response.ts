@@ -0,0 +1,169 @@
+import { RoutingApiSimulationStatus } from './quote/util/simulation-status'
+import { HookClassification } from './router-entities/hooks-policy/hook-classification'
+import { HookPermission } from './router-entities/hooks-policy/hook-permissions'
+
+// The calldata of the swap, like the MethodParameters of the smart-order-router.
+export type MethodParameters = {
+  calldata: string
+  value: string
+  to: string
+}
+
+export type TokenInRoute = {
+  address: string
+  chainId: number
+  symbol: string
+  decimals: string
+  buyFeeBps?: string
+  sellFeeBps?: string
+}
+
+export type SupportedPoolInRoute = V2PoolInRoute | V3PoolInRoute | V4PoolInRoute
+
+export type V4PoolInRoute = {
+  type: 'v4-pool'
+  address: string
+  tokenIn: TokenInRoute
+  tokenOut: TokenInRoute
+  sqrtRatioX96: string
+  liquidity: string
+  tickCurrent: string
+  fee: string
+  tickSpacing: string
+  hooks: string
+  // The callbacks of the hook, read from its address, and how the hooks policy classifies it.
+  hooksPermissions?: HookPermission[]
+  hooksClassification?: HookClassification
+  amountIn?: string
+  amountOut?: string
+}
+
+export type V3PoolInRoute = {
+  type: 'v3-pool'
+  address: string
+  tokenIn: TokenInRoute
+  tokenOut: TokenInRoute
+  sqrtRatioX96: string
+  liquidity: string
+  tickCurrent: string
+  fee: string
+  amountIn?: string
+  amountOut?: string
+}
+
+export type V2Reserve = {
+  token: TokenInRoute
+  quotient: string
+}
+
+export type V2PoolInRoute = {
+  type: 'v2-pool'
+  address: string
+  tokenIn: TokenInRoute
+  tokenOut: TokenInRoute
+  reserve0: V2Reserve
+  reserve1: V2Reserve
+  amountIn?: string
+  amountOut?: string
+}
+
+export type QuoteLeg = {
+  type: 'swap' | 'bridge'
+  chainId: number
+  // Only set on bridge legs, chainId is the chain the bridge leg starts on.
+  destinationChainId?: number
+  tokenIn: string
+  tokenOut: string
+  amountIn: string
+  amountOut: string
+  route?: Array<SupportedPoolInRoute[]>
+  routeString?: string
+  methodParameters?: MethodParameters
+  bridge?: string
+  estimatedLatencySeconds: number
+}
+
+export type QuoteOutput = {
+  recipient: string
+  amount: string
+  amountDecimals: string
+}
+
+export type ExplainPool = {
+  // The pool id for V4 pools.
+  address: string
+  token0: string
+  token1: string
+  fee?: number
+  tickSpacing?: number
+  hooks?: string
+  liquidity?: string
+  reserve0?: string
+  reserve1?: string
+}
+
+export type ExplainAlternative = {
+  // Describes the constraint the alternative was routed with, e.g. "V3 only" or "single route".
+  description: string
+  quote: string
+  quoteDecimals: string
+  quoteGasAdjusted: string
+  quoteGasAdjustedDecimals: string
+  gasUseEstimate: string
+  routeString: string
+}
+
+export type QuoteExplanation = {
+  // Pools loaded by the router, keyed by protocol.
+  candidatePools: { [protocol: string]: ExplainPool[] }
+  // Best first.
+  alternatives: ExplainAlternative[]
+  routingConfig: { [key: string]: any }
+  cachedRoutes: {
+    enabled: boolean
+    optimistic: boolean
+    hit: boolean
+  }
+}
+
+export type QuoteResponse = {
+  quoteId: string
+  amount: string
+  amountDecimals: string
+  quote: string
+  quoteDecimals: string
+  quoteGasAdjusted: string
+  quoteGasAdjustedDecimals: string
+  quoteGasAndPortionAdjusted?: string
+  quoteGasAndPortionAdjustedDecimals?: string
+  gasUseEstimate: string
+  gasUseEstimateQuote: string
+  gasUseEstimateQuoteDecimals: string
+  gasUseEstimateGasToken?: string
+  gasUseEstimateGasTokenDecimals?: string
+  gasUseEstimateUSD: string
+  simulationError?: boolean
+  simulationStatus: RoutingApiSimulationStatus
+  gasPriceWei: string
+  blockNumber: string
+  route: Array<SupportedPoolInRoute[]>
+  routeString: string
+  methodParameters?: MethodParameters
+  hitsCachedRoutes?: boolean
+  portionBips?: number
+  portionRecipient?: string
+  portionAmount?: string
+  portionAmountDecimals?: string
+  priceImpact?: string
+  // Only set when the requested amount exceeded maxPriceImpact, in which case amount is the largest amount within it.
+  requestedAmount?: string
+  requestedAmountDecimals?: string
+  // Only set for split output quotes, the amount delivered to each recipient.
+  outputs?: QuoteOutput[]
+  // Only set when explain=true was requested with a valid unicornSecret.
+  explain?: QuoteExplanation
+  // Only set when the quote was pinned to a blockNumber. Such quotes never use or populate the caches.
+  historical?: boolean
+  // Only set for cross chain quotes, ordered in execution order.
+  legs?: QuoteLeg[]
+}
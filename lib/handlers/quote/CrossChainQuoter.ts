@@ -0,0 +1,245 @@
+import { ChainId, Currency, CurrencyAmount } from '@uniswap/sdk-core'
+import { BigNumber } from 'ethers'
+import JSBI from 'jsbi'
+import _ from 'lodash'
+import Logger from 'bunyan'
+import { ErrorResponse, Response } from '../handler'
+import { BridgeableAsset, BridgeQuote, IBridgeQuoteProvider } from '../router-entities/bridge/bridge-quote-provider'
+import { QuoteLeg, QuoteResponse } from '../schema'
+import { SECONDS_PER_BLOCK_BY_CHAIN_ID } from '../shared'
+import { RoutingApiSimulationStatus } from './util/simulation'
+
+// Used for swap legs on chains we do not have a block time for.
+const DEFAULT_SWAP_LEG_LATENCY_SECONDS = 12
+
+export type CrossChainQuoteRequest = {
+  quoteId: string
+  currencyIn: Currency
+  tokenInAddress: string
+  currencyOut: Currency
+  tokenOutAddress: string
+  amount: string
+  recipient?: string
+}
+
+export type SwapLegRequest = {
+  leg: 'source' | 'destination'
+  chainId: ChainId
+  tokenInAddress: string
+  tokenOutAddress: string
+  amount: string
+}
+
+export type SwapLegQuoter = (request: SwapLegRequest) => Promise<Response<QuoteResponse> | ErrorResponse>
+
+type CrossChainCandidate = {
+  sourceSwap?: QuoteResponse
+  bridgeQuote: BridgeQuote
+  destinationSwap?: QuoteResponse
+  amountOut: string
+  legs: QuoteLeg[]
+}
+
+/**
+ * Quotes an exact in swap between tokens on different chains by decomposing it into
+ * a swap to a bridgeable asset on the source chain, a bridge leg and a swap to the
+ * requested token on the destination chain. Swaps are skipped when the requested token
+ * is the bridged asset itself.
+ *
+ * Every bridgeable asset between the two chains is tried, and the one with the largest output is returned.
+ */
+export class CrossChainQuoter {
+  constructor(
+    private readonly bridgeQuoteProvider: IBridgeQuoteProvider,
+    private readonly quoteSwapLeg: SwapLegQuoter,
+    private readonly log: Logger
+  ) {}
+
+  public async quote(request: CrossChainQuoteRequest): Promise<Response<QuoteResponse> | ErrorResponse> {
+    const sourceChainId = request.currencyIn.chainId
+    const destinationChainId = request.currencyOut.chainId
+
+    const assets = await this.bridgeQuoteProvider.getBridgeableAssets(sourceChainId, destinationChainId)
+
+    if (assets.length == 0) {
+      return CrossChainQuoter.noBridgeRoute(sourceChainId, destinationChainId)
+    }
+
+    const candidates = await Promise.all(assets.map((asset) => this.quoteThroughAsset(request, asset)))
+
+    let best: CrossChainCandidate | undefined
+    for (const candidate of candidates) {
+      if (CrossChainQuoter.isError(candidate)) {
+        continue
+      }
+
+      if (!best || JSBI.greaterThan(JSBI.BigInt(candidate.amountOut), JSBI.BigInt(best.amountOut))) {
+        best = candidate
+      }
+    }
+
+    if (!best) {
+      this.log.info({ candidates }, 'No cross chain candidate could be quoted')
+      return candidates[0] as ErrorResponse
+    }
+
+    return {
+      statusCode: 200,
+      body: this.buildResponse(request, best),
+    }
+  }
+
+  private async quoteThroughAsset(
+    request: CrossChainQuoteRequest,
+    asset: BridgeableAsset
+  ): Promise<CrossChainCandidate | ErrorResponse> {
+    const legs: QuoteLeg[] = []
+
+    let sourceSwap: QuoteResponse | undefined
+    let bridgeAmount = request.amount
+    if (!CrossChainQuoter.isSameToken(request.currencyIn, asset.sourceTokenAddress)) {
+      const result = await this.quoteSwapLeg({
+        leg: 'source',
+        chainId: asset.sourceChainId,
+        tokenInAddress: request.tokenInAddress,
+        tokenOutAddress: asset.sourceTokenAddress,
+        amount: request.amount,
+      })
+
+      if (CrossChainQuoter.isError(result)) {
+        return result
+      }
+
+      sourceSwap = result.body
+      bridgeAmount = sourceSwap.quote
+      legs.push(
+        CrossChainQuoter.swapLeg(asset.sourceChainId, request.tokenInAddress, asset.sourceTokenAddress, sourceSwap)
+      )
+    }
+
+    const bridgeQuote = await this.bridgeQuoteProvider.getQuote({
+      asset,
+      amount: bridgeAmount,
+      recipient: request.recipient,
+    })
+
+    if (!bridgeQuote) {
+      return CrossChainQuoter.noBridgeRoute(asset.sourceChainId, asset.destinationChainId)
+    }
+
+    legs.push({
+      type: 'bridge',
+      chainId: asset.sourceChainId,
+      destinationChainId: asset.destinationChainId,
+      tokenIn: asset.sourceTokenAddress,
+      tokenOut: asset.destinationTokenAddress,
+      amountIn: bridgeQuote.amountIn,
+      amountOut: bridgeQuote.amountOut,
+      methodParameters: bridgeQuote.methodParameters,
+      bridge: bridgeQuote.bridge,
+      estimatedLatencySeconds: bridgeQuote.estimatedLatencySeconds,
+    })
+
+    let destinationSwap: QuoteResponse | undefined
+    let amountOut = bridgeQuote.amountOut
+    if (!CrossChainQuoter.isSameToken(request.currencyOut, asset.destinationTokenAddress)) {
+      const result = await this.quoteSwapLeg({
+        leg: 'destination',
+        chainId: asset.destinationChainId,
+        tokenInAddress: asset.destinationTokenAddress,
+        tokenOutAddress: request.tokenOutAddress,
+        amount: bridgeQuote.amountOut,
+      })
+
+      if (CrossChainQuoter.isError(result)) {
+        return result
+      }
+
+      destinationSwap = result.body
+      amountOut = destinationSwap.quote
+      legs.push(
+        CrossChainQuoter.swapLeg(
+          asset.destinationChainId,
+          asset.destinationTokenAddress,
+          request.tokenOutAddress,
+          destinationSwap
+        )
+      )
+    }
+
+    return { sourceSwap, bridgeQuote, destinationSwap, amountOut, legs }
+  }
+
+  // The top level fields describe the trade end to end. Gas is paid on both chains, so the gas estimate
+  // and its USD value are summed over the swap legs, while the gas adjusted quote only accounts for the
+  // destination swap, since that is the only gas denominated in the output token.
+  private buildResponse(request: CrossChainQuoteRequest, candidate: CrossChainCandidate): QuoteResponse {
+    const { sourceSwap, destinationSwap, legs } = candidate
+    const swaps = [sourceSwap, destinationSwap].filter((swap): swap is QuoteResponse => swap !== undefined)
+
+    const amount = CurrencyAmount.fromRawAmount(request.currencyIn, request.amount)
+    const quote = CurrencyAmount.fromRawAmount(request.currencyOut, candidate.amountOut)
+    const quoteGasAdjusted = destinationSwap
+      ? CurrencyAmount.fromRawAmount(request.currencyOut, destinationSwap.quoteGasAdjusted)
+      : quote
+
+    const gasUseEstimate = swaps.reduce((sum, swap) => sum.add(swap.gasUseEstimate), BigNumber.from(0))
+    const gasUseEstimateUSD = swaps.reduce((sum, swap) => sum + parseFloat(swap.gasUseEstimateUSD), 0)
+
+    return {
+      quoteId: request.quoteId,
+      amount: amount.quotient.toString(),
+      amountDecimals: amount.toExact(),
+      quote: quote.quotient.toString(),
+      quoteDecimals: quote.toExact(),
+      quoteGasAdjusted: quoteGasAdjusted.quotient.toString(),
+      quoteGasAdjustedDecimals: quoteGasAdjusted.toExact(),
+      gasUseEstimateQuote: destinationSwap?.gasUseEstimateQuote ?? '0',
+      gasUseEstimateQuoteDecimals: destinationSwap?.gasUseEstimateQuoteDecimals ?? '0',
+      gasUseEstimate: gasUseEstimate.toString(),
+      gasUseEstimateUSD: gasUseEstimateUSD.toString(),
+      simulationStatus: RoutingApiSimulationStatus.UNATTEMPTED,
+      gasPriceWei: (sourceSwap ?? destinationSwap)?.gasPriceWei ?? '0',
+      blockNumber: (sourceSwap ?? destinationSwap)?.blockNumber ?? '0',
+      route: _.flatMap(swaps, (swap) => swap.route),
+      routeString: legs
+        .map((leg) =>
+          leg.type == 'swap' ? leg.routeString : `[BRIDGE ${leg.bridge}] ${leg.chainId} --> ${leg.destinationChainId}`
+        )
+        .join(', '),
+      hitsCachedRoutes: swaps.length > 0 && swaps.every((swap) => swap.hitsCachedRoutes),
+      legs,
+    }
+  }
+
+  private static swapLeg(chainId: ChainId, tokenIn: string, tokenOut: string, swap: QuoteResponse): QuoteLeg {
+    return {
+      type: 'swap',
+      chainId,
+      tokenIn,
+      tokenOut,
+      amountIn: swap.amount,
+      amountOut: swap.quote,
+      route: swap.route,
+      routeString: swap.routeString,
+      methodParameters: swap.methodParameters,
+      estimatedLatencySeconds: SECONDS_PER_BLOCK_BY_CHAIN_ID[chainId] ?? DEFAULT_SWAP_LEG_LATENCY_SECONDS,
+    }
+  }
+
+  private static isSameToken(currency: Currency, address: string): boolean {
+    return currency.wrapped.address.toLowerCase() == address.toLowerCase()
+  }
+
+  private static isError(result: object): result is ErrorResponse {
+    return 'errorCode' in result
+  }
+
+  private static noBridgeRoute(sourceChainId: ChainId, destinationChainId: ChainId): ErrorResponse {
+    return {
+      statusCode: 404,
+      errorCode: 'NO_BRIDGE_ROUTE',
+      detail: `No bridge route found from chain ${sourceChainId} to chain ${destinationChainId}`,
+    }
+  }
+}
@@ -1,11 +1,24 @@
 import { ChainId, Currency, CurrencyAmount } from '@uniswap/sdk-core'
-import { SwapOptions, SwapOptionsSwapRouter02, SwapOptionsUniversalRouter, SwapType } from '@uniswap/smart-order-router'
+import {
+  MethodParameters,
+  SwapOptions,
+  SwapOptionsSwapRouter02,
+  SwapOptionsUniversalRouter,
+  SwapType,
+} from '@uniswap/smart-order-router'
 import JSBI from 'jsbi'
-import { TradeTypeParam } from './schema/quote-schema'
+import { QuoteOutputParams, TradeTypeParam } from './schema/quote-schema'
 import { computePortionAmount, parseDeadline, parseSlippageTolerance, populateFeeOptions } from '../shared'
 import { PermitSingle } from '@uniswap/permit2-sdk'
-import { UNIVERSAL_ROUTER_ADDRESS, UniversalRouterVersion } from '@uniswap/universal-router-sdk'
-import { utils } from 'ethers'
+import {
+  CommandType,
+  ROUTER_AS_RECIPIENT,
+  RoutePlanner,
+  SwapRouter,
+  UNIVERSAL_ROUTER_ADDRESS,
+  UniversalRouterVersion,
+} from '@uniswap/universal-router-sdk'
+import { constants, utils } from 'ethers'
 
 export type SwapOptionsUniversalRouterInput = {
   chainId: ChainId
@@ -27,6 +40,7 @@ export type SwapOptionsUniversalRouterInput = {
   permitAmount?: string
   permitSigDeadline?: string
   simulateFromAddress?: string
+  outputs?: QuoteOutputParams[]
 }
 
 export type SwapOptionsSwapRouter02Input = {
@@ -64,6 +78,7 @@ export class SwapOptionsFactory {
     permitAmount,
     permitSigDeadline,
     simulateFromAddress,
+    outputs,
   }: SwapOptionsInput): SwapOptions | undefined {
     if (enableUniversalRouter) {
       return SwapOptionsFactory.createUniversalRouterOptions({
@@ -85,6 +100,7 @@ export class SwapOptionsFactory {
         permitAmount,
         permitSigDeadline,
         simulateFromAddress,
+        outputs,
       })
     } else {
       return SwapOptionsFactory.createSwapRouter02Options({
@@ -120,6 +136,7 @@ export class SwapOptionsFactory {
     permitAmount,
     permitSigDeadline,
     simulateFromAddress,
+    outputs,
   }: SwapOptionsUniversalRouterInput): SwapOptionsUniversalRouter | undefined {
     if (!slippageTolerance) {
       return undefined
@@ -137,7 +154,8 @@ export class SwapOptionsFactory {
       type: SwapType.UNIVERSAL_ROUTER,
       version: universalRouterVersion,
       deadlineOrPreviousBlockhash: deadline ? parseDeadline(deadline) : undefined,
-      recipient: recipient,
+      // Split outputs are swapped into the router as a single trade, then paid out by splitOutputs.
+      recipient: outputs ? ROUTER_AS_RECIPIENT : recipient,
       slippageTolerance: parseSlippageTolerance(slippageTolerance),
       ...allFeeOptions,
     }
@@ -171,6 +189,47 @@ export class SwapOptionsFactory {
     return swapParams
   }
 
+  /**
+   * Appends the commands paying each output to its recipient to Universal Router calldata built with
+   * the options from createUniversalRouterOptions. Every output but the last is transferred its exact amount,
+   * the last one sweeps the remaining balance so that no dust is left in the router.
+   *
+   * @param methodParameters The calldata of the aggregated trade, which leaves the output in the router.
+   * @param currencyOut The output currency.
+   * @param outputs The recipients and amounts to pay out.
+   */
+  static splitOutputs(
+    methodParameters: MethodParameters,
+    currencyOut: Currency,
+    outputs: QuoteOutputParams[]
+  ): MethodParameters {
+    const { signature, args } = SwapRouter.INTERFACE.parseTransaction({ data: methodParameters.calldata })
+
+    const planner = new RoutePlanner()
+    planner.commands = args.commands
+    planner.inputs = [...args.inputs]
+
+    // Native outputs are unwrapped into the router by the trade, so they are paid out as ETH.
+    const token = currencyOut.isNative ? constants.AddressZero : currencyOut.wrapped.address
+
+    outputs.forEach(({ recipient, amount }, index) => {
+      if (index < outputs.length - 1) {
+        planner.addCommand(CommandType.TRANSFER, [token, recipient, amount])
+      } else {
+        planner.addCommand(CommandType.SWEEP, [token, recipient, amount])
+      }
+    })
+
+    const calldata = SwapRouter.INTERFACE.encodeFunctionData(
+      signature,
+      signature == 'execute(bytes,bytes[],uint256)'
+        ? [planner.commands, planner.inputs, args.deadline]
+        : [planner.commands, planner.inputs]
+    )
+
+    return { ...methodParameters, calldata }
+  }
+
   static createSwapRouter02Options({
     slippageTolerance,
     deadline,
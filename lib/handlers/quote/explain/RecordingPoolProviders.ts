@@ -0,0 +1,124 @@
+import { Currency, Token } from '@uniswap/sdk-core'
+import {
+  getAddress,
+  IV2PoolProvider,
+  IV3PoolProvider,
+  IV4PoolProvider,
+  V2PoolAccessor,
+  V3PoolAccessor,
+  V4PoolAccessor,
+  V4PoolConstruct,
+} from '@uniswap/smart-order-router'
+import { ProviderConfig } from '@uniswap/smart-order-router/build/main/providers/provider'
+import { Pair } from '@uniswap/v2-sdk'
+import { FeeAmount, Pool as V3Pool } from '@uniswap/v3-sdk'
+import { Pool as V4Pool } from '@uniswap/v4-sdk'
+import _ from 'lodash'
+import { ExplainPool } from '../../schema'
+
+/**
+ * Collects every pool the router loads while routing a quote, keyed by protocol and pool address.
+ * Pools are loaded once candidates have been selected from the subgraph, so this is the set of
+ * candidate pools the router considered, including the ones only used by the gas models.
+ */
+export class CandidatePoolsRecorder {
+  private readonly pools: { [protocol: string]: Map<string, ExplainPool> } = {
+    V2: new Map(),
+    V3: new Map(),
+    V4: new Map(),
+  }
+
+  public record(protocol: 'V2' | 'V3' | 'V4', pools: ExplainPool[]): void {
+    for (const pool of pools) {
+      this.pools[protocol]!.set(pool.address.toLowerCase(), pool)
+    }
+  }
+
+  public snapshot(): { [protocol: string]: ExplainPool[] } {
+    return _.mapValues(this.pools, (pools) => [...pools.values()])
+  }
+}
+
+export class RecordingV2PoolProvider implements IV2PoolProvider {
+  constructor(private readonly poolProvider: IV2PoolProvider, private readonly recorder: CandidatePoolsRecorder) {}
+
+  public async getPools(tokenPairs: [Token, Token][], providerConfig?: ProviderConfig): Promise<V2PoolAccessor> {
+    const accessor = await this.poolProvider.getPools(tokenPairs, providerConfig)
+    this.recorder.record(
+      'V2',
+      accessor.getAllPools().map((pair: Pair) => ({
+        address: pair.liquidityToken.address,
+        token0: pair.token0.address,
+        token1: pair.token1.address,
+        reserve0: pair.reserve0.quotient.toString(),
+        reserve1: pair.reserve1.quotient.toString(),
+      }))
+    )
+    return accessor
+  }
+
+  public getPoolAddress(tokenA: Token, tokenB: Token): { poolAddress: string; token0: Token; token1: Token } {
+    return this.poolProvider.getPoolAddress(tokenA, tokenB)
+  }
+}
+
+export class RecordingV3PoolProvider implements IV3PoolProvider {
+  constructor(private readonly poolProvider: IV3PoolProvider, private readonly recorder: CandidatePoolsRecorder) {}
+
+  public async getPools(
+    tokenPairs: [Token, Token, FeeAmount][],
+    providerConfig?: ProviderConfig
+  ): Promise<V3PoolAccessor> {
+    const accessor = await this.poolProvider.getPools(tokenPairs, providerConfig)
+    this.recorder.record(
+      'V3',
+      accessor.getAllPools().map((pool: V3Pool) => ({
+        address: this.poolProvider.getPoolAddress(pool.token0, pool.token1, pool.fee).poolAddress,
+        token0: pool.token0.address,
+        token1: pool.token1.address,
+        fee: pool.fee,
+        liquidity: pool.liquidity.toString(),
+      }))
+    )
+    return accessor
+  }
+
+  public getPoolAddress(
+    tokenA: Token,
+    tokenB: Token,
+    feeAmount: FeeAmount
+  ): { poolAddress: string; token0: Token; token1: Token } {
+    return this.poolProvider.getPoolAddress(tokenA, tokenB, feeAmount)
+  }
+}
+
+export class RecordingV4PoolProvider implements IV4PoolProvider {
+  constructor(private readonly poolProvider: IV4PoolProvider, private readonly recorder: CandidatePoolsRecorder) {}
+
+  public async getPools(currencyPairs: V4PoolConstruct[], providerConfig?: ProviderConfig): Promise<V4PoolAccessor> {
+    const accessor = await this.poolProvider.getPools(currencyPairs, providerConfig)
+    this.recorder.record(
+      'V4',
+      accessor.getAllPools().map((pool: V4Pool) => ({
+        address: pool.poolId,
+        token0: getAddress(pool.currency0),
+        token1: getAddress(pool.currency1),
+        fee: pool.fee,
+        tickSpacing: pool.tickSpacing,
+        hooks: pool.hooks,
+        liquidity: pool.liquidity.toString(),
+      }))
+    )
+    return accessor
+  }
+
+  public getPoolId(
+    currencyA: Currency,
+    currencyB: Currency,
+    fee: number,
+    tickSpacing: number,
+    hooks: string
+  ): { poolId: string; currency0: Currency; currency1: Currency } {
+    return this.poolProvider.getPoolId(currencyA, currencyB, fee, tickSpacing, hooks)
+  }
+}
@@ -8,26 +8,62 @@ import {
   setGlobalMetric,
   V3HeuristicGasModelFactory,
 } from '@uniswap/smart-order-router'
+import { ChainId } from '@uniswap/sdk-core'
 import { MetricsLogger } from 'aws-embedded-metrics'
 import { APIGatewayProxyEvent, Context } from 'aws-lambda'
 import { default as bunyan, default as Logger } from 'bunyan'
 import { BigNumber } from 'ethers'
-import { ContainerInjected, InjectorSOR, RequestInjected } from '../injector-sor'
+import { ContainerDependencies, ContainerInjected, InjectorSOR, RequestInjected } from '../injector-sor'
 import { AWSMetricsLogger } from '../router-entities/aws-metrics-logger'
 import { StaticGasPriceProvider } from '../router-entities/static-gas-price-provider'
-import { QuoteQueryParams } from './schema/quote-schema'
+import { CachedRoutesOnlyRouter, DynamoRouteCachingProvider, TapcompareRouter } from '../router-entities/route-caching'
+import { HooksPolicyStrictness, HooksPolicyV4PoolProvider } from '../router-entities/hooks-policy'
+import {
+  CandidatePoolsRecorder,
+  RecordingV2PoolProvider,
+  RecordingV3PoolProvider,
+  RecordingV4PoolProvider,
+} from './explain/RecordingPoolProviders'
+import { CachedRoutesParam, QuoteQueryParams, QuoteRequestBody, resolveQuoteQueryParams } from './schema/quote-schema'
 export class QuoteHandlerInjector extends InjectorSOR<
   IRouter<AlphaRouterConfig | LegacyRoutingConfig>,
-  QuoteQueryParams
+  QuoteQueryParams,
+  QuoteRequestBody | undefined
 > {
   public async getRequestInjected(
     containerInjected: ContainerInjected,
-    _requestBody: void,
-    requestQueryParams: QuoteQueryParams,
+    requestBody: QuoteRequestBody | undefined,
+    requestQueryParams: QuoteQueryParams | undefined,
     _event: APIGatewayProxyEvent,
     context: Context,
     log: Logger,
     metricsLogger: MetricsLogger
+  ): Promise<RequestInjected<IRouter<AlphaRouterConfig | LegacyRoutingConfig>>> {
+    const requestInjected = await this.buildRequestInjected(
+      containerInjected,
+      requestBody,
+      requestQueryParams,
+      context,
+      log,
+      metricsLogger
+    )
+    setGlobalLogger(requestInjected.log)
+    setGlobalMetric(requestInjected.metric)
+
+    return requestInjected
+  }
+
+  /**
+   * Builds the request injected of a quote without making its logger and metric the global ones of the
+   * smart-order-router, for the batch handler which quotes several requests concurrently in the same process.
+   */
+  public async buildRequestInjected(
+    containerInjected: ContainerInjected,
+    requestBody: QuoteRequestBody | undefined,
+    requestQueryParams: QuoteQueryParams | undefined,
+    context: Context,
+    log: Logger,
+    metricsLogger: MetricsLogger
   ): Promise<RequestInjected<IRouter<AlphaRouterConfig | LegacyRoutingConfig>>> {
     const { dependencies, activityId } = containerInjected
 
@@ -39,10 +75,17 @@ export class QuoteHandlerInjector extends InjectorSOR<
     // to capture Tapcompare logs in the smart-order-router.
     const logLevel = Math.random() < 0.1 ? bunyan.INFO : bunyan.WARN
 
+    const quoteParams = resolveQuoteQueryParams(requestBody, requestQueryParams)
+
+    if (!quoteParams) {
+      throw new Error('Quote parameters must be provided in the query string or request body')
+    }
+
     const {
       tokenInAddress,
       tokenInChainId,
       tokenOutAddress,
+      tokenOutChainId,
       amount,
       type,
       algorithm,
@@ -50,7 +93,11 @@ export class QuoteHandlerInjector extends InjectorSOR<
       quoteSpeed,
       intent,
       gasToken,
-    } = requestQueryParams
+      explain,
+      blockNumber,
+      hooksPolicy,
+      cachedRoutes,
+    } = quoteParams
 
     log = log.child({
       serializers: bunyan.stdSerializers,
@@ -64,53 +111,122 @@ export class QuoteHandlerInjector extends InjectorSOR<
       type,
       algorithm,
       gasToken,
+      blockNumber,
       activityId: activityId,
     })
-    setGlobalLogger(log)
 
     metricsLogger.setNamespace('Uniswap')
     metricsLogger.setDimensions({ Service: 'RoutingAPI' })
     const metric = new AWSMetricsLogger(metricsLogger)
-    setGlobalMetric(metric)
 
-    // Today API is restricted such that both tokens must be on the same chain.
-    const chainId = tokenInChainId
-    const chainIdEnum = ID_TO_CHAIN_ID(chainId)
+    const chainId = ID_TO_CHAIN_ID(tokenInChainId)
 
-    if (!dependencies[chainIdEnum]) {
+    if (!dependencies[chainId]) {
       // Request validation should prevent reject unsupported chains with 4xx already, so this should not be possible.
-      throw new Error(`No container injected dependencies for chain: ${chainIdEnum}`)
+      throw new Error(`No container injected dependencies for chain: ${chainId}`)
+    }
+
+    // Cross chain requests need a router on the destination chain as well, but only if a bridge is configured
+    // to connect the two chains. Otherwise the request is rejected by the handler.
+    let destinationRequestInjected: RequestInjected<IRouter<AlphaRouterConfig | LegacyRoutingConfig>> | undefined
+    const destinationChainId = ID_TO_CHAIN_ID(tokenOutChainId)
+    if (destinationChainId !== chainId && containerInjected.bridgeQuoteProvider && dependencies[destinationChainId]) {
+      destinationRequestInjected = {
+        ...this.buildChainRequestInjected(
+          destinationChainId,
+          dependencies[destinationChainId]!,
+          hooksPolicy,
+          algorithm
+        ),
+        id: quoteId,
+        log: log.child({ chainId: tokenOutChainId }),
+        metric,
+        quoteSpeed,
+        intent,
+      }
+    }
+
+    // Recording is cheap, the handler only returns the explanation when a valid unicornSecret is passed as well.
+    const candidatePoolsRecorder = explain ? new CandidatePoolsRecorder() : undefined
+
+    return {
+      // The gas price override is only meaningful on the chain it was requested for.
+      ...this.buildChainRequestInjected(
+        chainId,
+        dependencies[chainId]!,
+        hooksPolicy,
+        algorithm,
+        gasPriceWei,
+        candidatePoolsRecorder,
+        blockNumber,
+        cachedRoutes
+      ),
+      id: quoteId,
+      log,
+      metric,
+      quoteSpeed,
+      intent,
+      destinationRequestInjected,
+      candidatePoolsRecorder,
     }
+  }
 
+  private buildChainRequestInjected(
+    chainId: ChainId,
+    dependencies: ContainerDependencies,
+    hooksPolicy: HooksPolicyStrictness = HooksPolicyStrictness.PERMISSIVE,
+    algorithm?: string,
+    gasPriceWei?: string,
+    candidatePoolsRecorder?: CandidatePoolsRecorder,
+    blockNumber?: number,
+    cachedRoutes?: CachedRoutesParam
+  ): Pick<
+    RequestInjected<IRouter<AlphaRouterConfig | LegacyRoutingConfig>>,
+    | 'chainId'
+    | 'router'
+    | 'v4PoolProvider'
+    | 'v3PoolProvider'
+    | 'v2PoolProvider'
+    | 'tokenProvider'
+    | 'tokenListProvider'
+    | 'hooksPolicyProvider'
+  > {
     const {
       provider,
-      v4PoolProvider,
       v4SubgraphProvider,
-      v3PoolProvider,
       multicallProvider,
       tokenProvider,
       tokenListProvider,
       v3SubgraphProvider,
       blockedTokenListProvider,
-      v2PoolProvider,
       tokenValidatorProvider,
       tokenPropertiesProvider,
       v2QuoteProvider,
       v2SubgraphProvider,
       gasPriceProvider: gasPriceProviderOnChain,
       simulator,
-      routeCachingProvider,
+      hooksPolicyProvider,
       v2Supported,
-    } = dependencies[chainIdEnum]!
+    } = dependencies
+
+    // Historical quotes read every pool on chain at the pinned block. The Dynamo pool caches and the
+    // cached routes only reflect the latest blocks, so they are bypassed altogether.
+    const historical = blockNumber !== undefined
+    const v4PoolProvider = historical ? dependencies.noCacheV4PoolProvider : dependencies.v4PoolProvider
+    // Pools with blocked hooks are never loaded by the router, so they are not candidates for any route.
+    const hooksPolicyV4PoolProvider = new HooksPolicyV4PoolProvider(v4PoolProvider, hooksPolicyProvider, hooksPolicy)
+    const v3PoolProvider = historical ? dependencies.noCacheV3PoolProvider : dependencies.v3PoolProvider
+    const v2PoolProvider = historical ? dependencies.noCacheV2PoolProvider : dependencies.v2PoolProvider
+    const routeCachingProvider = historical ? undefined : dependencies.routeCachingProvider
 
-    let onChainQuoteProvider = dependencies[chainIdEnum]!.onChainQuoteProvider
+    let onChainQuoteProvider = dependencies.onChainQuoteProvider
     let gasPriceProvider = gasPriceProviderOnChain
     if (gasPriceWei) {
       const gasPriceWeiBN = BigNumber.from(gasPriceWei)
       gasPriceProvider = new StaticGasPriceProvider(gasPriceWeiBN)
     }
 
-    let router
+    let router: IRouter<AlphaRouterConfig>
     switch (algorithm) {
       case 'alpha':
       default:
@@ -118,16 +234,22 @@ export class QuoteHandlerInjector extends InjectorSOR<
           chainId,
           provider,
           v4SubgraphProvider,
-          v4PoolProvider,
+          v4PoolProvider: candidatePoolsRecorder
+            ? new RecordingV4PoolProvider(hooksPolicyV4PoolProvider, candidatePoolsRecorder)
+            : hooksPolicyV4PoolProvider,
           v3SubgraphProvider,
           multicall2Provider: multicallProvider,
-          v3PoolProvider,
+          v3PoolProvider: candidatePoolsRecorder
+            ? new RecordingV3PoolProvider(v3PoolProvider, candidatePoolsRecorder)
+            : v3PoolProvider,
           onChainQuoteProvider,
           gasPriceProvider,
           v3GasModelFactory: new V3HeuristicGasModelFactory(provider),
           blockedTokenListProvider,
           tokenProvider,
-          v2PoolProvider,
+          v2PoolProvider: candidatePoolsRecorder
+            ? new RecordingV2PoolProvider(v2PoolProvider, candidatePoolsRecorder)
+            : v2PoolProvider,
           v2QuoteProvider,
           v2SubgraphProvider,
           simulator,
@@ -139,19 +261,22 @@ export class QuoteHandlerInjector extends InjectorSOR<
         break
     }
 
+    if (cachedRoutes === 'only') {
+      router = new CachedRoutesOnlyRouter(router, routeCachingProvider, provider, chainId)
+    } else if (routeCachingProvider instanceof DynamoRouteCachingProvider) {
+      // Tapcompare buckets of the cached routes strategies compare the cached routes with fresh routes.
+      router = new TapcompareRouter(router, routeCachingProvider, chainId)
+    }
+
     return {
-      chainId: chainIdEnum,
-      id: quoteId,
-      log,
-      metric,
+      chainId,
       router,
       v4PoolProvider,
       v3PoolProvider,
       v2PoolProvider,
       tokenProvider,
       tokenListProvider,
-      quoteSpeed,
-      intent,
+      hooksPolicyProvider,
     }
   }
 }
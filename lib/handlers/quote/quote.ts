@@ -20,21 +20,32 @@ import JSBI from 'jsbi'
 import _ from 'lodash'
 import { APIGLambdaHandler, ErrorResponse, HandleRequestParams, Response } from '../handler'
 import { ContainerInjected, RequestInjected } from '../injector-sor'
-import { QuoteResponse, QuoteResponseSchemaJoi, SupportedPoolInRoute } from '../schema'
+import { QuoteExplanation, QuoteResponse, QuoteResponseSchemaJoi, SupportedPoolInRoute } from '../schema'
 import {
   DEFAULT_ROUTING_CONFIG_BY_CHAIN,
   FEE_ON_TRANSFER_SPECIFIC_CONFIG,
   INTENT_SPECIFIC_CONFIG,
   QUOTE_SPEED_CONFIG,
 } from '../shared'
-import { QuoteQueryParams, QuoteQueryParamsJoi, TradeTypeParam } from './schema/quote-schema'
+import {
+  QuoteQueryParams,
+  QuoteQueryParamsJoi,
+  QuoteRequestBody,
+  QuoteRequestBodyJoi,
+  resolveQuoteQueryParams,
+  TradeTypeParam,
+} from './schema/quote-schema'
 import { simulationStatusTranslation } from './util/simulation'
+import { exceedsPriceImpact, findLargestAmountWithinPriceImpact, priceImpactToPercent } from './util/price-impact'
 import Logger from 'bunyan'
 import { PAIRS_TO_TRACK } from './util/pairs-to-track'
 import { measureDistributionPercentChangeImpact } from '../../util/alpha-config-measurement'
 import { MetricsLogger } from 'aws-embedded-metrics'
 import { CurrencyLookup } from '../CurrencyLookup'
 import { SwapOptionsFactory } from './SwapOptionsFactory'
+import { CrossChainQuoter, SwapLegRequest } from './CrossChainQuoter'
+import { CandidatePoolsRecorder } from './explain/RecordingPoolProviders'
+import { HooksPolicyStrictness } from '../router-entities/hooks-policy'
 import { GlobalRpcProviders } from '../../rpc/GlobalRpcProviders'
 import { adhocCorrectGasUsed } from '../../util/estimateGasUsed'
 import { adhocCorrectGasUsedUSD } from '../../util/estimateGasUsedUSD'
@@ -46,18 +57,32 @@ import {
   URVersionsToProtocolVersions,
 } from '../../util/supportedProtocolVersions'
 
+// Upper bound on the alternative routes returned by explain requests.
+const MAX_EXPLAIN_ALTERNATIVES = 5
+
 export class QuoteHandler extends APIGLambdaHandler<
   ContainerInjected,
   RequestInjected<IRouter<AlphaRouterConfig>>,
-  void,
+  QuoteRequestBody | undefined,
   QuoteQueryParams,
   QuoteResponse
 > {
   public async handleRequest(
-    params: HandleRequestParams<ContainerInjected, RequestInjected<IRouter<any>>, void, QuoteQueryParams>
+    params: HandleRequestParams<
+      ContainerInjected,
+      RequestInjected<IRouter<any>>,
+      QuoteRequestBody | undefined,
+      QuoteQueryParams
+    >
   ): Promise<Response<QuoteResponse> | ErrorResponse> {
     const { chainId, metric, log, quoteSpeed, intent } = params.requestInjected
 
+    // Everything below reads the quote parameters from the query params, so flatten the body of POST requests into them.
+    params = {
+      ...params,
+      requestQueryParams: resolveQuoteQueryParams(params.requestBody, params.requestQueryParams)!,
+    }
+
     // Mark the start of core business logic for latency bookkeeping.
     // Note that some time may have elapsed before handleRequest was called, so this
     // time does not accurately indicate when our lambda started processing the request,
@@ -201,7 +226,12 @@ export class QuoteHandler extends APIGLambdaHandler<
   }
 
   private async handleRequestInternal(
-    params: HandleRequestParams<ContainerInjected, RequestInjected<IRouter<any>>, void, QuoteQueryParams>,
+    params: HandleRequestParams<
+      ContainerInjected,
+      RequestInjected<IRouter<any>>,
+      QuoteRequestBody | undefined,
+      QuoteQueryParams
+    >,
     handleRequestStartTime: number
   ): Promise<Response<QuoteResponse> | ErrorResponse> {
     const {
@@ -235,6 +265,12 @@ export class QuoteHandler extends APIGLambdaHandler<
         portionAmount,
         portionRecipient,
         gasToken,
+        maxPriceImpact,
+        outputs,
+        explain,
+        blockNumber: pinnedBlockNumber,
+        hooksPolicy,
+        cachedRoutes,
       },
       requestInjected: {
         router,
@@ -246,17 +282,29 @@ export class QuoteHandler extends APIGLambdaHandler<
         v4PoolProvider: v4PoolProvider,
         v3PoolProvider: v3PoolProvider,
         v2PoolProvider: v2PoolProvider,
+        hooksPolicyProvider,
         metric,
+        candidatePoolsRecorder,
       },
     } = params
     if (tokenInChainId !== tokenOutChainId) {
+      return this.handleCrossChainRequest(params, handleRequestStartTime)
+    }
+
+    const historical = pinnedBlockNumber !== undefined
+    // Simulations always run against the latest state, so they can't validate a historical route.
+    if (historical && simulateFromAddress) {
       return {
         statusCode: 400,
-        errorCode: 'TOKEN_CHAINS_DIFFERENT',
-        detail: `Cannot request quotes for tokens on different chains`,
+        errorCode: 'HISTORICAL_SIMULATION_UNSUPPORTED',
+        detail: `simulateFromAddress is not supported for quotes pinned to a blockNumber`,
       }
     }
 
+    if (historical) {
+      metric.putMetric('HistoricalQuoteRequested', 1, MetricLoggerUnit.Count)
+    }
+
     const requestSourceHeader = params.event.headers && params.event.headers['x-request-source']
     const appVersion = params.event.headers && params.event.headers['x-app-version']
     const universalRouterVersion = convertStringRouterVersionToEnum(
@@ -321,6 +369,25 @@ export class QuoteHandler extends APIGLambdaHandler<
       }
     }
 
+    // Split outputs are paid out by Universal Router commands, SwapRouter02 calldata can only pay a single recipient.
+    if (outputs && slippageTolerance && !enableUniversalRouter) {
+      return {
+        statusCode: 400,
+        errorCode: 'OUTPUTS_REQUIRE_UNIVERSAL_ROUTER',
+        detail: `outputs can only be used with enableUniversalRouter`,
+      }
+    }
+
+    // The payouts of split outputs are appended to the calldata after routing, so a simulation of the routed calldata
+    // would neither cover them nor match the calldata returned.
+    if (outputs && simulateFromAddress) {
+      return {
+        statusCode: 400,
+        errorCode: 'OUTPUTS_SIMULATION_UNSUPPORTED',
+        detail: `simulateFromAddress is not supported for quotes with outputs`,
+      }
+    }
+
     let parsedDebugRoutingConfig = {}
     if (debugRoutingConfig && unicornSecret && unicornSecret === process.env.UNICORN_SECRET) {
       parsedDebugRoutingConfig = JSON.parse(debugRoutingConfig)
@@ -339,8 +406,17 @@ export class QuoteHandler extends APIGLambdaHandler<
       // override usedCachedRoutes to false. This is to ensure that we don't use
       // accidentally override usedCachedRoutes in the normal path.
       ...(enableFeeOnTransferFeeFetching ? FEE_ON_TRANSFER_SPECIFIC_CONFIG(enableFeeOnTransferFeeFetching) : {}),
+      // Cached routes are still written, so that routing from scratch refreshes them.
+      ...(cachedRoutes === 'skip' ? { useCachedRoutes: false } : {}),
       ...(gasToken ? { gasToken } : {}),
       ...(excludedProtocolsFromMixed ? { excludedProtocolsFromMixed } : {}),
+      // Cached routes are only valid for recent blocks, and a historical quote must not be cached as a recent one.
+      ...(historical ? { blockNumber: pinnedBlockNumber, useCachedRoutes: false, writeToCachedRoutes: false } : {}),
+      // Cached routes are shared by every hooks policy, and only checked against the PERMISSIVE one when read, so
+      // they could go through hooks a stricter policy blocks.
+      ...(hooksPolicy && hooksPolicy !== HooksPolicyStrictness.PERMISSIVE
+        ? { useCachedRoutes: false, writeToCachedRoutes: false }
+        : {}),
     }
 
     metric.putMetric(`${intent}Intent`, 1, MetricLoggerUnit.Count)
@@ -379,6 +455,7 @@ export class QuoteHandler extends APIGLambdaHandler<
       permitAmount,
       permitSigDeadline,
       simulateFromAddress,
+      outputs,
     })
 
     if (swapParams?.simulate?.fromAddress) {
@@ -461,6 +538,97 @@ export class QuoteHandler extends APIGLambdaHandler<
       }
     }
 
+    let requestedAmount: CurrencyAmount<Currency> | undefined
+    const maxPriceImpactPercent = maxPriceImpact !== undefined ? priceImpactToPercent(maxPriceImpact) : undefined
+
+    if (maxPriceImpactPercent && exceedsPriceImpact(swapRoute.trade?.priceImpact, maxPriceImpactPercent)) {
+      metric.putMetric('PriceImpactCapExceeded', 1, MetricLoggerUnit.Count)
+
+      const [quoteCurrency, tradeType] =
+        type == 'exactIn' ? [currencyOut, TradeType.EXACT_INPUT] : [currencyIn, TradeType.EXACT_OUTPUT]
+
+      // The portion amount of exactOut swaps is derived from the amount, so the swap options are rebuilt per amount.
+      const swapParamsOf = (swapAmount: CurrencyAmount<Currency>, simulate: boolean) =>
+        SwapOptionsFactory.assemble({
+          chainId,
+          currencyIn,
+          currencyOut,
+          tradeType: type,
+          universalRouterVersion,
+          slippageTolerance,
+          enableUniversalRouter,
+          portionBips,
+          portionRecipient,
+          portionAmount,
+          amountRaw: swapAmount.quotient.toString(),
+          deadline,
+          recipient,
+          permitSignature,
+          permitNonce,
+          permitExpiration,
+          permitAmount,
+          permitSigDeadline,
+          simulateFromAddress: simulate ? simulateFromAddress : undefined,
+        })
+
+      const priceImpactSearchStartTime = Date.now()
+      // Probes are not simulated, only the amount finally quoted is.
+      const capped = await findLargestAmountWithinPriceImpact<SwapRoute>(
+        amount,
+        maxPriceImpactPercent,
+        (probeAmount) =>
+          router.route(probeAmount, quoteCurrency, tradeType, swapParamsOf(probeAmount, false), routingConfig),
+        (probeRoute) => probeRoute.trade?.priceImpact
+      )
+
+      metric.putMetric(
+        'PriceImpactSearchLatency',
+        Date.now() - priceImpactSearchStartTime,
+        MetricLoggerUnit.Milliseconds
+      )
+
+      if (!capped) {
+        log.info(
+          {
+            type,
+            amount: amount.quotient.toString(),
+            priceImpact: swapRoute.trade?.priceImpact?.toFixed(),
+            maxPriceImpact,
+          },
+          `No amount within max price impact. 400`
+        )
+
+        return {
+          statusCode: 400,
+          errorCode: 'PRICE_IMPACT_TOO_HIGH',
+          detail: `Price impact exceeds ${maxPriceImpact}% for every amount probed`,
+        }
+      }
+
+      log.info(
+        { requestedAmount: amount.toExact(), amount: capped.amount.toExact(), maxPriceImpact },
+        `Reduced amount to stay within max price impact`
+      )
+
+      requestedAmount = amount
+      amount = capped.amount
+      swapRoute = capped.route
+      if (simulateFromAddress) {
+        const simulatedRoute = await router.route(
+          amount,
+          quoteCurrency,
+          tradeType,
+          swapParamsOf(amount, true),
+          routingConfig
+        )
+        if (simulatedRoute) {
+          swapRoute = simulatedRoute
+        } else {
+          log.info({ amount: amount.toExact() }, `No route found when simulating the reduced amount`)
+        }
+      }
+    }
+
     const {
       quote,
       quoteGasAdjusted,
@@ -521,6 +689,7 @@ export class QuoteHandler extends APIGLambdaHandler<
         }
 
         if (nextPool instanceof V4Pool) {
+          const hookPolicy = hooksPolicyProvider.getHookPolicy(nextPool.hooks)
           curRoute.push({
             type: 'v4-pool',
             address: v4PoolProvider.getPoolId(
@@ -545,6 +714,8 @@ export class QuoteHandler extends APIGLambdaHandler<
             fee: nextPool.fee.toString(),
             tickSpacing: nextPool.tickSpacing.toString(),
             hooks: nextPool.hooks.toString(),
+            hooksPermissions: hookPolicy.permissions,
+            hooksClassification: hookPolicy.classification,
             liquidity: nextPool.liquidity.toString(),
             sqrtRatioX96: nextPool.sqrtRatioX96.toString(),
             tickCurrent: nextPool.tickCurrent.toString(),
@@ -653,7 +824,10 @@ export class QuoteHandler extends APIGLambdaHandler<
     const routeString = routeAmountsToString(route)
 
     const result: QuoteResponse = {
-      methodParameters,
+      methodParameters:
+        methodParameters && outputs
+          ? SwapOptionsFactory.splitOutputs(methodParameters, currencyOut, outputs)
+          : methodParameters,
       blockNumber: blockNumber.toString(),
       amount: amount.quotient.toString(),
       amountDecimals: amount.toExact(),
@@ -681,6 +855,27 @@ export class QuoteHandler extends APIGLambdaHandler<
       portionAmount: outputPortionAmount?.quotient.toString(),
       portionAmountDecimals: outputPortionAmount?.toExact(),
       priceImpact: trade?.priceImpact?.toFixed(),
+      requestedAmount: requestedAmount?.quotient.toString(),
+      requestedAmountDecimals: requestedAmount?.toExact(),
+      outputs: outputs?.map(({ recipient, amount }) => ({
+        recipient,
+        amount,
+        amountDecimals: CurrencyAmount.fromRawAmount(currencyOut, JSBI.BigInt(amount)).toExact(),
+      })),
+      historical: historical || undefined,
+    }
+
+    if (explain && unicornSecret && unicornSecret === process.env.UNICORN_SECRET) {
+      result.explain = await this.explainQuote(
+        router,
+        amount,
+        type == 'exactIn' ? currencyOut : currencyIn,
+        type == 'exactIn' ? TradeType.EXACT_INPUT : TradeType.EXACT_OUTPUT,
+        routingConfig,
+        swapRoute,
+        candidatePoolsRecorder,
+        log
+      )
     }
 
     this.logRouteMetrics(
@@ -704,6 +899,228 @@ export class QuoteHandler extends APIGLambdaHandler<
     }
   }
 
+  private async handleCrossChainRequest(
+    params: HandleRequestParams<
+      ContainerInjected,
+      RequestInjected<IRouter<any>>,
+      QuoteRequestBody | undefined,
+      QuoteQueryParams
+    >,
+    handleRequestStartTime: number
+  ): Promise<Response<QuoteResponse> | ErrorResponse> {
+    const {
+      requestQueryParams,
+      requestQueryParams: {
+        tokenInAddress,
+        tokenInChainId,
+        tokenOutAddress,
+        tokenOutChainId,
+        amount,
+        type,
+        recipient,
+        maxPriceImpact,
+        blockNumber,
+      },
+      requestInjected,
+      containerInjected: { bridgeQuoteProvider },
+    } = params
+    const { log, metric, id: quoteId, destinationRequestInjected } = requestInjected
+
+    if (!bridgeQuoteProvider || !destinationRequestInjected) {
+      return {
+        statusCode: 400,
+        errorCode: 'TOKEN_CHAINS_DIFFERENT',
+        detail: `Cannot request quotes for tokens on different chains`,
+      }
+    }
+
+    if (type != 'exactIn') {
+      return {
+        statusCode: 400,
+        errorCode: 'CROSS_CHAIN_EXACT_OUT_UNSUPPORTED',
+        detail: `Cross chain quotes are only supported for exactIn`,
+      }
+    }
+
+    if (maxPriceImpact !== undefined) {
+      return {
+        statusCode: 400,
+        errorCode: 'CROSS_CHAIN_MAX_PRICE_IMPACT_UNSUPPORTED',
+        detail: `maxPriceImpact is not supported for cross chain quotes`,
+      }
+    }
+
+    // A block number only identifies the state of a single chain.
+    if (blockNumber !== undefined) {
+      return {
+        statusCode: 400,
+        errorCode: 'CROSS_CHAIN_BLOCK_NUMBER_UNSUPPORTED',
+        detail: `blockNumber is not supported for cross chain quotes`,
+      }
+    }
+
+    metric.putMetric(`GET_QUOTE_CROSS_CHAIN_${tokenInChainId}_${tokenOutChainId}`, 1, MetricLoggerUnit.Count)
+
+    const [currencyIn, currencyOut] = await Promise.all([
+      new CurrencyLookup(requestInjected.tokenListProvider, requestInjected.tokenProvider, log).searchForToken(
+        tokenInAddress,
+        tokenInChainId
+      ),
+      new CurrencyLookup(
+        destinationRequestInjected.tokenListProvider,
+        destinationRequestInjected.tokenProvider,
+        log
+      ).searchForToken(tokenOutAddress, tokenOutChainId),
+    ])
+
+    if (!currencyIn) {
+      return {
+        statusCode: 400,
+        errorCode: 'TOKEN_IN_INVALID',
+        detail: `Could not find token with address "${tokenInAddress}"`,
+      }
+    }
+
+    if (!currencyOut) {
+      return {
+        statusCode: 400,
+        errorCode: 'TOKEN_OUT_INVALID',
+        detail: `Could not find token with address "${tokenOutAddress}"`,
+      }
+    }
+
+    // Each swap leg is a regular single chain quote. Permit and simulation only apply to the
+    // source chain swap, while the portion fee is taken from the output on the destination chain.
+    const quoteSwapLeg = (leg: SwapLegRequest) =>
+      this.handleRequestInternal(
+        {
+          ...params,
+          requestQueryParams:
+            leg.leg == 'source'
+              ? {
+                  ...requestQueryParams,
+                  tokenOutAddress: leg.tokenOutAddress,
+                  tokenOutChainId: leg.chainId,
+                  amount: leg.amount,
+                  portionBips: undefined,
+                  portionAmount: undefined,
+                  portionRecipient: undefined,
+                }
+              : {
+                  ...requestQueryParams,
+                  tokenInAddress: leg.tokenInAddress,
+                  tokenInChainId: leg.chainId,
+                  amount: leg.amount,
+                  simulateFromAddress: undefined,
+                  permitSignature: undefined,
+                  permitNonce: undefined,
+                  permitExpiration: undefined,
+                  permitAmount: undefined,
+                  permitSigDeadline: undefined,
+                },
+          requestInjected: leg.leg == 'source' ? requestInjected : destinationRequestInjected,
+        },
+        handleRequestStartTime
+      )
+
+    return new CrossChainQuoter(bridgeQuoteProvider, quoteSwapLeg, log).quote({
+      quoteId,
+      currencyIn,
+      tokenInAddress,
+      currencyOut,
+      tokenOutAddress,
+      amount,
+      recipient,
+    })
+  }
+
+  // Alternatives are routed again with a single constraint each, which is expensive, so this is only
+  // done for explain requests. They bypass the cached routes so that they reflect a fresh routing.
+  private async explainQuote(
+    router: IRouter<any>,
+    amount: CurrencyAmount<Currency>,
+    quoteCurrency: Currency,
+    tradeType: TradeType,
+    routingConfig: AlphaRouterConfig,
+    swapRoute: SwapRoute,
+    candidatePoolsRecorder: CandidatePoolsRecorder | undefined,
+    log: Logger
+  ): Promise<QuoteExplanation> {
+    // Snapshot before routing the alternatives, which load pools through the same recorder.
+    const candidatePools = candidatePoolsRecorder?.snapshot() ?? {}
+
+    const protocols: Protocol[] = routingConfig.protocols?.length
+      ? routingConfig.protocols
+      : [Protocol.V2, Protocol.V3, Protocol.V4]
+    const constraints: { description: string; config: Partial<AlphaRouterConfig> }[] = [
+      ...(protocols.length > 1
+        ? protocols.map((protocol) => ({ description: `${protocol} only`, config: { protocols: [protocol] } }))
+        : []),
+      { description: 'single route', config: { maxSplits: 1 } },
+    ]
+
+    const alternatives = await Promise.all(
+      constraints.map(async ({ description, config }) => {
+        try {
+          const alternative = await router.route(amount, quoteCurrency, tradeType, undefined, {
+            ...routingConfig,
+            ...config,
+            useCachedRoutes: false,
+            writeToCachedRoutes: false,
+          })
+          return alternative ? { description, swapRoute: alternative as SwapRoute } : undefined
+        } catch (err) {
+          log.warn({ err, description }, 'Failed to route explain alternative')
+          return undefined
+        }
+      })
+    )
+
+    return {
+      candidatePools,
+      alternatives: _(alternatives)
+        .compact()
+        .map(({ description, swapRoute: alternative }) => ({
+          description,
+          alternative,
+          routeString: routeAmountsToString(alternative.route),
+        }))
+        .sort((a, b) => {
+          // Best first: the most output for exactIn, the least input for exactOut.
+          const { quoteGasAdjusted } = a.alternative
+          const ascending = quoteGasAdjusted.lessThan(b.alternative.quoteGasAdjusted)
+            ? -1
+            : quoteGasAdjusted.greaterThan(b.alternative.quoteGasAdjusted)
+            ? 1
+            : 0
+          if (ascending != 0) {
+            return tradeType == TradeType.EXACT_INPUT ? -ascending : ascending
+          }
+          // Ties, e.g. the single route alternative finding the same route as a protocol only one, are ordered
+          // by route then description, so that the comparator is consistent and the order deterministic.
+          return a.routeString.localeCompare(b.routeString) || a.description.localeCompare(b.description)
+        })
+        .take(MAX_EXPLAIN_ALTERNATIVES)
+        .map(({ description, alternative, routeString }) => ({
+          description,
+          quote: alternative.quote.quotient.toString(),
+          quoteDecimals: alternative.quote.toExact(),
+          quoteGasAdjusted: alternative.quoteGasAdjusted.quotient.toString(),
+          quoteGasAdjustedDecimals: alternative.quoteGasAdjusted.toExact(),
+          gasUseEstimate: alternative.estimatedGasUsed.toString(),
+          routeString,
+        }))
+        .value(),
+      // Round trip through JSON to drop anything that is not serializable, like the block number promise.
+      routingConfig: JSON.parse(JSON.stringify(routingConfig)),
+      cachedRoutes: {
+        enabled: !!routingConfig.useCachedRoutes,
+        optimistic: !!routingConfig.optimisticCachedRoutes,
+        hit: swapRoute.hitsCachedRoute,
+      },
+    }
+  }
+
   static protocolsFromRequest(
     chainId: ChainId,
     universalRouterVersion: UniversalRouterVersion,
@@ -862,7 +1279,7 @@ export class QuoteHandler extends APIGLambdaHandler<
   }
 
   protected requestBodySchema(): Joi.ObjectSchema | null {
-    return null
+    return QuoteRequestBodyJoi
   }
 
   protected requestQueryParamsSchema(): Joi.ObjectSchema | null {
@@ -0,0 +1,89 @@
+import { HooksPolicyStrictness } from '../../router-entities/hooks-policy/hook-classification'
+
+// Future work: this TradeTypeParam can be converted into an enum and used in the
+// QuoteQueryParamsJoi schema and in the route QuoteHandler.
+export type TradeTypeParam = 'exactIn' | 'exactOut'
+
+export type CachedRoutesParam = 'only' | 'skip'
+
+export type QuoteQueryParams = {
+  tokenInAddress: string
+  tokenInChainId: number
+  tokenOutAddress: string
+  tokenOutChainId: number
+  amount: string
+  type: TradeTypeParam
+  recipient?: string
+  slippageTolerance?: string
+  deadline?: string
+  algorithm?: string
+  gasPriceWei?: string
+  minSplits?: number
+  forceCrossProtocol?: boolean
+  forceMixedRoutes?: boolean
+  protocols?: string[] | string
+  simulateFromAddress?: string
+  permitSignature?: string
+  permitNonce?: string
+  permitExpiration?: string
+  permitAmount?: string
+  permitSigDeadline?: string
+  enableUniversalRouter?: boolean
+  quoteSpeed?: string
+  debugRoutingConfig?: string
+  unicornSecret?: string
+  intent?: string
+  enableFeeOnTransferFeeFetching?: boolean
+  portionBips?: number
+  portionAmount?: string
+  portionRecipient?: string
+  source?: string
+  gasToken?: string
+  maxPriceImpact?: number
+  explain?: boolean
+  blockNumber?: number
+  hooksPolicy?: HooksPolicyStrictness
+  cachedRoutes?: CachedRoutesParam
+  // Only accepted in the POST /quote body. When set, amount is the sum of the output amounts.
+  outputs?: QuoteOutputParams[]
+}
+
+export type QuoteOutputParams = {
+  recipient: string
+  amount: string
+}
+
+export type QuoteRequestBody = Omit<
+  QuoteQueryParams,
+  | 'amount'
+  | 'protocols'
+  | 'debugRoutingConfig'
+  | 'permitSignature'
+  | 'permitNonce'
+  | 'permitExpiration'
+  | 'permitAmount'
+  | 'permitSigDeadline'
+  | 'portionBips'
+  | 'portionAmount'
+  | 'portionRecipient'
+  | 'simulateFromAddress'
+> & {
+  amount?: string
+  protocols?: string[]
+  debugRoutingConfig?: { [key: string]: any }
+  permit?: {
+    signature: string
+    nonce?: string
+    expiration?: string
+    amount?: string
+    sigDeadline?: string
+  }
+  portion?: {
+    bips?: number
+    amount?: string
+    recipient?: string
+  }
+  simulation?: {
+    fromAddress: string
+  }
+}
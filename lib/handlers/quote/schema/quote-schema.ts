@@ -1,5 +1,11 @@
 import BaseJoi from '@hapi/joi'
 import { SUPPORTED_CHAINS } from '../../injector-sor'
+import { BigNumber } from 'ethers'
+import { HooksPolicyStrictness } from '../../router-entities/hooks-policy/hooks-policy-provider'
+import { QuoteQueryParams, QuoteRequestBody } from './quote-params'
+
+// The types are declared apart from their schemas, so that the client can use them without the handlers.
+export * from './quote-params'
 
 const Joi = BaseJoi.extend((joi) => ({
   base: joi.array(),
@@ -72,43 +78,118 @@ export const QuoteQueryParamsJoi = Joi.object({
   portionRecipient: Joi.string().alphanum().max(42).optional(),
   source: Joi.string().max(20).optional(),
   gasToken: Joi.string().alphanum().max(42).optional(),
+  // In percent, like the priceImpact field of the response.
+  maxPriceImpact: Joi.number().greater(0).max(100).optional(),
+  // Adds a trace of how the route was picked to the response. Requires a valid unicornSecret.
+  explain: Joi.boolean().optional(),
+  // Quotes against the chain state at this block, bypassing every cache. Meant for backtesting and debugging.
+  blockNumber: Joi.number().integer().min(1).optional(),
+  // Which v4 hooks the quote may route through, see HooksPolicyStrictness.
+  hooksPolicy: Joi.string()
+    .valid(...Object.values(HooksPolicyStrictness))
+    .optional()
+    .default(HooksPolicyStrictness.PERMISSIVE),
+  // 'only' quotes the cached routes and finds no route when there are none, instead of routing from scratch.
+  // 'skip' routes from scratch even when cached routes are available, and caches the result as usual.
+  cachedRoutes: Joi.string().valid('only', 'skip').optional(),
 })
 
-// Future work: this TradeTypeParam can be converted into an enum and used in the
-// schema above and in the route QuoteHandler.
-export type TradeTypeParam = 'exactIn' | 'exactOut'
+export const MAX_QUOTE_OUTPUTS = 20
+
+const quoteParam = (key: keyof QuoteQueryParams) => QuoteQueryParamsJoi.extract(key)
+
+// JSON body accepted by POST /quote. Mirrors QuoteQueryParamsJoi, except that long or structured
+// parameters are sent as nested objects instead of being flattened into the query string.
+export const QuoteRequestBodyJoi = BaseJoi.object({
+  tokenInAddress: quoteParam('tokenInAddress'),
+  tokenInChainId: quoteParam('tokenInChainId'),
+  tokenOutAddress: quoteParam('tokenOutAddress'),
+  tokenOutChainId: quoteParam('tokenOutChainId'),
+  amount: quoteParam('amount').when('outputs', { is: BaseJoi.exist(), then: BaseJoi.optional() }),
+  type: quoteParam('type'),
+  recipient: quoteParam('recipient'),
+  slippageTolerance: quoteParam('slippageTolerance'),
+  deadline: quoteParam('deadline'),
+  algorithm: quoteParam('algorithm'),
+  gasPriceWei: quoteParam('gasPriceWei'),
+  minSplits: quoteParam('minSplits'),
+  forceCrossProtocol: quoteParam('forceCrossProtocol'),
+  forceMixedRoutes: quoteParam('forceMixedRoutes'),
+  protocols: BaseJoi.array().items(BaseJoi.string().valid('v2', 'v3', 'v4', 'mixed')).optional(),
+  enableUniversalRouter: quoteParam('enableUniversalRouter'),
+  quoteSpeed: quoteParam('quoteSpeed'),
+  debugRoutingConfig: BaseJoi.object().unknown().optional(),
+  unicornSecret: quoteParam('unicornSecret'),
+  intent: quoteParam('intent'),
+  enableFeeOnTransferFeeFetching: quoteParam('enableFeeOnTransferFeeFetching'),
+  source: quoteParam('source'),
+  gasToken: quoteParam('gasToken'),
+  maxPriceImpact: quoteParam('maxPriceImpact'),
+  explain: quoteParam('explain'),
+  blockNumber: quoteParam('blockNumber'),
+  hooksPolicy: quoteParam('hooksPolicy'),
+  cachedRoutes: quoteParam('cachedRoutes'),
+  permit: BaseJoi.object({
+    signature: quoteParam('permitSignature').required(),
+    nonce: quoteParam('permitNonce'),
+    expiration: quoteParam('permitExpiration'),
+    amount: quoteParam('permitAmount'),
+    sigDeadline: quoteParam('permitSigDeadline'),
+  }).optional(),
+  portion: BaseJoi.object({
+    // A number, unlike in the query string. Numeric strings are still accepted, and converted.
+    bips: BaseJoi.number().integer().min(0).max(10000).optional(),
+    amount: quoteParam('portionAmount'),
+    recipient: quoteParam('portionRecipient'),
+  }).optional(),
+  simulation: BaseJoi.object({
+    fromAddress: quoteParam('simulateFromAddress').required(),
+  }).optional(),
+  // Buys the total amount once and splits it between several recipients.
+  outputs: BaseJoi.array()
+    .items(
+      BaseJoi.object({
+        recipient: quoteParam('recipient').required(),
+        amount: quoteParam('amount'),
+      })
+    )
+    .min(1)
+    .max(MAX_QUOTE_OUTPUTS)
+    .when('type', { is: 'exactOut', otherwise: BaseJoi.forbidden() })
+    .optional(),
+}).without('outputs', ['amount', 'recipient', 'maxPriceImpact'])
+
+/**
+ * Resolves the quote parameters of a request. POST requests carry them in the body,
+ * which is flattened into the same shape GET requests send in the query string.
+ *
+ * @param requestBody
+ * @param requestQueryParams
+ */
+export const resolveQuoteQueryParams = (
+  requestBody: QuoteRequestBody | undefined,
+  requestQueryParams: QuoteQueryParams | undefined
+): QuoteQueryParams | undefined => {
+  if (!requestBody) {
+    return requestQueryParams
+  }
+
+  const { amount, debugRoutingConfig, permit, portion, simulation, ...params } = requestBody
 
-export type QuoteQueryParams = {
-  tokenInAddress: string
-  tokenInChainId: number
-  tokenOutAddress: string
-  tokenOutChainId: number
-  amount: string
-  type: TradeTypeParam
-  recipient?: string
-  slippageTolerance?: string
-  deadline?: string
-  algorithm?: string
-  gasPriceWei?: string
-  minSplits?: number
-  forceCrossProtocol?: boolean
-  forceMixedRoutes?: boolean
-  protocols?: string[] | string
-  simulateFromAddress?: string
-  permitSignature?: string
-  permitNonce?: string
-  permitExpiration?: string
-  permitAmount?: string
-  permitSigDeadline?: string
-  enableUniversalRouter?: boolean
-  quoteSpeed?: string
-  debugRoutingConfig?: string
-  unicornSecret?: string
-  intent?: string
-  enableFeeOnTransferFeeFetching?: boolean
-  portionBips?: number
-  portionAmount?: string
-  portionRecipient?: string
-  source?: string
-  gasToken?: string
+  return {
+    ...params,
+    amount: params.outputs
+      ? params.outputs.reduce((total, output) => total.add(output.amount), BigNumber.from(0)).toString()
+      : amount!,
+    debugRoutingConfig: debugRoutingConfig ? JSON.stringify(debugRoutingConfig) : undefined,
+    permitSignature: permit?.signature,
+    permitNonce: permit?.nonce,
+    permitExpiration: permit?.expiration,
+    permitAmount: permit?.amount,
+    permitSigDeadline: permit?.sigDeadline,
+    portionBips: portion?.bips,
+    portionAmount: portion?.amount,
+    portionRecipient: portion?.recipient,
+    simulateFromAddress: simulation?.fromAddress,
+  }
 }
@@ -0,0 +1,199 @@
+import { APIGatewayProxyEvent, APIGatewayProxyEventV2, APIGatewayProxyResult, Context } from 'aws-lambda'
+import { Writable } from 'stream'
+import { APIGatewayProxyHandler } from '../../handler'
+import { QuoteResponse } from '../../schema'
+
+// Globals injected by the Lambda Node.js runtime for functions using response streaming.
+// https://docs.aws.amazon.com/lambda/latest/dg/configuration-response-streaming.html
+declare const awslambda:
+  | {
+      streamifyResponse: (
+        handler: (event: APIGatewayProxyEventV2, responseStream: Writable, context: Context) => Promise<void>
+      ) => (event: APIGatewayProxyEventV2, context: Context) => Promise<void>
+      HttpResponseStream: {
+        from: (
+          responseStream: Writable,
+          metadata: { statusCode: number; headers: { [header: string]: string } }
+        ) => Writable
+      }
+    }
+  | undefined
+
+export type QuoteStreamStage = 'cached' | 'standard'
+
+// The cached quote only reads the cached routes, while the standard quote routes from scratch, so that it can improve
+// on them. Streams fall back to the regular quote, which reads the cached routes when it can.
+const STAGE_QUERY_PARAMS: { [stage in QuoteStreamStage]: { [param: string]: string } } = {
+  cached: { cachedRoutes: 'only' },
+  standard: { quoteSpeed: 'standard', cachedRoutes: 'skip' },
+}
+
+export interface QuoteStreamWriter {
+  open(statusCode: number, headers: { [header: string]: string }): void
+  write(chunk: string): void
+  close(): void
+}
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token',
+}
+
+export const formatServerSentEvent = (event: string, data: any): string =>
+  `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+
+/**
+ * Streams progressive quotes over Server-Sent Events from behind a Lambda function URL.
+ *
+ * Both a cached and a standard quote are requested through the regular quote handler. The cached quote
+ * is only served from the cached routes, and emitted as soon as it is available. It is skipped when there are
+ * no cached routes for the quote. The standard quote is routed from scratch and emitted once the full routing
+ * finishes, followed by a done event. If the standard quote finishes first, the cached quote is dropped.
+ *
+ * Clients that do not accept text/event-stream get the standard quote as a single JSON body.
+ */
+export class QuoteStreamHandler {
+  constructor(private readonly quoteHandler: APIGatewayProxyHandler) {}
+
+  get handler() {
+    // Response streaming is only available inside the Lambda runtime. Elsewhere we fall back to a buffered response.
+    if (typeof awslambda === 'undefined') {
+      return async (event: APIGatewayProxyEventV2, context: Context): Promise<APIGatewayProxyResult> =>
+        this.quoteHandler(QuoteStreamHandler.toAPIGatewayProxyEvent(event, { quoteSpeed: 'standard' }), context)
+    }
+
+    const streaming = awslambda
+    return streaming.streamifyResponse(async (event, responseStream, context) => {
+      let stream: Writable = responseStream
+      await this.stream(event, context, {
+        open: (statusCode, headers) => {
+          stream = streaming.HttpResponseStream.from(responseStream, { statusCode, headers })
+        },
+        write: (chunk) => stream.write(chunk),
+        close: () => stream.end(),
+      })
+    })
+  }
+
+  public async stream(event: APIGatewayProxyEventV2, context: Context, writer: QuoteStreamWriter): Promise<void> {
+    const accept = event.headers?.['accept'] ?? event.headers?.['Accept'] ?? ''
+
+    if (!accept.includes('text/event-stream')) {
+      const result = await this.quoteHandler(
+        QuoteStreamHandler.toAPIGatewayProxyEvent(event, { quoteSpeed: 'standard' }),
+        context
+      )
+      writer.open(result.statusCode, { ...CORS_HEADERS, 'Content-Type': 'application/json' })
+      writer.write(result.body)
+      writer.close()
+      return
+    }
+
+    writer.open(200, {
+      ...CORS_HEADERS,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+    })
+
+    let emitted: QuoteStreamStage | undefined
+    const emit = (stage: QuoteStreamStage, result: APIGatewayProxyResult) => {
+      const quote: QuoteResponse = JSON.parse(result.body)
+      writer.write(formatServerSentEvent('quote', { stage, quote }))
+      emitted = stage
+    }
+
+    const cachedQuote = this.quoteHandler(
+      QuoteStreamHandler.toAPIGatewayProxyEvent(event, STAGE_QUERY_PARAMS.cached),
+      context
+    )
+      .then((result) => {
+        // Anything but a 200 is a miss of the cached routes, or an error the standard quote reports as well.
+        if (emitted === undefined && result.statusCode == 200) {
+          emit('cached', result)
+        }
+      })
+      .catch(() => {
+        // The standard quote decides the outcome of the stream, errors on the cached quote are only dropped.
+      })
+
+    let error: any = { statusCode: 500, errorCode: 'INTERNAL_ERROR', detail: 'Unexpected error' }
+    try {
+      const standardResult = await this.quoteHandler(
+        QuoteStreamHandler.toAPIGatewayProxyEvent(event, STAGE_QUERY_PARAMS.standard),
+        context
+      )
+
+      if (standardResult.statusCode == 200) {
+        emit('standard', standardResult)
+      } else {
+        error = { statusCode: standardResult.statusCode, ...JSON.parse(standardResult.body) }
+      }
+    } catch (err) {
+      // Reported below, unless the cached quote succeeded.
+    }
+
+    // If the standard quote failed, the cached quote is still worth waiting for.
+    await cachedQuote
+
+    if (emitted === undefined) {
+      writer.write(formatServerSentEvent('error', error))
+    }
+
+    writer.write(formatServerSentEvent('done', { stage: emitted }))
+    writer.close()
+  }
+
+  // Function URLs use the 2.0 payload format, while the quote handler is written against the REST API one.
+  public static toAPIGatewayProxyEvent(
+    event: APIGatewayProxyEventV2,
+    queryStringParameters: { [param: string]: string }
+  ): APIGatewayProxyEvent {
+    return {
+      body: event.body ?? null,
+      headers: event.headers,
+      multiValueHeaders: {},
+      httpMethod: event.requestContext.http.method,
+      isBase64Encoded: event.isBase64Encoded,
+      path: event.rawPath,
+      pathParameters: event.pathParameters ?? null,
+      queryStringParameters: { ...event.queryStringParameters, ...queryStringParameters },
+      multiValueQueryStringParameters: null,
+      stageVariables: event.stageVariables ?? null,
+      requestContext: {
+        accountId: event.requestContext.accountId,
+        apiId: event.requestContext.apiId,
+        authorizer: undefined,
+        domainName: event.requestContext.domainName,
+        domainPrefix: event.requestContext.domainPrefix,
+        protocol: event.requestContext.http.protocol,
+        httpMethod: event.requestContext.http.method,
+        identity: {
+          accessKey: null,
+          accountId: null,
+          apiKey: null,
+          apiKeyId: null,
+          caller: null,
+          clientCert: event.requestContext.authentication?.clientCert ?? null,
+          cognitoAuthenticationProvider: null,
+          cognitoAuthenticationType: null,
+          cognitoIdentityId: null,
+          cognitoIdentityPoolId: null,
+          principalOrgId: null,
+          sourceIp: event.requestContext.http.sourceIp,
+          user: null,
+          userAgent: event.requestContext.http.userAgent,
+          userArn: null,
+        },
+        path: event.requestContext.http.path,
+        stage: event.requestContext.stage,
+        requestId: event.requestContext.requestId,
+        requestTime: event.requestContext.time,
+        requestTimeEpoch: event.requestContext.timeEpoch,
+        resourceId: event.requestContext.routeKey,
+        resourcePath: event.rawPath,
+        routeKey: event.requestContext.routeKey,
+      },
+      resource: event.rawPath,
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { Currency, CurrencyAmount, Percent } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
+
+// Each probe is a full routing call, so the search is capped. The smallest amount probed is
+// the requested amount / 2^MAX_PRICE_IMPACT_PROBES.
+export const MAX_PRICE_IMPACT_PROBES = 8
+
+// Stop probing once the search interval is within this fraction of the requested amount.
+const PRICE_IMPACT_SEARCH_TOLERANCE_BIPS = JSBI.BigInt(50)
+
+export type PriceImpactProbeResult<Route> = {
+  amount: CurrencyAmount<Currency>
+  route: Route
+}
+
+// maxPriceImpact is expressed in percent, like the priceImpact field of the quote response.
+export const priceImpactToPercent = (maxPriceImpact: number): Percent =>
+  new Percent(Math.round(maxPriceImpact * 10_000), 1_000_000)
+
+export const exceedsPriceImpact = (priceImpact: Percent | undefined, maxPriceImpact: Percent): boolean =>
+  priceImpact !== undefined && priceImpact.greaterThan(maxPriceImpact)
+
+/**
+ * Binary searches the largest amount below requestedAmount whose route stays within maxPriceImpact.
+ * The requested amount itself is expected to already exceed the cap.
+ *
+ * @param requestedAmount The amount that was originally quoted.
+ * @param maxPriceImpact The largest acceptable price impact.
+ * @param probe Routes the given amount. Returns null when no route was found.
+ * @param priceImpactOf Extracts the price impact of a route.
+ * @returns The largest amount found and its route, or undefined if every probe exceeded the cap.
+ */
+export async function findLargestAmountWithinPriceImpact<Route>(
+  requestedAmount: CurrencyAmount<Currency>,
+  maxPriceImpact: Percent,
+  probe: (amount: CurrencyAmount<Currency>) => Promise<Route | null>,
+  priceImpactOf: (route: Route) => Percent | undefined
+): Promise<PriceImpactProbeResult<Route> | undefined> {
+  const tolerance = JSBI.divide(
+    JSBI.multiply(requestedAmount.quotient, PRICE_IMPACT_SEARCH_TOLERANCE_BIPS),
+    JSBI.BigInt(10_000)
+  )
+
+  let low = JSBI.BigInt(0)
+  let high = requestedAmount.quotient
+  let best: PriceImpactProbeResult<Route> | undefined
+
+  for (let i = 0; i < MAX_PRICE_IMPACT_PROBES; i++) {
+    if (best && JSBI.lessThanOrEqual(JSBI.subtract(high, low), tolerance)) {
+      break
+    }
+
+    const mid = JSBI.divide(JSBI.add(low, high), JSBI.BigInt(2))
+    if (JSBI.equal(mid, low)) {
+      break
+    }
+
+    const amount = CurrencyAmount.fromRawAmount(requestedAmount.currency, mid)
+    const route = await probe(amount)
+
+    if (route && !exceedsPriceImpact(priceImpactOf(route), maxPriceImpact)) {
+      best = { amount, route }
+      low = mid
+    } else {
+      high = mid
+    }
+  }
+
+  return best
+}
@@ -0,0 +1,9 @@
+export enum RoutingApiSimulationStatus {
+  UNATTEMPTED = 'UNATTEMPTED',
+  SUCCESS = 'SUCCESS',
+  FAILED = 'FAILED',
+  INSUFFICIENT_BALANCE = 'INSUFFICIENT_BALANCE',
+  NOT_SUPPORTED = 'NOT_SUPPORTED',
+  NOT_APPROVED = 'NOT_APPROVED',
+  UNKNOWN = '',
+}
@@ -1,15 +1,8 @@
 import { SimulationStatus } from '@uniswap/smart-order-router'
 import Logger from 'bunyan'
+import { RoutingApiSimulationStatus } from './simulation-status'
 
-export enum RoutingApiSimulationStatus {
-  UNATTEMPTED = 'UNATTEMPTED',
-  SUCCESS = 'SUCCESS',
-  FAILED = 'FAILED',
-  INSUFFICIENT_BALANCE = 'INSUFFICIENT_BALANCE',
-  NOT_SUPPORTED = 'NOT_SUPPORTED',
-  NOT_APPROVED = 'NOT_APPROVED',
-  UNKNOWN = '',
-}
+export { RoutingApiSimulationStatus }
 
 export const simulationStatusTranslation = (
   simulationStatus: SimulationStatus | undefined,
@@ -0,0 +1,134 @@
+import {
+  AlphaRouterConfig,
+  IMetric,
+  IRouter,
+  LegacyRoutingConfig,
+  setGlobalLogger,
+  setGlobalMetric,
+} from '@uniswap/smart-order-router'
+import { MetricsLogger } from 'aws-embedded-metrics'
+import { APIGatewayProxyEvent, Context } from 'aws-lambda'
+import { default as bunyan, default as Logger } from 'bunyan'
+import { BaseRInj, Injector } from '../handler'
+import { ContainerInjected, RequestInjected } from '../injector-sor'
+import { QuoteHandlerInjector } from '../quote/injector'
+import { QuoteQueryParams } from '../quote/schema/quote-schema'
+import { AWSMetricsLogger } from '../router-entities/aws-metrics-logger'
+import { QuotesRequestBody } from './schema/quotes-schema'
+
+export interface QuotesRequestInjected extends BaseRInj {
+  metric: IMetric
+  // Builds the per quote request injected, logging and emitting metrics to the item's own logger and metrics
+  // context. Items on the same chain with the same algorithm and gas price share a single router instance
+  // instead of building a fresh AlphaRouter per item.
+  getQuoteRequestInjected: (
+    quoteParams: QuoteQueryParams,
+    index: number,
+    metricsLogger: MetricsLogger
+  ) => Promise<RequestInjected<IRouter<AlphaRouterConfig | LegacyRoutingConfig>>>
+}
+
+export class QuotesHandlerInjector extends Injector<ContainerInjected, QuotesRequestInjected, QuotesRequestBody, void> {
+  // The batch handler is bundled together with the quote handler, so we reuse its container
+  // rather than building all the per chain dependencies a second time on cold start.
+  public constructor(injectorName: string, private readonly quoteInjectorPromise: Promise<QuoteHandlerInjector>) {
+    super(injectorName)
+  }
+
+  public async buildContainerInjected(): Promise<ContainerInjected> {
+    const quoteInjector = await this.quoteInjectorPromise
+    return quoteInjector.getContainerInjected()
+  }
+
+  public async getRequestInjected(
+    containerInjected: ContainerInjected,
+    _requestBody: QuotesRequestBody,
+    _requestQueryParams: void,
+    _event: APIGatewayProxyEvent,
+    context: Context,
+    log: Logger,
+    metricsLogger: MetricsLogger
+  ): Promise<QuotesRequestInjected> {
+    const quoteInjector = await this.quoteInjectorPromise
+
+    const requestId = context.awsRequestId
+    const batchId = requestId.substring(0, 5)
+
+    log = log.child({
+      serializers: bunyan.stdSerializers,
+      requestId,
+      batchId,
+      activityId: containerInjected.activityId,
+    })
+
+    metricsLogger.setNamespace('Uniswap')
+    metricsLogger.setDimensions({ Service: 'RoutingAPI' })
+    const metric = new AWSMetricsLogger(metricsLogger)
+    // Items are quoted concurrently, so the smart-order-router logs to the batch's logger and metric rather than
+    // to those of whichever item started last.
+    setGlobalLogger(log)
+    setGlobalMetric(metric)
+
+    const sharedRequestInjected = new Map<
+      string,
+      Promise<RequestInjected<IRouter<AlphaRouterConfig | LegacyRoutingConfig>>>
+    >()
+
+    const getQuoteRequestInjected = async (
+      quoteParams: QuoteQueryParams,
+      index: number,
+      itemMetricsLogger: MetricsLogger
+    ) => {
+      const { tokenInChainId, tokenOutChainId, algorithm, gasPriceWei } = quoteParams
+      const key = `${tokenInChainId}-${tokenOutChainId}-${algorithm ?? 'alpha'}-${gasPriceWei ?? 'onchain'}`
+
+      if (!sharedRequestInjected.has(key)) {
+        sharedRequestInjected.set(
+          key,
+          quoteInjector.buildRequestInjected(containerInjected, undefined, quoteParams, context, log, metricsLogger)
+        )
+      }
+
+      const requestInjected = await sharedRequestInjected.get(key)!
+
+      const itemLog = log.child({
+        batchIndex: index,
+        tokenInAddress: quoteParams.tokenInAddress,
+        chainId: tokenInChainId,
+        tokenOutAddress: quoteParams.tokenOutAddress,
+        amount: quoteParams.amount,
+        type: quoteParams.type,
+        algorithm,
+      })
+      itemMetricsLogger.setNamespace('Uniswap')
+      itemMetricsLogger.setDimensions({ Service: 'RoutingAPI' })
+      itemMetricsLogger.setProperty('batchId', batchId)
+      itemMetricsLogger.setProperty('batchIndex', index)
+      const itemMetric = new AWSMetricsLogger(itemMetricsLogger)
+
+      const { destinationRequestInjected } = requestInjected
+
+      return {
+        ...requestInjected,
+        log: itemLog,
+        metric: itemMetric,
+        quoteSpeed: quoteParams.quoteSpeed,
+        intent: quoteParams.intent,
+        destinationRequestInjected: destinationRequestInjected && {
+          ...destinationRequestInjected,
+          log: itemLog.child({ chainId: tokenOutChainId }),
+          metric: itemMetric,
+          quoteSpeed: quoteParams.quoteSpeed,
+          intent: quoteParams.intent,
+        },
+      }
+    }
+
+    return {
+      id: batchId,
+      log,
+      metric,
+      getQuoteRequestInjected,
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import Joi from '@hapi/joi'
+import { MetricLoggerUnit } from '@uniswap/smart-order-router'
+import { metricScope, MetricsLogger } from 'aws-embedded-metrics'
+import { APIGLambdaHandler, ErrorResponse, HandleRequestParams, Injector, Response } from '../handler'
+import { ContainerInjected } from '../injector-sor'
+import { QuoteHandler } from '../quote/quote'
+import { QuoteQueryParams, QuoteQueryParamsJoi } from '../quote/schema/quote-schema'
+import { QuoteResponse, QuoteResponseSchemaJoi } from '../schema'
+import { QuotesRequestInjected } from './injector'
+import {
+  QuotesRequestBody,
+  QuotesRequestBodyJoi,
+  QuotesResponse,
+  QuotesResponseItem,
+  QuotesResponseSchemaJoi,
+} from './schema/quotes-schema'
+
+export class QuotesHandler extends APIGLambdaHandler<
+  ContainerInjected,
+  QuotesRequestInjected,
+  QuotesRequestBody,
+  void,
+  QuotesResponse
+> {
+  constructor(
+    handlerName: string,
+    injectorPromise: Promise<Injector<ContainerInjected, QuotesRequestInjected, QuotesRequestBody, void>>,
+    private readonly quoteHandler: QuoteHandler
+  ) {
+    super(handlerName, injectorPromise)
+  }
+
+  public async handleRequest(
+    params: HandleRequestParams<ContainerInjected, QuotesRequestInjected, QuotesRequestBody, void>
+  ): Promise<Response<QuotesResponse> | ErrorResponse> {
+    const { requestBody, requestInjected } = params
+    const { metric, log } = requestInjected
+
+    if (!requestBody) {
+      return {
+        statusCode: 400,
+        errorCode: 'VALIDATION_ERROR',
+        detail: 'Request body is required',
+      }
+    }
+
+    const { quotes } = requestBody
+
+    metric.putMetric('GET_QUOTES_BATCH_SIZE', quotes.length, MetricLoggerUnit.Count)
+
+    // Items are independent of each other, a failure in one of them is reported in its own slot
+    // and never fails the batch as a whole. Each item emits its metrics in a context of its own.
+    const results = await Promise.all(
+      quotes.map((quoteParams, index) =>
+        metricScope((metricsLogger: MetricsLogger) => () => this.quoteItem(params, quoteParams, index, metricsLogger))()
+      )
+    )
+
+    for (const result of results) {
+      metric.putMetric(`GET_QUOTES_ITEM_${result.statusCode}`, 1, MetricLoggerUnit.Count)
+    }
+
+    log.info(
+      { batchSize: quotes.length, statusCodes: results.map((result) => result.statusCode) },
+      'Batch quote request completed'
+    )
+
+    return {
+      statusCode: 200,
+      body: { quotes: results },
+    }
+  }
+
+  private async quoteItem(
+    params: HandleRequestParams<ContainerInjected, QuotesRequestInjected, QuotesRequestBody, void>,
+    rawQuoteParams: unknown,
+    index: number,
+    metricsLogger: MetricsLogger
+  ): Promise<QuotesResponseItem> {
+    const { log, getQuoteRequestInjected } = params.requestInjected
+
+    const validation = QuoteQueryParamsJoi.validate(rawQuoteParams, {
+      allowUnknown: true, // Makes API schema changes and rollbacks easier.
+      stripUnknown: true,
+    })
+
+    if (validation.error) {
+      log.info({ index, validation }, 'Batch item failed validation')
+      return {
+        statusCode: 400,
+        errorCode: 'VALIDATION_ERROR',
+        detail: validation.error.message,
+      }
+    }
+
+    const quoteParams = validation.value as QuoteQueryParams
+
+    try {
+      const requestInjected = await getQuoteRequestInjected(quoteParams, index, metricsLogger)
+
+      const result = await this.quoteHandler.handleRequest({
+        context: params.context,
+        event: params.event,
+        requestBody: undefined,
+        requestQueryParams: quoteParams,
+        containerInjected: params.containerInjected,
+        requestInjected,
+      })
+
+      if (result.statusCode != 200 && result.statusCode != 202) {
+        const { statusCode, errorCode, detail } = result as ErrorResponse
+        return { statusCode, errorCode, detail }
+      }
+
+      const responseValidation = QuoteResponseSchemaJoi.validate((result as Response<QuoteResponse>).body, {
+        allowUnknown: true,
+        stripUnknown: true, // Ensure no unexpected fields returned to users.
+      })
+
+      if (responseValidation.error) {
+        log.error({ index, error: responseValidation.error.details }, 'Batch item response failed validation')
+        return QuotesHandler.internalError()
+      }
+
+      return {
+        statusCode: result.statusCode,
+        quote: responseValidation.value as QuoteResponse,
+      }
+    } catch (err) {
+      log.error({ err, index }, 'Unexpected error quoting batch item')
+      return QuotesHandler.internalError()
+    }
+  }
+
+  private static internalError(): QuotesResponseItem {
+    return {
+      statusCode: 500,
+      errorCode: 'INTERNAL_ERROR',
+      detail: 'Unexpected error',
+    }
+  }
+
+  protected requestBodySchema(): Joi.ObjectSchema | null {
+    return QuotesRequestBodyJoi
+  }
+
+  protected requestQueryParamsSchema(): Joi.ObjectSchema | null {
+    return null
+  }
+
+  protected responseBodySchema(): Joi.ObjectSchema | null {
+    return QuotesResponseSchemaJoi
+  }
+
+  protected afterHandler(metric: MetricsLogger, response: QuotesResponse, requestStart: number): void {
+    metric.putMetric('GET_QUOTES_LATENCY_TOP_LEVEL', Date.now() - requestStart, MetricLoggerUnit.Milliseconds)
+    metric.putMetric(
+      'GET_QUOTES_CACHED_ROUTES_HIT',
+      response.quotes.filter((item) => item.quote?.hitsCachedRoutes).length,
+      MetricLoggerUnit.Count
+    )
+  }
+}
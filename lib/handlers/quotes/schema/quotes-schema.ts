@@ -0,0 +1,39 @@
+import Joi from '@hapi/joi'
+import { QuoteResponse, QuoteResponseSchemaJoi } from '../../schema'
+import { QuoteQueryParams } from '../../quote/schema/quote-schema'
+
+// Upper bound on the number of quotes a single batch request can ask for.
+// Every item is routed concurrently within the same lambda invocation, so this also bounds the fan out.
+export const MAX_QUOTES_PER_BATCH = 50
+
+// Items are only checked for being objects here. Each item is validated individually against QuoteQueryParamsJoi
+// in the handler so that a single malformed item does not fail the whole batch.
+export const QuotesRequestBodyJoi = Joi.object({
+  quotes: Joi.array().items(Joi.object().unknown()).min(1).max(MAX_QUOTES_PER_BATCH).required(),
+})
+
+export type QuotesRequestBody = {
+  quotes: QuoteQueryParams[]
+}
+
+export const QuotesResponseItemJoi = Joi.object({
+  statusCode: Joi.number().required(),
+  quote: QuoteResponseSchemaJoi.optional(),
+  errorCode: Joi.string().optional(),
+  detail: Joi.string().optional(),
+})
+
+export const QuotesResponseSchemaJoi = Joi.object({
+  quotes: Joi.array().items(QuotesResponseItemJoi).required(),
+})
+
+export type QuotesResponseItem = {
+  statusCode: number
+  quote?: QuoteResponse
+  errorCode?: string
+  detail?: string
+}
+
+export type QuotesResponse = {
+  quotes: QuotesResponseItem[]
+}
@@ -0,0 +1,55 @@
+import { ChainId } from '@uniswap/sdk-core'
+import { MethodParameters } from '@uniswap/smart-order-router'
+
+/**
+ * An asset that can be moved from one chain to another by a bridge,
+ * e.g. USDC on mainnet and USDC on Base.
+ */
+export type BridgeableAsset = {
+  sourceChainId: ChainId
+  sourceTokenAddress: string
+  destinationChainId: ChainId
+  destinationTokenAddress: string
+}
+
+export type BridgeQuoteRequest = {
+  asset: BridgeableAsset
+  // Raw amount of the source token to bridge.
+  amount: string
+  recipient?: string
+}
+
+export type BridgeQuote = {
+  asset: BridgeableAsset
+  // Name of the bridge, surfaced to clients on the bridge leg.
+  bridge: string
+  // Raw amount of the source token sent to the bridge.
+  amountIn: string
+  // Raw amount of the destination token received on the destination chain, after bridge fees.
+  amountOut: string
+  estimatedLatencySeconds: number
+  methodParameters?: MethodParameters
+}
+
+/**
+ * Provider for quotes on moving assets across chains.
+ *
+ * Cross chain quotes are decomposed into a swap to a bridgeable asset on the source chain,
+ * a bridge leg provided by this interface, and a swap on the destination chain.
+ */
+export interface IBridgeQuoteProvider {
+  /**
+   * Returns the assets that can be bridged between the two chains.
+   *
+   * @param sourceChainId
+   * @param destinationChainId
+   */
+  getBridgeableAssets(sourceChainId: ChainId, destinationChainId: ChainId): Promise<BridgeableAsset[]>
+
+  /**
+   * Quotes bridging an amount of an asset. Returns undefined if the bridge can not serve the request.
+   *
+   * @param request
+   */
+  getQuote(request: BridgeQuoteRequest): Promise<BridgeQuote | undefined>
+}
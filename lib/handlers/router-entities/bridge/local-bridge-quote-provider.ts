@@ -0,0 +1,37 @@
+import { ChainId } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
+import { BridgeableAsset, BridgeQuote, BridgeQuoteRequest, IBridgeQuoteProvider } from './bridge-quote-provider'
+
+export type LocalBridgeQuoteProviderConfig = {
+  assets: BridgeableAsset[]
+  // Fee taken by the bridge from the bridged amount.
+  feeBips: number
+  estimatedLatencySeconds: number
+}
+
+/**
+ * Bridge quote provider backed by a static list of assets that bridges 1:1 minus a flat fee.
+ * Intended for tests and local development, it does not produce calldata.
+ */
+export class LocalBridgeQuoteProvider implements IBridgeQuoteProvider {
+  constructor(private readonly config: LocalBridgeQuoteProviderConfig) {}
+
+  public async getBridgeableAssets(sourceChainId: ChainId, destinationChainId: ChainId): Promise<BridgeableAsset[]> {
+    return this.config.assets.filter(
+      (asset) => asset.sourceChainId === sourceChainId && asset.destinationChainId === destinationChainId
+    )
+  }
+
+  public async getQuote({ asset, amount }: BridgeQuoteRequest): Promise<BridgeQuote | undefined> {
+    const amountIn = JSBI.BigInt(amount)
+    const fee = JSBI.divide(JSBI.multiply(amountIn, JSBI.BigInt(this.config.feeBips)), JSBI.BigInt(10000))
+
+    return {
+      asset,
+      bridge: 'local',
+      amountIn: amount,
+      amountOut: JSBI.subtract(amountIn, fee).toString(),
+      estimatedLatencySeconds: this.config.estimatedLatencySeconds,
+    }
+  }
+}
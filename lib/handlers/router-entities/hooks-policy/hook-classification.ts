@@ -0,0 +1,17 @@
+export enum HookClassification {
+  ALLOWED = 'allowed',
+  WARN = 'warn',
+  BLOCKED = 'blocked',
+}
+
+/**
+ * Which hooks a quote routes through, by the hooksPolicy parameter of the request.
+ */
+export enum HooksPolicyStrictness {
+  // Only avoids the hooks blocked by the hooks policy list.
+  PERMISSIVE = 'permissive',
+  // Also avoids the hooks blocked for their permissions.
+  STANDARD = 'standard',
+  // Only routes through allowed hooks.
+  STRICT = 'strict',
+}
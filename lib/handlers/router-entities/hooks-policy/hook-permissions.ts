@@ -0,0 +1,55 @@
+/**
+ * The callbacks a v4 hook implements, named like in the v4-core Hooks library.
+ */
+export enum HookPermission {
+  BEFORE_INITIALIZE = 'beforeInitialize',
+  AFTER_INITIALIZE = 'afterInitialize',
+  BEFORE_ADD_LIQUIDITY = 'beforeAddLiquidity',
+  AFTER_ADD_LIQUIDITY = 'afterAddLiquidity',
+  BEFORE_REMOVE_LIQUIDITY = 'beforeRemoveLiquidity',
+  AFTER_REMOVE_LIQUIDITY = 'afterRemoveLiquidity',
+  BEFORE_SWAP = 'beforeSwap',
+  AFTER_SWAP = 'afterSwap',
+  BEFORE_DONATE = 'beforeDonate',
+  AFTER_DONATE = 'afterDonate',
+  BEFORE_SWAP_RETURNS_DELTA = 'beforeSwapReturnsDelta',
+  AFTER_SWAP_RETURNS_DELTA = 'afterSwapReturnsDelta',
+  AFTER_ADD_LIQUIDITY_RETURNS_DELTA = 'afterAddLiquidityReturnsDelta',
+  AFTER_REMOVE_LIQUIDITY_RETURNS_DELTA = 'afterRemoveLiquidityReturnsDelta',
+}
+
+// The bit of the hook address flagging each permission, from the most significant one.
+const PERMISSION_BITS: [HookPermission, number][] = [
+  [HookPermission.BEFORE_INITIALIZE, 13],
+  [HookPermission.AFTER_INITIALIZE, 12],
+  [HookPermission.BEFORE_ADD_LIQUIDITY, 11],
+  [HookPermission.AFTER_ADD_LIQUIDITY, 10],
+  [HookPermission.BEFORE_REMOVE_LIQUIDITY, 9],
+  [HookPermission.AFTER_REMOVE_LIQUIDITY, 8],
+  [HookPermission.BEFORE_SWAP, 7],
+  [HookPermission.AFTER_SWAP, 6],
+  [HookPermission.BEFORE_DONATE, 5],
+  [HookPermission.AFTER_DONATE, 4],
+  [HookPermission.BEFORE_SWAP_RETURNS_DELTA, 3],
+  [HookPermission.AFTER_SWAP_RETURNS_DELTA, 2],
+  [HookPermission.AFTER_ADD_LIQUIDITY_RETURNS_DELTA, 1],
+  [HookPermission.AFTER_REMOVE_LIQUIDITY_RETURNS_DELTA, 0],
+]
+
+// Callbacks run by the PoolManager on swaps, which can change the amounts of a swap or revert it.
+export const SWAP_HOOK_PERMISSIONS = [HookPermission.BEFORE_SWAP, HookPermission.AFTER_SWAP]
+// Callbacks taking or giving part of the amounts of a swap, on top of the pool's own pricing.
+export const SWAP_DELTA_HOOK_PERMISSIONS = [
+  HookPermission.BEFORE_SWAP_RETURNS_DELTA,
+  HookPermission.AFTER_SWAP_RETURNS_DELTA,
+]
+
+/**
+ * Reads the permissions of a hook from the least significant bits of its address, which the PoolManager checks.
+ *
+ * @param hooks The hook address, the zero address for pools without hook.
+ */
+export const hookPermissions = (hooks: string): HookPermission[] => {
+  const flags = parseInt(hooks.slice(-4), 16)
+  return PERMISSION_BITS.filter(([, bit]) => flags & (1 << bit)).map(([permission]) => permission)
+}
@@ -0,0 +1,120 @@
+import Joi from '@hapi/joi'
+import { ChainId } from '@uniswap/sdk-core'
+import HOOKS_POLICY_LIST from '../../../config/hooksPolicy.json'
+import { HookClassification, HooksPolicyStrictness } from './hook-classification'
+import { HookPermission, hookPermissions, SWAP_DELTA_HOOK_PERMISSIONS, SWAP_HOOK_PERMISSIONS } from './hook-permissions'
+
+// Declared apart from the provider, so that the API types do not depend on it.
+export { HookClassification, HooksPolicyStrictness }
+
+export interface HooksPolicyEntry {
+  chainId: ChainId
+  address: string
+  // Readable name of the hook, e.g. the protocol operating it
+  name?: string
+  classification: HookClassification
+  reason?: string
+}
+
+export interface HooksPolicyList {
+  name: string
+  timestamp: string
+  version: { major: number; minor: number; patch: number }
+  hooks: HooksPolicyEntry[]
+}
+
+export interface HookPolicy {
+  classification: HookClassification
+  permissions: HookPermission[]
+  // Whether the classification comes from the hooks policy list rather than the permissions.
+  listed: boolean
+}
+
+const ADDRESS = Joi.string().pattern(/^0x[a-fA-F0-9]{40}$/)
+
+export const HooksPolicyListJoi = Joi.object({
+  name: Joi.string().required(),
+  timestamp: Joi.string().required(),
+  version: Joi.object({
+    major: Joi.number().integer().min(0).required(),
+    minor: Joi.number().integer().min(0).required(),
+    patch: Joi.number().integer().min(0).required(),
+  }).required(),
+  hooks: Joi.array()
+    .items(
+      Joi.object({
+        chainId: Joi.number().integer().required(),
+        address: ADDRESS.required(),
+        name: Joi.string().optional(),
+        classification: Joi.string()
+          .valid(...Object.values(HookClassification))
+          .required(),
+        reason: Joi.string().optional(),
+      })
+    )
+    .unique(
+      (a: HooksPolicyEntry, b: HooksPolicyEntry) =>
+        a.chainId === b.chainId && a.address.toLowerCase() === b.address.toLowerCase()
+    )
+    .required(),
+})
+
+/**
+ * Classifies the hooks of v4 pools, from the hooks policy list when they are listed and from their permissions otherwise:
+ * hooks that cannot act on swaps are allowed, hooks called on swaps are a warning, and hooks able to take part of
+ * the amounts of a swap are blocked.
+ */
+export class HooksPolicyProvider {
+  private readonly listedHooks: Map<string, HooksPolicyEntry>
+
+  constructor(chainId: ChainId, hooksPolicyList: HooksPolicyList) {
+    this.listedHooks = new Map(
+      hooksPolicyList.hooks
+        .filter((entry) => entry.chainId === chainId)
+        .map((entry): [string, HooksPolicyEntry] => [entry.address.toLowerCase(), entry])
+    )
+  }
+
+  /**
+   * Validates the list, throwing on an invalid list so that it fails at startup rather than on a quote.
+   *
+   * @param chainId
+   * @param hooksPolicyList The committed hooks policy list by default.
+   */
+  public static fromList(chainId: ChainId, hooksPolicyList: object = HOOKS_POLICY_LIST): HooksPolicyProvider {
+    const validation = HooksPolicyListJoi.validate(hooksPolicyList)
+    if (validation.error) {
+      throw new Error(`HooksPolicyList failed data validation: ${validation.error.message}`)
+    }
+    return new HooksPolicyProvider(chainId, validation.value as HooksPolicyList)
+  }
+
+  public getHookPolicy(hooks: string): HookPolicy {
+    const permissions = hookPermissions(hooks)
+    const entry = this.listedHooks.get(hooks.toLowerCase())
+    if (entry) {
+      return { classification: entry.classification, permissions, listed: true }
+    }
+
+    // Pools without hook have no permissions.
+    let classification = HookClassification.ALLOWED
+    if (permissions.some((permission) => SWAP_DELTA_HOOK_PERMISSIONS.includes(permission))) {
+      classification = HookClassification.BLOCKED
+    } else if (permissions.some((permission) => SWAP_HOOK_PERMISSIONS.includes(permission))) {
+      classification = HookClassification.WARN
+    }
+    return { classification, permissions, listed: false }
+  }
+
+  public isBlocked(hooks: string, strictness: HooksPolicyStrictness): boolean {
+    const { classification, listed } = this.getHookPolicy(hooks)
+    switch (strictness) {
+      case HooksPolicyStrictness.PERMISSIVE:
+        return listed && classification === HookClassification.BLOCKED
+      case HooksPolicyStrictness.STANDARD:
+        return classification === HookClassification.BLOCKED
+      case HooksPolicyStrictness.STRICT:
+        return classification !== HookClassification.ALLOWED
+    }
+  }
+}
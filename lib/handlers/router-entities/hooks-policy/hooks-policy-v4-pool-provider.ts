@@ -0,0 +1,57 @@
+import { Currency } from '@uniswap/sdk-core'
+import {
+  IV4PoolProvider,
+  log,
+  metric,
+  MetricLoggerUnit,
+  V4PoolAccessor,
+  V4PoolConstruct,
+} from '@uniswap/smart-order-router'
+import { ProviderConfig } from '@uniswap/smart-order-router/build/main/providers/provider'
+import { Pool as V4Pool } from '@uniswap/v4-sdk'
+import { HooksPolicyProvider, HooksPolicyStrictness } from './hooks-policy-provider'
+
+/**
+ * Leaves the v4 pools with hooks blocked by the hooks policy out of the pools loaded by the router,
+ * so that they are never candidates for a route.
+ */
+export class HooksPolicyV4PoolProvider implements IV4PoolProvider {
+  constructor(
+    private readonly poolProvider: IV4PoolProvider,
+    private readonly hooksPolicyProvider: HooksPolicyProvider,
+    private readonly strictness: HooksPolicyStrictness
+  ) {}
+
+  public async getPools(currencyPairs: V4PoolConstruct[], providerConfig?: ProviderConfig): Promise<V4PoolAccessor> {
+    const accessor = await this.poolProvider.getPools(currencyPairs, providerConfig)
+    const allowed = (pool: V4Pool | undefined): V4Pool | undefined =>
+      pool && !this.hooksPolicyProvider.isBlocked(pool.hooks, this.strictness) ? pool : undefined
+
+    const pools = accessor.getAllPools()
+    const allowedPools = pools.filter((pool) => allowed(pool))
+    if (allowedPools.length < pools.length) {
+      metric.putMetric('V4PoolsBlockedByHooksPolicy', pools.length - allowedPools.length, MetricLoggerUnit.Count)
+      log.info(
+        { strictness: this.strictness, blockedPools: pools.length - allowedPools.length },
+        'Left v4 pools out of routing for their hooks'
+      )
+    }
+
+    return {
+      getPool: (currencyA: Currency, currencyB: Currency, fee: number, tickSpacing: number, hooks: string) =>
+        allowed(accessor.getPool(currencyA, currencyB, fee, tickSpacing, hooks)),
+      getPoolById: (poolId: string) => allowed(accessor.getPoolById(poolId)),
+      getAllPools: () => allowedPools,
+    }
+  }
+
+  public getPoolId(
+    currencyA: Currency,
+    currencyB: Currency,
+    fee: number,
+    tickSpacing: number,
+    hooks: string
+  ): { poolId: string; currency0: Currency; currency1: Currency } {
+    return this.poolProvider.getPoolId(currencyA, currencyB, fee, tickSpacing, hooks)
+  }
+}
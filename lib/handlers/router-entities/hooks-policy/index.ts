@@ -0,0 +1,3 @@
+export * from './hook-permissions'
+export * from './hooks-policy-provider'
+export * from './hooks-policy-v4-pool-provider'
@@ -0,0 +1,100 @@
+import Joi from '@hapi/joi'
+import { ChainId, TradeType } from '@uniswap/sdk-core'
+import { CacheMode } from '@uniswap/smart-order-router'
+import CACHED_ROUTES_CONFIG from '../../../config/cachedRoutesConfig.json'
+import { CachedRoutesBucket, CachedRoutesStrategy, PairTradeTypeChainId } from './model'
+
+export interface CachedRoutesBucketConfig {
+  bucket: number
+  blocksToLive?: number
+  cacheMode: CacheMode
+  maxSplits?: number
+  withLastNCachedRoutes?: number
+  tapcompareSampleRate?: number
+}
+
+export interface CachedRoutesStrategyConfig {
+  // Readable name of the pair, e.g. WETH/USDC
+  pair: string
+  tokenInAddress: string
+  tokenOutAddress: string
+  tradeType: 'exactIn' | 'exactOut'
+  chainId: ChainId
+  buckets: CachedRoutesBucketConfig[]
+}
+
+export type CachedRoutesConfig = CachedRoutesStrategyConfig[]
+
+// The strategies by the PairTradeTypeChainId they apply to.
+export type CachedRoutesConfiguration = Map<string, CachedRoutesStrategy>
+
+const cachedRoutesStrategyKey = ({
+  tokenInAddress,
+  tokenOutAddress,
+  tradeType,
+  chainId,
+}: CachedRoutesStrategyConfig): PairTradeTypeChainId =>
+  new PairTradeTypeChainId({
+    currencyIn: tokenInAddress,
+    currencyOut: tokenOutAddress,
+    tradeType: tradeType === 'exactIn' ? TradeType.EXACT_INPUT : TradeType.EXACT_OUTPUT,
+    chainId,
+  })
+
+const ADDRESS = Joi.string().pattern(/^0x[a-fA-F0-9]{40}$/)
+
+export const CachedRoutesConfigJoi = Joi.array()
+  .items(
+    Joi.object({
+      pair: Joi.string().required(),
+      tokenInAddress: ADDRESS.required(),
+      tokenOutAddress: ADDRESS.required(),
+      tradeType: Joi.string().valid('exactIn', 'exactOut').required(),
+      chainId: Joi.number().integer().required(),
+      buckets: Joi.array()
+        .items(
+          Joi.object({
+            bucket: Joi.number().positive().required(),
+            blocksToLive: Joi.number().integer().min(0).optional(),
+            cacheMode: Joi.string()
+              .valid(...Object.values(CacheMode))
+              .required(),
+            maxSplits: Joi.number().integer().min(0).optional(),
+            withLastNCachedRoutes: Joi.number().integer().min(1).optional(),
+            tapcompareSampleRate: Joi.number().min(0.0).max(1.0).optional(),
+          })
+        )
+        .min(1)
+        .unique('bucket')
+        .required(),
+    })
+  )
+  .unique(
+    (a: CachedRoutesStrategyConfig, b: CachedRoutesStrategyConfig) =>
+      cachedRoutesStrategyKey(a).toString() === cachedRoutesStrategyKey(b).toString()
+  )
+
+// Validates the strategies, throwing on an invalid config so that it fails at startup rather than on a quote.
+export function buildCachedRoutesConfiguration(config?: object): CachedRoutesConfiguration {
+  const cachedRoutesConfigInput = config ?? CACHED_ROUTES_CONFIG
+  const validation = CachedRoutesConfigJoi.validate(cachedRoutesConfigInput)
+  if (validation.error) {
+    throw new Error(`CachedRoutesConfig failed data validation: ${validation.error.message}`)
+  }
+  const cachedRoutesConfig: CachedRoutesConfig = validation.value as CachedRoutesConfig
+
+  return new Map(
+    cachedRoutesConfig.map((strategyConfig): [string, CachedRoutesStrategy] => {
+      const key = cachedRoutesStrategyKey(strategyConfig)
+      return [
+        key.toString(),
+        new CachedRoutesStrategy({
+          pair: strategyConfig.pair,
+          tradeType: key.tradeType,
+          chainId: key.chainId,
+          buckets: strategyConfig.buckets.map((bucketConfig) => new CachedRoutesBucket(bucketConfig)),
+        }),
+      ]
+    })
+  )
+}
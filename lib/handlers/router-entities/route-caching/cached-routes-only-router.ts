@@ -0,0 +1,72 @@
+import { StaticJsonRpcProvider } from '@ethersproject/providers'
+import { ChainId, Currency, CurrencyAmount, TradeType } from '@uniswap/sdk-core'
+import {
+  AlphaRouterConfig,
+  CacheMode,
+  IRouteCachingProvider,
+  IRouter,
+  metric,
+  MetricLoggerUnit,
+  SwapOptions,
+  SwapRoute,
+} from '@uniswap/smart-order-router'
+
+/**
+ * Only quotes the cached routes: when there are none for the quote, no route is found instead of routing from scratch.
+ * Used for the first quote of streamed quotes, which has to be fast more than it has to be good.
+ *
+ * The cached routes are looked up the way the AlphaRouter looks them up, so that a hit here is a hit of the routing
+ * that follows.
+ */
+export class CachedRoutesOnlyRouter implements IRouter<AlphaRouterConfig> {
+  constructor(
+    private readonly router: IRouter<AlphaRouterConfig>,
+    private readonly routeCachingProvider: IRouteCachingProvider | undefined,
+    private readonly provider: StaticJsonRpcProvider,
+    private readonly chainId: ChainId
+  ) {}
+
+  public async route(
+    amount: CurrencyAmount<Currency>,
+    quoteCurrency: Currency,
+    tradeType: TradeType,
+    swapOptions?: SwapOptions,
+    partialRoutingConfig: Partial<AlphaRouterConfig> = {}
+  ): Promise<SwapRoute | null> {
+    if (!this.routeCachingProvider || partialRoutingConfig.useCachedRoutes === false) {
+      return null
+    }
+
+    const protocols = Array.from(new Set(partialRoutingConfig.protocols).values())
+    const cacheMode =
+      partialRoutingConfig.overwriteCacheMode ??
+      (await this.routeCachingProvider.getCacheMode(this.chainId, amount, quoteCurrency, tradeType, protocols))
+    if (cacheMode === CacheMode.Darkmode) {
+      metric.putMetric('CachedRoutesOnlyMiss', 1, MetricLoggerUnit.Count)
+      return null
+    }
+
+    const blockNumber = await (partialRoutingConfig.blockNumber ?? this.provider.getBlockNumber())
+    const cachedRoutes = await this.routeCachingProvider.getCachedRoute(
+      this.chainId,
+      amount,
+      quoteCurrency,
+      tradeType,
+      protocols,
+      blockNumber,
+      partialRoutingConfig.optimisticCachedRoutes
+    )
+    if (!cachedRoutes) {
+      metric.putMetric('CachedRoutesOnlyMiss', 1, MetricLoggerUnit.Count)
+      return null
+    }
+
+    const swapRoute = await this.router.route(amount, quoteCurrency, tradeType, swapOptions, {
+      ...partialRoutingConfig,
+      blockNumber,
+    })
+
+    // The cached routes can expire between the lookup and the routing, in which case the router routed from scratch.
+    return swapRoute?.hitsCachedRoute ? swapRoute : null
+  }
+}
@@ -10,34 +10,82 @@ import {
   routeToString,
   SupportedRoutes,
 } from '@uniswap/smart-order-router'
-import { AWSError, DynamoDB, Lambda } from 'aws-sdk'
 import { ChainId, Currency, CurrencyAmount, Fraction, Token, TradeType } from '@uniswap/sdk-core'
 import { Protocol } from '@uniswap/router-sdk'
+import { Pool as V4Pool } from '@uniswap/v4-sdk'
 import { PairTradeTypeChainId } from './model/pair-trade-type-chain-id'
-import { CachedRoutesMarshaller } from '../../marshalling/cached-routes-marshaller'
-import { PromiseResult } from 'aws-sdk/lib/request'
+import { CachedRoutesEncoding, CachedRoutesMarshaller } from '../../marshalling/cached-routes-marshaller'
+import { DynamoRoutesStore, RoutesDbEntry, RoutesIndexEntry, RoutesStore } from './store'
+import { CachingRefreshDispatcher, LambdaCachingRefreshDispatcher } from './refresh'
+import { CachedRoutesConfiguration } from './cached-routes-configuration'
+import { CachedRoutesBucket, CachedRoutesStrategy } from './model'
+import {
+  buildRoutesIndexEntries,
+  CachedRoutesPurgeResult,
+  CachedRoutesPurgeTarget,
+  purgeCachedRoutes,
+} from './invalidation'
+import { HooksPolicyProvider, HooksPolicyStrictness } from '../hooks-policy'
+
+type CachingRefreshParams =
+  | {
+      /**
+       * Where the caching quotes that fill the cache are sent
+       */
+      cachingRefreshDispatcher: CachingRefreshDispatcher
+    }
+  | {
+      /**
+       * The Lambda Function Name for the Lambda that will be invoked to fill the cache
+       */
+      cachingQuoteLambdaName: string
+    }
 
-interface ConstructorParams {
-  /**
-   * The TableName for the DynamoDB Table that stores routes
-   */
-  routesTableName: string
-  /**
-   * The TableName for the DynamoDB Table that stores whether a request has been sent for caching related to routesDb
-   */
-  routesCachingRequestFlagTableName: string
-  /**
-   * The Lambda Function Name for the Lambda that will be invoked to fill the cache
-   */
-  cachingQuoteLambdaName: string
-}
+type RoutesStoreParams =
+  | {
+      /**
+       * Where the RoutesDb is stored
+       */
+      routesStore: RoutesStore
+    }
+  | {
+      /**
+       * The TableName for the DynamoDB Table that stores routes
+       */
+      routesTableName: string
+      /**
+       * The TableName for the DynamoDB Table that stores whether a request has been sent for caching related to routesDb
+       */
+      routesCachingRequestFlagTableName: string
+      /**
+       * The TableName for the DynamoDB Table that stores the reverse index from pools and tokens to routes
+       */
+      routesIndexTableName: string
+    }
+
+type ConstructorParams = CachingRefreshParams &
+  RoutesStoreParams & {
+    /**
+     * The CachedRoutesStrategy of each pair, pairs without one use the defaults of the chain
+     */
+    cachedRoutesConfiguration?: CachedRoutesConfiguration
+    /**
+     * How routes are serialized when cached, JSON by default. Items of every encoding are read.
+     */
+    routesDbEncoding?: CachedRoutesEncoding
+    /**
+     * Leaves out the cached routes going through hooks blocked by the hooks policy list. Cached routes are only read by
+     * quotes with the PERMISSIVE hooks policy, so that is the policy they are checked against.
+     */
+    hooksPolicyProvider?: HooksPolicyProvider
+  }
 
 export class DynamoRouteCachingProvider extends IRouteCachingProvider {
-  private readonly ddbClient: DynamoDB.DocumentClient
-  private readonly lambdaClient: Lambda
-  private readonly routesTableName: string
-  private readonly routesCachingRequestFlagTableName: string
-  private readonly cachingQuoteLambdaName: string
+  private readonly routesStore: RoutesStore
+  private readonly cachingRefreshDispatcher: CachingRefreshDispatcher
+  private readonly cachedRoutesConfiguration: CachedRoutesConfiguration
+  private readonly routesDbEncoding: CachedRoutesEncoding
+  private readonly hooksPolicyProvider?: HooksPolicyProvider
 
   private readonly DEFAULT_CACHEMODE_ROUTES_DB = CacheMode.Livemode
   private readonly ROUTES_DB_TTL = 24 * 60 * 60 // 24 hours
@@ -86,40 +134,43 @@ export class DynamoRouteCachingProvider extends IRouteCachingProvider {
 
   private readonly DEFAULT_BLOCKS_DIFF_CACHING = 15
 
-  constructor({ routesTableName, routesCachingRequestFlagTableName, cachingQuoteLambdaName }: ConstructorParams) {
+  constructor(params: ConstructorParams) {
     super()
-    // Since this DDB Table is used for Cache, we will fail fast and limit the timeout.
-    this.ddbClient = new DynamoDB.DocumentClient({
-      maxRetries: 1,
-      retryDelayOptions: {
-        base: 20,
-      },
-      httpOptions: {
-        timeout: 100,
-      },
-    })
-    this.lambdaClient = new Lambda()
-    this.routesTableName = routesTableName
-    this.routesCachingRequestFlagTableName = routesCachingRequestFlagTableName
-    this.cachingQuoteLambdaName = cachingQuoteLambdaName
+    // The RoutesDb is stored in DynamoDB unless another store is given.
+    this.routesStore = 'routesStore' in params ? params.routesStore : new DynamoRoutesStore(params)
+    // The caching lambda is invoked directly unless another dispatcher is given.
+    this.cachingRefreshDispatcher =
+      'cachingRefreshDispatcher' in params
+        ? params.cachingRefreshDispatcher
+        : new LambdaCachingRefreshDispatcher(params.cachingQuoteLambdaName)
+    this.cachedRoutesConfiguration = params.cachedRoutesConfiguration ?? new Map()
+    this.routesDbEncoding = params.routesDbEncoding ?? CachedRoutesEncoding.JSON
+    this.hooksPolicyProvider = params.hooksPolicyProvider
   }
 
   /**
    * Implementation of the abstract method defined in `IRouteCachingProvider`
-   * Given a CachedRoutesStrategy (from CACHED_ROUTES_CONFIGURATION),
-   * we will find the BlocksToLive associated to the bucket.
+   * Given a CachedRoutesStrategy (from the cachedRoutesConfiguration),
+   * we will find the BlocksToLive associated to the bucket, or use the default of the chain.
    *
    * @param cachedRoutes
-   * @param _
+   * @param amount
    * @protected
    */
-  protected async _getBlocksToLive(cachedRoutes: CachedRoutes, _: CurrencyAmount<Currency>): Promise<number> {
-    return this.DEFAULT_BLOCKS_TO_LIVE_ROUTES_DB(cachedRoutes.chainId)
+  protected async _getBlocksToLive(cachedRoutes: CachedRoutes, amount: CurrencyAmount<Currency>): Promise<number> {
+    const bucket = this.getCachedRoutesStrategy(
+      cachedRoutes.chainId,
+      cachedRoutes.currencyIn,
+      cachedRoutes.currencyOut,
+      cachedRoutes.tradeType
+    )?.getCachingBucket(amount)
+
+    return bucket?.blocksToLive ?? this.DEFAULT_BLOCKS_TO_LIVE_ROUTES_DB(cachedRoutes.chainId)
   }
 
   /**
    * Implementation of the abstract method defined in `IRouteCachingProvider`
-   * Fetch the most recent entry from the DynamoDB table for that pair, tradeType, chainId, protocols and bucket
+   * Fetch the most recent entry from the RoutesDb for that pair, tradeType, chainId, protocols and bucket
    *
    * @param chainId
    * @param amount
@@ -138,6 +189,7 @@ export class DynamoRouteCachingProvider extends IRouteCachingProvider {
     optimistic: boolean
   ): Promise<CachedRoutes | undefined> {
     const { currencyIn, currencyOut } = this.determineCurrencyInOut(amount, quoteCurrency, tradeType)
+    const bucket = this.getCachedRoutesStrategy(chainId, currencyIn, currencyOut, tradeType)?.getCachingBucket(amount)
 
     // for getting the cached routes, we dont know if the cached route will contains a v4 pool or not, so we try to see if the input protocols contain v4
     const includesV4Pool = protocols.includes(Protocol.V4)
@@ -153,32 +205,29 @@ export class DynamoRouteCachingProvider extends IRouteCachingProvider {
     metric.putMetric('RoutesDbQuery', 1, MetricLoggerUnit.Count)
 
     try {
-      const queryParams = {
-        TableName: this.routesTableName,
-        KeyConditionExpression: '#pk = :pk',
-        ExpressionAttributeNames: {
-          '#pk': 'pairTradeTypeChainId',
-        },
-        ExpressionAttributeValues: {
-          ':pk': partitionKey.toString(),
-        },
-      }
-
-      const result = await this.ddbClient.query(queryParams).promise()
-      if (result.Items && result.Items.length > 0) {
-        metric.putMetric('RoutesDbPreFilterEntriesFound', result.Items.length, MetricLoggerUnit.Count)
+      const entries = await this.routesStore.getRoutes(partitionKey.toString())
+      if (entries.length > 0) {
+        metric.putMetric('RoutesDbPreFilterEntriesFound', entries.length, MetricLoggerUnit.Count)
 
         // At this point we might have gotten all the routes we have discovered in the last 24 hours for this pair
-        // We will sort the routes by blockNumber, and take the first `ROUTES_TO_TAKE_FROM_ROUTES_DB` routes
-        const filteredItems = result.Items
+        // We will sort the routes by blockNumber, and take the first `withLastNCachedRoutes` of the bucket
+        // or `ROUTES_TO_TAKE_FROM_ROUTES_DB` routes
+        const filteredEntries = entries
           // Older routes might not have the protocol field, so we keep them if they don't have it
-          .filter((record) => !record.protocol || protocols.includes(record.protocol))
+          .filter((record) => !record.protocol || protocols.includes(record.protocol as Protocol))
           .sort((a, b) => b.blockNumber - a.blockNumber)
-          .slice(0, this.ROUTES_TO_TAKE_FROM_ROUTES_DB)
-
-        result.Items = filteredItems
-
-        return this.parseCachedRoutes(result, chainId, currentBlockNumber, optimistic, partitionKey, amount, protocols)
+          .slice(0, bucket?.withLastNCachedRoutes ?? this.ROUTES_TO_TAKE_FROM_ROUTES_DB)
+
+        return this.parseCachedRoutes(
+          filteredEntries,
+          chainId,
+          currentBlockNumber,
+          optimistic,
+          partitionKey,
+          amount,
+          protocols,
+          bucket
+        )
       } else {
         metric.putMetric('RoutesDbEntriesNotFound', 1, MetricLoggerUnit.Count)
         log.warn(`[DynamoRouteCachingProvider] No items found in the query response for ${partitionKey.toString()}`)
@@ -191,36 +240,51 @@ export class DynamoRouteCachingProvider extends IRouteCachingProvider {
     return undefined
   }
 
+  private isBlockedByHooksPolicy(route: SupportedRoutes): boolean {
+    if (this.hooksPolicyProvider === undefined || !('pools' in route)) {
+      return false
+    }
+    return (route.pools as ReadonlyArray<unknown>).some(
+      (pool) =>
+        pool instanceof V4Pool && this.hooksPolicyProvider!.isBlocked(pool.hooks, HooksPolicyStrictness.PERMISSIVE)
+    )
+  }
+
   private parseCachedRoutes(
-    result: PromiseResult<DynamoDB.DocumentClient.QueryOutput, AWSError>,
+    entries: RoutesDbEntry[],
     chainId: ChainId,
     currentBlockNumber: number,
     optimistic: boolean,
     partitionKey: PairTradeTypeChainId,
     amount: CurrencyAmount<Currency>,
-    protocols: Protocol[]
-  ): CachedRoutes {
-    metric.putMetric(`RoutesDbEntriesFound`, result.Items!.length, MetricLoggerUnit.Count)
-    const cachedRoutesArr: CachedRoutes[] = result.Items!.map((record) => {
+    protocols: Protocol[],
+    bucket: CachedRoutesBucket | undefined
+  ): CachedRoutes | undefined {
+    metric.putMetric(`RoutesDbEntriesFound`, entries.length, MetricLoggerUnit.Count)
+    const cachedRoutesArr: CachedRoutes[] = entries.map((record) => {
       // If we got a response with more than 1 item, we extract the binary field from the response
       const itemBinary = record.item
       // Then we convert it into a Buffer
       const cachedRoutesBuffer = Buffer.from(itemBinary)
-      // We convert that buffer into string and parse as JSON (it was encoded as JSON when it was inserted into cache)
-      const cachedRoutesJson = JSON.parse(cachedRoutesBuffer.toString())
-      // Finally we unmarshal that JSON into a `CachedRoutes` object
-      return CachedRoutesMarshaller.unmarshal(cachedRoutesJson)
+      // Finally we deserialize that buffer into a `CachedRoutes` object, whether it was encoded as JSON or binary
+      return CachedRoutesMarshaller.deserialize(cachedRoutesBuffer)
     })
 
     const routesMap: Map<string, CachedRoute<SupportedRoutes>> = new Map()
     let blockNumber: number = 0
     let originalAmount: string = ''
+    let blockedRoutes = 0
 
     cachedRoutesArr.forEach((cachedRoutes) => {
       metric.putMetric(`RoutesDbPerBlockFound`, cachedRoutes.routes.length, MetricLoggerUnit.Count)
       cachedRoutes.routes.forEach((cachedRoute) => {
         // we use the stringified route as identifier
         const routeId = routeToString(cachedRoute.route)
+        // Routes may have been cached before their hooks were blocked.
+        if (this.isBlockedByHooksPolicy(cachedRoute.route)) {
+          blockedRoutes++
+          return
+        }
         // Using a map to remove duplicates, we will the different percents of different routes.
         // We also filter by protocol, in case we are loading a route from a protocol that wasn't requested
         if (!routesMap.has(routeId) && protocols.includes(cachedRoute.protocol)) {
@@ -237,6 +301,14 @@ export class DynamoRouteCachingProvider extends IRouteCachingProvider {
       }
     })
 
+    if (blockedRoutes > 0) {
+      metric.putMetric('RoutesDbBlockedByHooksPolicy', blockedRoutes, MetricLoggerUnit.Count)
+      if (routesMap.size === 0) {
+        log.info(`[DynamoRouteCachingProvider] All the cached routes of ${partitionKey} go through blocked hooks`)
+        return undefined
+      }
+    }
+
     const first = cachedRoutesArr[0]
 
     // Build a new CachedRoutes object with the values calculated earlier
@@ -249,7 +321,7 @@ export class DynamoRouteCachingProvider extends IRouteCachingProvider {
       blockNumber,
       tradeType: first.tradeType,
       originalAmount,
-      blocksToLive: first.blocksToLive,
+      blocksToLive: bucket?.blocksToLive ?? first.blocksToLive,
     })
 
     metric.putMetric(`UniqueRoutesDbFound`, cachedRoutes.routes.length, MetricLoggerUnit.Count)
@@ -285,40 +357,33 @@ export class DynamoRouteCachingProvider extends IRouteCachingProvider {
     currentBlockNumber: number
   ): Promise<void> {
     try {
-      const queryParams = {
-        TableName: this.routesCachingRequestFlagTableName,
-        // We use a ratio to get a range of amounts that are close to the amount we are thinking about inserting
-        // If there's an item in the table which range covers our amount, we don't need to send a caching request
-        KeyConditionExpression: '#pk = :pk AND #amount BETWEEN :amount AND :amount_ratio',
-        ExpressionAttributeNames: {
-          '#pk': 'pairTradeTypeChainId',
-          '#amount': 'amount',
-        },
-        ExpressionAttributeValues: {
-          ':pk': partitionKey.toString(),
-          ':amount': parseFloat(amount.toExact()),
-          ':amount_ratio': parseFloat(amount.multiply(this.ROUTES_DB_BUCKET_RATIO).toExact()),
-        },
-      }
-
       metric.putMetric('CachingQuoteForRoutesDbCheck', 1, MetricLoggerUnit.Count)
 
-      const result = await this.ddbClient.query(queryParams).promise()
+      // We use a ratio to get a range of amounts that are close to the amount we are thinking about inserting
+      // If there's a flag which range covers our amount, we don't need to send a caching request
+      const flags = await this.routesStore.getCachingRequestFlags(
+        partitionKey.toString(),
+        parseFloat(amount.toExact()),
+        parseFloat(amount.multiply(this.ROUTES_DB_BUCKET_RATIO).toExact())
+      )
       const shouldSendCachingRequest =
-        result.Items &&
-        (result.Items.length == 0 || // no caching request has been sent recently
-          // or every sampled record is older than maximum blocks diff allowed for the chain
-          result.Items.every((record) => {
-            const blocksDiff = currentBlockNumber - (record.blockNumber ?? 0)
-            const maximumBlocksDiff =
-              this.BLOCKS_DIFF_BETWEEN_CACHING_QUOTES.get(partitionKey.chainId) || this.DEFAULT_BLOCKS_DIFF_CACHING
-            return blocksDiff > maximumBlocksDiff
-          }))
-
-      // if no Item is found it means we need to send a caching request
+        flags.length == 0 || // no caching request has been sent recently
+        // or every sampled record is older than maximum blocks diff allowed for the chain
+        flags.every((record) => {
+          const blocksDiff = currentBlockNumber - (record.blockNumber ?? 0)
+          const maximumBlocksDiff =
+            this.BLOCKS_DIFF_BETWEEN_CACHING_QUOTES.get(partitionKey.chainId) || this.DEFAULT_BLOCKS_DIFF_CACHING
+          return blocksDiff > maximumBlocksDiff
+        })
+
+      // if no flag is found it means we need to send a caching request
       if (shouldSendCachingRequest) {
         metric.putMetric('CachingQuoteForRoutesDbRequestSent', 1, MetricLoggerUnit.Count)
-        this.sendAsyncCachingRequest(partitionKey, [Protocol.V2, Protocol.V3, Protocol.V4, Protocol.MIXED], amount)
+        this.cachingRefreshDispatcher.dispatch({
+          partitionKey,
+          protocols: [Protocol.V2, Protocol.V3, Protocol.V4, Protocol.MIXED],
+          amount,
+        })
         this.setRoutesDbCachingIntentFlag(partitionKey, amount, currentBlockNumber)
       } else {
         metric.putMetric('CachingQuoteForRoutesDbRequestNotNeeded', 1, MetricLoggerUnit.Count)
@@ -328,52 +393,19 @@ export class DynamoRouteCachingProvider extends IRouteCachingProvider {
     }
   }
 
-  private sendAsyncCachingRequest(
-    partitionKey: PairTradeTypeChainId,
-    protocols: Protocol[],
-    amount: CurrencyAmount<Currency>
-  ): void {
-    const payload = {
-      queryStringParameters: {
-        tokenInAddress: partitionKey.currencyIn,
-        tokenInChainId: partitionKey.chainId.toString(),
-        tokenOutAddress: partitionKey.currencyOut,
-        tokenOutChainId: partitionKey.chainId.toString(),
-        amount: amount.quotient.toString(),
-        type: partitionKey.tradeType === 0 ? 'exactIn' : 'exactOut',
-        protocols: protocols.map((protocol) => protocol.toLowerCase()).join(','),
-        intent: 'caching',
-        requestSource: 'routing-api',
-      },
-    }
-
-    const params = {
-      FunctionName: this.cachingQuoteLambdaName,
-      InvocationType: 'Event',
-      Payload: JSON.stringify(payload),
-    }
-
-    log.info(`[DynamoRouteCachingProvider] Sending async caching request to lambda ${JSON.stringify(params)}`)
-
-    this.lambdaClient.invoke(params).promise()
-  }
-
   private setRoutesDbCachingIntentFlag(
     partitionKey: PairTradeTypeChainId,
     amount: CurrencyAmount<Currency>,
     currentBlockNumber: number
   ): void {
-    const putParams = {
-      TableName: this.routesCachingRequestFlagTableName,
-      Item: {
+    this.routesStore
+      .putCachingRequestFlag({
         pairTradeTypeChainId: partitionKey.toString(),
         amount: parseFloat(amount.toExact()),
         ttl: Math.floor(Date.now() / 1000) + this.ROUTES_DB_FLAG_TTL,
         blockNumber: currentBlockNumber,
-      },
-    }
-
-    this.ddbClient.put(putParams).promise()
+      })
+      .catch((error) => log.error({ error }, `[DynamoRouteCachingProvider] Caching intent flag failed to insert`))
   }
 
   /**
@@ -381,10 +413,31 @@ export class DynamoRouteCachingProvider extends IRouteCachingProvider {
    * Attempts to insert the `CachedRoutes` object into cache, if the CachingStrategy returns the CachingParameters
    *
    * @param cachedRoutes
+   * @param amount
    * @protected
    */
-  protected async _setCachedRoute(cachedRoutes: CachedRoutes): Promise<boolean> {
-    const routesDbEntries = cachedRoutes.routes.map((route) => {
+  protected async _setCachedRoute(cachedRoutes: CachedRoutes, amount: CurrencyAmount<Currency>): Promise<boolean> {
+    const bucket = this.getCachedRoutesStrategy(
+      cachedRoutes.chainId,
+      cachedRoutes.currencyIn,
+      cachedRoutes.currencyOut,
+      cachedRoutes.tradeType
+    )?.getCachingBucket(amount)
+
+    // A maxSplits of 0 allows any number of splits
+    if (bucket && bucket.maxSplits > 0 && cachedRoutes.routes.length > bucket.maxSplits) {
+      metric.putMetric('RoutesDbMaxSplitsExceeded', 1, MetricLoggerUnit.Count)
+      log.info(
+        `[DynamoRouteCachingProvider] Not caching ${cachedRoutes.routes.length} splits, bucket ${bucket.bucket} allows ${bucket.maxSplits}`
+      )
+      return false
+    }
+
+    const partitionKey = PairTradeTypeChainId.fromCachedRoutes(cachedRoutes)
+    const ttl = Math.floor(Date.now() / 1000) + this.ROUTES_DB_TTL
+    const routesIndexEntries: RoutesIndexEntry[] = []
+
+    const routesDbEntries = cachedRoutes.routes.map((route): RoutesDbEntry => {
       const individualCachedRoutes = new CachedRoutes({
         routes: [route],
         chainId: cachedRoutes.chainId,
@@ -395,40 +448,32 @@ export class DynamoRouteCachingProvider extends IRouteCachingProvider {
         tradeType: cachedRoutes.tradeType,
         originalAmount: cachedRoutes.originalAmount,
       })
-      const ttl = Math.floor(Date.now() / 1000) + this.ROUTES_DB_TTL
-      // Marshal the CachedRoutes object in preparation for storing in DynamoDB
-      const marshalledCachedRoutes = CachedRoutesMarshaller.marshal(individualCachedRoutes)
-      // Convert the marshalledCachedRoutes to JSON string
-      const jsonCachedRoutes = JSON.stringify(marshalledCachedRoutes)
-      // Encode the jsonCachedRoutes into Binary
-      const binaryCachedRoutes = Buffer.from(jsonCachedRoutes)
+      // Serialize the CachedRoutes object in preparation for storing in the RoutesDb
+      const binaryCachedRoutes = CachedRoutesMarshaller.serialize(individualCachedRoutes, this.routesDbEncoding)
 
-      const partitionKey = PairTradeTypeChainId.fromCachedRoutes(cachedRoutes)
+      routesIndexEntries.push(...buildRoutesIndexEntries(route.route, partitionKey.toString(), route.routeId, ttl))
 
       return {
-        PutRequest: {
-          Item: {
-            pairTradeTypeChainId: partitionKey.toString(),
-            routeId: route.routeId,
-            blockNumber: cachedRoutes.blockNumber,
-            protocol: route.protocol.toString(),
-            item: binaryCachedRoutes,
-            ttl: ttl,
-          },
-        },
+        pairTradeTypeChainId: partitionKey.toString(),
+        routeId: route.routeId,
+        blockNumber: cachedRoutes.blockNumber,
+        protocol: route.protocol.toString(),
+        item: binaryCachedRoutes,
+        ttl: ttl,
       }
     })
 
     if (routesDbEntries.length > 0) {
       try {
-        const batchWriteParams = {
-          RequestItems: {
-            [this.routesTableName]: routesDbEntries,
-          },
-        }
-        await this.ddbClient.batchWrite(batchWriteParams).promise()
+        await this.routesStore.putRoutes(routesDbEntries)
         log.info(`[DynamoRouteCachingProvider] Route Entries inserted to database`)
 
+        // The routes are still served without their index entries, they just can not be purged by pool or token.
+        await this.routesStore.putRoutesIndexEntries(routesIndexEntries).catch((error) => {
+          metric.putMetric('RoutesDbIndexInsertError', 1, MetricLoggerUnit.Count)
+          log.error({ error }, `[DynamoRouteCachingProvider] Route Index Entries failed to insert`)
+        })
+
         return true
       } catch (error) {
         log.error({ error, routesDbEntries }, `[DynamoRouteCachingProvider] Route Entries failed to insert`)
@@ -443,22 +488,84 @@ export class DynamoRouteCachingProvider extends IRouteCachingProvider {
 
   /**
    * Implementation of the abstract method defined in `IRouteCachingProvider`
-   * Obtains the CacheMode from the CachingStrategy, if not found, then return Darkmode.
+   * Obtains the CacheMode from the bucket of the CachingStrategy, amounts past its last bucket are not cached (Darkmode).
+   * Pairs without a CachingStrategy use DEFAULT_CACHEMODE_ROUTES_DB.
    *
-   * @param _chainId
-   * @param _amount
-   * @param _quoteToken
-   * @param _tradeType
+   * @param chainId
+   * @param amount
+   * @param quoteToken
+   * @param tradeType
    * @param _protocols
    */
   public async getCacheMode(
-    _chainId: ChainId,
-    _amount: CurrencyAmount<Currency>,
-    _quoteToken: Token,
-    _tradeType: TradeType,
+    chainId: ChainId,
+    amount: CurrencyAmount<Currency>,
+    quoteToken: Token,
+    tradeType: TradeType,
     _protocols: Protocol[]
   ): Promise<CacheMode> {
-    return this.DEFAULT_CACHEMODE_ROUTES_DB
+    const { currencyIn, currencyOut } = this.determineCurrencyInOut(amount, quoteToken, tradeType)
+    const strategy = this.getCachedRoutesStrategy(chainId, currencyIn, currencyOut, tradeType)
+    if (!strategy) {
+      return this.DEFAULT_CACHEMODE_ROUTES_DB
+    }
+
+    return strategy.getCachingBucket(amount)?.cacheMode ?? CacheMode.Darkmode
+  }
+
+  /**
+   * Deletes the cached routes of the target from the RoutesDb, see purgeCachedRoutes.
+   *
+   * @param target
+   */
+  public async purgeCachedRoutes(target: CachedRoutesPurgeTarget): Promise<CachedRoutesPurgeResult> {
+    return purgeCachedRoutes(this.routesStore, target)
+  }
+
+  /**
+   * Finds the CachedRoutesStrategy configured for the pair of the quote, and its bucket for the amount.
+   *
+   * @param chainId
+   * @param amount
+   * @param quoteCurrency
+   * @param tradeType
+   */
+  public getCachedRoutesBucket(
+    chainId: ChainId,
+    amount: CurrencyAmount<Currency>,
+    quoteCurrency: Currency,
+    tradeType: TradeType
+  ): { strategy: CachedRoutesStrategy; bucket: CachedRoutesBucket } | undefined {
+    const { currencyIn, currencyOut } = this.determineCurrencyInOut(amount, quoteCurrency, tradeType)
+    const strategy = this.getCachedRoutesStrategy(chainId, currencyIn, currencyOut, tradeType)
+    const bucket = strategy?.getCachingBucket(amount)
+
+    return strategy && bucket ? { strategy, bucket } : undefined
+  }
+
+  /**
+   * Finds the CachedRoutesStrategy configured for the pair, native currencies use the strategy of their wrapped token.
+   *
+   * @param chainId
+   * @param currencyIn
+   * @param currencyOut
+   * @param tradeType
+   * @private
+   */
+  private getCachedRoutesStrategy(
+    chainId: ChainId,
+    currencyIn: Currency,
+    currencyOut: Currency,
+    tradeType: TradeType
+  ): CachedRoutesStrategy | undefined {
+    const pairTradeTypeChainId = new PairTradeTypeChainId({
+      currencyIn: currencyIn.wrapped.address,
+      currencyOut: currencyOut.wrapped.address,
+      tradeType,
+      chainId,
+    })
+
+    return this.cachedRoutesConfiguration.get(pairTradeTypeChainId.toString())
   }
 
   /**
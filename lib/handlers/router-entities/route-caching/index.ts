@@ -1,3 +1,9 @@
 export * from '../../marshalling'
 export * from './model'
 export * from './dynamo-route-caching-provider'
+export * from './cached-routes-configuration'
+export * from './store'
+export * from './refresh'
+export * from './tapcompare'
+export * from './cached-routes-only-router'
+export * from './invalidation'
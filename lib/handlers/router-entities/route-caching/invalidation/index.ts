@@ -0,0 +1,2 @@
+export * from './purge-cached-routes'
+export * from './routes-index'
@@ -0,0 +1,67 @@
+import { ChainId } from '@uniswap/sdk-core'
+import _ from 'lodash'
+import { RoutesIndexEntry, routesIndexKey, RoutesStore } from '../store'
+
+/**
+ * The cached routes to purge: those going through a pool or a token, or every route of a pair.
+ */
+export type CachedRoutesPurgeTarget =
+  | { chainId: ChainId; poolAddress: string }
+  | { chainId: ChainId; tokenAddress: string }
+  | { chainId: ChainId; pairTradeTypeChainId: string }
+
+export interface CachedRoutesPurgeResult {
+  // The pairs that had routes purged
+  pairTradeTypeChainIds: string[]
+  routesDeleted: number
+  cachingRequestFlagsDeleted: number
+  indexEntriesDeleted: number
+}
+
+/**
+ * Deletes the routes of the target from the RoutesDb, along with the caching request flags of their pairs
+ * so that the next quote of each pair sends a caching request instead of waiting for its flags to expire.
+ *
+ * Pools and tokens are looked up in the reverse index, whose entries are deleted last so that a purge that failed
+ * halfway can be retried. Purging a pair leaves its index entries to expire, pointing to routes that no longer exist.
+ *
+ * @param routesStore
+ * @param target
+ */
+export async function purgeCachedRoutes(
+  routesStore: RoutesStore,
+  target: CachedRoutesPurgeTarget
+): Promise<CachedRoutesPurgeResult> {
+  let indexEntries: RoutesIndexEntry[] = []
+  let routeIdsByPair: { [pairTradeTypeChainId: string]: number[] }
+
+  if ('pairTradeTypeChainId' in target) {
+    const routes = await routesStore.getRoutes(target.pairTradeTypeChainId)
+    routeIdsByPair = routes.length > 0 ? { [target.pairTradeTypeChainId]: routes.map(({ routeId }) => routeId) } : {}
+  } else {
+    const indexKey =
+      'poolAddress' in target
+        ? routesIndexKey(target.chainId, 'pool', target.poolAddress)
+        : routesIndexKey(target.chainId, 'token', target.tokenAddress)
+    indexEntries = await routesStore.getRoutesIndexEntries(indexKey)
+    routeIdsByPair = _.mapValues(_.groupBy(indexEntries, 'pairTradeTypeChainId'), (entries) =>
+      _.uniq(entries.map(({ routeId }) => routeId))
+    )
+  }
+
+  const pairTradeTypeChainIds = _.keys(routeIdsByPair)
+  const cachingRequestFlagsDeleted = await Promise.all(
+    pairTradeTypeChainIds.map(async (pairTradeTypeChainId) => {
+      await routesStore.deleteRoutes(pairTradeTypeChainId, routeIdsByPair[pairTradeTypeChainId])
+      return routesStore.deleteCachingRequestFlags(pairTradeTypeChainId)
+    })
+  )
+  await routesStore.deleteRoutesIndexEntries(indexEntries)
+
+  return {
+    pairTradeTypeChainIds,
+    routesDeleted: _.sumBy(_.values(routeIdsByPair), (routeIds) => routeIds.length),
+    cachingRequestFlagsDeleted: _.sum(cachingRequestFlagsDeleted),
+    indexEntriesDeleted: indexEntries.length,
+  }
+}
@@ -0,0 +1,47 @@
+import { ChainId } from '@uniswap/sdk-core'
+import { routeToPools, routeToTokens, SupportedRoutes, V3_CORE_FACTORY_ADDRESSES } from '@uniswap/smart-order-router'
+import { Pair } from '@uniswap/v2-sdk'
+import { Pool as V3Pool } from '@uniswap/v3-sdk'
+import { Pool as V4Pool } from '@uniswap/v4-sdk'
+import _ from 'lodash'
+import { routesIndexKey, RoutesIndexEntry } from '../store'
+
+/**
+ * The address of the pool as returned in quote responses, or its id for v4 pools.
+ *
+ * @param pool
+ * @param chainId
+ */
+export const poolIdentifier = (pool: Pair | V3Pool | V4Pool, chainId: ChainId): string => {
+  if (pool instanceof V4Pool) {
+    return pool.poolId
+  } else if (pool instanceof V3Pool) {
+    return V3Pool.getAddress(pool.token0, pool.token1, pool.fee, undefined, V3_CORE_FACTORY_ADDRESSES[chainId])
+  } else {
+    return Pair.getAddress(pool.token0, pool.token1)
+  }
+}
+
+/**
+ * The entries of the reverse index for every pool and token the route goes through.
+ * Native currencies are indexed under their wrapped token.
+ *
+ * @param route
+ * @param pairTradeTypeChainId the pair the route is cached for
+ * @param routeId
+ * @param ttl the ttl of the route
+ */
+export const buildRoutesIndexEntries = (
+  route: SupportedRoutes,
+  pairTradeTypeChainId: string,
+  routeId: number,
+  ttl: number
+): RoutesIndexEntry[] => {
+  const { chainId } = route
+  const indexKeys = _.uniq([
+    ...routeToPools(route).map((pool) => routesIndexKey(chainId, 'pool', poolIdentifier(pool, chainId))),
+    ...routeToTokens(route).map((currency) => routesIndexKey(chainId, 'token', currency.wrapped.address)),
+  ])
+
+  return indexKeys.map((indexKey) => ({ indexKey, pairTradeTypeChainId, routeId, ttl }))
+}
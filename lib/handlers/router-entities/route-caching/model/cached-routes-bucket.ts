@@ -8,6 +8,7 @@ interface CachedRoutesBucketsArgs {
   bucket: number
   /**
    * For the cached route associated to this bucket, how many blocks should the cached route be valid for.
+   * Left undefined to use the default of the chain.
    */
   blocksToLive?: number
   /**
@@ -22,28 +23,37 @@ interface CachedRoutesBucketsArgs {
   /**
    * When fetching the CachedRoutes, we could opt for using the last N routes, from the last N blocks
    * This way we would query the price for all the recent routes that have been cached as the best routes
+   * Left undefined to use the default of the route caching provider.
    */
   withLastNCachedRoutes?: number
+  /**
+   * When the CacheMode is `Tapcompare`, the share of requests (between 0 and 1) for which the cached route is quoted
+   * and compared with the fresh route.
+   */
+  tapcompareSampleRate?: number
 }
 
 export class CachedRoutesBucket {
   public readonly bucket: number
-  public readonly blocksToLive: number
+  public readonly blocksToLive?: number
   public readonly cacheMode: CacheMode
   public readonly maxSplits: number
-  public readonly withLastNCachedRoutes: number
+  public readonly withLastNCachedRoutes?: number
+  public readonly tapcompareSampleRate: number
 
   constructor({
     bucket,
-    blocksToLive = 2,
+    blocksToLive,
     cacheMode,
     maxSplits = 0,
-    withLastNCachedRoutes = 4,
+    withLastNCachedRoutes,
+    tapcompareSampleRate = 0.1,
   }: CachedRoutesBucketsArgs) {
     this.bucket = bucket
-    this.blocksToLive = blocksToLive // by default, we allow up to 2 blocks to live for a cached route
+    this.blocksToLive = blocksToLive
     this.cacheMode = cacheMode
     this.maxSplits = maxSplits // by default this value is 0, which means that any number of splits are allowed
-    this.withLastNCachedRoutes = withLastNCachedRoutes // Fetching the last 4 cached routes by default
+    this.withLastNCachedRoutes = withLastNCachedRoutes
+    this.tapcompareSampleRate = tapcompareSampleRate // Comparing 10% of the requests by default
   }
 }
@@ -65,6 +65,13 @@ export class CachedRoutesStrategy {
     }
   }
 
+  /**
+   * The buckets in CacheMode.Tapcompare, in ascendant order
+   */
+  public tapcompareBuckets(): number[] {
+    return this.buckets.filter((bucket) => this.bucketsMap.get(bucket)?.cacheMode == CacheMode.Tapcompare)
+  }
+
   /**
    * Given an amount, we will search the bucket that has a cached route for that amount based on the CachedRoutesBucket array
    * @param amount
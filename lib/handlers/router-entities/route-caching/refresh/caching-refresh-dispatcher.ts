@@ -0,0 +1,62 @@
+import { Protocol } from '@uniswap/router-sdk'
+import { Currency, CurrencyAmount } from '@uniswap/sdk-core'
+import { PairTradeTypeChainId } from '../model/pair-trade-type-chain-id'
+
+// The ratio between the amounts a caching request flag covers, see DynamoRouteCachingProvider.ROUTES_DB_BUCKET_RATIO.
+const AMOUNT_BUCKET_RATIO = 514229 / 317811
+
+/**
+ * A caching quote to run for a pair, so that its routes are refreshed in the RoutesDb.
+ */
+export interface CachingRefreshRequest {
+  partitionKey: PairTradeTypeChainId
+  protocols: Protocol[]
+  amount: CurrencyAmount<Currency>
+}
+
+/**
+ * The event the quote handler runs the caching quote for, as the query string parameters of a GET /quote.
+ */
+export interface CachingRefreshEvent {
+  queryStringParameters: { [name: string]: string }
+}
+
+/**
+ * Gets caching quotes run, typically by the caching lambda, without waiting for their result.
+ */
+export interface CachingRefreshDispatcher {
+  /**
+   * Resolves once the refresh has been handed off (or run, for in-process dispatchers) or skipped. Failures are logged and never rejected.
+   *
+   * @param request
+   */
+  dispatch(request: CachingRefreshRequest): Promise<void>
+}
+
+export const buildCachingRefreshEvent = ({
+  partitionKey,
+  protocols,
+  amount,
+}: CachingRefreshRequest): CachingRefreshEvent => ({
+  queryStringParameters: {
+    tokenInAddress: partitionKey.currencyIn,
+    tokenInChainId: partitionKey.chainId.toString(),
+    tokenOutAddress: partitionKey.currencyOut,
+    tokenOutChainId: partitionKey.chainId.toString(),
+    amount: amount.quotient.toString(),
+    type: partitionKey.tradeType === 0 ? 'exactIn' : 'exactOut',
+    protocols: protocols.map((protocol) => protocol.toLowerCase()).join(','),
+    intent: 'caching',
+    requestSource: 'routing-api',
+  },
+})
+
+/**
+ * Identifies the refreshes of the same pair with amounts in the same bucket, which refresh the same routes.
+ *
+ * @param request
+ */
+export const cachingRefreshKey = ({ partitionKey, amount }: CachingRefreshRequest): string => {
+  const bucket = Math.floor(Math.log(parseFloat(amount.toExact())) / Math.log(AMOUNT_BUCKET_RATIO))
+  return `${partitionKey.toString()}#${bucket}`
+}
@@ -0,0 +1,67 @@
+import { ChainId } from '@uniswap/sdk-core'
+import { CachingRefreshRequest } from './caching-refresh-dispatcher'
+import {
+  QueuedCachingRefreshDispatcher,
+  QueuedCachingRefreshDispatcherOptions,
+} from './queued-caching-refresh-dispatcher'
+
+export type InProcessCachingRefreshDispatcherOptions = QueuedCachingRefreshDispatcherOptions & {
+  /**
+   * Refreshes of a chain that run at once, the others wait for one of them to finish.
+   */
+  concurrencyPerChain?: number
+}
+
+const DEFAULT_CONCURRENCY_PER_CHAIN = 2
+
+/**
+ * Runs refreshes in this process, e.g. in the dev server or in a long running container.
+ * Waiting refreshes count as pending, so the backpressure limit also bounds the backlog of each chain.
+ */
+export class InProcessCachingRefreshDispatcher extends QueuedCachingRefreshDispatcher {
+  private readonly concurrencyPerChain: number
+  private readonly runningByChain: Map<ChainId, number> = new Map()
+  private readonly waitingByChain: Map<ChainId, (() => void)[]> = new Map()
+
+  constructor(
+    private readonly refresh: (request: CachingRefreshRequest) => Promise<void>,
+    { concurrencyPerChain = DEFAULT_CONCURRENCY_PER_CHAIN, ...options }: InProcessCachingRefreshDispatcherOptions = {}
+  ) {
+    super('InProcessCachingRefreshDispatcher', options)
+    this.concurrencyPerChain = concurrencyPerChain
+  }
+
+  protected async enqueue(request: CachingRefreshRequest): Promise<void> {
+    const { chainId } = request.partitionKey
+    await this.acquire(chainId)
+    try {
+      await this.refresh(request)
+    } finally {
+      this.release(chainId)
+    }
+  }
+
+  private async acquire(chainId: ChainId): Promise<void> {
+    const running = this.runningByChain.get(chainId) ?? 0
+    if (running < this.concurrencyPerChain) {
+      this.runningByChain.set(chainId, running + 1)
+      return
+    }
+
+    // The slot is handed over by release, so the running count stays the same.
+    await new Promise<void>((resolve) => {
+      const waiting = this.waitingByChain.get(chainId) ?? []
+      waiting.push(resolve)
+      this.waitingByChain.set(chainId, waiting)
+    })
+  }
+
+  private release(chainId: ChainId): void {
+    const next = this.waitingByChain.get(chainId)?.shift()
+    if (next) {
+      next()
+    } else {
+      this.runningByChain.set(chainId, this.runningByChain.get(chainId)! - 1)
+    }
+  }
+}
@@ -0,0 +1,5 @@
+export * from './caching-refresh-dispatcher'
+export * from './lambda-caching-refresh-dispatcher'
+export * from './queued-caching-refresh-dispatcher'
+export * from './sqs-caching-refresh-dispatcher'
+export * from './in-process-caching-refresh-dispatcher'
@@ -0,0 +1,30 @@
+import { log } from '@uniswap/smart-order-router'
+import { Lambda } from 'aws-sdk'
+import { buildCachingRefreshEvent, CachingRefreshDispatcher, CachingRefreshRequest } from './caching-refresh-dispatcher'
+
+/**
+ * Invokes the caching lambda asynchronously for every refresh, without any deduplication.
+ */
+export class LambdaCachingRefreshDispatcher implements CachingRefreshDispatcher {
+  private readonly lambdaClient: Lambda
+
+  constructor(private readonly cachingQuoteLambdaName: string) {
+    this.lambdaClient = new Lambda()
+  }
+
+  public async dispatch(request: CachingRefreshRequest): Promise<void> {
+    const params = {
+      FunctionName: this.cachingQuoteLambdaName,
+      InvocationType: 'Event',
+      Payload: JSON.stringify(buildCachingRefreshEvent(request)),
+    }
+
+    log.info(`[LambdaCachingRefreshDispatcher] Sending async caching request to lambda ${JSON.stringify(params)}`)
+
+    try {
+      await this.lambdaClient.invoke(params).promise()
+    } catch (error) {
+      log.error({ error }, `[LambdaCachingRefreshDispatcher] Caching request failed to send`)
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import { ChainId } from '@uniswap/sdk-core'
+import { ID_TO_NETWORK_NAME, log, metric, MetricLoggerUnit } from '@uniswap/smart-order-router'
+import { CachingRefreshDispatcher, CachingRefreshRequest, cachingRefreshKey } from './caching-refresh-dispatcher'
+
+export interface QueuedCachingRefreshDispatcherOptions {
+  /**
+   * Refreshes of the same pair and amount bucket within this window are coalesced into the first one.
+   */
+  dedupWindowMs?: number
+  /**
+   * Refreshes of a chain that can be pending at once. Refreshes past this limit are dropped.
+   */
+  maxPendingPerChain?: number
+}
+
+const DEFAULT_DEDUP_WINDOW_MS = 60_000
+const DEFAULT_MAX_PENDING_PER_CHAIN = 20
+
+/**
+ * Deduplicates and limits the refreshes handed to a queue, so that volatility on a chain does not
+ * turn into a stampede of caching quotes.
+ */
+export abstract class QueuedCachingRefreshDispatcher implements CachingRefreshDispatcher {
+  protected readonly dedupWindowMs: number
+  private readonly maxPendingPerChain: number
+  // When each refresh key was last enqueued, oldest first.
+  private readonly enqueuedAt: Map<string, number> = new Map()
+  private readonly pendingByChain: Map<ChainId, number> = new Map()
+
+  protected constructor(
+    private readonly name: string,
+    {
+      dedupWindowMs = DEFAULT_DEDUP_WINDOW_MS,
+      maxPendingPerChain = DEFAULT_MAX_PENDING_PER_CHAIN,
+    }: QueuedCachingRefreshDispatcherOptions
+  ) {
+    this.dedupWindowMs = dedupWindowMs
+    this.maxPendingPerChain = maxPendingPerChain
+  }
+
+  public async dispatch(request: CachingRefreshRequest): Promise<void> {
+    const { chainId } = request.partitionKey
+    const key = cachingRefreshKey(request)
+    const now = Date.now()
+    this.evictEnqueuedBefore(now - this.dedupWindowMs)
+
+    if (this.enqueuedAt.has(key)) {
+      this.putMetric('CachingRefreshCoalesced', chainId)
+      return
+    }
+
+    const pending = this.pendingByChain.get(chainId) ?? 0
+    if (pending >= this.maxPendingPerChain) {
+      this.putMetric('CachingRefreshDropped', chainId)
+      log.warn({ key, pending }, `[${this.name}] Dropped caching refresh, too many pending on chain ${chainId}`)
+      return
+    }
+
+    this.enqueuedAt.set(key, now)
+    this.pendingByChain.set(chainId, pending + 1)
+    this.putMetric('CachingRefreshEnqueued', chainId)
+
+    try {
+      await this.enqueue(request)
+    } catch (error) {
+      this.putMetric('CachingRefreshFailed', chainId)
+      log.error({ error, key }, `[${this.name}] Caching refresh failed`)
+    } finally {
+      this.pendingByChain.set(chainId, this.pendingByChain.get(chainId)! - 1)
+    }
+  }
+
+  /**
+   * Hands the refresh to the queue. Refreshes count as pending until the returned promise settles.
+   *
+   * @param request
+   */
+  protected abstract enqueue(request: CachingRefreshRequest): Promise<void>
+
+  private evictEnqueuedBefore(time: number): void {
+    for (const [key, enqueuedAt] of this.enqueuedAt) {
+      if (enqueuedAt >= time) {
+        break
+      }
+      this.enqueuedAt.delete(key)
+    }
+  }
+
+  private putMetric(name: string, chainId: ChainId): void {
+    metric.putMetric(name, 1, MetricLoggerUnit.Count)
+    metric.putMetric(`${name}_${ID_TO_NETWORK_NAME(chainId)}`, 1, MetricLoggerUnit.Count)
+  }
+}
@@ -0,0 +1,39 @@
+import { SQS } from 'aws-sdk'
+import { buildCachingRefreshEvent, CachingRefreshRequest, cachingRefreshKey } from './caching-refresh-dispatcher'
+import {
+  QueuedCachingRefreshDispatcher,
+  QueuedCachingRefreshDispatcherOptions,
+} from './queued-caching-refresh-dispatcher'
+
+/**
+ * Sends refreshes to a FIFO SQS queue, consumed by the CachingRefreshHandler.
+ * Messages are grouped by chain, so that the refreshes of a chain run one at a time.
+ *
+ * Refreshes are coalesced and limited in this lambda like any queued refresh, and then deduplicated by SQS across
+ * all the lambdas sending them: refreshes of the same pair and amount bucket within the same dedup window share a
+ * deduplication id, so that SQS only delivers the first one. The window is capped by the 5 minutes deduplication
+ * interval of SQS. Sends in flight count as pending.
+ */
+export class SqsCachingRefreshDispatcher extends QueuedCachingRefreshDispatcher {
+  constructor(
+    private readonly queueUrl: string,
+    options: QueuedCachingRefreshDispatcherOptions = {},
+    private readonly sqsClient: SQS = new SQS()
+  ) {
+    super('SqsCachingRefreshDispatcher', options)
+    if (!queueUrl.endsWith('.fifo')) {
+      throw new Error(`Caching refresh queue ${queueUrl} must be a FIFO queue`)
+    }
+  }
+
+  protected async enqueue(request: CachingRefreshRequest): Promise<void> {
+    await this.sqsClient
+      .sendMessage({
+        QueueUrl: this.queueUrl,
+        MessageBody: JSON.stringify(buildCachingRefreshEvent(request)),
+        MessageGroupId: request.partitionKey.chainId.toString(),
+        MessageDeduplicationId: `${cachingRefreshKey(request)}#${Math.floor(Date.now() / this.dedupWindowMs)}`,
+      })
+      .promise()
+  }
+}
@@ -0,0 +1,188 @@
+import { DynamoDB } from 'aws-sdk'
+import _ from 'lodash'
+import {
+  CachingRequestFlag,
+  RoutesDbEntry,
+  RoutesIndexEntry,
+  RoutesStore,
+  routesIndexEntryRouteKey,
+} from './routes-store'
+
+// The most requests DynamoDB accepts in a single BatchWriteItem.
+const MAX_BATCH_WRITE_REQUESTS = 25
+
+interface ConstructorParams {
+  /**
+   * The TableName for the DynamoDB Table that stores routes
+   */
+  routesTableName: string
+  /**
+   * The TableName for the DynamoDB Table that stores whether a request has been sent for caching related to routesDb
+   */
+  routesCachingRequestFlagTableName: string
+  /**
+   * The TableName for the DynamoDB Table that stores the reverse index from pools and tokens to routes
+   */
+  routesIndexTableName: string
+}
+
+export class DynamoRoutesStore implements RoutesStore {
+  private readonly ddbClient: DynamoDB.DocumentClient
+  private readonly routesTableName: string
+  private readonly routesCachingRequestFlagTableName: string
+  private readonly routesIndexTableName: string
+
+  constructor({ routesTableName, routesCachingRequestFlagTableName, routesIndexTableName }: ConstructorParams) {
+    // Since this DDB Table is used for Cache, we will fail fast and limit the timeout.
+    this.ddbClient = new DynamoDB.DocumentClient({
+      maxRetries: 1,
+      retryDelayOptions: {
+        base: 20,
+      },
+      httpOptions: {
+        timeout: 100,
+      },
+    })
+    this.routesTableName = routesTableName
+    this.routesCachingRequestFlagTableName = routesCachingRequestFlagTableName
+    this.routesIndexTableName = routesIndexTableName
+  }
+
+  public async getRoutes(pairTradeTypeChainId: string): Promise<RoutesDbEntry[]> {
+    const queryParams = {
+      TableName: this.routesTableName,
+      KeyConditionExpression: '#pk = :pk',
+      ExpressionAttributeNames: {
+        '#pk': 'pairTradeTypeChainId',
+      },
+      ExpressionAttributeValues: {
+        ':pk': pairTradeTypeChainId,
+      },
+    }
+
+    return (await this.queryAll(queryParams)) as RoutesDbEntry[]
+  }
+
+  public async putRoutes(entries: RoutesDbEntry[]): Promise<void> {
+    const batchWriteParams = {
+      RequestItems: {
+        [this.routesTableName]: entries.map((entry) => ({ PutRequest: { Item: entry } })),
+      },
+    }
+    await this.ddbClient.batchWrite(batchWriteParams).promise()
+  }
+
+  public async getCachingRequestFlags(
+    pairTradeTypeChainId: string,
+    minAmount: number,
+    maxAmount: number
+  ): Promise<CachingRequestFlag[]> {
+    const queryParams = {
+      TableName: this.routesCachingRequestFlagTableName,
+      KeyConditionExpression: '#pk = :pk AND #amount BETWEEN :amount AND :amount_ratio',
+      ExpressionAttributeNames: {
+        '#pk': 'pairTradeTypeChainId',
+        '#amount': 'amount',
+      },
+      ExpressionAttributeValues: {
+        ':pk': pairTradeTypeChainId,
+        ':amount': minAmount,
+        ':amount_ratio': maxAmount,
+      },
+    }
+
+    return (await this.queryAll(queryParams)) as CachingRequestFlag[]
+  }
+
+  public async putCachingRequestFlag(flag: CachingRequestFlag): Promise<void> {
+    const putParams = {
+      TableName: this.routesCachingRequestFlagTableName,
+      Item: flag,
+    }
+    await this.ddbClient.put(putParams).promise()
+  }
+
+  public async getRoutesIndexEntries(indexKey: string): Promise<RoutesIndexEntry[]> {
+    const queryParams = {
+      TableName: this.routesIndexTableName,
+      KeyConditionExpression: '#pk = :pk',
+      ExpressionAttributeNames: {
+        '#pk': 'indexKey',
+      },
+      ExpressionAttributeValues: {
+        ':pk': indexKey,
+      },
+    }
+
+    const items = await this.queryAll(queryParams)
+    return items.map(({ routeKey: _routeKey, ...entry }) => entry as RoutesIndexEntry)
+  }
+
+  public async putRoutesIndexEntries(entries: RoutesIndexEntry[]): Promise<void> {
+    // The table is keyed by the route the entry points to, as entries of an indexKey differ by their pair and routeId.
+    await this.batchWrite(
+      this.routesIndexTableName,
+      entries.map((entry) => ({ PutRequest: { Item: { ...entry, routeKey: routesIndexEntryRouteKey(entry) } } }))
+    )
+  }
+
+  public async deleteRoutesIndexEntries(entries: RoutesIndexEntry[]): Promise<void> {
+    await this.batchWrite(
+      this.routesIndexTableName,
+      entries.map((entry) => ({
+        DeleteRequest: { Key: { indexKey: entry.indexKey, routeKey: routesIndexEntryRouteKey(entry) } },
+      }))
+    )
+  }
+
+  public async deleteRoutes(pairTradeTypeChainId: string, routeIds: number[]): Promise<void> {
+    await this.batchWrite(
+      this.routesTableName,
+      routeIds.map((routeId) => ({ DeleteRequest: { Key: { pairTradeTypeChainId, routeId } } }))
+    )
+  }
+
+  public async deleteCachingRequestFlags(pairTradeTypeChainId: string): Promise<number> {
+    const queryParams = {
+      TableName: this.routesCachingRequestFlagTableName,
+      KeyConditionExpression: '#pk = :pk',
+      ExpressionAttributeNames: {
+        '#pk': 'pairTradeTypeChainId',
+      },
+      ExpressionAttributeValues: {
+        ':pk': pairTradeTypeChainId,
+      },
+    }
+
+    const flags = (await this.queryAll(queryParams)) as CachingRequestFlag[]
+    await this.batchWrite(
+      this.routesCachingRequestFlagTableName,
+      flags.map(({ amount }) => ({ DeleteRequest: { Key: { pairTradeTypeChainId, amount } } }))
+    )
+    return flags.length
+  }
+
+  // Queries every page of the results, as a single query stops at 1 MB of items.
+  private async queryAll(queryParams: DynamoDB.DocumentClient.QueryInput): Promise<DynamoDB.DocumentClient.ItemList> {
+    const items: DynamoDB.DocumentClient.ItemList = []
+    let exclusiveStartKey: DynamoDB.DocumentClient.Key | undefined
+    do {
+      const result = await this.ddbClient.query({ ...queryParams, ExclusiveStartKey: exclusiveStartKey }).promise()
+      items.push(...(result.Items ?? []))
+      exclusiveStartKey = result.LastEvaluatedKey
+    } while (exclusiveStartKey)
+    return items
+  }
+
+  // Splits the requests into as many BatchWriteItem as needed. Deletions must not be partially applied,
+  // so unprocessed requests are thrown rather than ignored, for the caller to retry.
+  private async batchWrite(tableName: string, requests: DynamoDB.DocumentClient.WriteRequest[]): Promise<void> {
+    for (const chunk of _.chunk(requests, MAX_BATCH_WRITE_REQUESTS)) {
+      const result = await this.ddbClient.batchWrite({ RequestItems: { [tableName]: chunk } }).promise()
+      const unprocessed = result.UnprocessedItems?.[tableName]?.length ?? 0
+      if (unprocessed > 0) {
+        throw new Error(`${unprocessed} requests to ${tableName} were not processed`)
+      }
+    }
+  }
+}
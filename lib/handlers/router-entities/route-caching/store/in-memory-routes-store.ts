@@ -0,0 +1,97 @@
+import {
+  CachingRequestFlag,
+  isExpired,
+  RoutesDbEntry,
+  RoutesIndexEntry,
+  RoutesStore,
+  routesIndexEntryRouteKey,
+} from './routes-store'
+
+/**
+ * Keeps the RoutesDb in the memory of the process, e.g. for tests and single instance deployments.
+ * Expired entries and flags are dropped when their pair is read.
+ */
+export class InMemoryRoutesStore implements RoutesStore {
+  // Entries by pair, then by routeId.
+  private readonly routes: Map<string, Map<number, RoutesDbEntry>> = new Map()
+  // Flags by pair, then by amount.
+  private readonly flags: Map<string, Map<number, CachingRequestFlag>> = new Map()
+  // Index entries by indexKey, then by the route they point to.
+  private readonly index: Map<string, Map<string, RoutesIndexEntry>> = new Map()
+
+  public async getRoutes(pairTradeTypeChainId: string): Promise<RoutesDbEntry[]> {
+    return InMemoryRoutesStore.unexpired(this.routes.get(pairTradeTypeChainId))
+  }
+
+  public async putRoutes(entries: RoutesDbEntry[]): Promise<void> {
+    for (const entry of entries) {
+      InMemoryRoutesStore.partition(this.routes, entry.pairTradeTypeChainId).set(entry.routeId, entry)
+    }
+  }
+
+  public async getCachingRequestFlags(
+    pairTradeTypeChainId: string,
+    minAmount: number,
+    maxAmount: number
+  ): Promise<CachingRequestFlag[]> {
+    return InMemoryRoutesStore.unexpired(this.flags.get(pairTradeTypeChainId)).filter(
+      ({ amount }) => amount >= minAmount && amount <= maxAmount
+    )
+  }
+
+  public async putCachingRequestFlag(flag: CachingRequestFlag): Promise<void> {
+    InMemoryRoutesStore.partition(this.flags, flag.pairTradeTypeChainId).set(flag.amount, flag)
+  }
+
+  public async getRoutesIndexEntries(indexKey: string): Promise<RoutesIndexEntry[]> {
+    return InMemoryRoutesStore.unexpired(this.index.get(indexKey))
+  }
+
+  public async putRoutesIndexEntries(entries: RoutesIndexEntry[]): Promise<void> {
+    for (const entry of entries) {
+      InMemoryRoutesStore.partition(this.index, entry.indexKey).set(routesIndexEntryRouteKey(entry), entry)
+    }
+  }
+
+  public async deleteRoutesIndexEntries(entries: RoutesIndexEntry[]): Promise<void> {
+    for (const entry of entries) {
+      this.index.get(entry.indexKey)?.delete(routesIndexEntryRouteKey(entry))
+    }
+  }
+
+  public async deleteRoutes(pairTradeTypeChainId: string, routeIds: number[]): Promise<void> {
+    const partition = this.routes.get(pairTradeTypeChainId)
+    for (const routeId of routeIds) {
+      partition?.delete(routeId)
+    }
+  }
+
+  public async deleteCachingRequestFlags(pairTradeTypeChainId: string): Promise<number> {
+    const deleted = this.flags.get(pairTradeTypeChainId)?.size ?? 0
+    this.flags.delete(pairTradeTypeChainId)
+    return deleted
+  }
+
+  private static partition<K, T>(partitions: Map<string, Map<K, T>>, partitionKey: string): Map<K, T> {
+    let partition = partitions.get(partitionKey)
+    if (!partition) {
+      partition = new Map()
+      partitions.set(partitionKey, partition)
+    }
+    return partition
+  }
+
+  private static unexpired<K, T extends { ttl: number }>(partition: Map<K, T> | undefined): T[] {
+    if (!partition) {
+      return []
+    }
+
+    const now = Date.now()
+    for (const [key, value] of partition) {
+      if (isExpired(value, now)) {
+        partition.delete(key)
+      }
+    }
+    return Array.from(partition.values())
+  }
+}
@@ -0,0 +1,5 @@
+export * from './routes-store'
+export * from './dynamo-routes-store'
+export * from './redis-routes-store'
+export * from './in-memory-routes-store'
+export * from './routes-store-from-env'
@@ -0,0 +1,153 @@
+import _ from 'lodash'
+import {
+  CachingRequestFlag,
+  isExpired,
+  RoutesDbEntry,
+  RoutesIndexEntry,
+  RoutesStore,
+  routesIndexEntryRouteKey,
+} from './routes-store'
+
+/**
+ * The commands RedisRoutesStore sends, with the signatures of an ioredis client.
+ * Any client of a Redis compatible server can be adapted to it. The NX and GT options of EXPIRE need Redis 7 or later.
+ */
+export interface RedisCompatibleClient {
+  hgetall(key: string): Promise<{ [field: string]: string }>
+  hset(key: string, values: { [field: string]: string }): Promise<number>
+  hdel(key: string, ...fields: string[]): Promise<number>
+  expire(key: string, seconds: number, nx: 'NX'): Promise<number>
+  expire(key: string, seconds: number, gt: 'GT'): Promise<number>
+  del(...keys: string[]): Promise<number>
+}
+
+interface ConstructorParams {
+  client: RedisCompatibleClient
+  /**
+   * Prefix of every key written by the store, to share a server with other data.
+   */
+  keyPrefix?: string
+}
+
+type SerializedRoutesDbEntry = Omit<RoutesDbEntry, 'item'> & { item: string }
+
+/**
+ * Stores the RoutesDb in a Redis compatible server.
+ *
+ * Every pair is a hash of its entries by routeId, and of its flags by amount, and every pool or token a hash of
+ * its index entries by route. Redis can only expire whole keys,
+ * so each key expires with the entry written to it that expires last, and the expired entries are deleted when the
+ * pair is read.
+ */
+export class RedisRoutesStore implements RoutesStore {
+  private readonly client: RedisCompatibleClient
+  private readonly keyPrefix: string
+
+  constructor({ client, keyPrefix = 'routes-db' }: ConstructorParams) {
+    this.client = client
+    this.keyPrefix = keyPrefix
+  }
+
+  public async getRoutes(pairTradeTypeChainId: string): Promise<RoutesDbEntry[]> {
+    const entries = await this.getUnexpired<SerializedRoutesDbEntry>(this.routesKey(pairTradeTypeChainId))
+    return entries.map((entry) => ({ ...entry, item: Buffer.from(entry.item, 'base64') }))
+  }
+
+  public async putRoutes(entries: RoutesDbEntry[]): Promise<void> {
+    await Promise.all(
+      _.map(_.groupBy(entries, 'pairTradeTypeChainId'), (pairEntries, pairTradeTypeChainId) =>
+        this.put(
+          this.routesKey(pairTradeTypeChainId),
+          pairEntries.map((entry) => [entry.routeId, { ...entry, item: entry.item.toString('base64') }])
+        )
+      )
+    )
+  }
+
+  public async getCachingRequestFlags(
+    pairTradeTypeChainId: string,
+    minAmount: number,
+    maxAmount: number
+  ): Promise<CachingRequestFlag[]> {
+    const flags = await this.getUnexpired<CachingRequestFlag>(this.flagsKey(pairTradeTypeChainId))
+    return flags.filter(({ amount }) => amount >= minAmount && amount <= maxAmount)
+  }
+
+  public async putCachingRequestFlag(flag: CachingRequestFlag): Promise<void> {
+    await this.put(this.flagsKey(flag.pairTradeTypeChainId), [[flag.amount, flag]])
+  }
+
+  public async getRoutesIndexEntries(indexKey: string): Promise<RoutesIndexEntry[]> {
+    return this.getUnexpired<RoutesIndexEntry>(this.indexKey(indexKey))
+  }
+
+  public async putRoutesIndexEntries(entries: RoutesIndexEntry[]): Promise<void> {
+    await Promise.all(
+      _.map(_.groupBy(entries, 'indexKey'), (keyEntries, indexKey) =>
+        this.put(
+          this.indexKey(indexKey),
+          keyEntries.map((entry) => [routesIndexEntryRouteKey(entry), entry])
+        )
+      )
+    )
+  }
+
+  public async deleteRoutesIndexEntries(entries: RoutesIndexEntry[]): Promise<void> {
+    await Promise.all(
+      _.map(_.groupBy(entries, 'indexKey'), (keyEntries, indexKey) =>
+        this.client.hdel(this.indexKey(indexKey), ...keyEntries.map(routesIndexEntryRouteKey))
+      )
+    )
+  }
+
+  public async deleteRoutes(pairTradeTypeChainId: string, routeIds: number[]): Promise<void> {
+    if (routeIds.length > 0) {
+      await this.client.hdel(this.routesKey(pairTradeTypeChainId), ...routeIds.map((routeId) => routeId.toString()))
+    }
+  }
+
+  public async deleteCachingRequestFlags(pairTradeTypeChainId: string): Promise<number> {
+    const key = this.flagsKey(pairTradeTypeChainId)
+    const flags = await this.client.hgetall(key)
+    await this.client.del(key)
+    return _.size(flags)
+  }
+
+  private async getUnexpired<T extends { ttl: number }>(key: string): Promise<T[]> {
+    const values = _.mapValues(await this.client.hgetall(key), (value) => JSON.parse(value) as T)
+    const now = Date.now()
+
+    const expiredFields = _.keys(_.pickBy(values, (value) => isExpired(value, now)))
+    if (expiredFields.length > 0) {
+      await this.client.hdel(key, ...expiredFields)
+    }
+
+    return _.values(_.omit(values, expiredFields))
+  }
+
+  private async put<T extends { ttl: number }>(
+    key: string,
+    values: [field: number | string, value: T][]
+  ): Promise<void> {
+    await this.client.hset(key, _.fromPairs(values.map(([field, value]) => [field.toString(), JSON.stringify(value)])))
+
+    // Entries of a key can have different TTLs, so its expiry is only ever extended: NX sets it on a new key, and GT
+    // extends it, whatever the order in which concurrent writes land.
+    const ttl = _.max(values.map(([, value]) => value.ttl))!
+    const seconds = Math.max(1, Math.ceil(ttl - Date.now() / 1000))
+    await this.client.expire(key, seconds, 'NX')
+    await this.client.expire(key, seconds, 'GT')
+  }
+
+  private routesKey(pairTradeTypeChainId: string): string {
+    return `${this.keyPrefix}:routes:${pairTradeTypeChainId}`
+  }
+
+  private flagsKey(pairTradeTypeChainId: string): string {
+    return `${this.keyPrefix}:flags:${pairTradeTypeChainId}`
+  }
+
+  private indexKey(indexKey: string): string {
+    return `${this.keyPrefix}:index:${indexKey}`
+  }
+}
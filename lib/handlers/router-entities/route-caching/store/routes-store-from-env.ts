@@ -0,0 +1,69 @@
+import Redis from 'ioredis'
+import { DynamoRoutesStore } from './dynamo-routes-store'
+import { InMemoryRoutesStore } from './in-memory-routes-store'
+import { RedisRoutesStore } from './redis-routes-store'
+import { RoutesStore } from './routes-store'
+
+export enum RoutesStoreType {
+  DYNAMO = 'dynamo',
+  REDIS = 'redis',
+  MEMORY = 'memory',
+}
+
+// Handlers build their dependencies separately, so the store is shared for them to see the same routes, e.g. for a
+// purge to delete the routes cached by quotes in the same process.
+let routesStore: RoutesStore | undefined
+
+/**
+ * The store of the RoutesDb, selected by ROUTES_STORE:
+ *   dynamo  The DynamoDB tables of ROUTES_TABLE_NAME, ROUTES_CACHING_REQUEST_FLAG_TABLE_NAME and
+ *           ROUTES_INDEX_TABLE_NAME, the default. Routes are only cached if CACHED_ROUTES_TABLE_NAME is also set.
+ *   redis   The Redis server at REDIS_URL, under the ROUTES_STORE_KEY_PREFIX prefix if set.
+ *   memory  The memory of this process, for single instance deployments and the dev server.
+ *
+ * @returns the store, or undefined if routes are not cached
+ */
+export function routesStoreFromEnv(): RoutesStore | undefined {
+  if (routesStore) {
+    return routesStore
+  }
+
+  const {
+    ROUTES_STORE = RoutesStoreType.DYNAMO,
+    ROUTES_TABLE_NAME,
+    ROUTES_CACHING_REQUEST_FLAG_TABLE_NAME,
+    ROUTES_INDEX_TABLE_NAME,
+    CACHED_ROUTES_TABLE_NAME,
+    REDIS_URL,
+    ROUTES_STORE_KEY_PREFIX,
+  } = process.env
+
+  switch (ROUTES_STORE) {
+    case RoutesStoreType.DYNAMO:
+      if (!CACHED_ROUTES_TABLE_NAME || CACHED_ROUTES_TABLE_NAME === '') {
+        return undefined
+      }
+      routesStore = new DynamoRoutesStore({
+        routesTableName: ROUTES_TABLE_NAME!,
+        routesCachingRequestFlagTableName: ROUTES_CACHING_REQUEST_FLAG_TABLE_NAME!,
+        routesIndexTableName: ROUTES_INDEX_TABLE_NAME!,
+      })
+      break
+
+    case RoutesStoreType.REDIS:
+      if (!REDIS_URL) {
+        throw new Error(`REDIS_URL must be set for the ${RoutesStoreType.REDIS} routes store`)
+      }
+      routesStore = new RedisRoutesStore({ client: new Redis(REDIS_URL), keyPrefix: ROUTES_STORE_KEY_PREFIX })
+      break
+
+    case RoutesStoreType.MEMORY:
+      routesStore = new InMemoryRoutesStore()
+      break
+
+    default:
+      throw new Error(`Unknown routes store ${ROUTES_STORE}, expected one of ${Object.values(RoutesStoreType)}`)
+  }
+
+  return routesStore
+}
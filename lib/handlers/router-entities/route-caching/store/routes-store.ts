@@ -0,0 +1,152 @@
+/**
+ * A route of a CachedRoutes, stored individually in the RoutesDb.
+ */
+export interface RoutesDbEntry {
+  /**
+   * The string representation of the PairTradeTypeChainId, the routes of a pair are stored and read together.
+   */
+  pairTradeTypeChainId: string
+  routeId: number
+  blockNumber: number
+  protocol: string
+  /**
+   * The CachedRoutes holding only this route, serialized by CachedRoutesMarshaller.serialize.
+   */
+  item: Buffer
+  /**
+   * Expiration of the entry, in seconds since epoch.
+   */
+  ttl: number
+}
+
+/**
+ * Points from a pool or a token to a route of the RoutesDb going through it, so that its routes can be purged.
+ */
+export interface RoutesIndexEntry {
+  /**
+   * The pool or token, see routesIndexKey.
+   */
+  indexKey: string
+  pairTradeTypeChainId: string
+  routeId: number
+  /**
+   * Expiration of the entry, the same as the route it points to.
+   */
+  ttl: number
+}
+
+export type RoutesIndexKeyType = 'pool' | 'token'
+
+/**
+ * Marks that a caching request was sent for an amount of a pair, so that no other is sent for close amounts.
+ */
+export interface CachingRequestFlag {
+  pairTradeTypeChainId: string
+  amount: number
+  blockNumber: number
+  /**
+   * Expiration of the flag, in seconds since epoch.
+   */
+  ttl: number
+}
+
+/**
+ * Storage of the RoutesDb and of its caching request flags.
+ *
+ * Stores only persist and look up entries, the bucket selection and the caching request flow
+ * are the same for every store and live in the route caching provider.
+ */
+export interface RoutesStore {
+  /**
+   * Returns every route stored for the pair, in no particular order.
+   * Entries past their ttl may still be returned, as DynamoDB does until its TTL process deletes them.
+   *
+   * @param pairTradeTypeChainId
+   */
+  getRoutes(pairTradeTypeChainId: string): Promise<RoutesDbEntry[]>
+
+  /**
+   * Inserts the entries, replacing any entry of the same pair and routeId.
+   *
+   * @param entries
+   */
+  putRoutes(entries: RoutesDbEntry[]): Promise<void>
+
+  /**
+   * Returns the flags of the pair whose amount is between minAmount and maxAmount, inclusive.
+   *
+   * @param pairTradeTypeChainId
+   * @param minAmount
+   * @param maxAmount
+   */
+  getCachingRequestFlags(
+    pairTradeTypeChainId: string,
+    minAmount: number,
+    maxAmount: number
+  ): Promise<CachingRequestFlag[]>
+
+  /**
+   * Inserts the flag, replacing any flag of the same pair and amount.
+   *
+   * @param flag
+   */
+  putCachingRequestFlag(flag: CachingRequestFlag): Promise<void>
+
+  /**
+   * Returns every entry of the reverse index for the pool or token, in no particular order.
+   * The routes they point to may have been replaced or deleted since.
+   *
+   * @param indexKey
+   */
+  getRoutesIndexEntries(indexKey: string): Promise<RoutesIndexEntry[]>
+
+  /**
+   * Inserts the entries, replacing any entry of the same indexKey, pair and routeId.
+   *
+   * @param entries
+   */
+  putRoutesIndexEntries(entries: RoutesIndexEntry[]): Promise<void>
+
+  /**
+   * Deletes the entries of the reverse index, ignoring those that do not exist.
+   *
+   * @param entries
+   */
+  deleteRoutesIndexEntries(entries: RoutesIndexEntry[]): Promise<void>
+
+  /**
+   * Deletes the routes of the pair, ignoring those that do not exist.
+   *
+   * @param pairTradeTypeChainId
+   * @param routeIds
+   */
+  deleteRoutes(pairTradeTypeChainId: string, routeIds: number[]): Promise<void>
+
+  /**
+   * Deletes every flag of the pair, whatever its amount, so that the next quote of the pair sends a caching request.
+   *
+   * @param pairTradeTypeChainId
+   * @returns the number of flags deleted
+   */
+  deleteCachingRequestFlags(pairTradeTypeChainId: string): Promise<number>
+}
+
+export const isExpired = ({ ttl }: { ttl: number }, now: number = Date.now()): boolean => ttl < now / 1000
+
+/**
+ * The key of the reverse index for a pool (its address, or its id for v4 pools) or a token of a chain.
+ *
+ * @param chainId
+ * @param type
+ * @param address
+ */
+export const routesIndexKey = (chainId: number, type: RoutesIndexKeyType, address: string): string =>
+  `${chainId}/${type}/${address.toLowerCase()}`
+
+/**
+ * Identifies the route an entry of the reverse index points to, within its indexKey.
+ *
+ * @param entry
+ */
+export const routesIndexEntryRouteKey = ({ pairTradeTypeChainId, routeId }: RoutesIndexEntry): string =>
+  `${pairTradeTypeChainId}#${routeId}`
@@ -0,0 +1,45 @@
+import { Fraction, TradeType } from '@uniswap/sdk-core'
+import { routeToString, SwapRoute } from '@uniswap/smart-order-router'
+import JSBI from 'jsbi'
+
+export interface SwapRoutesComparison {
+  /**
+   * How much worse the gas adjusted quote of the cached route is than the fresh one, in bips of the fresh quote.
+   * Negative when the cached route quotes better. Undefined when the fresh quote is zero.
+   */
+  quoteDeltaBips?: number
+  /**
+   * The gas used by the cached route minus the gas used by the fresh route.
+   */
+  gasUsedDelta: number
+  /**
+   * Whether both routes split the amount the same way through the same pools.
+   */
+  sameRoutes: boolean
+}
+
+const routesKey = (swapRoute: SwapRoute): string =>
+  swapRoute.route
+    .map((routeWithValidQuote) => `${routeWithValidQuote.percent}% ${routeToString(routeWithValidQuote.route)}`)
+    .sort()
+    .join(', ')
+
+export function compareSwapRoutes(
+  freshSwapRoute: SwapRoute,
+  cachedSwapRoute: SwapRoute,
+  tradeType: TradeType
+): SwapRoutesComparison {
+  const freshQuote = freshSwapRoute.quoteGasAdjusted.quotient
+  const cachedQuote = cachedSwapRoute.quoteGasAdjusted.quotient
+  // ExactIn quotes the amount received, so a lower quote is worse. ExactOut quotes the amount paid, so a higher one is.
+  const quoteDelta =
+    tradeType == TradeType.EXACT_INPUT ? JSBI.subtract(freshQuote, cachedQuote) : JSBI.subtract(cachedQuote, freshQuote)
+
+  return {
+    quoteDeltaBips: JSBI.equal(freshQuote, JSBI.BigInt(0))
+      ? undefined
+      : Number(new Fraction(quoteDelta, freshQuote).multiply(10_000).toFixed(2)),
+    gasUsedDelta: cachedSwapRoute.estimatedGasUsed.sub(freshSwapRoute.estimatedGasUsed).toNumber(),
+    sameRoutes: routesKey(freshSwapRoute) === routesKey(cachedSwapRoute),
+  }
+}
@@ -0,0 +1,3 @@
+export * from './compare-swap-routes'
+export * from './tapcompare-router'
+export * from './tapcompare-metrics'
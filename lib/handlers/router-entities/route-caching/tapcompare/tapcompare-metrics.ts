@@ -0,0 +1,11 @@
+import { CachedRoutesStrategy } from '../model'
+
+export const TAPCOMPARE_QUOTE_DELTA_BIPS = 'TapcompareQuoteDeltaBips'
+export const TAPCOMPARE_GAS_USED_DELTA = 'TapcompareGasUsedDelta'
+export const TAPCOMPARE_SAME_ROUTES = 'TapcompareSameRoutes'
+export const TAPCOMPARE_DIFFERENT_ROUTES = 'TapcompareDifferentRoutes'
+
+// Suffixes a Tapcompare metric with the pair and bucket it was measured for,
+// e.g. TapcompareQuoteDeltaBips_WETH/USDC/ExactIn/1_10
+export const tapcompareMetricName = (name: string, strategy: CachedRoutesStrategy, bucket: number): string =>
+  `${name}_${strategy.readablePairTradeTypeChainId()}_${bucket}`
@@ -0,0 +1,111 @@
+import { ChainId, Currency, CurrencyAmount, TradeType } from '@uniswap/sdk-core'
+import {
+  AlphaRouterConfig,
+  CacheMode,
+  IRouter,
+  log,
+  metric,
+  MetricLoggerUnit,
+  SwapOptions,
+  SwapRoute,
+} from '@uniswap/smart-order-router'
+import { DynamoRouteCachingProvider } from '../dynamo-route-caching-provider'
+import { CachedRoutesBucket, CachedRoutesStrategy } from '../model'
+import { compareSwapRoutes } from './compare-swap-routes'
+import {
+  TAPCOMPARE_DIFFERENT_ROUTES,
+  TAPCOMPARE_GAS_USED_DELTA,
+  TAPCOMPARE_QUOTE_DELTA_BIPS,
+  TAPCOMPARE_SAME_ROUTES,
+  tapcompareMetricName,
+} from './tapcompare-metrics'
+
+/**
+ * Routes the quotes in a `Tapcompare` bucket without reading the cached routes, and for a sample of them also quotes
+ * the cached routes, to record how they compare with the fresh route.
+ * The fresh route is always the one returned, and it is cached as usual.
+ */
+export class TapcompareRouter implements IRouter<AlphaRouterConfig> {
+  constructor(
+    private readonly router: IRouter<AlphaRouterConfig>,
+    private readonly routeCachingProvider: DynamoRouteCachingProvider,
+    private readonly chainId: ChainId
+  ) {}
+
+  public async route(
+    amount: CurrencyAmount<Currency>,
+    quoteCurrency: Currency,
+    tradeType: TradeType,
+    swapOptions?: SwapOptions,
+    partialRoutingConfig: Partial<AlphaRouterConfig> = {}
+  ): Promise<SwapRoute | null> {
+    const cachedRoutesBucket =
+      partialRoutingConfig.useCachedRoutes !== false && partialRoutingConfig.overwriteCacheMode === undefined
+        ? this.routeCachingProvider.getCachedRoutesBucket(this.chainId, amount, quoteCurrency, tradeType)
+        : undefined
+
+    if (!cachedRoutesBucket || cachedRoutesBucket.bucket.cacheMode !== CacheMode.Tapcompare) {
+      return this.router.route(amount, quoteCurrency, tradeType, swapOptions, partialRoutingConfig)
+    }
+
+    const freshRoutingConfig = { ...partialRoutingConfig, useCachedRoutes: false }
+    if (Math.random() >= cachedRoutesBucket.bucket.tapcompareSampleRate) {
+      return this.router.route(amount, quoteCurrency, tradeType, swapOptions, freshRoutingConfig)
+    }
+
+    const [freshSwapRoute, cachedSwapRoute] = await Promise.all([
+      this.router.route(amount, quoteCurrency, tradeType, swapOptions, freshRoutingConfig),
+      // The cached route is only compared, so it is neither simulated nor written back to the cache.
+      this.router
+        .route(amount, quoteCurrency, tradeType, undefined, {
+          ...partialRoutingConfig,
+          overwriteCacheMode: CacheMode.Livemode,
+          writeToCachedRoutes: false,
+        })
+        .catch((error) => {
+          log.warn({ error }, `[TapcompareRouter] Failed to quote the cached route`)
+          return null
+        }),
+    ])
+
+    if (freshSwapRoute && cachedSwapRoute?.hitsCachedRoute) {
+      this.recordComparison(freshSwapRoute, cachedSwapRoute, tradeType, cachedRoutesBucket)
+    } else if (freshSwapRoute) {
+      metric.putMetric('TapcompareCacheMiss', 1, MetricLoggerUnit.Count)
+    }
+
+    return freshSwapRoute
+  }
+
+  private recordComparison(
+    freshSwapRoute: SwapRoute,
+    cachedSwapRoute: SwapRoute,
+    tradeType: TradeType,
+    { strategy, bucket }: { strategy: CachedRoutesStrategy; bucket: CachedRoutesBucket }
+  ): void {
+    const { quoteDeltaBips, gasUsedDelta, sameRoutes } = compareSwapRoutes(freshSwapRoute, cachedSwapRoute, tradeType)
+    const putMetric = (name: string, value: number, unit: MetricLoggerUnit) => {
+      metric.putMetric(name, value, unit)
+      metric.putMetric(tapcompareMetricName(name, strategy, bucket.bucket), value, unit)
+    }
+
+    if (quoteDeltaBips !== undefined) {
+      putMetric(TAPCOMPARE_QUOTE_DELTA_BIPS, quoteDeltaBips, MetricLoggerUnit.None)
+    }
+    putMetric(TAPCOMPARE_GAS_USED_DELTA, gasUsedDelta, MetricLoggerUnit.None)
+    putMetric(sameRoutes ? TAPCOMPARE_SAME_ROUTES : TAPCOMPARE_DIFFERENT_ROUTES, 1, MetricLoggerUnit.Count)
+
+    log.info(
+      {
+        pair: strategy.readablePairTradeTypeChainId(),
+        bucket: bucket.bucket,
+        quoteDeltaBips,
+        gasUsedDelta,
+        sameRoutes,
+        blockNumber: freshSwapRoute.blockNumber.toString(),
+        cachedBlockNumber: cachedSwapRoute.blockNumber.toString(),
+      },
+      `[TapcompareRouter] Compared the cached route with the fresh route`
+    )
+  }
+}
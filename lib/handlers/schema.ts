@@ -1,61 +1,134 @@
 import Joi from '@hapi/joi'
-import { MethodParameters } from '@uniswap/smart-order-router'
-import { RoutingApiSimulationStatus } from './quote/util/simulation'
+import { HookPermission } from './router-entities/hooks-policy/hook-permissions'
+import { HookClassification } from './router-entities/hooks-policy/hooks-policy-provider'
 
-export type TokenInRoute = {
-  address: string
-  chainId: number
-  symbol: string
-  decimals: string
-  buyFeeBps?: string
-  sellFeeBps?: string
-}
+// The types are declared apart from their schemas, so that the client can use them without the handlers.
+export * from './quote-response'
 
-export type SupportedPoolInRoute = V2PoolInRoute | V3PoolInRoute | V4PoolInRoute
+// The pools are not validated on responses, these schemas describe them in the OpenAPI document.
+export const TokenInRouteSchemaJoi = Joi.object().keys({
+  address: Joi.string().required(),
+  chainId: Joi.number().required(),
+  symbol: Joi.string().required(),
+  decimals: Joi.string().required(),
+  buyFeeBps: Joi.string().optional(),
+  sellFeeBps: Joi.string().optional(),
+})
+
+export const V4PoolInRouteSchemaJoi = Joi.object().keys({
+  type: Joi.string().valid('v4-pool').required(),
+  address: Joi.string().required(),
+  tokenIn: TokenInRouteSchemaJoi.required(),
+  tokenOut: TokenInRouteSchemaJoi.required(),
+  sqrtRatioX96: Joi.string().required(),
+  liquidity: Joi.string().required(),
+  tickCurrent: Joi.string().required(),
+  fee: Joi.string().required(),
+  tickSpacing: Joi.string().required(),
+  hooks: Joi.string().required(),
+  hooksPermissions: Joi.array()
+    .items(Joi.string().valid(...Object.values(HookPermission)))
+    .optional(),
+  hooksClassification: Joi.string()
+    .valid(...Object.values(HookClassification))
+    .optional(),
+  amountIn: Joi.string().optional(),
+  amountOut: Joi.string().optional(),
+})
+
+export const V3PoolInRouteSchemaJoi = Joi.object().keys({
+  type: Joi.string().valid('v3-pool').required(),
+  address: Joi.string().required(),
+  tokenIn: TokenInRouteSchemaJoi.required(),
+  tokenOut: TokenInRouteSchemaJoi.required(),
+  sqrtRatioX96: Joi.string().required(),
+  liquidity: Joi.string().required(),
+  tickCurrent: Joi.string().required(),
+  fee: Joi.string().required(),
+  amountIn: Joi.string().optional(),
+  amountOut: Joi.string().optional(),
+})
+
+const V2ReserveSchemaJoi = Joi.object().keys({
+  token: TokenInRouteSchemaJoi.required(),
+  quotient: Joi.string().required(),
+})
 
-export type V4PoolInRoute = {
-  type: 'v4-pool'
-  address: string
-  tokenIn: TokenInRoute
-  tokenOut: TokenInRoute
-  sqrtRatioX96: string
-  liquidity: string
-  tickCurrent: string
-  fee: string
-  tickSpacing: string
-  hooks: string
-  amountIn?: string
-  amountOut?: string
-}
+export const V2PoolInRouteSchemaJoi = Joi.object().keys({
+  type: Joi.string().valid('v2-pool').required(),
+  address: Joi.string().required(),
+  tokenIn: TokenInRouteSchemaJoi.required(),
+  tokenOut: TokenInRouteSchemaJoi.required(),
+  reserve0: V2ReserveSchemaJoi.required(),
+  reserve1: V2ReserveSchemaJoi.required(),
+  amountIn: Joi.string().optional(),
+  amountOut: Joi.string().optional(),
+})
 
-export type V3PoolInRoute = {
-  type: 'v3-pool'
-  address: string
-  tokenIn: TokenInRoute
-  tokenOut: TokenInRoute
-  sqrtRatioX96: string
-  liquidity: string
-  tickCurrent: string
-  fee: string
-  amountIn?: string
-  amountOut?: string
-}
+// Routes are passed through as is, the meta points the OpenAPI document at the pool schemas above.
+const RouteSchemaJoi = Joi.array().items(Joi.any()).meta({ openApiRef: 'Route' })
 
-export type V2Reserve = {
-  token: TokenInRoute
-  quotient: string
-}
+export const QuoteOutputSchemaJoi = Joi.object().keys({
+  recipient: Joi.string().required(),
+  amount: Joi.string().required(),
+  amountDecimals: Joi.string().required(),
+})
 
-export type V2PoolInRoute = {
-  type: 'v2-pool'
-  address: string
-  tokenIn: TokenInRoute
-  tokenOut: TokenInRoute
-  reserve0: V2Reserve
-  reserve1: V2Reserve
-  amountIn?: string
-  amountOut?: string
-}
+export const ExplainPoolSchemaJoi = Joi.object().keys({
+  address: Joi.string().required(),
+  token0: Joi.string().required(),
+  token1: Joi.string().required(),
+  fee: Joi.number().optional(),
+  tickSpacing: Joi.number().optional(),
+  hooks: Joi.string().optional(),
+  liquidity: Joi.string().optional(),
+  reserve0: Joi.string().optional(),
+  reserve1: Joi.string().optional(),
+})
+
+export const ExplainAlternativeSchemaJoi = Joi.object().keys({
+  description: Joi.string().required(),
+  quote: Joi.string().required(),
+  quoteDecimals: Joi.string().required(),
+  quoteGasAdjusted: Joi.string().required(),
+  quoteGasAdjustedDecimals: Joi.string().required(),
+  gasUseEstimate: Joi.string().required(),
+  routeString: Joi.string().required(),
+})
+
+export const QuoteExplanationSchemaJoi = Joi.object().keys({
+  candidatePools: Joi.object().pattern(Joi.string(), Joi.array().items(ExplainPoolSchemaJoi)).required(),
+  alternatives: Joi.array().items(ExplainAlternativeSchemaJoi).required(),
+  routingConfig: Joi.object().unknown().required(),
+  cachedRoutes: Joi.object()
+    .keys({
+      enabled: Joi.boolean().required(),
+      optimistic: Joi.boolean().required(),
+      hit: Joi.boolean().required(),
+    })
+    .required(),
+})
+
+const MethodParametersSchemaJoi = Joi.object({
+  calldata: Joi.string().required(),
+  value: Joi.string().required(),
+  to: Joi.string().required(),
+})
+
+export const QuoteLegSchemaJoi = Joi.object().keys({
+  type: Joi.string().valid('swap', 'bridge').required(),
+  chainId: Joi.number().required(),
+  destinationChainId: Joi.number().optional(),
+  tokenIn: Joi.string().required(),
+  tokenOut: Joi.string().required(),
+  amountIn: Joi.string().required(),
+  amountOut: Joi.string().required(),
+  route: RouteSchemaJoi.optional(),
+  routeString: Joi.string().optional(),
+  methodParameters: MethodParametersSchemaJoi.optional(),
+  bridge: Joi.string().optional(),
+  estimatedLatencySeconds: Joi.number().required(),
+})
 
 export const QuoteResponseSchemaJoi = Joi.object().keys({
   quoteId: Joi.string().required(),
@@ -77,48 +150,19 @@ export const QuoteResponseSchemaJoi = Joi.object().keys({
   simulationStatus: Joi.string().required(),
   gasPriceWei: Joi.string().required(),
   blockNumber: Joi.string().required(),
-  route: Joi.array().items(Joi.any()).required(),
+  route: RouteSchemaJoi.required(),
   routeString: Joi.string().required(),
-  methodParameters: Joi.object({
-    calldata: Joi.string().required(),
-    value: Joi.string().required(),
-    to: Joi.string().required(),
-  }).optional(),
+  methodParameters: MethodParametersSchemaJoi.optional(),
   hitsCachedRoutes: Joi.boolean().optional(),
   portionBips: Joi.number().optional(),
   portionRecipient: Joi.string().optional(),
   portionAmount: Joi.string().optional(),
   portionAmountDecimals: Joi.string().optional(),
   priceImpact: Joi.string().optional(),
+  requestedAmount: Joi.string().optional(),
+  requestedAmountDecimals: Joi.string().optional(),
+  outputs: Joi.array().items(QuoteOutputSchemaJoi).optional(),
+  explain: QuoteExplanationSchemaJoi.optional(),
+  historical: Joi.boolean().optional(),
+  legs: Joi.array().items(QuoteLegSchemaJoi).optional(),
 })
-
-export type QuoteResponse = {
-  quoteId: string
-  amount: string
-  amountDecimals: string
-  quote: string
-  quoteDecimals: string
-  quoteGasAdjusted: string
-  quoteGasAdjustedDecimals: string
-  quoteGasAndPortionAdjusted?: string
-  quoteGasAndPortionAdjustedDecimals?: string
-  gasUseEstimate: string
-  gasUseEstimateQuote: string
-  gasUseEstimateQuoteDecimals: string
-  gasUseEstimateGasToken?: string
-  gasUseEstimateGasTokenDecimals?: string
-  gasUseEstimateUSD: string
-  simulationError?: boolean
-  simulationStatus: RoutingApiSimulationStatus
-  gasPriceWei: string
-  blockNumber: string
-  route: Array<SupportedPoolInRoute[]>
-  routeString: string
-  methodParameters?: MethodParameters
-  hitsCachedRoutes?: boolean
-  portionBips?: number
-  portionRecipient?: string
-  portionAmount?: string
-  portionAmountDecimals?: string
-  priceImpact?: string
-}
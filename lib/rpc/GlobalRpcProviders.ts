@@ -8,17 +8,39 @@ import {
   SingleJsonRpcProviderConfig,
   UniJsonRpcProviderConfig,
 } from './config'
-import { ProdConfig, ProdConfigJoi } from './ProdConfig'
+import { ChainConfig, ProdConfig, ProdConfigJoi } from './ProdConfig'
 import { chainIdToNetworkName, generateProviderUrl } from './utils'
 import PROD_CONFIG from '../config/rpcProviderProdConfig.json'
+import { ProdConfigSource } from './ProdConfigSource'
+import { metric, MetricLoggerUnit } from '@uniswap/smart-order-router'
+import { cloneDeep, isEmpty, isEqual } from 'lodash'
+
+const DEFAULT_PROD_CONFIG_POLL_INTERVAL_IN_S = 300
 
 export class GlobalRpcProviders {
   private static SINGLE_RPC_PROVIDERS: Map<ChainId, SingleJsonRpcProvider[]> | null = null
 
   private static UNI_RPC_PROVIDERS: Map<ChainId, UniJsonRpcProvider> | null = null
 
+  // The useMultiProviderProb each chain was last rolled with, and whether it uses multiple providers since.
+  private static MULTI_PROVIDER_ROLLS: Map<ChainId, { prob: number; enabled: boolean }> = new Map()
+
+  // The config the providers were last built from, and the settings they were built with.
+  private static APPLIED_PROD_CONFIG: object | null = null
+  private static APPLIED_SETTINGS: {
+    log: Logger
+    uniConfig: UniJsonRpcProviderConfig
+    singleConfig: SingleJsonRpcProviderConfig
+  } | null = null
+
+  private static PROD_CONFIG_SOURCE: ProdConfigSource | null = null
+  private static PROD_CONFIG_POLL_INTERVAL_IN_S: number = DEFAULT_PROD_CONFIG_POLL_INTERVAL_IN_S
+  private static pollingProdConfig: boolean = false
+  private static lastProdConfigPollTimestampInMs: number = 0
+
   private static validateProdConfig(config?: object): ProdConfig {
-    const prodConfigInput = config !== undefined ? config : PROD_CONFIG
+    // Copied, since the provider URLs are resolved in place.
+    const prodConfigInput = cloneDeep(config !== undefined ? config : PROD_CONFIG)
     const validation = ProdConfigJoi.validate(prodConfigInput)
     if (validation.error) {
       throw new Error(
@@ -27,9 +49,24 @@ export class GlobalRpcProviders {
     }
     const prodConfig: ProdConfig = validation.value as ProdConfig
     for (let chainConfig of prodConfig) {
+      if (chainConfig.useMultiProviderProb > 0 && isEmpty(chainConfig.providerUrls)) {
+        throw new Error(`Chain ${chainConfig.chainId} can use multiple providers but has no providerUrls`)
+      }
       if (!chainConfig.providerUrls) {
         continue
       }
+      if (
+        chainConfig.providerInitialWeights !== undefined &&
+        chainConfig.providerInitialWeights.length !== chainConfig.providerUrls.length
+      ) {
+        throw new Error(`providerInitialWeights of chain ${chainConfig.chainId} don't match its providerUrls`)
+      }
+      if (chainConfig.providerNames?.length !== chainConfig.providerUrls.length) {
+        throw new Error(`providerNames of chain ${chainConfig.chainId} don't match its providerUrls`)
+      }
+      if (new Set(chainConfig.providerUrls).size !== chainConfig.providerUrls.length) {
+        throw new Error(`providerUrls of chain ${chainConfig.chainId} aren't unique`)
+      }
       for (let i = 0; i < chainConfig.providerUrls!.length; i++) {
         const urlEnvVar = chainConfig.providerUrls[i]
         if (process.env[urlEnvVar] === undefined) {
@@ -41,20 +78,37 @@ export class GlobalRpcProviders {
     return prodConfig
   }
 
-  private static initGlobalSingleRpcProviders(
+  // Builds the providers of the chains using multiple providers. Providers of the previous map with the same URL
+  // are kept as they are, so that they keep their health states. The rolls of the chains are set in multiProviderRolls.
+  private static buildSingleRpcProviders(
     log: Logger,
     prodConfig: ProdConfig,
-    singleConfig: SingleJsonRpcProviderConfig
-  ) {
-    GlobalRpcProviders.SINGLE_RPC_PROVIDERS = new Map()
+    singleConfig: SingleJsonRpcProviderConfig,
+    previousProviders: Map<ChainId, SingleJsonRpcProvider[]> | null,
+    multiProviderRolls: Map<ChainId, { prob: number; enabled: boolean }>
+  ): Map<ChainId, SingleJsonRpcProvider[]> {
+    const singleRpcProviders = new Map<ChainId, SingleJsonRpcProvider[]>()
     for (const chainConfig of prodConfig) {
       const chainId = chainConfig.chainId as ChainId
-      if (Math.random() < chainConfig.useMultiProviderProb) {
+      // Chains are only rolled again if their useMultiProviderProb changed.
+      const previousRoll = GlobalRpcProviders.MULTI_PROVIDER_ROLLS.get(chainId)
+      const enabled =
+        previousProviders !== null && previousRoll?.prob === chainConfig.useMultiProviderProb
+          ? previousRoll.enabled
+          : Math.random() < chainConfig.useMultiProviderProb
+      multiProviderRolls.set(chainId, { prob: chainConfig.useMultiProviderProb, enabled })
+      if (enabled) {
         let providers: SingleJsonRpcProvider[] = []
+        const previousChainProviders = previousProviders?.get(chainId) ?? []
 
         for (let i = 0; i < chainConfig.providerUrls!.length; i++) {
           // For unirpc provider, pass the service id in the header.
           const providerUrl = chainConfig.providerUrls![i]
+          const previousProvider = previousChainProviders.find((provider) => provider.url === providerUrl)
+          if (previousProvider !== undefined) {
+            providers.push(previousProvider)
+            continue
+          }
           const headers =
             chainConfig.providerNames![i] === 'UNIRPC'
               ? {
@@ -74,34 +128,69 @@ export class GlobalRpcProviders {
             )
           )
         }
-        GlobalRpcProviders.SINGLE_RPC_PROVIDERS.set(chainId, providers)
+        singleRpcProviders.set(chainId, providers)
       }
     }
+    return singleRpcProviders
   }
 
-  private static initGlobalUniRpcProviders(
-    log: Logger,
-    prodConfig: ProdConfig,
+  // Applies the overrides of the chain's config.
+  private static chainUniConfig(
     uniConfig: UniJsonRpcProviderConfig,
-    singleConfig: SingleJsonRpcProviderConfig
-  ) {
-    if (GlobalRpcProviders.SINGLE_RPC_PROVIDERS === null) {
-      GlobalRpcProviders.initGlobalSingleRpcProviders(log, prodConfig, singleConfig)
+    chainConfig: ChainConfig
+  ): UniJsonRpcProviderConfig {
+    return {
+      ...uniConfig,
+      PROVIDER_SELECTION_MODE: chainConfig.providerSelectionMode ?? uniConfig.PROVIDER_SELECTION_MODE,
+      ENABLE_HEDGING: chainConfig.enableHedging ?? uniConfig.ENABLE_HEDGING,
+      HEDGING_LATENCY_PERCENTILE: chainConfig.hedgingLatencyPercentile ?? uniConfig.HEDGING_LATENCY_PERCENTILE,
+      ENABLE_BLOCK_CONSISTENCY: chainConfig.enableBlockConsistency ?? uniConfig.ENABLE_BLOCK_CONSISTENCY,
+      MAX_BLOCK_LAG: chainConfig.maxBlockLag ?? uniConfig.MAX_BLOCK_LAG,
     }
+  }
 
-    GlobalRpcProviders.UNI_RPC_PROVIDERS = new Map()
+  // Builds the UniJsonRpcProvider of the chains using multiple providers. Those of the previous map are reconfigured
+  // rather than replaced, since dependencies built at cold start hold on to them. They are only reconfigured by the
+  // returned commit, which doesn't throw, so that a config failing for any chain leaves all of them as they were.
+  private static buildUniRpcProviders(
+    log: Logger,
+    prodConfig: ProdConfig,
+    uniConfig: UniJsonRpcProviderConfig,
+    singleRpcProviders: Map<ChainId, SingleJsonRpcProvider[]>,
+    previousProviders: Map<ChainId, UniJsonRpcProvider> | null
+  ): { uniRpcProviders: Map<ChainId, UniJsonRpcProvider>; commit: () => void } {
+    const uniRpcProviders = new Map<ChainId, UniJsonRpcProvider>()
+    const reconfigurations: (() => void)[] = []
     for (const chainConfig of prodConfig) {
       const chainId = chainConfig.chainId as ChainId
-      if (!GlobalRpcProviders.SINGLE_RPC_PROVIDERS!.has(chainId)) {
+      if (!singleRpcProviders.has(chainId)) {
         continue
       }
-      GlobalRpcProviders.UNI_RPC_PROVIDERS.set(
+      const providers = singleRpcProviders.get(chainId)!
+      const previousProvider = previousProviders?.get(chainId)
+      if (previousProvider !== undefined) {
+        // Throws on the same errors as reconfigure.
+        UniJsonRpcProvider.buildUrlWeight(providers, chainConfig.providerInitialWeights)
+        reconfigurations.push(() =>
+          previousProvider.reconfigure(
+            providers,
+            GlobalRpcProviders.chainUniConfig(uniConfig, chainConfig),
+            chainConfig.latencyEvaluationSampleProb!,
+            chainConfig.healthCheckSampleProb!,
+            chainConfig.providerInitialWeights,
+            true
+          )
+        )
+        uniRpcProviders.set(chainId, previousProvider)
+        continue
+      }
+      uniRpcProviders.set(
         chainId,
         new UniJsonRpcProvider(
           chainId,
-          GlobalRpcProviders.SINGLE_RPC_PROVIDERS!.get(chainId)!,
+          providers,
           log,
-          uniConfig,
+          GlobalRpcProviders.chainUniConfig(uniConfig, chainConfig),
           chainConfig.latencyEvaluationSampleProb!,
           chainConfig.healthCheckSampleProb!,
           chainConfig.providerInitialWeights,
@@ -109,9 +198,143 @@ export class GlobalRpcProviders {
         )
       )
     }
+    return { uniRpcProviders, commit: () => reconfigurations.forEach((reconfigure) => reconfigure()) }
+  }
+
+  private static initGlobalSingleRpcProviders(
+    log: Logger,
+    prodConfig: ProdConfig,
+    singleConfig: SingleJsonRpcProviderConfig
+  ) {
+    GlobalRpcProviders.MULTI_PROVIDER_ROLLS = new Map()
+    GlobalRpcProviders.SINGLE_RPC_PROVIDERS = GlobalRpcProviders.buildSingleRpcProviders(
+      log,
+      prodConfig,
+      singleConfig,
+      null,
+      GlobalRpcProviders.MULTI_PROVIDER_ROLLS
+    )
+  }
+
+  private static initGlobalUniRpcProviders(
+    log: Logger,
+    prodConfig: ProdConfig,
+    uniConfig: UniJsonRpcProviderConfig,
+    singleConfig: SingleJsonRpcProviderConfig
+  ) {
+    if (GlobalRpcProviders.SINGLE_RPC_PROVIDERS === null) {
+      GlobalRpcProviders.initGlobalSingleRpcProviders(log, prodConfig, singleConfig)
+    }
+
+    GlobalRpcProviders.UNI_RPC_PROVIDERS = GlobalRpcProviders.buildUniRpcProviders(
+      log,
+      prodConfig,
+      uniConfig,
+      GlobalRpcProviders.SINGLE_RPC_PROVIDERS!,
+      null
+    ).uniRpcProviders
     return GlobalRpcProviders.UNI_RPC_PROVIDERS
   }
 
+  /**
+   * Polls the ProdConfig from the source, applying it to the providers initialized from the bundled config. Polls
+   * happen on the calls of getGlobalUniRpcProviders, once every poll interval.
+   *
+   * Chains whose providers are added or removed by a reloaded config only change for dependencies built afterwards,
+   * those built at cold start keep the provider they were given.
+   *
+   * @param source
+   * @param pollIntervalInS
+   */
+  static pollProdConfigFrom(
+    source: ProdConfigSource,
+    pollIntervalInS: number = DEFAULT_PROD_CONFIG_POLL_INTERVAL_IN_S
+  ) {
+    GlobalRpcProviders.PROD_CONFIG_SOURCE = source
+    GlobalRpcProviders.PROD_CONFIG_POLL_INTERVAL_IN_S = pollIntervalInS
+    GlobalRpcProviders.lastProdConfigPollTimestampInMs = 0
+  }
+
+  /**
+   * Reads the ProdConfig from the source, and swaps the providers if it changed. Invalid configs are rejected, keeping
+   * the current providers.
+   *
+   * @returns whether a new config was applied.
+   */
+  static async reloadProdConfig(): Promise<boolean> {
+    const source = GlobalRpcProviders.PROD_CONFIG_SOURCE
+    const settings = GlobalRpcProviders.APPLIED_SETTINGS
+    if (source === null || settings === null || GlobalRpcProviders.UNI_RPC_PROVIDERS === null) {
+      return false
+    }
+    const { log, uniConfig, singleConfig } = settings
+
+    let prodConfigInput: object
+    let multiProviderRolls: Map<ChainId, { prob: number; enabled: boolean }>
+    let singleRpcProviders: Map<ChainId, SingleJsonRpcProvider[]>
+    let uniRpcProviders: Map<ChainId, UniJsonRpcProvider>
+    let commit: () => void
+    try {
+      prodConfigInput = await source.read()
+      if (isEqual(prodConfigInput, GlobalRpcProviders.APPLIED_PROD_CONFIG)) {
+        return false
+      }
+      const prodConfig = GlobalRpcProviders.validateProdConfig(prodConfigInput)
+      // Nothing in use is changed until the new providers are all built.
+      multiProviderRolls = new Map()
+      singleRpcProviders = GlobalRpcProviders.buildSingleRpcProviders(
+        log,
+        prodConfig,
+        singleConfig,
+        GlobalRpcProviders.SINGLE_RPC_PROVIDERS,
+        multiProviderRolls
+      )
+      ;({ uniRpcProviders, commit } = GlobalRpcProviders.buildUniRpcProviders(
+        log,
+        prodConfig,
+        uniConfig,
+        singleRpcProviders,
+        GlobalRpcProviders.UNI_RPC_PROVIDERS
+      ))
+    } catch (error: any) {
+      log.error({ error }, `Rejected ProdConfig from ${source.name}`)
+      metric.putMetric('RPC_GATEWAY_PROD_CONFIG_REJECTED', 1, MetricLoggerUnit.Count)
+      return false
+    }
+
+    // From here on everything is synchronous, so that calls see either the previous or the new providers.
+    commit()
+    GlobalRpcProviders.MULTI_PROVIDER_ROLLS = multiProviderRolls
+    GlobalRpcProviders.SINGLE_RPC_PROVIDERS = singleRpcProviders
+    GlobalRpcProviders.UNI_RPC_PROVIDERS = uniRpcProviders
+    GlobalRpcProviders.APPLIED_PROD_CONFIG = prodConfigInput
+    log.info(`Applied ProdConfig from ${source.name}`)
+    metric.putMetric('RPC_GATEWAY_PROD_CONFIG_RELOADED', 1, MetricLoggerUnit.Count)
+    return true
+  }
+
+  private static pollProdConfigIfNeeded() {
+    if (
+      GlobalRpcProviders.PROD_CONFIG_SOURCE === null ||
+      GlobalRpcProviders.pollingProdConfig ||
+      Date.now() - GlobalRpcProviders.lastProdConfigPollTimestampInMs <
+        1000 * GlobalRpcProviders.PROD_CONFIG_POLL_INTERVAL_IN_S
+    ) {
+      return
+    }
+    GlobalRpcProviders.pollingProdConfig = true
+    GlobalRpcProviders.lastProdConfigPollTimestampInMs = Date.now()
+    // Fire and forget. Rejected configs are handled by reloadProdConfig, so only unexpected errors are caught here.
+    GlobalRpcProviders.reloadProdConfig()
+      .catch((error: any) => {
+        GlobalRpcProviders.APPLIED_SETTINGS?.log.error({ error }, 'Failed to reload ProdConfig')
+        metric.putMetric('RPC_GATEWAY_PROD_CONFIG_REJECTED', 1, MetricLoggerUnit.Count)
+      })
+      .finally(() => {
+        GlobalRpcProviders.pollingProdConfig = false
+      })
+  }
+
   static getGlobalSingleRpcProviders(
     log: Logger,
     singleConfig: SingleJsonRpcProviderConfig = DEFAULT_SINGLE_PROVIDER_CONFIG
@@ -130,8 +353,13 @@ export class GlobalRpcProviders {
     prodConfigJson?: any
   ): Map<ChainId, UniJsonRpcProvider> {
     const prodConfig = GlobalRpcProviders.validateProdConfig(prodConfigJson)
+    // Later calls return the providers of the first call, or those of a config polled since, see pollProdConfigFrom.
     if (GlobalRpcProviders.UNI_RPC_PROVIDERS === null) {
       GlobalRpcProviders.initGlobalUniRpcProviders(log, prodConfig, uniConfig, singleConfig)
+      GlobalRpcProviders.APPLIED_PROD_CONFIG = prodConfigJson ?? PROD_CONFIG
+      GlobalRpcProviders.APPLIED_SETTINGS = { log, uniConfig, singleConfig }
+    } else {
+      GlobalRpcProviders.pollProdConfigIfNeeded()
     }
     return GlobalRpcProviders.UNI_RPC_PROVIDERS!
   }
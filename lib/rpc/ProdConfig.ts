@@ -1,12 +1,21 @@
 import Joi from '@hapi/joi'
 import { ChainId } from '@uniswap/sdk-core'
 import PROD_CONFIG from '../config/rpcProviderProdConfig.json'
+import { ProviderSelectionMode } from './config'
 
 export interface ChainConfig {
   chainId: number
   useMultiProviderProb: number
   sessionAllowProviderFallbackWhenUnhealthy?: boolean
   providerInitialWeights?: number[]
+  // Overrides UniJsonRpcProviderConfig.PROVIDER_SELECTION_MODE for the chain.
+  providerSelectionMode?: ProviderSelectionMode
+  // Override UniJsonRpcProviderConfig.ENABLE_HEDGING and HEDGING_LATENCY_PERCENTILE for the chain.
+  enableHedging?: boolean
+  hedgingLatencyPercentile?: number
+  // Override UniJsonRpcProviderConfig.ENABLE_BLOCK_CONSISTENCY and MAX_BLOCK_LAG for the chain.
+  enableBlockConsistency?: boolean
+  maxBlockLag?: number
   providerUrls?: string[]
   providerNames?: string[]
   dbSyncSampleProb?: number
@@ -23,6 +32,13 @@ export const ProdConfigJoi = Joi.array().items(
     useMultiProviderProb: Joi.number().required(),
     sessionAllowProviderFallbackWhenUnhealthy: Joi.boolean().optional(),
     providerInitialWeights: Joi.array().items(Joi.number()).optional(),
+    providerSelectionMode: Joi.string()
+      .valid(...Object.values(ProviderSelectionMode))
+      .optional(),
+    enableHedging: Joi.boolean().optional(),
+    hedgingLatencyPercentile: Joi.number().min(0.0).max(1.0).optional(),
+    enableBlockConsistency: Joi.boolean().optional(),
+    maxBlockLag: Joi.number().integer().min(0).optional(),
     providerUrls: Joi.array().items(Joi.string()).optional(),
     providerNames: Joi.array().items(Joi.string()).optional(),
     dbSyncSampleProb: Joi.number().min(0.0).max(1.0).optional().default(1.0),
@@ -0,0 +1,57 @@
+import { S3 } from 'aws-sdk'
+import { promises as fs } from 'fs'
+import PROD_CONFIG from '../config/rpcProviderProdConfig.json'
+
+// Where GlobalRpcProviders reads its ProdConfig from. The config is validated by GlobalRpcProviders, not by the source.
+export interface ProdConfigSource {
+  readonly name: string
+  read(): Promise<object>
+}
+
+// The config bundled with the lambda, which only changes with a deployment.
+export class BundledProdConfigSource implements ProdConfigSource {
+  readonly name = 'bundled'
+
+  async read(): Promise<object> {
+    return PROD_CONFIG
+  }
+}
+
+export class S3ProdConfigSource implements ProdConfigSource {
+  readonly name: string
+
+  constructor(private readonly bucket: string, private readonly key: string, private readonly s3: S3 = new S3()) {
+    this.name = `s3://${bucket}/${key}`
+  }
+
+  async read(): Promise<object> {
+    const { Body: body } = await this.s3.getObject({ Bucket: this.bucket, Key: this.key }).promise()
+    if (!body) {
+      throw new Error(`Empty ProdConfig object ${this.name}`)
+    }
+    return JSON.parse(body.toString('utf-8'))
+  }
+}
+
+// Mostly for tests and local runs.
+export class FileProdConfigSource implements ProdConfigSource {
+  readonly name: string
+
+  constructor(private readonly path: string) {
+    this.name = `file://${path}`
+  }
+
+  async read(): Promise<object> {
+    return JSON.parse(await fs.readFile(this.path, 'utf-8'))
+  }
+}
+
+// Reads the config from S3 if RPC_PROVIDER_PROD_CONFIG_BUCKET and RPC_PROVIDER_PROD_CONFIG_KEY are set,
+// otherwise from the bundled file.
+export function prodConfigSourceFromEnv(): ProdConfigSource {
+  const { RPC_PROVIDER_PROD_CONFIG_BUCKET, RPC_PROVIDER_PROD_CONFIG_KEY } = process.env
+  if (RPC_PROVIDER_PROD_CONFIG_BUCKET && RPC_PROVIDER_PROD_CONFIG_KEY) {
+    return new S3ProdConfigSource(RPC_PROVIDER_PROD_CONFIG_BUCKET, RPC_PROVIDER_PROD_CONFIG_KEY)
+  }
+  return new BundledProdConfigSource()
+}
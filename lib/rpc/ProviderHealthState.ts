@@ -3,8 +3,23 @@ export enum ProviderHealthiness {
   UNHEALTHY = 'UNHEALTHY',
 }
 
+// Groups of RPC methods whose health is tracked separately, as a provider can fail at eth_call while still serving
+// eth_blockNumber fine.
+export enum MethodGroup {
+  CALL = 'call',
+  // eth_estimateGas, and every other method not in a group of its own.
+  SEND = 'send',
+  BLOCK_NUMBER = 'blockNumber',
+  FEE_HISTORY = 'feeHistory',
+}
+
+// Groups whose failures make the whole provider unhealthy. Failures of the other groups only affect their own group.
+export const PROVIDER_WIDE_METHOD_GROUPS: MethodGroup[] = [MethodGroup.CALL, MethodGroup.BLOCK_NUMBER]
+
 export interface ProviderHealthState {
   healthiness: ProviderHealthiness
   ongoingAlarms: string[]
   version: number
+  // Healthiness of the method groups that had alarms of their own. A group is only healthy if the provider also is.
+  methodHealthiness?: { [group in MethodGroup]?: ProviderHealthiness }
 }
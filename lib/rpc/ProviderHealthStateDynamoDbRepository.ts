@@ -10,6 +10,10 @@ const UPDATE_EXPRESSION = `SET
   #ongoingAlarms = :ongoingAlarms,
   #version = :version`
 
+// Only set for states that carry per method group healthiness, so that writers unaware of it don't clear it.
+const METHOD_HEALTHINESS_UPDATE_EXPRESSION = `,
+  #methodHealthiness = :methodHealthiness`
+
 // Table column names
 const EXPRESSION_ATTRIBUTE_NAMES = {
   '#healthiness': 'healthiness',
@@ -17,6 +21,10 @@ const EXPRESSION_ATTRIBUTE_NAMES = {
   '#version': 'version',
 }
 
+const METHOD_HEALTHINESS_ATTRIBUTE_NAMES = {
+  '#methodHealthiness': 'methodHealthiness',
+}
+
 const CONDITION_EXPRESSION = '#version = :baseVersion'
 
 export class ProviderHealthStateDynamoDbRepository implements ProviderHealthStateRepository {
@@ -38,11 +46,15 @@ export class ProviderHealthStateDynamoDbRepository implements ProviderHealthStat
         this.log.debug(`No health state found for ${providerId}`)
         return null
       }
-      return {
+      const state: ProviderHealthState = {
         healthiness: item.healthiness,
         ongoingAlarms: item.ongoingAlarms,
         version: item.version,
       }
+      if (item.methodHealthiness !== undefined) {
+        state.methodHealthiness = item.methodHealthiness
+      }
+      return state
     } catch (error: any) {
       this.log.error(`Failed to read health state from DB: ${JSON.stringify(error)}`)
       throw error
@@ -57,6 +69,7 @@ export class ProviderHealthStateDynamoDbRepository implements ProviderHealthStat
         healthiness: state.healthiness,
         ongoingAlarms: state.ongoingAlarms,
         version: state.version,
+        ...(state.methodHealthiness !== undefined && { methodHealthiness: state.methodHealthiness }),
       },
     }
     await this.ddbClient.put(putParams).promise()
@@ -67,8 +80,14 @@ export class ProviderHealthStateDynamoDbRepository implements ProviderHealthStat
     const updateParams: DocumentClient.UpdateItemInput = {
       TableName: this.dbTableName,
       Key: { chainIdProviderName: providerId },
-      UpdateExpression: UPDATE_EXPRESSION,
-      ExpressionAttributeNames: EXPRESSION_ATTRIBUTE_NAMES,
+      UpdateExpression:
+        state.methodHealthiness === undefined
+          ? UPDATE_EXPRESSION
+          : UPDATE_EXPRESSION + METHOD_HEALTHINESS_UPDATE_EXPRESSION,
+      ExpressionAttributeNames:
+        state.methodHealthiness === undefined
+          ? EXPRESSION_ATTRIBUTE_NAMES
+          : { ...EXPRESSION_ATTRIBUTE_NAMES, ...METHOD_HEALTHINESS_ATTRIBUTE_NAMES },
       ExpressionAttributeValues: this.getExpressionAttributeValues(state),
       // Use conditional update in combination with increasing version number to detect concurrent write conflicts.
       // If write conflicts is detected, the later write will be dropped. But the invocation of this lambda will be
@@ -84,6 +103,9 @@ export class ProviderHealthStateDynamoDbRepository implements ProviderHealthStat
     attributes[':ongoingAlarms'] = state.ongoingAlarms
     attributes[':baseVersion'] = state.version - 1
     attributes[':version'] = state.version
+    if (state.methodHealthiness !== undefined) {
+      attributes[':methodHealthiness'] = state.methodHealthiness
+    }
     return attributes
   }
 }
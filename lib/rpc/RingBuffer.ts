@@ -0,0 +1,54 @@
+/**
+ * Keeps the latest items up to a capacity, oldest first. Once full, pushing an item overwrites the oldest one.
+ * Items are pushed and evicted in constant time.
+ */
+export class RingBuffer<T> {
+  private readonly items: (T | undefined)[]
+  private start: number = 0
+  private count: number = 0
+
+  constructor(private readonly capacity: number) {
+    if (capacity < 1) {
+      throw new Error(`RingBuffer capacity must be at least 1, got ${capacity}`)
+    }
+    this.items = new Array(capacity)
+  }
+
+  get length(): number {
+    return this.count
+  }
+
+  push(...items: T[]): void {
+    for (const item of items) {
+      this.items[(this.start + this.count) % this.capacity] = item
+      if (this.count < this.capacity) {
+        this.count++
+      } else {
+        this.start = (this.start + 1) % this.capacity
+      }
+    }
+  }
+
+  oldest(): T | undefined {
+    return this.count > 0 ? this.items[this.start] : undefined
+  }
+
+  shift(): T | undefined {
+    if (this.count === 0) {
+      return undefined
+    }
+    const item = this.items[this.start]
+    this.items[this.start] = undefined
+    this.start = (this.start + 1) % this.capacity
+    this.count--
+    return item
+  }
+
+  toArray(): T[] {
+    const items: T[] = []
+    for (let i = 0; i < this.count; i++) {
+      items.push(this.items[(this.start + i) % this.capacity]!)
+    }
+    return items
+  }
+}
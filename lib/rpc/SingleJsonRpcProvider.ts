@@ -15,13 +15,30 @@ import { deriveProviderName } from '../handlers/evm/provider/ProviderName'
 import Logger from 'bunyan'
 import { Network } from '@ethersproject/networks'
 import { getProviderId } from './utils'
-import { ProviderHealthiness } from './ProviderHealthState'
+import { MethodGroup, ProviderHealthiness } from './ProviderHealthState'
+import { RingBuffer } from './RingBuffer'
 
 export const GET_BLOCK_NUMBER_METHOD_NAME = 'getBlockNumber'
 export const CALL_METHOD_NAME = 'call'
 export const SEND_METHOD_NAME = 'send'
 export const MAJOR_METHOD_NAMES: string[] = [GET_BLOCK_NUMBER_METHOD_NAME, CALL_METHOD_NAME, SEND_METHOD_NAME]
 
+// The method group of a provider call, by the JSON-RPC method for send.
+export function getMethodGroup(methodName: string, args: any[] = []): MethodGroup {
+  switch (methodName === SEND_METHOD_NAME ? args[0] : methodName) {
+    case CALL_METHOD_NAME:
+    case 'eth_call':
+      return MethodGroup.CALL
+    case GET_BLOCK_NUMBER_METHOD_NAME:
+    case 'eth_blockNumber':
+      return MethodGroup.BLOCK_NUMBER
+    case 'eth_feeHistory':
+      return MethodGroup.FEE_HISTORY
+    default:
+      return MethodGroup.SEND
+  }
+}
+
 export enum CallType {
   NORMAL,
   // Extra call to check health against an unhealthy provider
@@ -33,17 +50,43 @@ export enum CallType {
 interface SingleCallPerf {
   callType: CallType
   methodName: string
+  methodGroup: MethodGroup
   succeed: boolean
   latencyInMs: number
   startTimestampInMs: number
 }
 
+export interface LatencyStats {
+  // Latency percentiles of the succeeded calls, 0 if there is none.
+  p50LatencyInMs: number
+  p95LatencyInMs: number
+  errorRate: number
+  sampleCount: number
+}
+
+interface MethodGroupHealth {
+  healthiness: ProviderHealthiness
+  score: number
+  lastScoreUpdateTimestampInMs: number
+}
+
+function percentile(sortedValues: number[], p: number): number {
+  if (sortedValues.length === 0) {
+    return 0
+  }
+  return sortedValues[Math.min(sortedValues.length - 1, Math.floor(p * sortedValues.length))]
+}
+
 export class SingleJsonRpcProvider extends StaticJsonRpcProvider {
   readonly url: string
   readonly providerName: string
   readonly providerId: string
 
   private healthiness: ProviderHealthiness = ProviderHealthiness.HEALTHY
+  // Healthiness of method groups synced from DB, on top of the provider's.
+  private methodHealthiness: { [group in MethodGroup]?: ProviderHealthiness } = {}
+  // Health scores of the method groups, from the calls served by this provider.
+  private methodGroupHealth: Map<MethodGroup, MethodGroupHealth> = new Map()
 
   private evaluatingHealthiness: boolean = false
   private lastHealthinessEvaluationTimestampInMs: number = 0
@@ -60,6 +103,10 @@ export class SingleJsonRpcProvider extends StaticJsonRpcProvider {
   private dbSyncSampleProb: number
   private lastDbSyncTimestampInMs: number = 0
 
+  // Performance of the calls within the latency history window, oldest first. Only the latest
+  // LATENCY_STAT_HISTORY_MAX_SAMPLES are kept, so that busy providers keep a bounded history.
+  private recentCallPerfs: RingBuffer<SingleCallPerf>
+
   constructor(
     network: Network,
     url: string,
@@ -81,6 +128,7 @@ export class SingleJsonRpcProvider extends StaticJsonRpcProvider {
     this.providerName = deriveProviderName(url)
     this.providerId = getProviderId(network.chainId, this.providerName)
     this.config = config
+    this.recentCallPerfs = new RingBuffer(config.LATENCY_STAT_HISTORY_MAX_SAMPLES)
     this.metricPrefix = `RPC_GATEWAY_${this.network.chainId}_${this.providerName}`
     this.enableDbSync = enableDbSync
     this.dbSyncSampleProb = dbSyncSampleProb
@@ -96,8 +144,71 @@ export class SingleJsonRpcProvider extends StaticJsonRpcProvider {
     }
   }
 
-  isHealthy() {
-    return this.healthiness === ProviderHealthiness.HEALTHY
+  // Without a method group, only tells whether the provider as a whole is healthy.
+  isHealthy(methodGroup?: MethodGroup) {
+    if (this.healthiness !== ProviderHealthiness.HEALTHY) {
+      return false
+    }
+    if (methodGroup === undefined) {
+      return true
+    }
+    if (this.methodHealthiness[methodGroup] === ProviderHealthiness.UNHEALTHY) {
+      return false
+    }
+    const health = this.methodGroupHealth.get(methodGroup)
+    if (health === undefined) {
+      return true
+    }
+    if (health.healthiness === ProviderHealthiness.UNHEALTHY) {
+      // An unhealthy group may not receive any call to recover with, so it also recovers as time passes.
+      this.updateMethodGroupHealthiness(methodGroup, health, this.recoveredScore(health, Date.now()))
+    }
+    return health.healthiness === ProviderHealthiness.HEALTHY
+  }
+
+  // Health score of the method group, recovered for the time waited since it was last updated.
+  private recoveredScore(health: MethodGroupHealth, timestampInMs: number): number {
+    const waitedInMs = Math.min(
+      timestampInMs - health.lastScoreUpdateTimestampInMs,
+      this.config.RECOVER_MAX_WAIT_TIME_TO_ACKNOWLEDGE_IN_MS
+    )
+    return Math.min(0, health.score + waitedInMs * this.config.RECOVER_SCORE_PER_MS)
+  }
+
+  private updateMethodGroupHealthiness(methodGroup: MethodGroup, health: MethodGroupHealth, score: number) {
+    if (
+      health.healthiness === ProviderHealthiness.HEALTHY &&
+      score < this.config.METHOD_GROUP_HEALTH_SCORE_FALLBACK_THRESHOLD
+    ) {
+      health.healthiness = ProviderHealthiness.UNHEALTHY
+    } else if (
+      health.healthiness === ProviderHealthiness.UNHEALTHY &&
+      score > this.config.HEALTH_SCORE_RECOVER_THRESHOLD
+    ) {
+      health.healthiness = ProviderHealthiness.HEALTHY
+    } else {
+      return
+    }
+    this.logMethodGroupHealthinessChanged(methodGroup, health.healthiness)
+    this.log.debug(`${this.providerId}: ${methodGroup} becomes ${health.healthiness} at score ${score}`)
+  }
+
+  private scoreMethodGroupHealth(perf: SingleCallPerf) {
+    let health = this.methodGroupHealth.get(perf.methodGroup)
+    if (health === undefined) {
+      health = { healthiness: ProviderHealthiness.HEALTHY, score: 0, lastScoreUpdateTimestampInMs: Date.now() }
+      this.methodGroupHealth.set(perf.methodGroup, health)
+    }
+    const timestampInMs = Date.now()
+    let score = this.recoveredScore(health, timestampInMs)
+    if (!perf.succeed) {
+      score += this.config.ERROR_PENALTY
+    } else if (perf.latencyInMs > this.config.MAX_LATENCY_ALLOWED_IN_MS) {
+      score += this.config.HIGH_LATENCY_PENALTY
+    }
+    health.score = score
+    health.lastScoreUpdateTimestampInMs = timestampInMs
+    this.updateMethodGroupHealthiness(perf.methodGroup, health, score)
   }
 
   hasEnoughWaitSinceLastLatencyEvaluation(waitTimeRequirementInMs: number): boolean {
@@ -137,7 +248,7 @@ export class SingleJsonRpcProvider extends StaticJsonRpcProvider {
   }
 
   private recordProviderCallError(perf: SingleCallPerf) {
-    this.logProviderCallFailureMetric(perf.methodName)
+    this.logProviderCallFailureMetric(perf.methodName, perf.methodGroup)
     this.log.error(`Failed at calling provider: ${this.url}: method: ${perf.methodName}`)
 
     if (perf.callType === CallType.HEALTH_CHECK) {
@@ -150,7 +261,7 @@ export class SingleJsonRpcProvider extends StaticJsonRpcProvider {
   }
 
   private recordProviderCallSuccess(perf: SingleCallPerf) {
-    this.logProviderCallSuccessMetric(perf.methodName)
+    this.logProviderCallSuccessMetric(perf.methodName, perf.methodGroup)
     this.logLatencyMetrics(perf.methodName, perf.latencyInMs, perf.callType)
     this.log.debug(`Succeeded at calling provider: ${this.url} method: ${perf.methodName}`)
 
@@ -166,6 +277,9 @@ export class SingleJsonRpcProvider extends StaticJsonRpcProvider {
   private checkLastCallPerformance(perf: SingleCallPerf) {
     const method = perf.methodName
     this.log.debug(`${this.providerId}: checkLastCallPerformance: method: ${method}`)
+    this.recentCallPerfs.push(perf)
+    this.evictCallPerfsOutOfLatencyWindow()
+    this.scoreMethodGroupHealth(perf)
     if (!perf.succeed) {
       this.recordProviderCallError(perf)
     } else {
@@ -173,6 +287,42 @@ export class SingleJsonRpcProvider extends StaticJsonRpcProvider {
     }
   }
 
+  private evictCallPerfsOutOfLatencyWindow() {
+    const windowStartTimestampInMs = Date.now() - 1000 * this.config.LATENCY_STAT_HISTORY_WINDOW_LENGTH_IN_S
+    while (
+      this.recentCallPerfs.length > 0 &&
+      this.recentCallPerfs.oldest()!.startTimestampInMs < windowStartTimestampInMs
+    ) {
+      this.recentCallPerfs.shift()
+    }
+  }
+
+  private sortedRecentLatencies(): number[] {
+    this.evictCallPerfsOutOfLatencyWindow()
+    return this.recentCallPerfs
+      .toArray()
+      .filter((perf) => perf.succeed)
+      .map((perf) => perf.latencyInMs)
+      .sort((a, b) => a - b)
+  }
+
+  // Latency percentiles and error rate of the calls within the latency history window.
+  getLatencyStats(): LatencyStats {
+    const latencies = this.sortedRecentLatencies()
+    const sampleCount = this.recentCallPerfs.length
+    return {
+      p50LatencyInMs: percentile(latencies, 0.5),
+      p95LatencyInMs: percentile(latencies, 0.95),
+      errorRate: sampleCount === 0 ? 0 : (sampleCount - latencies.length) / sampleCount,
+      sampleCount,
+    }
+  }
+
+  // Latency percentile of the succeeded calls within the latency history window, 0 if there is none.
+  getLatencyPercentileInMs(p: number): number {
+    return percentile(this.sortedRecentLatencies(), p)
+  }
+
   async evaluateHealthiness() {
     this.log.debug(`${this.url}: Evaluate healthiness for unhealthy provider...`)
     this.logCheckHealth()
@@ -197,14 +347,17 @@ export class SingleJsonRpcProvider extends StaticJsonRpcProvider {
     }
   }
 
-  logProviderCallSuccessMetric(methodName: string) {
+  // The method group metrics are the ones alarmed on, see RpcGatewayFallbackStack.
+  logProviderCallSuccessMetric(methodName: string, methodGroup: MethodGroup) {
     metric.putMetric(`${this.metricPrefix}_SUCCESS`, 1, MetricLoggerUnit.Count)
     metric.putMetric(`${this.metricPrefix}_${methodName}_SUCCESS`, 1, MetricLoggerUnit.Count)
+    metric.putMetric(`${this.metricPrefix}_MethodGroup_${methodGroup}_SUCCESS`, 1, MetricLoggerUnit.Count)
   }
 
-  logProviderCallFailureMetric(methodName: string) {
+  logProviderCallFailureMetric(methodName: string, methodGroup: MethodGroup) {
     metric.putMetric(`${this.metricPrefix}_FAILED`, 1, MetricLoggerUnit.Count)
     metric.putMetric(`${this.metricPrefix}_${methodName}_FAILED`, 1, MetricLoggerUnit.Count)
+    metric.putMetric(`${this.metricPrefix}_MethodGroup_${methodGroup}_FAILED`, 1, MetricLoggerUnit.Count)
   }
 
   logLatencyMetrics(methodName: string, latencyInMs: number, callType: CallType) {
@@ -227,6 +380,18 @@ export class SingleJsonRpcProvider extends StaticJsonRpcProvider {
     metric.putMetric(`${this.metricPrefix}_selected`, 1, MetricLoggerUnit.Count)
   }
 
+  logEffectiveWeight(weight: number) {
+    metric.putMetric(`${this.metricPrefix}_effective_weight`, weight, MetricLoggerUnit.None)
+  }
+
+  logHedgeWon(asHedge: boolean) {
+    metric.putMetric(`${this.metricPrefix}_hedge_won_as_${asHedge ? 'hedge' : 'primary'}`, 1, MetricLoggerUnit.Count)
+  }
+
+  logBlockLagRejection() {
+    metric.putMetric(`${this.metricPrefix}_block_lag_rejected`, 1, MetricLoggerUnit.Count)
+  }
+
   logDbSyncRequested() {
     metric.putMetric(`${this.metricPrefix}_db_sync_REQUESTED`, 1, MetricLoggerUnit.Count)
   }
@@ -247,6 +412,10 @@ export class SingleJsonRpcProvider extends StaticJsonRpcProvider {
     metric.putMetric(`${this.metricPrefix}_becomes_${newHealthiness}`, 1, MetricLoggerUnit.Count)
   }
 
+  logMethodGroupHealthinessChanged(methodGroup: MethodGroup, newHealthiness: ProviderHealthiness) {
+    metric.putMetric(`${this.metricPrefix}_${methodGroup}_becomes_${newHealthiness}`, 1, MetricLoggerUnit.Count)
+  }
+
   logSendMetrod(method: string) {
     metric.putMetric(`${this.metricPrefix}_send_${method}`, 1, MetricLoggerUnit.Count)
   }
@@ -281,6 +450,7 @@ export class SingleJsonRpcProvider extends StaticJsonRpcProvider {
     const perf: SingleCallPerf = {
       callType: callType,
       methodName: fnName,
+      methodGroup: getMethodGroup(fnName, args),
       succeed: true,
       latencyInMs: 0,
       startTimestampInMs: Date.now(),
@@ -332,6 +502,7 @@ export class SingleJsonRpcProvider extends StaticJsonRpcProvider {
           )
         }
         this.healthiness = healthStateFromDb.healthiness
+        this.methodHealthiness = healthStateFromDb.methodHealthiness ?? {}
         this.log.debug(`${this.providerId}: Synced with storage: new health state ${this.healthiness}`)
       }
       this.lastDbSyncTimestampInMs = Date.now()
@@ -367,6 +538,13 @@ export class SingleJsonRpcProvider extends StaticJsonRpcProvider {
     )
   }
 
+  override getBalance(
+    addressOrName: string | Promise<string>,
+    blockTag?: BlockTag | Promise<BlockTag>
+  ): Promise<BigNumber> {
+    return this.wrappedFunctionCall(CallType.NORMAL, 'getBalance', super.getBalance.bind(this), addressOrName, blockTag)
+  }
+
   override getCode(addressOrName: string | Promise<string>, blockTag?: BlockTag | Promise<BlockTag>): Promise<string> {
     return this.wrappedFunctionCall(CallType.NORMAL, 'getCode', super.getCode.bind(this), addressOrName, blockTag)
   }
@@ -1,6 +1,9 @@
 import {
   CALL_METHOD_NAME,
   CallType,
+  GET_BLOCK_NUMBER_METHOD_NAME,
+  getMethodGroup,
+  LatencyStats,
   MAJOR_METHOD_NAMES,
   SEND_METHOD_NAME,
   SingleJsonRpcProvider,
@@ -20,28 +23,61 @@ import { LRUCache } from 'lru-cache'
 import { BigNumber, BigNumberish } from '@ethersproject/bignumber'
 import { Deferrable } from '@ethersproject/properties'
 import Logger from 'bunyan'
-import { UniJsonRpcProviderConfig } from './config'
+import { ProviderSelectionMode, ProviderSpecialWeight, UniJsonRpcProviderConfig } from './config'
 import { EthFeeHistory } from '../util/eth_feeHistory'
 import { JsonRpcResponse } from 'hardhat/types'
+import { metric, MetricLoggerUnit } from '@uniswap/smart-order-router'
+import { MethodGroup } from './ProviderHealthState'
+
+// Read-only calls that can be hedged. Anything else, e.g. sendTransaction or eth_sendRawTransaction, never is.
+const HEDGEABLE_METHOD_NAMES: string[] = [GET_BLOCK_NUMBER_METHOD_NAME, CALL_METHOD_NAME]
+const HEDGEABLE_SEND_METHOD_NAMES: string[] = ['eth_blockNumber', 'eth_call', 'eth_estimateGas', 'eth_feeHistory']
+// Hedging budget saved during quiet periods, in calls.
+const MAX_HEDGING_BUDGET = 10
+// Position of the block tag in the arguments of the reads pinned to the session's block, see ENABLE_BLOCK_CONSISTENCY.
+const BLOCK_TAG_ARG_INDEX: Record<string, number> = {
+  call: 1,
+  getBalance: 1,
+  getCode: 1,
+  getStorageAt: 2,
+  getTransactionCount: 1,
+}
+const BLOCK_TAG_SEND_PARAM_INDEX: Record<string, number> = {
+  eth_call: 1,
+  eth_getBalance: 1,
+  eth_getCode: 1,
+  eth_getStorageAt: 2,
+  eth_getTransactionCount: 1,
+}
 
 export class UniJsonRpcProvider extends StaticJsonRpcProvider {
   readonly chainId: ChainId = ChainId.MAINNET
 
-  private readonly providers: SingleJsonRpcProvider[] = []
+  private providers: SingleJsonRpcProvider[] = []
 
   // If provided, we will use this weight to decide the probability of choosing
   // one of the healthy providers.
   // If not provided, we will only give non-zero weight to the first provider.
   private urlWeight: Record<string, number> = {}
+  // The weights providers are selected with. In adaptive mode, the positive weights above scaled by the providers'
+  // recent latencies and error rates, otherwise the same as above.
+  private effectiveUrlWeight: Record<string, number> = {}
+  private lastEffectiveWeightUpdateTimestampInMs: number = 0
+  // Number of calls hedging can still send. Each hedgeable call adds HEDGING_MAX_EXTRA_REQUEST_RATIO to it.
+  private hedgingBudget: number = 0
   private lastUsedProvider: SingleJsonRpcProvider | null = null
   private sessionCache: LRUCache<string, SingleJsonRpcProvider> = new LRUCache({ max: 1000 })
+  // The highest block number each session has seen, see ENABLE_BLOCK_CONSISTENCY.
+  private sessionHighestBlock: LRUCache<string, number> = new LRUCache({ max: 1000 })
+  // The block the latest reads of each session are pinned to, which its provider is known to have.
+  private sessionPinnedBlock: LRUCache<string, number> = new LRUCache({ max: 1000 })
 
-  private latencyEvaluationSampleProb: number
-  private healthCheckSampleProb: number
+  private latencyEvaluationSampleProb!: number
+  private healthCheckSampleProb!: number
 
   // If true, it's allowed to use a different provider if the preferred provider isn't healthy.
-  private readonly sessionAllowProviderFallbackWhenUnhealthy: boolean = true
-  private config: UniJsonRpcProviderConfig
+  private sessionAllowProviderFallbackWhenUnhealthy: boolean = true
+  private config!: UniJsonRpcProviderConfig
 
   private readonly log: Logger
 
@@ -68,6 +104,7 @@ export class UniJsonRpcProvider extends StaticJsonRpcProvider {
    *    NEVER(0) means this provider will never be able to be selected.
    *    AS_FALLBACK(-1) means this provider will only be able to be selected when no healthy provider has positive weights. In that case, the first healthy provider with -1 will be selected.
    *  Not providing this argument means using -1 for all weight values.
+   *  In ProviderSelectionMode.ADAPTIVE, positive weights are scaled by the providers' recent latencies and error rates.
    * @param sessionAllowProviderFallbackWhenUnhealthy
    */
   constructor(
@@ -83,10 +120,22 @@ export class UniJsonRpcProvider extends StaticJsonRpcProvider {
     // Dummy super constructor call is needed.
     super('dummy_url', { chainId, name: 'dummy_network' })
     this.log = log
-    this.config = config
-    this.latencyEvaluationSampleProb = latencyEvaluationSampleProb
-    this.healthCheckSampleProb = healthCheckSampleProb
+    this.chainId = chainId
+    this.reconfigure(
+      singleRpcProviders,
+      config,
+      latencyEvaluationSampleProb,
+      healthCheckSampleProb,
+      weights,
+      sessionAllowProviderFallbackWhenUnhealthy
+    )
+  }
 
+  /**
+   * Weights of the providers by URL, -1 for all of them without weights. Throws if the providers can't be used with
+   * these weights, so that callers can check them before reconfiguring anything.
+   */
+  static buildUrlWeight(singleRpcProviders: SingleJsonRpcProvider[], weights?: number[]): Record<string, number> {
     if (isEmpty(singleRpcProviders)) {
       throw new Error('Empty singlePrcProviders')
     }
@@ -95,29 +144,102 @@ export class UniJsonRpcProvider extends StaticJsonRpcProvider {
       throw new Error('weights, if provided, should have the same length as providers')
     }
 
-    this.chainId = chainId
-
-    this.providers = singleRpcProviders
-
-    for (let i = 0; i < this.providers.length; i++) {
-      const url = this.providers[i].url
+    const urlWeight: Record<string, number> = {}
+    for (let i = 0; i < singleRpcProviders.length; i++) {
+      const url = singleRpcProviders[i].url
+      if (url in urlWeight) {
+        throw new Error(`Provider ${url} is listed more than once`)
+      }
       if (weights != undefined) {
-        this.urlWeight[url] = weights[i]
+        urlWeight[url] = weights[i]
       } else {
-        this.urlWeight[url] = -1
+        urlWeight[url] = -1
       }
     }
+    return urlWeight
+  }
+
+  /**
+   * Swaps the providers and their settings, for instance after the ProdConfig has been reloaded. The arguments are the
+   * same as the constructor's. Providers that are kept should be the same instances, so that their health states are.
+   */
+  reconfigure(
+    singleRpcProviders: SingleJsonRpcProvider[],
+    config: UniJsonRpcProviderConfig,
+    latencyEvaluationSampleProb: number,
+    healthCheckSampleProb: number,
+    weights?: number[],
+    sessionAllowProviderFallbackWhenUnhealthy?: boolean
+  ) {
+    const urlWeight = UniJsonRpcProvider.buildUrlWeight(singleRpcProviders, weights)
+
+    // Everything is swapped at once, so that calls never see a mix of the old and new settings.
+    this.providers = singleRpcProviders
+    this.config = config
+    this.latencyEvaluationSampleProb = latencyEvaluationSampleProb
+    this.healthCheckSampleProb = healthCheckSampleProb
+    this.urlWeight = urlWeight
+    this.effectiveUrlWeight = { ...urlWeight }
+    this.lastEffectiveWeightUpdateTimestampInMs = 0
+    this.sessionAllowProviderFallbackWhenUnhealthy = sessionAllowProviderFallbackWhenUnhealthy ?? true
+    // Sessions stuck to a removed provider select a new one.
+    const staleSessionIds: string[] = []
+    this.sessionCache.forEach((provider, sessionId) => {
+      if (!singleRpcProviders.includes(provider)) {
+        staleSessionIds.push(sessionId)
+      }
+    })
+    staleSessionIds.forEach((sessionId) => this.sessionCache.delete(sessionId))
+  }
 
-    if (sessionAllowProviderFallbackWhenUnhealthy !== undefined) {
-      this.sessionAllowProviderFallbackWhenUnhealthy = sessionAllowProviderFallbackWhenUnhealthy
+  private updateEffectiveWeightsIfNeeded() {
+    if (
+      this.config.PROVIDER_SELECTION_MODE !== ProviderSelectionMode.ADAPTIVE ||
+      Date.now() - this.lastEffectiveWeightUpdateTimestampInMs <
+        1000 * this.config.ADAPTIVE_WEIGHT_REFRESH_INTERVAL_IN_S
+    ) {
+      return
+    }
+    this.lastEffectiveWeightUpdateTimestampInMs = Date.now()
+
+    // Providers with too few calls in their latency history window keep their initial weight.
+    const latencyStats: Record<string, LatencyStats> = {}
+    for (const provider of this.providers) {
+      const stats = provider.getLatencyStats()
+      if (this.urlWeight[provider.url] > 0 && stats.sampleCount >= this.config.ADAPTIVE_WEIGHT_MIN_SAMPLE_COUNT) {
+        latencyStats[provider.url] = stats
+      }
+    }
+    const blendedLatency = (stats: LatencyStats) => Math.max(1, (stats.p50LatencyInMs + stats.p95LatencyInMs) / 2)
+    const succeedingStats = Object.values(latencyStats).filter((stats) => stats.errorRate < 1)
+    const averageLatency =
+      succeedingStats.reduce((sum, stats) => sum + blendedLatency(stats), 0) / Math.max(1, succeedingStats.length)
+
+    for (const provider of this.providers) {
+      const weight = this.urlWeight[provider.url]
+      const stats = latencyStats[provider.url]
+      let effectiveWeight = weight
+      if (stats !== undefined) {
+        // A provider faster than the average gets more traffic than its initial weight, and its errors take their share away.
+        const score = stats.errorRate < 1 ? (averageLatency / blendedLatency(stats)) * (1 - stats.errorRate) : 0
+        const ratio = Math.min(
+          this.config.ADAPTIVE_WEIGHT_CEILING_RATIO,
+          Math.max(this.config.ADAPTIVE_WEIGHT_FLOOR_RATIO, score)
+        )
+        effectiveWeight = weight * ratio
+      }
+      this.effectiveUrlWeight[provider.url] = effectiveWeight
+      provider.logEffectiveWeight(effectiveWeight)
     }
+    this.log.debug({ effectiveUrlWeight: this.effectiveUrlWeight }, `Effective weights for chain ${this.chainId}`)
   }
 
   private selectOneOfHealthyProvidersBasedOnWeights(healthyProviders: SingleJsonRpcProvider[]): SingleJsonRpcProvider {
+    this.updateEffectiveWeightsIfNeeded()
     const urlWeightSum = this.calculateHealthyProviderUrlWeightSum(healthyProviders)
     if (urlWeightSum === 0) {
       for (const provider of healthyProviders) {
-        if (this.urlWeight[provider.url] == -1) {
+        if (this.effectiveUrlWeight[provider.url] == -1) {
           return provider
         }
       }
@@ -128,14 +250,14 @@ export class UniJsonRpcProvider extends StaticJsonRpcProvider {
 
     // Sort providers based on url weight, from large to small
     healthyProviders.sort((a, b) => {
-      return this.urlWeight[b.url] - this.urlWeight[a.url]
+      return this.effectiveUrlWeight[b.url] - this.effectiveUrlWeight[a.url]
     })
 
     const rand = Math.random() * urlWeightSum
     // No need to use binary search since the size of healthy providers is very small.
     let accumulatedWeight: number = 0
     for (const provider of healthyProviders) {
-      let weight = this.urlWeight[provider.url]
+      let weight = this.effectiveUrlWeight[provider.url]
       if (weight == -1) {
         weight = 0
       }
@@ -148,11 +270,20 @@ export class UniJsonRpcProvider extends StaticJsonRpcProvider {
     throw new Error('Encounter error when selecting preferred provider')
   }
 
-  private selectPreferredProvider(sessionId?: string): SingleJsonRpcProvider {
+  // Selects among the providers healthy for the method group of the call, if given.
+  private selectPreferredProvider(
+    sessionId?: string,
+    excludedProviders: SingleJsonRpcProvider[] = [],
+    methodGroup?: MethodGroup
+  ): SingleJsonRpcProvider {
     // If session is used, stick to the last provider, if possible.
-    if (sessionId !== undefined && this.sessionCache.has(sessionId)) {
+    if (
+      sessionId !== undefined &&
+      this.sessionCache.has(sessionId) &&
+      !excludedProviders.includes(this.sessionCache.get(sessionId)!)
+    ) {
       const selectedProvider = this.sessionCache.get(sessionId)!
-      if (selectedProvider.isHealthy()) {
+      if (selectedProvider.isHealthy(methodGroup)) {
         this.log.debug(`Use provider ${selectedProvider.url} for chain ${this.chainId.toString()}`)
         return selectedProvider
       } else if (!this.sessionAllowProviderFallbackWhenUnhealthy) {
@@ -164,7 +295,9 @@ export class UniJsonRpcProvider extends StaticJsonRpcProvider {
 
     this.logProviderHealthiness()
 
-    const healthyProviders = this.providers.filter((provider) => provider.isHealthy())
+    const healthyProviders = this.providers.filter(
+      (provider) => provider.isHealthy(methodGroup) && !excludedProviders.includes(provider)
+    )
     if (isEmpty(healthyProviders)) {
       throw new Error('No healthy provider available')
     }
@@ -182,7 +315,7 @@ export class UniJsonRpcProvider extends StaticJsonRpcProvider {
   private calculateHealthyProviderUrlWeightSum(healthyProviders: SingleJsonRpcProvider[]): number {
     let urlWeightSum = 0
     for (const provider of healthyProviders) {
-      let weight = this.urlWeight[provider.url]
+      let weight = this.effectiveUrlWeight[provider.url]
       if (weight == -1) {
         weight = 0
       }
@@ -391,6 +524,208 @@ export class UniJsonRpcProvider extends StaticJsonRpcProvider {
     return this.lastUsedProvider?.url
   }
 
+  private isHedgeable(fnName: string, args: any[]): boolean {
+    return (
+      HEDGEABLE_METHOD_NAMES.includes(fnName) ||
+      (fnName === SEND_METHOD_NAME && HEDGEABLE_SEND_METHOD_NAMES.includes(args[0]))
+    )
+  }
+
+  // The next healthy provider after the selected one, which is allowed to receive traffic.
+  private selectHedgeProvider(
+    selectedProvider: SingleJsonRpcProvider,
+    methodGroup: MethodGroup
+  ): SingleJsonRpcProvider | undefined {
+    const selectedIndex = this.providers.indexOf(selectedProvider)
+    for (let i = 1; i < this.providers.length; i++) {
+      const provider = this.providers[(selectedIndex + i) % this.providers.length]
+      if (provider.isHealthy(methodGroup) && this.urlWeight[provider.url] !== ProviderSpecialWeight.NEVER) {
+        return provider
+      }
+    }
+    return undefined
+  }
+
+  private async hedgedFunctionCall(selectedProvider: SingleJsonRpcProvider, fnName: string, args: any[]): Promise<any> {
+    const primaryCall: Promise<any> = (selectedProvider as any)[`${fnName}`](...args)
+    const hedgeProvider = this.selectHedgeProvider(selectedProvider, getMethodGroup(fnName, args))
+    this.hedgingBudget = Math.min(MAX_HEDGING_BUDGET, this.hedgingBudget + this.config.HEDGING_MAX_EXTRA_REQUEST_RATIO)
+    this.logChainMetric('hedgeable')
+    if (hedgeProvider === undefined) {
+      return primaryCall
+    }
+
+    const deadlineInMs = Math.max(
+      this.config.HEDGING_MIN_DEADLINE_IN_MS,
+      selectedProvider.getLatencyPercentileInMs(this.config.HEDGING_LATENCY_PERCENTILE)
+    )
+    let deadlineTimer: NodeJS.Timeout | undefined
+    const deadlinePassed = new Promise<boolean>((resolve) => {
+      deadlineTimer = setTimeout(() => resolve(false), deadlineInMs)
+    })
+    // A failure of the selected provider before the deadline is thrown as it is, without hedging.
+    const answeredInTime = await Promise.race([
+      primaryCall.then(
+        () => true,
+        () => true
+      ),
+      deadlinePassed,
+    ])
+    clearTimeout(deadlineTimer)
+    if (answeredInTime) {
+      return primaryCall
+    }
+    if (this.hedgingBudget < 1) {
+      this.logChainMetric('hedging_budget_exhausted')
+      return primaryCall
+    }
+    this.hedgingBudget -= 1
+    this.logChainMetric('hedged')
+    this.log.debug(
+      `${selectedProvider.url} hasn't answered ${fnName} within ${deadlineInMs} ms, hedge to ${hedgeProvider.url}`
+    )
+
+    const hedgeCall: Promise<any> = (hedgeProvider as any)[`${fnName}`](...args)
+    // The first successful answer wins. If both fail, the error of the selected provider is thrown.
+    return new Promise((resolve, reject) => {
+      let answered = false
+      let failedCalls = 0
+      let primaryError: any
+      const onSuccess = (result: any, provider: SingleJsonRpcProvider) => {
+        if (!answered) {
+          answered = true
+          provider.logHedgeWon(provider === hedgeProvider)
+          resolve(result)
+        }
+      }
+      const onFailure = () => {
+        failedCalls++
+        if (failedCalls === 2) {
+          reject(primaryError)
+        }
+      }
+      primaryCall.then(
+        (result) => onSuccess(result, selectedProvider),
+        (error) => {
+          primaryError = error
+          onFailure()
+        }
+      )
+      hedgeCall.then(
+        (result) => onSuccess(result, hedgeProvider),
+        () => onFailure()
+      )
+    })
+  }
+
+  private logChainMetric(name: string) {
+    metric.putMetric(`RPC_GATEWAY_${this.chainId}_${name}`, 1, MetricLoggerUnit.Count)
+  }
+
+  private async getProviderBlockNumber(provider: SingleJsonRpcProvider): Promise<number | undefined> {
+    try {
+      return await provider.getBlockNumber()
+    } catch (error: any) {
+      this.log.error({ error }, `Failed to get the block number of ${provider.url}`)
+      return undefined
+    }
+  }
+
+  // Reroutes the session away from newly selected providers lagging behind the highest block the session has seen,
+  // and pins the reads of the session to a block its new provider has. If all the providers lag, the session falls
+  // back to the least lagging one rather than failing.
+  private async selectProviderKeepingUpWithSession(
+    sessionId: string,
+    methodGroup: MethodGroup,
+    previousProvider: SingleJsonRpcProvider | undefined,
+    selectedProvider: SingleJsonRpcProvider
+  ): Promise<SingleJsonRpcProvider> {
+    const highestBlock = this.sessionHighestBlock.get(sessionId)
+    if (highestBlock === undefined) {
+      return selectedProvider
+    }
+    const rejectedProviders: SingleJsonRpcProvider[] = []
+    let leastLagging: { provider: SingleJsonRpcProvider; blockNumber: number } | undefined
+    let candidate: SingleJsonRpcProvider | undefined = selectedProvider
+    while (candidate !== undefined) {
+      if (candidate === previousProvider) {
+        return candidate
+      }
+      const blockNumber = await this.getProviderBlockNumber(candidate)
+      if (blockNumber !== undefined && highestBlock - blockNumber <= this.config.MAX_BLOCK_LAG) {
+        this.sessionPinnedBlock.set(sessionId, Math.min(highestBlock, blockNumber))
+        return candidate
+      }
+      this.log.debug(`${candidate.url} lags behind block ${highestBlock} of session ${sessionId}, reroute`)
+      candidate.logBlockLagRejection()
+      this.logChainMetric('block_lag_reroute')
+      rejectedProviders.push(candidate)
+      if (blockNumber !== undefined && (leastLagging === undefined || blockNumber > leastLagging.blockNumber)) {
+        leastLagging = { provider: candidate, blockNumber }
+      }
+      candidate = this.providers.some(
+        (provider) => provider.isHealthy(methodGroup) && !rejectedProviders.includes(provider)
+      )
+        ? this.selectPreferredProvider(sessionId, rejectedProviders, methodGroup)
+        : undefined
+    }
+
+    this.log.debug(`All providers lag behind block ${highestBlock} of session ${sessionId}, use the least lagging`)
+    this.logChainMetric('block_lag_fallback')
+    if (leastLagging === undefined) {
+      // None of them answered their block number, so there is no block to pin the reads to.
+      this.sessionPinnedBlock.delete(sessionId)
+      return selectedProvider
+    }
+    this.sessionPinnedBlock.set(sessionId, leastLagging.blockNumber)
+    return leastLagging.provider
+  }
+
+  private isBlockNumberCall(fnName: string, args: any[]): boolean {
+    return fnName === GET_BLOCK_NUMBER_METHOD_NAME || (fnName === SEND_METHOD_NAME && args[0] === 'eth_blockNumber')
+  }
+
+  // Block numbers are answered by the session's provider, see wrappedFunctionCall, so it has the block.
+  private recordSessionBlockNumber(sessionId: string, fnName: string, args: any[], result: any) {
+    if (!this.isBlockNumberCall(fnName, args)) {
+      return
+    }
+    // send returns the hex quantity of the JSON-RPC response.
+    const blockNumber = BigNumber.from(result).toNumber()
+    if (blockNumber > (this.sessionHighestBlock.get(sessionId) ?? 0)) {
+      this.sessionHighestBlock.set(sessionId, blockNumber)
+    }
+    if (blockNumber > (this.sessionPinnedBlock.get(sessionId) ?? 0)) {
+      this.sessionPinnedBlock.set(sessionId, blockNumber)
+    }
+  }
+
+  // Rewrites the latest (or missing) block tag of reads to the block the session is pinned to.
+  private pinLatestBlockTag(sessionId: string, fnName: string, args: any[]): any[] {
+    const blockNumber = this.sessionPinnedBlock.get(sessionId)
+    if (blockNumber === undefined) {
+      return args
+    }
+    const isLatest = (blockTag: any) => blockTag === undefined || blockTag === 'latest'
+    if (fnName === SEND_METHOD_NAME) {
+      const [method, params] = args
+      const index = BLOCK_TAG_SEND_PARAM_INDEX[method]
+      if (index === undefined || !Array.isArray(params) || !isLatest(params[index])) {
+        return args
+      }
+      const pinnedParams = [...params]
+      pinnedParams[index] = `0x${blockNumber.toString(16)}`
+      return [method, pinnedParams]
+    }
+    const index = BLOCK_TAG_ARG_INDEX[fnName]
+    if (index === undefined || !isLatest(args[index])) {
+      return args
+    }
+    const pinnedArgs = [...args]
+    pinnedArgs[index] = blockNumber
+    return pinnedArgs
+  }
+
   createNewSessionId(): string {
     const sessionId = `${Date.now()}-${Math.floor(Math.random() * 1000)}`
     this.log.debug(`New session id ${sessionId}`)
@@ -412,14 +747,38 @@ export class UniJsonRpcProvider extends StaticJsonRpcProvider {
     this.log.debug(
       `UniJsonRpcProvider: wrappedFunctionCall: fnName: ${fnName}, sessionId: ${sessionId}, args: ${[...args]}`
     )
-    const selectedProvider = this.selectPreferredProvider(sessionId)
+    const methodGroup = getMethodGroup(fnName, args)
+    const previousProvider = sessionId !== undefined ? this.sessionCache.get(sessionId) : undefined
+    let selectedProvider = this.selectPreferredProvider(sessionId, [], methodGroup)
+    if (this.config.ENABLE_BLOCK_CONSISTENCY && sessionId !== undefined) {
+      selectedProvider = await this.selectProviderKeepingUpWithSession(
+        sessionId,
+        methodGroup,
+        previousProvider,
+        selectedProvider
+      )
+      this.sessionCache.set(sessionId, selectedProvider)
+      args = this.pinLatestBlockTag(sessionId, fnName, args)
+    }
     selectedProvider.logProviderSelection()
     let latency = 0
     let result
     try {
       const start = Date.now()
-      result = await (selectedProvider as any)[`${fnName}`](...args)
+      // A hedged block number could come from another provider than the session's, which may not have that block.
+      if (
+        this.config.ENABLE_HEDGING &&
+        this.isHedgeable(fnName, args) &&
+        !(this.config.ENABLE_BLOCK_CONSISTENCY && sessionId !== undefined && this.isBlockNumberCall(fnName, args))
+      ) {
+        result = await this.hedgedFunctionCall(selectedProvider, fnName, args)
+      } else {
+        result = await (selectedProvider as any)[`${fnName}`](...args)
+      }
       latency = Date.now() - start
+      if (this.config.ENABLE_BLOCK_CONSISTENCY && sessionId !== undefined) {
+        this.recordSessionBlockNumber(sessionId, fnName, args, result)
+      }
       return result
     } catch (error: any) {
       this.log.error({ error }, JSON.stringify(error))
@@ -460,6 +819,14 @@ export class UniJsonRpcProvider extends StaticJsonRpcProvider {
     return this.wrappedFunctionCall('getBlockWithTransactions', sessionId, blockHashOrBlockTag)
   }
 
+  override getBalance(
+    addressOrName: string | Promise<string>,
+    blockTag?: BlockTag | Promise<BlockTag>,
+    sessionId?: string
+  ): Promise<BigNumber> {
+    return this.wrappedFunctionCall('getBalance', sessionId, addressOrName, blockTag)
+  }
+
   override getCode(
     addressOrName: string | Promise<string>,
     blockTag?: BlockTag | Promise<BlockTag>,
@@ -7,12 +7,43 @@ export interface CommonConfig {
   LATENCY_EVALUATION_WAIT_PERIOD_IN_S: number
 }
 
+export enum ProviderSelectionMode {
+  // Select providers with their initial weights.
+  STATIC = 'static',
+  // Scale the initial weights by the providers' recent p50/p95 latencies and error rates.
+  ADAPTIVE = 'adaptive',
+}
+
 // Config here applies to all chains.
 export interface UniJsonRpcProviderConfig extends CommonConfig {
   // Do shadow calls on other non-selected healthy providers to monitor their latencies
   ENABLE_SHADOW_LATENCY_EVALUATION: boolean
   // Default initial provider's weight, if not specified.
   DEFAULT_INITIAL_WEIGHT: 1000
+  // Whether providers are selected with their initial weights, or with weights adapted to their recent latencies.
+  PROVIDER_SELECTION_MODE: ProviderSelectionMode
+  // In adaptive mode, a provider's effective weight stays within these ratios of its initial weight,
+  // so that no provider is starved of the traffic that would show its recovery.
+  ADAPTIVE_WEIGHT_FLOOR_RATIO: number
+  ADAPTIVE_WEIGHT_CEILING_RATIO: number
+  // In adaptive mode, providers with fewer calls than this in their latency history window keep their initial weight.
+  ADAPTIVE_WEIGHT_MIN_SAMPLE_COUNT: number
+  // In adaptive mode, time interval to recompute the effective weights.
+  ADAPTIVE_WEIGHT_REFRESH_INTERVAL_IN_S: number
+  // If the selected provider hasn't answered a read-only call within its deadline, send the same call to the next
+  // healthy provider, and use whichever answers successfully first.
+  ENABLE_HEDGING: boolean
+  // The hedging deadline is this percentile of the selected provider's latencies within its latency history window.
+  HEDGING_LATENCY_PERCENTILE: number
+  // Lower bound of the hedging deadline, which also applies to providers without latency history.
+  HEDGING_MIN_DEADLINE_IN_MS: number
+  // Maximum ratio of extra calls sent by hedging, out of the calls that could be hedged.
+  HEDGING_MAX_EXTRA_REQUEST_RATIO: number
+  // Within a session, don't switch to a provider lagging behind the highest block the session has seen, and read
+  // at that block rather than at the latest one.
+  ENABLE_BLOCK_CONSISTENCY: boolean
+  // Number of blocks a provider can lag behind the session's highest block before being rejected.
+  MAX_BLOCK_LAG: number
 }
 
 // Config here applies to all chains.
@@ -23,6 +54,9 @@ export interface SingleJsonRpcProviderConfig extends CommonConfig {
   HEALTH_SCORE_FALLBACK_THRESHOLD: number
   // If an unhealthy provider's score raise above this, it will become healthy.
   HEALTH_SCORE_RECOVER_THRESHOLD: number
+  // Same as HEALTH_SCORE_FALLBACK_THRESHOLD, for the health score of each method group. Method groups recover at
+  // HEALTH_SCORE_RECOVER_THRESHOLD.
+  METHOD_GROUP_HEALTH_SCORE_FALLBACK_THRESHOLD: number
   // Latency exceeds this will be considered as error.
   MAX_LATENCY_ALLOWED_IN_MS: number
   // As time passes, provider's health score will automatically increase,
@@ -35,6 +69,8 @@ export interface SingleJsonRpcProviderConfig extends CommonConfig {
   DB_SYNC_INTERVAL_IN_S: number
   // The length of latency history window to consider.
   LATENCY_STAT_HISTORY_WINDOW_LENGTH_IN_S: number
+  // The most calls kept in the latency history window, the latest ones.
+  LATENCY_STAT_HISTORY_MAX_SAMPLES: number
 }
 
 export const DEFAULT_UNI_PROVIDER_CONFIG: UniJsonRpcProviderConfig = {
@@ -42,6 +78,17 @@ export const DEFAULT_UNI_PROVIDER_CONFIG: UniJsonRpcProviderConfig = {
   ENABLE_SHADOW_LATENCY_EVALUATION: true,
   LATENCY_EVALUATION_WAIT_PERIOD_IN_S: 60,
   DEFAULT_INITIAL_WEIGHT: 1000,
+  PROVIDER_SELECTION_MODE: ProviderSelectionMode.STATIC,
+  ADAPTIVE_WEIGHT_FLOOR_RATIO: 0.1,
+  ADAPTIVE_WEIGHT_CEILING_RATIO: 2,
+  ADAPTIVE_WEIGHT_MIN_SAMPLE_COUNT: 20,
+  ADAPTIVE_WEIGHT_REFRESH_INTERVAL_IN_S: 10,
+  ENABLE_HEDGING: false,
+  HEDGING_LATENCY_PERCENTILE: 0.95,
+  HEDGING_MIN_DEADLINE_IN_MS: 100,
+  HEDGING_MAX_EXTRA_REQUEST_RATIO: 0.05,
+  ENABLE_BLOCK_CONSISTENCY: false,
+  MAX_BLOCK_LAG: 2,
 }
 
 // Health score needs to drop below a certain threshold to trigger circuit break (all potentially fallback to other
@@ -53,11 +100,15 @@ export const DEFAULT_SINGLE_PROVIDER_CONFIG: SingleJsonRpcProviderConfig = {
   HIGH_LATENCY_PENALTY: -20,
   HEALTH_SCORE_FALLBACK_THRESHOLD: NEVER_FALLBACK,
   HEALTH_SCORE_RECOVER_THRESHOLD: -200,
+  // About 10 errors in a row. Calls are only moved to other providers for that group, so unlike the provider's
+  // threshold, this one is safe to trigger.
+  METHOD_GROUP_HEALTH_SCORE_FALLBACK_THRESHOLD: -500,
   MAX_LATENCY_ALLOWED_IN_MS: 4000,
   RECOVER_SCORE_PER_MS: 0.01,
   RECOVER_MAX_WAIT_TIME_TO_ACKNOWLEDGE_IN_MS: 60000,
   DB_SYNC_INTERVAL_IN_S: 60,
   LATENCY_STAT_HISTORY_WINDOW_LENGTH_IN_S: 180,
+  LATENCY_STAT_HISTORY_MAX_SAMPLES: 1000,
   HEALTH_EVALUATION_WAIT_PERIOD_IN_S: 60,
   LATENCY_EVALUATION_WAIT_PERIOD_IN_S: 60,
 }
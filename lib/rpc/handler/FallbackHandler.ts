@@ -3,7 +3,7 @@ import { ChainId } from '@uniswap/sdk-core'
 import { getProviderId } from '../utils'
 import { ProviderHealthStateRepository } from '../ProviderHealthStateRepository'
 import { ProviderHealthStateDynamoDbRepository } from '../ProviderHealthStateDynamoDbRepository'
-import { ProviderHealthiness, ProviderHealthState } from '../ProviderHealthState'
+import { MethodGroup, ProviderHealthiness, ProviderHealthState } from '../ProviderHealthState'
 import { metric, MetricLoggerUnit, setGlobalMetric } from '@uniswap/smart-order-router'
 import { metricScope, MetricsLogger } from 'aws-embedded-metrics'
 import { APIGatewayProxyResult } from 'aws-lambda'
@@ -15,6 +15,20 @@ export interface AlarmEvent {
   previousState: string // Only for logging purpose. Not used in any logic.
   providerId: string
   reason: string // Only for logging purpose. Not used in any logic
+  // Set for alarms on a single method group of the provider.
+  methodGroup?: MethodGroup
+}
+
+// Example alarm name on a method group: "RoutingAPI-RpcGateway-ErrorRateAlarm-ChainId-56-Provider-QUIKNODE-MethodGroup-call"
+function readMethodGroup(alarmName: string): MethodGroup | undefined {
+  const methodGroup = alarmName.split('-')[8]
+  if (methodGroup === undefined) {
+    return undefined
+  }
+  if (!Object.values(MethodGroup).includes(methodGroup as MethodGroup)) {
+    throw new Error(`Unknown method group ${methodGroup} in ${alarmName}`)
+  }
+  return methodGroup as MethodGroup
 }
 
 export class FallbackHandler {
@@ -71,6 +85,7 @@ export class FallbackHandler {
     if (!chainId || !providerName) {
       throw new Error(`Cannot read chainId and providerName from ${alarmName}`)
     }
+    const methodGroup = readMethodGroup(alarmName)
 
     return {
       alarmName: event.alarmData.alarmName,
@@ -78,7 +93,45 @@ export class FallbackHandler {
       previousState: event.alarmData.previousState.value,
       reason: event.alarmData.state.reason,
       providerId: getProviderId(chainId, providerName),
+      ...(methodGroup !== undefined && { methodGroup }),
+    }
+  }
+
+  // Alarms on a method group only change the healthiness of that group, and alarms on the whole provider only
+  // change the healthiness of the provider.
+  private alarmTarget(alarmEvent: AlarmEvent): string {
+    return alarmEvent.methodGroup === undefined
+      ? alarmEvent.providerId
+      : `${alarmEvent.providerId}_${alarmEvent.methodGroup}`
+  }
+
+  private targetHealthiness(state: ProviderHealthState | null, methodGroup?: MethodGroup): ProviderHealthiness {
+    if (state === null) {
+      return ProviderHealthiness.HEALTHY
+    }
+    if (methodGroup === undefined) {
+      return state.healthiness
     }
+    return state.methodHealthiness?.[methodGroup] ?? ProviderHealthiness.HEALTHY
+  }
+
+  private nextState(
+    state: ProviderHealthState | null,
+    methodGroup: MethodGroup | undefined,
+    healthiness: ProviderHealthiness,
+    ongoingAlarms: string[]
+  ): ProviderHealthState {
+    const newState: ProviderHealthState = {
+      healthiness: methodGroup === undefined ? healthiness : state?.healthiness ?? ProviderHealthiness.HEALTHY,
+      ongoingAlarms: ongoingAlarms,
+      version: state === null ? 1 : state.version + 1,
+    }
+    if (methodGroup !== undefined) {
+      newState.methodHealthiness = { ...state?.methodHealthiness, [methodGroup]: healthiness }
+    } else if (state?.methodHealthiness !== undefined) {
+      newState.methodHealthiness = state.methodHealthiness
+    }
+    return newState
   }
 
   private async processAlarm(alarmEvent: AlarmEvent): Promise<{
@@ -88,18 +141,26 @@ export class FallbackHandler {
     if (alarmEvent.state === 'ALARM') {
       const { oldHealthiness, newHealthiness } = await this.updateDbItemForAlarmEvent(alarmEvent)
       if (oldHealthiness !== newHealthiness) {
-        metric.putMetric(`RPC_GATEWAY_FALLBACK_${alarmEvent.providerId}_INTO_UNHEALTHY`, 1, MetricLoggerUnit.Count)
+        metric.putMetric(
+          `RPC_GATEWAY_FALLBACK_${this.alarmTarget(alarmEvent)}_INTO_UNHEALTHY`,
+          1,
+          MetricLoggerUnit.Count
+        )
         this.log.error(
-          `${alarmEvent.providerId} becomes UNHEALTHY due to ${alarmEvent.previousState}=>ALARM in ${alarmEvent.alarmName}`
+          `${this.alarmTarget(alarmEvent)} becomes UNHEALTHY due to ${alarmEvent.previousState}=>ALARM in ${
+            alarmEvent.alarmName
+          }`
         )
       }
       return { oldHealthiness, newHealthiness }
     } else if (alarmEvent.state === 'OK') {
       const { oldHealthiness, newHealthiness } = await this.updateDbItemForOkEvent(alarmEvent)
       if (oldHealthiness !== newHealthiness) {
-        metric.putMetric(`RPC_GATEWAY_FALLBACK_${alarmEvent.providerId}_INTO_HEALTHY`, 1, MetricLoggerUnit.Count)
+        metric.putMetric(`RPC_GATEWAY_FALLBACK_${this.alarmTarget(alarmEvent)}_INTO_HEALTHY`, 1, MetricLoggerUnit.Count)
         this.log.error(
-          `${alarmEvent.providerId} becomes HEALTHY due to ${alarmEvent.previousState}=>OK in ${alarmEvent.alarmName}`
+          `${this.alarmTarget(alarmEvent)} becomes HEALTHY due to ${alarmEvent.previousState}=>OK in ${
+            alarmEvent.alarmName
+          }`
         )
       }
       return { oldHealthiness, newHealthiness }
@@ -115,30 +176,21 @@ export class FallbackHandler {
   }> {
     const state: ProviderHealthState | null = await this.healthStateRepository.read(alarmEvent.providerId)
     if (state === null) {
-      const newState: ProviderHealthState = {
-        healthiness: ProviderHealthiness.UNHEALTHY,
-        ongoingAlarms: [alarmEvent.alarmName],
-        version: 1,
-      }
+      const newState = this.nextState(state, alarmEvent.methodGroup, ProviderHealthiness.UNHEALTHY, [
+        alarmEvent.alarmName,
+      ])
       await this.healthStateRepository.write(alarmEvent.providerId, newState)
     } else {
       const newOngoingAlarms = state.ongoingAlarms
       if (!state.ongoingAlarms.includes(alarmEvent.alarmName)) {
         newOngoingAlarms.push(alarmEvent.alarmName)
       }
-      const newState: ProviderHealthState = {
-        healthiness: ProviderHealthiness.UNHEALTHY,
-        ongoingAlarms: newOngoingAlarms,
-        version: state.version + 1,
-      }
+      const newState = this.nextState(state, alarmEvent.methodGroup, ProviderHealthiness.UNHEALTHY, newOngoingAlarms)
       await this.healthStateRepository.update(alarmEvent.providerId, newState)
     }
 
     return {
-      oldHealthiness:
-        state === null || state.healthiness === ProviderHealthiness.HEALTHY
-          ? ProviderHealthiness.HEALTHY
-          : ProviderHealthiness.UNHEALTHY,
+      oldHealthiness: this.targetHealthiness(state, alarmEvent.methodGroup),
       newHealthiness: ProviderHealthiness.UNHEALTHY,
     }
   }
@@ -148,7 +200,7 @@ export class FallbackHandler {
     newHealthiness: ProviderHealthiness
   }> {
     const state: ProviderHealthState | null = await this.healthStateRepository.read(alarmEvent.providerId)
-    if (state === null || state.healthiness === ProviderHealthiness.HEALTHY) {
+    if (state === null || this.targetHealthiness(state, alarmEvent.methodGroup) === ProviderHealthiness.HEALTHY) {
       return {
         oldHealthiness: ProviderHealthiness.HEALTHY,
         newHealthiness: ProviderHealthiness.HEALTHY,
@@ -161,15 +213,14 @@ export class FallbackHandler {
       }
     }
     const newOngoingAlarms = state.ongoingAlarms.filter((alarmName) => alarmName !== alarmEvent.alarmName)
-    const newState: ProviderHealthState = {
-      healthiness: newOngoingAlarms.length === 0 ? ProviderHealthiness.HEALTHY : ProviderHealthiness.UNHEALTHY,
-      ongoingAlarms: newOngoingAlarms,
-      version: state.version + 1,
-    }
+    const newHealthiness = newOngoingAlarms.some((alarmName) => readMethodGroup(alarmName) === alarmEvent.methodGroup)
+      ? ProviderHealthiness.UNHEALTHY
+      : ProviderHealthiness.HEALTHY
+    const newState = this.nextState(state, alarmEvent.methodGroup, newHealthiness, newOngoingAlarms)
     await this.healthStateRepository.update(alarmEvent.providerId, newState)
     return {
       oldHealthiness: ProviderHealthiness.UNHEALTHY,
-      newHealthiness: newOngoingAlarms.length === 0 ? ProviderHealthiness.HEALTHY : ProviderHealthiness.UNHEALTHY,
+      newHealthiness: newHealthiness,
     }
   }
 }
@@ -0,0 +1,128 @@
+/**
+ * ts-node --project=tsconfig.cdk.json scripts/benchmark_cached_routes_encoding.ts
+ *
+ * Compares the size and parse time of RoutesDb items in the JSON and binary encodings of CachedRoutesMarshaller,
+ * for payloads shaped like the ones cached in production: a single route, a split over a few multi-hop routes,
+ * of v3 or v4 pools, and a wide split over mixed routes.
+ */
+import { ADDRESS_ZERO, Protocol } from '@uniswap/router-sdk'
+import { ChainId, Currency, CurrencyAmount, Ether, Token, TradeType } from '@uniswap/sdk-core'
+import {
+  CachedRoute,
+  CachedRoutes,
+  DAI_MAINNET,
+  MixedRoute,
+  SupportedRoutes,
+  USDC_MAINNET,
+  USDT_MAINNET,
+  V3Route,
+  V4Route,
+  WBTC_MAINNET,
+  WRAPPED_NATIVE_CURRENCY,
+} from '@uniswap/smart-order-router'
+import { Pair } from '@uniswap/v2-sdk'
+import { FeeAmount, Pool as V3Pool, TICK_SPACINGS } from '@uniswap/v3-sdk'
+import { Pool as V4Pool } from '@uniswap/v4-sdk'
+import { CachedRoutesEncoding, CachedRoutesMarshaller } from '../lib/handlers/marshalling'
+
+const ITERATIONS = 2000
+
+const WETH = WRAPPED_NATIVE_CURRENCY[ChainId.MAINNET]
+const ETH = Ether.onChain(ChainId.MAINNET)
+const FEES = [FeeAmount.LOWEST, FeeAmount.LOW, FeeAmount.MEDIUM, FeeAmount.HIGH]
+
+const v3Pool = (tokenA: Token, tokenB: Token, fee: FeeAmount) =>
+  new V3Pool(tokenA, tokenB, fee, '1461446703485210103287273052203988822378723970341', '10272714736694327408', 887271)
+
+const v4Pool = (currencyA: Currency, currencyB: Currency, fee: FeeAmount) =>
+  new V4Pool(
+    currencyA,
+    currencyB,
+    fee,
+    TICK_SPACINGS[fee],
+    ADDRESS_ZERO,
+    '79228162514264337593543950336',
+    '10272714736694327408',
+    0
+  )
+
+const v2Pair = (tokenA: Token, tokenB: Token) =>
+  new Pair(
+    CurrencyAmount.fromRawAmount(tokenA, '45000000000000000000000'),
+    CurrencyAmount.fromRawAmount(tokenB, '45010000000000000000000')
+  )
+
+const cachedRoutes = (routes: SupportedRoutes[], currencyIn: Currency = WETH) =>
+  new CachedRoutes({
+    routes: routes.map((route) => new CachedRoute({ route, percent: 100 / routes.length })),
+    chainId: ChainId.MAINNET,
+    currencyIn,
+    currencyOut: USDC_MAINNET,
+    protocolsCovered: [Protocol.V2, Protocol.V3, Protocol.V4, Protocol.MIXED],
+    blockNumber: 21000000,
+    tradeType: TradeType.EXACT_INPUT,
+    originalAmount: '100',
+    blocksToLive: 2,
+  })
+
+const PAYLOADS: { [name: string]: CachedRoutes } = {
+  'single route': cachedRoutes([new V3Route([v3Pool(WETH, USDC_MAINNET, FeeAmount.LOW)], WETH, USDC_MAINNET)]),
+  '4-way split, 2 hops': cachedRoutes(
+    [DAI_MAINNET, USDT_MAINNET, WBTC_MAINNET, DAI_MAINNET].map(
+      (intermediate, i) =>
+        new V3Route(
+          [v3Pool(WETH, intermediate, FEES[i]!), v3Pool(intermediate, USDC_MAINNET, FeeAmount.LOWEST)],
+          WETH,
+          USDC_MAINNET
+        )
+    )
+  ),
+  '4-way split, v4 2 hops': cachedRoutes(
+    [DAI_MAINNET, USDT_MAINNET, WBTC_MAINNET, DAI_MAINNET].map(
+      (intermediate, i) =>
+        new V4Route(
+          [v4Pool(ETH, intermediate, FEES[i]!), v4Pool(intermediate, USDC_MAINNET, FeeAmount.LOWEST)],
+          ETH,
+          USDC_MAINNET
+        )
+    ),
+    ETH
+  ),
+  '10-way split, mixed 3 hops': cachedRoutes(
+    Array.from(
+      { length: 10 },
+      (_, i) =>
+        new MixedRoute(
+          [
+            v3Pool(WETH, WBTC_MAINNET, FEES[i % FEES.length]!),
+            v2Pair(WBTC_MAINNET, DAI_MAINNET),
+            v3Pool(DAI_MAINNET, USDC_MAINNET, FEES[(i + 1) % FEES.length]!),
+          ],
+          WETH,
+          USDC_MAINNET
+        )
+    )
+  ),
+}
+
+const parseTimeUs = (item: Buffer): number => {
+  const start = process.hrtime.bigint()
+  for (let i = 0; i < ITERATIONS; i++) {
+    CachedRoutesMarshaller.deserialize(item)
+  }
+  return Number(process.hrtime.bigint() - start) / 1000 / ITERATIONS
+}
+
+const rows = Object.entries(PAYLOADS).map(([payload, routes]) => {
+  const json = CachedRoutesMarshaller.serialize(routes, CachedRoutesEncoding.JSON)
+  const binary = CachedRoutesMarshaller.serialize(routes, CachedRoutesEncoding.BINARY)
+  return {
+    payload,
+    'json bytes': json.length,
+    'binary bytes': binary.length,
+    'json parse (us)': parseTimeUs(json).toFixed(1),
+    'binary parse (us)': parseTimeUs(binary).toFixed(1),
+  }
+})
+
+console.table(rows)
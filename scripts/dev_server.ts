@@ -0,0 +1,101 @@
+/**
+ * Serves the routing API locally, with local stand-ins for AWS:
+ *
+ * ts-node --project=tsconfig.cdk.json scripts/dev_server.ts
+ *
+ * Reads .env, and the following variables:
+ *   DEV_SERVER_PORT      Port to listen on, 3000 by default.
+ *   DEV_SERVER_DATA_DIR  Directory backing the S3 buckets, .dev-server by default.
+ *   DEV_SERVER_RPC_URL   JSON-RPC endpoint of DEV_SERVER_CHAIN_ID (1 by default), e.g. a hardhat node.
+ *                        Other chains use their WEB3_RPC_{CHAIN ID} variable.
+ */
+import { default as bunyan, default as Logger } from 'bunyan'
+import dotenv from 'dotenv'
+import _ from 'lodash'
+import path from 'path'
+import { DynamoDBTableProps } from '../bin/stacks/routing-database-stack'
+import PROD_CONFIG from '../lib/config/rpcProviderProdConfig.json'
+import { installLocalAws } from '../lib/dev-server/local-aws'
+import { createDevServer, DevServerRoutes } from '../lib/dev-server/server'
+import { APIGatewayProxyHandler } from '../lib/handlers/handler'
+import { RoutesStoreType } from '../lib/handlers/router-entities/route-caching/store'
+import { GlobalRpcProviders } from '../lib/rpc/GlobalRpcProviders'
+import { PoolCachingFilePrefixes } from '../lib/util/poolCachingFilePrefixes'
+dotenv.config()
+
+const log: Logger = bunyan.createLogger({
+  name: 'DevServer',
+  serializers: bunyan.stdSerializers,
+  level: bunyan.INFO,
+})
+
+const port = parseInt(process.env.DEV_SERVER_PORT ?? '3000')
+const dataDir = path.resolve(process.env.DEV_SERVER_DATA_DIR ?? '.dev-server')
+const chainId = process.env.DEV_SERVER_CHAIN_ID ?? '1'
+
+if (process.env.DEV_SERVER_RPC_URL) {
+  process.env[`WEB3_RPC_${chainId}`] = process.env.DEV_SERVER_RPC_URL
+}
+
+// The same variables as the routing lambda, see routing-lambda-stack.ts.
+Object.assign(process.env, {
+  POOL_CACHE_BUCKET_3: 'pool-cache',
+  POOL_CACHE_GZIP_KEY: PoolCachingFilePrefixes.GzipText,
+  TOKEN_LIST_CACHE_BUCKET: 'token-list-cache',
+  ROUTES_TABLE_NAME: DynamoDBTableProps.RoutesDbTable.Name,
+  ROUTES_CACHING_REQUEST_FLAG_TABLE_NAME: DynamoDBTableProps.RoutesDbCachingRequestFlagTable.Name,
+  ROUTES_INDEX_TABLE_NAME: DynamoDBTableProps.RoutesDbIndexTable.Name,
+  CACHED_ROUTES_TABLE_NAME: DynamoDBTableProps.CacheRouteDynamoDbTable.Name,
+  CACHING_REQUEST_FLAG_TABLE_NAME: DynamoDBTableProps.CachingRequestFlagDynamoDbTable.Name,
+  CACHED_V3_POOLS_TABLE_NAME: DynamoDBTableProps.V3PoolsDynamoDbTable.Name,
+  V2_PAIRS_CACHE_TABLE_NAME: DynamoDBTableProps.V2PairsDynamoCache.Name,
+  TOKEN_PROPERTIES_CACHING_TABLE_NAME: DynamoDBTableProps.TokenPropertiesCachingDbTable.Name,
+  RPC_PROVIDER_HEALTH_TABLE_NAME: DynamoDBTableProps.RpcProviderHealthStateDbTable.Name,
+  ROUTES_STORE: RoutesStoreType.MEMORY,
+  // Metrics are logged to stdout instead of being sent to the CloudWatch agent.
+  AWS_EMF_ENVIRONMENT: 'Local',
+})
+
+const tables = _.fromPairs(
+  _.compact(
+    _.map(DynamoDBTableProps, (table) =>
+      _.isString(table)
+        ? undefined
+        : [table.Name, { partitionKey: table.PartitionKeyName, sortKey: _.get(table, 'SortKeyName') }]
+    )
+  )
+)
+
+installLocalAws({
+  s3Dir: dataDir,
+  tables,
+  ttlAttributeName: DynamoDBTableProps.TTLAttributeName,
+  log,
+})
+
+// The RPC gateway builds the urls of the production providers, every chain uses its WEB3_RPC_{CHAIN ID} url instead.
+// The handlers still validate the production config on every request, so its variables get placeholders.
+for (const urlEnvVar of _.flatMap(PROD_CONFIG, (chainConfig) => chainConfig.providerUrls ?? [])) {
+  process.env[urlEnvVar] = process.env[urlEnvVar] ?? 'dev-server,dev-server'
+}
+GlobalRpcProviders.getGlobalUniRpcProviders(log, undefined, undefined, [])
+
+// The handlers build their dependencies when loaded, so they are only loaded once the stand-ins are installed.
+const handlers: { [name: string]: APIGatewayProxyHandler } = {
+  ...require('../lib/handlers'),
+  ...require('../lib/handlers/openapi'),
+}
+
+// The same resources as routing-api-stack.ts.
+const routes: DevServerRoutes = {
+  'GET /quote': handlers.quoteHandler!,
+  'POST /quote': handlers.quoteHandler!,
+  'POST /quotes': handlers.quotesHandler!,
+  'GET /price-check': handlers.priceCheckHandler!,
+  'POST /admin/cached-routes/purge': handlers.cachedRoutesPurgeHandler!,
+  'GET /openapi.json': handlers.openApiHandler!,
+}
+
+createDevServer(routes, log).listen(port, () => {
+  log.info({ port, dataDir, routes: _.keys(routes) }, `Routing API listening on http://localhost:${port}`)
+})
@@ -0,0 +1,13 @@
+/**
+ * ts-node --project=tsconfig.cdk.json scripts/generate_openapi.ts
+ *
+ * Regenerates the committed OpenAPI document after a change to the request or response schemas.
+ */
+import fs from 'fs'
+import path from 'path'
+import { buildOpenApiDocument } from '../lib/handlers/openapi/document'
+
+const documentPath = path.join(__dirname, '../lib/handlers/openapi/openapi-document.json')
+
+fs.writeFileSync(documentPath, `${JSON.stringify(buildOpenApiDocument(), null, 2)}\n`)
+console.log(`Wrote ${documentPath}`)
@@ -1,13 +1,11 @@
 /**
  * ts-node --project=tsconfig.cdk.json scripts/get_quote.ts
  */
-import axios, { AxiosResponse } from 'axios'
 import dotenv from 'dotenv'
-import { QuoteQueryParams } from '../lib/handlers/quote/schema/quote-schema'
-import { QuoteResponse } from '../lib/handlers/schema'
+import { QuoteRequestBody, RoutingApiClient } from '../lib/client'
 dotenv.config()
 ;(async function () {
-  const quotePost: QuoteQueryParams = {
+  const quotePost: QuoteRequestBody = {
     tokenInAddress: 'MKR',
     tokenInChainId: 1,
     tokenOutAddress: 'GRT',
@@ -20,10 +18,8 @@ dotenv.config()
     algorithm: 'alpha',
   }
 
-  const response: AxiosResponse<QuoteResponse> = await axios.post<QuoteResponse>(
-    process.env.UNISWAP_ROUTING_API! + 'quote',
-    quotePost
-  )
+  const client = new RoutingApiClient({ baseUrl: process.env.UNISWAP_ROUTING_API! })
+  const quote = await client.postQuote(quotePost)
 
-  console.log({ response })
+  console.log({ quote })
 })()
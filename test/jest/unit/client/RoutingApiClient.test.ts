@@ -0,0 +1,156 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals'
+import { APIGatewayProxyEvent, Context } from 'aws-lambda'
+import Logger from 'bunyan'
+import {
+  isRoutingApiError,
+  RoutingApiClient,
+  RoutingApiTimeoutError,
+  RoutingApiTransport,
+} from '../../../../lib/client'
+import { QuoteHandler } from '../../../../lib/handlers/quote/quote'
+import { RoutingApiSimulationStatus } from '../../../../lib/handlers/quote/util/simulation'
+import { QuoteResponse } from '../../../../lib/handlers/schema'
+
+// Metrics are printed instead of being sent to an agent.
+process.env.AWS_EMF_ENVIRONMENT = 'Local'
+
+const QUOTE: QuoteResponse = {
+  quoteId: 'abcde',
+  amount: '1000000',
+  amountDecimals: '1',
+  quote: '999000',
+  quoteDecimals: '0.999',
+  quoteGasAdjusted: '998000',
+  quoteGasAdjustedDecimals: '0.998',
+  gasUseEstimateQuote: '1000',
+  gasUseEstimateQuoteDecimals: '0.001',
+  gasUseEstimate: '100000',
+  gasUseEstimateUSD: '0.001',
+  simulationStatus: RoutingApiSimulationStatus.UNATTEMPTED,
+  simulationError: false,
+  gasPriceWei: '1000000000',
+  blockNumber: '1',
+  route: [],
+  routeString: '[V3] 100.00% = USDC -- 0.01% [0x0] --> USDT',
+  hitsCachedRoutes: true,
+}
+
+const QUOTE_PARAMS = {
+  tokenInAddress: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+  tokenInChainId: 1,
+  tokenOutAddress: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+  tokenOutChainId: 1,
+  amount: '1000000',
+  type: 'exactIn' as const,
+}
+
+// Invokes QuoteHandler.handler directly, as API gateway would, with only the routing itself stubbed out.
+const buildHarness = () => {
+  const log = Logger.createLogger({ name: 'test', level: Logger.FATAL })
+  const injector = {
+    getContainerInjected: async () => ({ dependencies: {} }),
+    getRequestInjected: async () => ({ id: 'abcde', log }),
+  }
+  const quoteHandler = new QuoteHandler('quote', Promise.resolve(injector as any))
+  const handleRequest = jest.spyOn(quoteHandler, 'handleRequest')
+
+  const transport: RoutingApiTransport = async ({ method, queryString, body, timeoutMs }) => {
+    const queryStringParameters: { [key: string]: string } = {}
+    new URLSearchParams(queryString).forEach((value, key) => (queryStringParameters[key] = value))
+    const event = {
+      httpMethod: method,
+      queryStringParameters: queryString ? queryStringParameters : null,
+      body: body ?? null,
+      headers: {},
+    } as unknown as APIGatewayProxyEvent
+
+    let timer: NodeJS.Timeout | undefined
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new RoutingApiTimeoutError(timeoutMs)), timeoutMs)
+    })
+    try {
+      const { statusCode, body: responseBody } = await Promise.race([
+        quoteHandler.handler(event, { awsRequestId: 'abcde' } as Context),
+        timeout,
+      ])
+      return { statusCode, body: responseBody }
+    } finally {
+      clearTimeout(timer!)
+    }
+  }
+
+  return { handleRequest, client: new RoutingApiClient({ baseUrl: 'http://localhost', transport, retryDelayMs: 1 }) }
+}
+
+describe('RoutingApiClient', () => {
+  let harness: ReturnType<typeof buildHarness>
+
+  beforeEach(() => {
+    harness = buildHarness()
+  })
+
+  it('sends the quote params in the format the handler validates', async () => {
+    harness.handleRequest.mockResolvedValue({ statusCode: 200, body: QUOTE })
+
+    const quote = await harness.client.getQuote({
+      ...QUOTE_PARAMS,
+      protocols: ['v2', 'v3'],
+      enableUniversalRouter: true,
+    })
+
+    expect(quote).toEqual(QUOTE)
+    expect(harness.handleRequest.mock.calls[0]![0].requestQueryParams).toMatchObject({
+      tokenInChainId: 1,
+      protocols: ['v2', 'v3'],
+      enableUniversalRouter: true,
+    })
+  })
+
+  it('sends the quote params as a JSON body', async () => {
+    harness.handleRequest.mockResolvedValue({ statusCode: 200, body: QUOTE })
+
+    await harness.client.postQuote({ ...QUOTE_PARAMS, protocols: ['v3'] })
+
+    expect(harness.handleRequest.mock.calls[0]![0].requestBody).toMatchObject({ protocols: ['v3'] })
+  })
+
+  it('throws errors keyed by errorCode without retrying client errors', async () => {
+    harness.handleRequest.mockResolvedValue({ statusCode: 404, errorCode: 'NO_ROUTE', detail: 'No route found' })
+
+    const error = await harness.client.getQuote(QUOTE_PARAMS).catch((err) => err)
+
+    expect(isRoutingApiError(error, 'NO_ROUTE')).toBeTruthy()
+    expect(error).toMatchObject({ statusCode: 404, detail: 'No route found', id: 'abcde' })
+    expect(harness.handleRequest).toHaveBeenCalledTimes(1)
+  })
+
+  it('surfaces request validation errors', async () => {
+    const error = await harness.client.getQuote({ ...QUOTE_PARAMS, amount: '-1' }).catch((err) => err)
+
+    expect(isRoutingApiError(error, 'VALIDATION_ERROR')).toBeTruthy()
+    expect(harness.handleRequest).not.toHaveBeenCalled()
+  })
+
+  it('retries server errors', async () => {
+    harness.handleRequest
+      .mockRejectedValueOnce(new Error('RPC unavailable'))
+      .mockResolvedValue({ statusCode: 200, body: QUOTE })
+
+    await expect(harness.client.getQuote(QUOTE_PARAMS)).resolves.toEqual(QUOTE)
+    expect(harness.handleRequest).toHaveBeenCalledTimes(2)
+  })
+
+  it('times out slow requests', async () => {
+    harness.handleRequest.mockImplementation(
+      () => new Promise((resolve) => setTimeout(() => resolve({ statusCode: 200, body: QUOTE }), 100))
+    )
+    const client = new RoutingApiClient({
+      baseUrl: 'http://localhost',
+      transport: (harness.client as any).transport,
+      timeoutMs: 10,
+      retries: 0,
+    })
+
+    await expect(client.getQuote(QUOTE_PARAMS)).rejects.toBeInstanceOf(RoutingApiTimeoutError)
+  })
+})
@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it } from '@jest/globals'
+import { InMemoryDynamoDb } from '../../../../lib/dev-server/in-memory-dynamo-db'
+
+const TABLES = {
+  RoutesDbCacheReqFlagDB: { partitionKey: 'pairTradeTypeChainId', sortKey: 'amount' },
+  TokenPropertiesCachingDb: { partitionKey: 'chainIdTokenAddress' },
+}
+
+describe('InMemoryDynamoDb', () => {
+  let dynamoDb: InMemoryDynamoDb
+
+  beforeEach(() => {
+    dynamoDb = new InMemoryDynamoDb(TABLES, 'ttl')
+    for (const amount of [1, 5, 10, 50]) {
+      dynamoDb.put({
+        TableName: 'RoutesDbCacheReqFlagDB',
+        Item: { pairTradeTypeChainId: 'a/b/0/1', amount, blockNumber: amount * 100 },
+      })
+    }
+    dynamoDb.put({ TableName: 'RoutesDbCacheReqFlagDB', Item: { pairTradeTypeChainId: 'a/b/1/1', amount: 5 } })
+  })
+
+  it('replaces items with the same key', () => {
+    const Key = { chainIdTokenAddress: '1-0xa' }
+    dynamoDb.put({ TableName: 'TokenPropertiesCachingDb', Item: { ...Key, feeOnTransfer: false } })
+    dynamoDb.put({ TableName: 'TokenPropertiesCachingDb', Item: { ...Key, feeOnTransfer: true } })
+
+    expect(dynamoDb.get({ TableName: 'TokenPropertiesCachingDb', Key }).Item).toEqual({ ...Key, feeOnTransfer: true })
+  })
+
+  it('queries a partition with a BETWEEN on the sort key', () => {
+    const { Items } = dynamoDb.query({
+      TableName: 'RoutesDbCacheReqFlagDB',
+      KeyConditionExpression: '#pk = :pk AND #amount BETWEEN :amount AND :amount_ratio',
+      ExpressionAttributeNames: { '#pk': 'pairTradeTypeChainId', '#amount': 'amount' },
+      ExpressionAttributeValues: { ':pk': 'a/b/0/1', ':amount': 5, ':amount_ratio': 10 },
+    })
+
+    expect(Items!.map((item) => item.amount)).toEqual([5, 10])
+  })
+
+  it('orders queries by sort key and applies the limit', () => {
+    const { Items } = dynamoDb.query({
+      TableName: 'RoutesDbCacheReqFlagDB',
+      KeyConditionExpression: '#pk = :pk',
+      ExpressionAttributeNames: { '#pk': 'pairTradeTypeChainId' },
+      ExpressionAttributeValues: { ':pk': 'a/b/0/1' },
+      ScanIndexForward: false,
+      Limit: 2,
+    })
+
+    expect(Items!.map((item) => item.amount)).toEqual([50, 10])
+  })
+
+  it('does not return expired items', () => {
+    const Key = { chainIdTokenAddress: '1-0xa' }
+    dynamoDb.put({ TableName: 'TokenPropertiesCachingDb', Item: { ...Key, ttl: Math.floor(Date.now() / 1000) - 1 } })
+
+    expect(dynamoDb.get({ TableName: 'TokenPropertiesCachingDb', Key }).Item).toBeUndefined()
+  })
+
+  it('batch writes and gets across tables', () => {
+    dynamoDb.batchWrite({
+      RequestItems: {
+        TokenPropertiesCachingDb: [
+          { PutRequest: { Item: { chainIdTokenAddress: '1-0xa' } } },
+          { PutRequest: { Item: { chainIdTokenAddress: '1-0xb' } } },
+        ],
+      },
+    })
+
+    const { Responses } = dynamoDb.batchGet({
+      RequestItems: {
+        TokenPropertiesCachingDb: { Keys: [{ chainIdTokenAddress: '1-0xa' }, { chainIdTokenAddress: '1-0xc' }] },
+      },
+    })
+
+    expect(Responses!.TokenPropertiesCachingDb).toEqual([{ chainIdTokenAddress: '1-0xa' }])
+  })
+
+  it('rejects unknown tables and keys missing from the key schema', () => {
+    expect(() => dynamoDb.get({ TableName: 'Unknown', Key: { id: 1 } })).toThrow('not configured')
+    expect(() =>
+      dynamoDb.put({ TableName: 'RoutesDbCacheReqFlagDB', Item: { pairTradeTypeChainId: 'a/b/0/1' } })
+    ).toThrow('key schema')
+  })
+})
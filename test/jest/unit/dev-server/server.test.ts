@@ -0,0 +1,69 @@
+import { describe, expect, it, jest } from '@jest/globals'
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda'
+import Logger from 'bunyan'
+import { invokeRoute, toAPIGatewayProxyEvent } from '../../../../lib/dev-server/server'
+import { APIGatewayProxyHandler } from '../../../../lib/handlers/handler'
+
+const log = Logger.createLogger({ name: 'test', level: Logger.FATAL })
+
+describe('dev server', () => {
+  describe('toAPIGatewayProxyEvent', () => {
+    it('maps the query string, headers and body', () => {
+      const event = toAPIGatewayProxyEvent({
+        method: 'POST',
+        url: '/quote?protocols=v2,v3&amount=1&amount=2',
+        headers: { 'content-type': 'application/json', 'x-forwarded-for': ['1.1.1.1', '2.2.2.2'] },
+        body: '{"amount":"1"}',
+      })
+
+      expect(event.httpMethod).toEqual('POST')
+      expect(event.path).toEqual('/quote')
+      expect(event.queryStringParameters).toEqual({ protocols: 'v2,v3', amount: '2' })
+      expect(event.multiValueQueryStringParameters).toEqual({ protocols: ['v2,v3'], amount: ['1', '2'] })
+      expect(event.headers).toEqual({ 'content-type': 'application/json', 'x-forwarded-for': '2.2.2.2' })
+      expect(event.body).toEqual('{"amount":"1"}')
+    })
+
+    it('sends null without a query string or body, like API Gateway', () => {
+      const event = toAPIGatewayProxyEvent({ method: 'GET', url: '/openapi.json', headers: {}, body: '' })
+
+      expect(event.queryStringParameters).toBeNull()
+      expect(event.multiValueQueryStringParameters).toBeNull()
+      expect(event.body).toBeNull()
+    })
+  })
+
+  describe('invokeRoute', () => {
+    it('invokes the handler of the method and path with a lambda context', async () => {
+      const handler = jest.fn<APIGatewayProxyHandler>(async () => ({ statusCode: 200, body: '{}' }))
+
+      const result = await invokeRoute(
+        { 'GET /quote': handler },
+        { method: 'GET', url: '/quote?amount=1', headers: {}, body: '' },
+        log,
+        1000
+      )
+
+      expect(result.statusCode).toEqual(200)
+      const [event, context] = handler.mock.calls[0] as [APIGatewayProxyEvent, Context]
+      expect(event.queryStringParameters).toEqual({ amount: '1' })
+      expect(context.awsRequestId).toBeDefined()
+      expect(context.getRemainingTimeInMillis()).toBeLessThanOrEqual(1000)
+    })
+
+    it('responds 404 to routes without a handler and 502 when the handler throws', async () => {
+      const routes = {
+        'GET /quote': async (): Promise<APIGatewayProxyResult> => {
+          throw new Error('boom')
+        },
+      }
+
+      const notFound = await invokeRoute(routes, { method: 'POST', url: '/quote', headers: {}, body: '' }, log)
+      const thrown = await invokeRoute(routes, { method: 'GET', url: '/quote', headers: {}, body: '' }, log)
+
+      expect(notFound.statusCode).toEqual(404)
+      expect(JSON.parse(notFound.body).errorCode).toEqual('NOT_FOUND')
+      expect(thrown.statusCode).toEqual(502)
+    })
+  })
+})
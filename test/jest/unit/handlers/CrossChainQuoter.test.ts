@@ -0,0 +1,142 @@
+import { describe, expect, it, jest } from '@jest/globals'
+import { ChainId, Token } from '@uniswap/sdk-core'
+import Logger from 'bunyan'
+import { CrossChainQuoter, SwapLegRequest } from '../../../../lib/handlers/quote/CrossChainQuoter'
+import { RoutingApiSimulationStatus } from '../../../../lib/handlers/quote/util/simulation'
+import { LocalBridgeQuoteProvider } from '../../../../lib/handlers/router-entities/bridge/local-bridge-quote-provider'
+import { QuoteResponse } from '../../../../lib/handlers/schema'
+import { DAI_ON, USDC_ON } from '../../../utils/tokens'
+
+const DAI_BASE = new Token(ChainId.BASE, '0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb', 18, 'DAI')
+
+const log = Logger.createLogger({ name: 'test', level: Logger.FATAL })
+
+const bridgeQuoteProvider = new LocalBridgeQuoteProvider({
+  assets: [
+    {
+      sourceChainId: ChainId.MAINNET,
+      sourceTokenAddress: USDC_ON(ChainId.MAINNET).address,
+      destinationChainId: ChainId.BASE,
+      destinationTokenAddress: USDC_ON(ChainId.BASE).address,
+    },
+  ],
+  feeBips: 10,
+  estimatedLatencySeconds: 60,
+})
+
+const swapQuote = (request: SwapLegRequest, quote: string): QuoteResponse => ({
+  quoteId: 'abcde',
+  amount: request.amount,
+  amountDecimals: '0',
+  quote,
+  quoteDecimals: '0',
+  quoteGasAdjusted: quote,
+  quoteGasAdjustedDecimals: '0',
+  gasUseEstimateQuote: '0',
+  gasUseEstimateQuoteDecimals: '0',
+  gasUseEstimate: '100000',
+  gasUseEstimateUSD: '1.5',
+  simulationStatus: RoutingApiSimulationStatus.UNATTEMPTED,
+  gasPriceWei: '1',
+  blockNumber: '1',
+  route: [],
+  routeString: `[V3] ${request.tokenInAddress} --> ${request.tokenOutAddress}`,
+  hitsCachedRoutes: false,
+})
+
+describe('CrossChainQuoter', () => {
+  it('quotes a single bridge leg when both tokens are the bridged asset', async () => {
+    const quoteSwapLeg = jest.fn(async (_: SwapLegRequest) => ({ statusCode: 500 as const, errorCode: 'UNEXPECTED' }))
+    const quoter = new CrossChainQuoter(bridgeQuoteProvider, quoteSwapLeg, log)
+
+    const result = await quoter.quote({
+      quoteId: 'abcde',
+      currencyIn: USDC_ON(ChainId.MAINNET),
+      tokenInAddress: USDC_ON(ChainId.MAINNET).address,
+      currencyOut: USDC_ON(ChainId.BASE),
+      tokenOutAddress: USDC_ON(ChainId.BASE).address,
+      amount: '1000000',
+    })
+
+    expect(quoteSwapLeg).not.toHaveBeenCalled()
+    expect(result.statusCode).toEqual(200)
+
+    const body = (result as any).body as QuoteResponse
+    expect(body.quote).toEqual('999000')
+    expect(body.legs).toHaveLength(1)
+    expect(body.legs![0]).toMatchObject({
+      type: 'bridge',
+      chainId: ChainId.MAINNET,
+      destinationChainId: ChainId.BASE,
+      amountIn: '1000000',
+      amountOut: '999000',
+      estimatedLatencySeconds: 60,
+    })
+  })
+
+  it('swaps into and out of the bridged asset', async () => {
+    const quoteSwapLeg = jest.fn(async (request: SwapLegRequest) => ({
+      statusCode: 200 as const,
+      body: swapQuote(request, request.leg == 'source' ? '2000000' : '1990000000000000000'),
+    }))
+    const quoter = new CrossChainQuoter(bridgeQuoteProvider, quoteSwapLeg, log)
+
+    const result = await quoter.quote({
+      quoteId: 'abcde',
+      currencyIn: DAI_ON(ChainId.MAINNET),
+      tokenInAddress: DAI_ON(ChainId.MAINNET).address,
+      currencyOut: DAI_BASE,
+      tokenOutAddress: DAI_BASE.address,
+      amount: '2000000000000000000',
+    })
+
+    expect(result.statusCode).toEqual(200)
+
+    const body = (result as any).body as QuoteResponse
+    expect(body.legs!.map((leg) => leg.type)).toEqual(['swap', 'bridge', 'swap'])
+    expect(body.legs![0].chainId).toEqual(ChainId.MAINNET)
+    expect(body.legs![2].chainId).toEqual(ChainId.BASE)
+    // The destination swap is quoted with the bridged amount, net of the bridge fee.
+    expect(quoteSwapLeg.mock.calls[1][0].amount).toEqual('1998000')
+    expect(body.quote).toEqual('1990000000000000000')
+    expect(body.gasUseEstimate).toEqual('200000')
+    expect(body.gasUseEstimateUSD).toEqual('3')
+  })
+
+  it('returns the swap leg error when a swap leg can not be quoted', async () => {
+    const quoteSwapLeg = jest.fn(async (_: SwapLegRequest) => ({
+      statusCode: 404 as const,
+      errorCode: 'NO_ROUTE',
+      detail: 'No route found',
+    }))
+    const quoter = new CrossChainQuoter(bridgeQuoteProvider, quoteSwapLeg, log)
+
+    const result = await quoter.quote({
+      quoteId: 'abcde',
+      currencyIn: DAI_ON(ChainId.MAINNET),
+      tokenInAddress: DAI_ON(ChainId.MAINNET).address,
+      currencyOut: USDC_ON(ChainId.BASE),
+      tokenOutAddress: USDC_ON(ChainId.BASE).address,
+      amount: '1000000000000000000',
+    })
+
+    expect(result).toEqual({ statusCode: 404, errorCode: 'NO_ROUTE', detail: 'No route found' })
+  })
+
+  it('returns NO_BRIDGE_ROUTE when the chains are not connected', async () => {
+    const quoteSwapLeg = jest.fn(async (_: SwapLegRequest) => ({ statusCode: 500 as const, errorCode: 'UNEXPECTED' }))
+    const quoter = new CrossChainQuoter(bridgeQuoteProvider, quoteSwapLeg, log)
+
+    const result = await quoter.quote({
+      quoteId: 'abcde',
+      currencyIn: USDC_ON(ChainId.MAINNET),
+      tokenInAddress: USDC_ON(ChainId.MAINNET).address,
+      currencyOut: USDC_ON(ChainId.OPTIMISM),
+      tokenOutAddress: USDC_ON(ChainId.OPTIMISM).address,
+      amount: '1000000',
+    })
+
+    expect(result.statusCode).toEqual(404)
+    expect((result as any).errorCode).toEqual('NO_BRIDGE_ROUTE')
+  })
+})
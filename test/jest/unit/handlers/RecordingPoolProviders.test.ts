@@ -0,0 +1,80 @@
+import { describe, expect, it, jest } from '@jest/globals'
+import { ChainId, CurrencyAmount, Token } from '@uniswap/sdk-core'
+import { IV2PoolProvider, IV3PoolProvider } from '@uniswap/smart-order-router'
+import { Pair } from '@uniswap/v2-sdk'
+import { encodeSqrtRatioX96, FeeAmount, Pool, TickMath } from '@uniswap/v3-sdk'
+import {
+  CandidatePoolsRecorder,
+  RecordingV2PoolProvider,
+  RecordingV3PoolProvider,
+} from '../../../../lib/handlers/quote/explain/RecordingPoolProviders'
+
+const USDC = new Token(ChainId.MAINNET, '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 6, 'USDC')
+const WETH = new Token(ChainId.MAINNET, '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', 18, 'WETH')
+
+const V3_POOL = new Pool(
+  USDC,
+  WETH,
+  FeeAmount.LOW,
+  encodeSqrtRatioX96(1, 1),
+  1_000_000,
+  TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(1, 1))
+)
+const V2_PAIR = new Pair(CurrencyAmount.fromRawAmount(USDC, 100), CurrencyAmount.fromRawAmount(WETH, 200))
+
+describe('RecordingPoolProviders', () => {
+  it('records the V3 pools loaded by the router once per pool', async () => {
+    const poolProvider: IV3PoolProvider = {
+      getPools: jest.fn(async () => ({
+        getPool: () => V3_POOL,
+        getPoolByAddress: () => V3_POOL,
+        getAllPools: () => [V3_POOL],
+      })),
+      getPoolAddress: jest.fn(() => ({ poolAddress: '0xpool', token0: V3_POOL.token0, token1: V3_POOL.token1 })),
+    } as any
+    const recorder = new CandidatePoolsRecorder()
+    const recordingPoolProvider = new RecordingV3PoolProvider(poolProvider, recorder)
+
+    const accessor = await recordingPoolProvider.getPools([[USDC, WETH, FeeAmount.LOW]])
+    await recordingPoolProvider.getPools([[USDC, WETH, FeeAmount.LOW]])
+
+    expect(accessor.getAllPools()).toEqual([V3_POOL])
+    expect(recorder.snapshot()).toEqual({
+      V2: [],
+      V3: [
+        {
+          address: '0xpool',
+          token0: V3_POOL.token0.address,
+          token1: V3_POOL.token1.address,
+          fee: FeeAmount.LOW,
+          liquidity: '1000000',
+        },
+      ],
+      V4: [],
+    })
+  })
+
+  it('records the V2 pairs loaded by the router', async () => {
+    const poolProvider: IV2PoolProvider = {
+      getPools: jest.fn(async () => ({
+        getPool: () => V2_PAIR,
+        getPoolByAddress: () => V2_PAIR,
+        getAllPools: () => [V2_PAIR],
+      })),
+      getPoolAddress: jest.fn(),
+    } as any
+    const recorder = new CandidatePoolsRecorder()
+
+    await new RecordingV2PoolProvider(poolProvider, recorder).getPools([[USDC, WETH]])
+
+    expect(recorder.snapshot().V2).toEqual([
+      {
+        address: V2_PAIR.liquidityToken.address,
+        token0: V2_PAIR.token0.address,
+        token1: V2_PAIR.token1.address,
+        reserve0: V2_PAIR.reserve0.quotient.toString(),
+        reserve1: V2_PAIR.reserve1.quotient.toString(),
+      },
+    ])
+  })
+})
@@ -5,7 +5,15 @@ import { TradeTypeParam } from '../../../../lib/handlers/quote/schema/quote-sche
 import { expect, jest } from '@jest/globals'
 import { SwapType } from '@uniswap/smart-order-router'
 import { utils } from 'ethers'
-import { UNIVERSAL_ROUTER_ADDRESS, UniversalRouterVersion } from '@uniswap/universal-router-sdk'
+import {
+  CommandParser,
+  CommandType,
+  ROUTER_AS_RECIPIENT,
+  RoutePlanner,
+  SwapRouter,
+  UNIVERSAL_ROUTER_ADDRESS,
+  UniversalRouterVersion,
+} from '@uniswap/universal-router-sdk'
 
 import {
   SwapOptionsFactory,
@@ -300,6 +308,68 @@ describe('SwapOptionsFactory - Universal Router', () => {
 
     expect(swapOptions!.simulate).toBeUndefined()
   })
+  it('Sends the output to the router if outputs are provided', () => {
+    const input = UniversalRouterInputFactory.build({
+      tradeType: 'exactOut',
+      recipient: undefined,
+      outputs: [
+        { recipient: '0x0000000000000000000000000000000000000003', amount: '1' },
+        { recipient: '0x0000000000000000000000000000000000000004', amount: '2' },
+      ],
+    })
+
+    const swapOptions = SwapOptionsFactory.createUniversalRouterOptions({ ...input })
+    expect(swapOptions).toBeDefined()
+
+    expect(swapOptions!.recipient).toEqual(ROUTER_AS_RECIPIENT)
+  })
+})
+
+describe('SwapOptionsFactory - Split outputs', () => {
+  const currencyOut = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000002', 18, 'BAR', 'Bar')
+
+  const planner = new RoutePlanner()
+  planner.addCommand(CommandType.SWEEP, [currencyOut.address, ROUTER_AS_RECIPIENT, '3'])
+
+  const methodParameters = {
+    calldata: SwapRouter.INTERFACE.encodeFunctionData('execute(bytes,bytes[],uint256)', [
+      planner.commands,
+      planner.inputs,
+      100,
+    ]),
+    value: '0x00',
+    to: MAINNET_UNIVERSAL_ROUTER_ADDRESS,
+  }
+
+  it('Transfers each output to its recipient and sweeps the last one', () => {
+    const split = SwapOptionsFactory.splitOutputs(methodParameters, currencyOut, [
+      { recipient: '0x0000000000000000000000000000000000000003', amount: '1' },
+      { recipient: '0x0000000000000000000000000000000000000004', amount: '2' },
+    ])
+
+    expect(split.to).toEqual(MAINNET_UNIVERSAL_ROUTER_ADDRESS)
+    expect(split.value).toEqual('0x00')
+
+    const { commands } = CommandParser.parseCalldata(split.calldata)
+    expect(commands.map((command) => command.commandType)).toEqual([
+      CommandType.SWEEP,
+      CommandType.TRANSFER,
+      CommandType.SWEEP,
+    ])
+    expect(commands[1].params.map((param) => param.value.toString().toLowerCase())).toEqual([
+      currencyOut.address,
+      '0x0000000000000000000000000000000000000003',
+      '1',
+    ])
+    expect(commands[2].params.map((param) => param.value.toString().toLowerCase())).toEqual([
+      currencyOut.address,
+      '0x0000000000000000000000000000000000000004',
+      '2',
+    ])
+
+    const { args } = SwapRouter.INTERFACE.parseTransaction({ data: split.calldata })
+    expect(args.deadline.toNumber()).toEqual(100)
+  })
 })
 
 class swapRouter02InputFactory extends Factory<SwapOptionsSwapRouter02Input> {
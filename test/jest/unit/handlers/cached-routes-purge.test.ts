@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals'
+import { ChainId } from '@uniswap/sdk-core'
+import { APIGatewayProxyEvent, Context } from 'aws-lambda'
+import Logger from 'bunyan'
+import { CachedRoutesPurgeHandler } from '../../../../lib/handlers/cached-routes-purge/cached-routes-purge'
+import { CachedRoutesPurgeRequestBody } from '../../../../lib/handlers/cached-routes-purge/schema/cached-routes-purge-schema'
+import { ContainerInjected } from '../../../../lib/handlers/injector-sor'
+import {
+  DynamoRouteCachingProvider,
+  InMemoryRoutesStore,
+  routesIndexKey,
+} from '../../../../lib/handlers/router-entities/route-caching'
+
+const PAIR = '0x0000000000000000000000000000000000000001/0x0000000000000000000000000000000000000002/0/1'
+const POOL = '0x0000000000000000000000000000000000000003'
+
+describe('CachedRoutesPurgeHandler', () => {
+  let routesStore: InMemoryRoutesStore
+  let warn: jest.Mock
+
+  beforeEach(async () => {
+    process.env.UNICORN_SECRET = 'secret'
+    routesStore = new InMemoryRoutesStore()
+    const ttl = Math.floor(Date.now() / 1000) + 60
+    await routesStore.putRoutes([
+      { pairTradeTypeChainId: PAIR, routeId: 1, blockNumber: 1, protocol: 'V3', item: Buffer.from('{}'), ttl },
+    ])
+    await routesStore.putRoutesIndexEntries([
+      { indexKey: routesIndexKey(ChainId.MAINNET, 'pool', POOL), pairTradeTypeChainId: PAIR, routeId: 1, ttl },
+    ])
+  })
+
+  afterEach(() => {
+    delete process.env.UNICORN_SECRET
+  })
+
+  const handleRequest = (requestBody: CachedRoutesPurgeRequestBody) => {
+    const log = Logger.createLogger({ name: 'test', level: Logger.FATAL })
+    warn = jest.fn()
+    log.warn = warn as any
+    const routeCachingProvider = new DynamoRouteCachingProvider({
+      routesStore,
+      cachingRefreshDispatcher: { dispatch: async () => {} },
+    })
+
+    return new CachedRoutesPurgeHandler('cached-routes-purge', Promise.resolve(undefined as any)).handleRequest({
+      context: {} as Context,
+      event: { requestContext: { identity: { sourceIp: '127.0.0.1' } } } as APIGatewayProxyEvent,
+      requestBody,
+      requestQueryParams: undefined,
+      containerInjected: { dependencies: { [ChainId.MAINNET]: { routeCachingProvider } } } as ContainerInjected,
+      requestInjected: { id: 'purge', log, metric: { putMetric: jest.fn() } as any },
+    })
+  }
+
+  it('purges the routes of the pool and logs an audit entry', async () => {
+    const result = await handleRequest({
+      unicornSecret: 'secret',
+      chainId: ChainId.MAINNET,
+      poolAddress: POOL,
+      reason: 'pool drained',
+    })
+
+    expect(result).toEqual({
+      statusCode: 200,
+      body: { pairTradeTypeChainIds: [PAIR], routesDeleted: 1, cachingRequestFlagsDeleted: 0, indexEntriesDeleted: 1 },
+    })
+    expect(await routesStore.getRoutes(PAIR)).toEqual([])
+    expect(warn).toHaveBeenCalledWith(
+      {
+        audit: expect.objectContaining({
+          target: { chainId: ChainId.MAINNET, poolAddress: POOL },
+          reason: 'pool drained',
+          sourceIp: '127.0.0.1',
+          outcome: 'PURGED',
+        }),
+      },
+      'Cached routes purged'
+    )
+  })
+
+  it('rejects requests without the unicorn secret, and logs an audit entry', async () => {
+    const result = await handleRequest({
+      unicornSecret: 'wrong',
+      chainId: ChainId.MAINNET,
+      pairTradeTypeChainId: PAIR,
+      reason: 'pool drained',
+    })
+
+    expect(result.statusCode).toEqual(403)
+    expect(await routesStore.getRoutes(PAIR)).toHaveLength(1)
+    expect(warn).toHaveBeenCalledWith(
+      { audit: expect.objectContaining({ outcome: 'UNAUTHORIZED' }) },
+      'Cached routes purge rejected'
+    )
+  })
+
+  it('rejects requests with a secret of another length', async () => {
+    const result = await handleRequest({
+      unicornSecret: 'secret-but-longer',
+      chainId: ChainId.MAINNET,
+      pairTradeTypeChainId: PAIR,
+      reason: 'pool drained',
+    })
+
+    expect(result.statusCode).toEqual(403)
+  })
+
+  it('rejects targets selecting routes in more than one way', async () => {
+    const result = await handleRequest({
+      unicornSecret: 'secret',
+      chainId: ChainId.MAINNET,
+      poolAddress: POOL,
+      pairTradeTypeChainId: PAIR,
+      reason: 'pool drained',
+    })
+
+    expect(result).toMatchObject({ statusCode: 400, errorCode: 'INVALID_PURGE_TARGET' })
+    expect(await routesStore.getRoutes(PAIR)).toHaveLength(1)
+  })
+
+  it('rejects pairs of another chain', async () => {
+    const result = await handleRequest({
+      unicornSecret: 'secret',
+      chainId: ChainId.OPTIMISM,
+      pairTradeTypeChainId: PAIR,
+      reason: 'pool drained',
+    })
+
+    expect(result.statusCode).toEqual(400)
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, expect, it, jest } from '@jest/globals'
+import { metric } from '@uniswap/smart-order-router'
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context, SQSEvent, SQSRecord } from 'aws-lambda'
+import { CachingRefreshHandler } from '../../../../lib/handlers/caching-refresh/caching-refresh'
+
+const QUERY_STRING_PARAMETERS = {
+  tokenInAddress: 'WETH',
+  tokenInChainId: '1',
+  tokenOutAddress: 'USDC',
+  amount: '1',
+  intent: 'caching',
+}
+
+const record = (sentTimestamp: number): SQSRecord =>
+  ({
+    messageId: `message-${sentTimestamp}`,
+    body: JSON.stringify({ queryStringParameters: QUERY_STRING_PARAMETERS }),
+    attributes: { SentTimestamp: sentTimestamp.toString() },
+  } as unknown as SQSRecord)
+
+const quoteHandler = (statusCode = 200) =>
+  jest.fn(
+    async (_event: APIGatewayProxyEvent, _context: Context): Promise<APIGatewayProxyResult> => ({
+      statusCode,
+      body: '',
+    })
+  )
+
+describe('CachingRefreshHandler', () => {
+  it('runs the caching quote of each message', async () => {
+    const handler = quoteHandler()
+
+    await new CachingRefreshHandler(handler).handler({ Records: [record(Date.now())] } as SQSEvent, {} as Context)
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(handler.mock.calls[0]![0].queryStringParameters).toEqual(QUERY_STRING_PARAMETERS)
+  })
+
+  it('drops refreshes that waited too long in the queue', async () => {
+    const handler = quoteHandler()
+    const putMetric = jest.spyOn(metric, 'putMetric')
+
+    await new CachingRefreshHandler(handler, 1000).handler(
+      { Records: [record(Date.now() - 2000), record(Date.now())] } as SQSEvent,
+      {} as Context
+    )
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(putMetric.mock.calls.map(([name]) => name)).toEqual(['CachingRefreshStale', 'CachingRefreshStale_mainnet'])
+    putMetric.mockRestore()
+  })
+
+  it('does not fail the batch when a caching quote fails', async () => {
+    const handler = jest.fn(async (): Promise<APIGatewayProxyResult> => {
+      throw new Error('No route found')
+    })
+
+    await expect(
+      new CachingRefreshHandler(handler).handler({ Records: [record(Date.now())] } as SQSEvent, {} as Context)
+    ).resolves.toBeUndefined()
+  })
+})
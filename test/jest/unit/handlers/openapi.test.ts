@@ -0,0 +1,66 @@
+import Joi from '@hapi/joi'
+import { describe, expect, it } from '@jest/globals'
+import { buildOpenApiDocument } from '../../../../lib/handlers/openapi/document'
+import document from '../../../../lib/handlers/openapi/openapi-document.json'
+import { joiToJsonSchema } from '../../../../lib/handlers/openapi/util/joi-to-json-schema'
+
+describe('openapi', () => {
+  it('matches the committed document, regenerate it with scripts/generate_openapi.ts', () => {
+    expect(buildOpenApiDocument()).toEqual(document)
+  })
+
+  it('converts the validation rules of Joi schemas', () => {
+    const schema = Joi.object({
+      address: Joi.string().alphanum().max(42).required(),
+      amount: Joi.string()
+        .pattern(/^[0-9]+$/)
+        .required(),
+      type: Joi.string().valid('exactIn', 'exactOut').required(),
+      blockNumber: Joi.number().integer().min(1).optional(),
+      maxPriceImpact: Joi.number().greater(0).max(100),
+      enabled: Joi.boolean().default(false),
+      protocols: Joi.array().items(Joi.string()).min(1),
+    })
+
+    expect(joiToJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        address: { type: 'string', pattern: '^[a-zA-Z0-9]*$', maxLength: 42 },
+        amount: { type: 'string', pattern: '^[0-9]+$' },
+        type: { type: 'string', enum: ['exactIn', 'exactOut'] },
+        blockNumber: { type: 'integer', minimum: 1 },
+        maxPriceImpact: { type: 'number', exclusiveMinimum: 0, maximum: 100 },
+        enabled: { type: 'boolean', default: false },
+        protocols: { type: 'array', items: { type: 'string' }, minItems: 1 },
+      },
+      required: ['address', 'amount', 'type'],
+    })
+  })
+
+  it('documents conditionally required keys as optional', () => {
+    const schema = Joi.object({
+      amount: Joi.string().required().when('outputs', { is: Joi.exist(), then: Joi.optional() }),
+      outputs: Joi.array().items(Joi.string()),
+    })
+
+    expect(joiToJsonSchema(schema).required).toBeUndefined()
+  })
+
+  it('references components nested in other schemas', () => {
+    const token = Joi.object({ address: Joi.string().required() })
+    const pool = Joi.object({
+      token0: token.required(),
+      route: Joi.array().items(Joi.any()).meta({ openApiRef: 'Route' }),
+    })
+
+    expect(joiToJsonSchema(pool, { refs: { Token: token } }).properties).toEqual({
+      token0: { $ref: '#/components/schemas/Token' },
+      route: { $ref: '#/components/schemas/Route' },
+    })
+    expect(joiToJsonSchema(token, { refs: { Token: token } })).toEqual({
+      type: 'object',
+      properties: { address: { type: 'string' } },
+      required: ['address'],
+    })
+  })
+})
@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals'
+import { ChainId } from '@uniswap/sdk-core'
+import NodeCache from 'node-cache'
+import { PRICE_CHECK_CACHE_TTL, PriceCheckHandler } from '../../../../lib/handlers/price-check/price-check'
+import { decimalToFraction, evaluateTargetPrice } from '../../../../lib/handlers/price-check/util/target-price'
+import { QuoteHandler } from '../../../../lib/handlers/quote/quote'
+
+describe('price check', () => {
+  it('parses decimal strings into exact fractions', () => {
+    expect(decimalToFraction('1234.5678').toFixed(4)).toEqual('1234.5678')
+    expect(decimalToFraction('.5').toFixed(1)).toEqual('0.5')
+    expect(decimalToFraction('42').toFixed(0)).toEqual('42')
+  })
+
+  it('meets the target when the exactIn price is above it', () => {
+    // 1 ETH for 2500 USDC against a target of 2400 USDC per ETH.
+    expect(evaluateTargetPrice('exactIn', '1', '2500', '2400')).toEqual({
+      targetMet: true,
+      price: '2500.000000000000000000',
+      distanceBips: 416.67,
+    })
+  })
+
+  it('does not meet the target when the exactIn price is below it', () => {
+    const evaluation = evaluateTargetPrice('exactIn', '2', '4800', '2500')!
+
+    expect(evaluation.targetMet).toBeFalsy()
+    expect(evaluation.price).toEqual('2400.000000000000000000')
+    expect(evaluation.distanceBips).toEqual(-400)
+  })
+
+  it('inverts the quote for exactOut', () => {
+    // Buying 2500 USDC costs 1.25 ETH, so the price is 2000 USDC per ETH.
+    const evaluation = evaluateTargetPrice('exactOut', '2500', '1.25', '2000')!
+
+    expect(evaluation.targetMet).toBeTruthy()
+    expect(evaluation.price).toEqual('2000.000000000000000000')
+    expect(evaluation.distanceBips).toEqual(0)
+  })
+
+  it('has no price for an exactOut quote of zero', () => {
+    expect(evaluateTargetPrice('exactOut', '2500', '0', '2000')).toBeUndefined()
+  })
+})
+
+describe('PriceCheckHandler', () => {
+  const quoteQueryParams = {
+    tokenInAddress: 'WETH',
+    tokenInChainId: ChainId.MAINNET,
+    tokenOutAddress: 'USDC',
+    tokenOutChainId: ChainId.MAINNET,
+    amount: '1000000000000000000',
+    type: 'exactIn',
+  }
+
+  let handleQuoteRequest: jest.Mock<(...args: any[]) => Promise<any>>
+  let getBlockNumber: jest.Mock<() => Promise<number>>
+  let handler: PriceCheckHandler
+
+  const priceCheck = (targetPrice: string, type: string = quoteQueryParams.type) =>
+    handler.handleRequest({
+      requestQueryParams: { ...quoteQueryParams, type, targetPrice },
+      requestInjected: {
+        chainId: ChainId.MAINNET,
+        log: { info: () => {}, warn: () => {} },
+        metric: { putMetric: () => {} },
+      },
+      containerInjected: { dependencies: { [ChainId.MAINNET]: { provider: { getBlockNumber } } } },
+    } as any)
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    getBlockNumber = jest.fn(async () => 10)
+    handleQuoteRequest = jest.fn(async () => ({
+      statusCode: 200,
+      body: { amountDecimals: '1', quoteGasAdjustedDecimals: '2500', blockNumber: '10' },
+    }))
+    handler = new PriceCheckHandler(
+      'price-check',
+      new Promise(() => {}),
+      { handleRequest: handleQuoteRequest } as unknown as QuoteHandler,
+      new NodeCache({ useClones: false, checkperiod: 0 })
+    )
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('quotes the first check of a pair', async () => {
+    const result = await priceCheck('2400')
+
+    expect(result.statusCode).toEqual(200)
+    expect((result as any).body).toMatchObject({ targetMet: true, blockNumber: '10' })
+    expect(handleQuoteRequest).toHaveBeenCalledTimes(1)
+    expect(handleQuoteRequest.mock.calls[0]![0].requestQueryParams).toEqual(quoteQueryParams)
+  })
+
+  it('serves the quote of the previous check within the same block, whatever the target price', async () => {
+    await priceCheck('2400')
+    jest.advanceTimersByTime(PRICE_CHECK_CACHE_TTL(ChainId.MAINNET) * 1000 - 1000)
+    const result = await priceCheck('2600')
+
+    expect((result as any).body).toMatchObject({ targetMet: false, targetPrice: '2600' })
+    expect(handleQuoteRequest).toHaveBeenCalledTimes(1)
+  })
+
+  it('quotes again when a new block lands before the previous check expires', async () => {
+    await priceCheck('2400')
+    getBlockNumber.mockResolvedValue(11)
+    await priceCheck('2400')
+
+    expect(handleQuoteRequest).toHaveBeenCalledTimes(2)
+  })
+
+  it('quotes again when the latest block number cannot be fetched', async () => {
+    await priceCheck('2400')
+    getBlockNumber.mockRejectedValue(new Error('RPC error'))
+    await priceCheck('2400')
+
+    expect(handleQuoteRequest).toHaveBeenCalledTimes(2)
+  })
+
+  it('quotes again once the block of the previous check has passed', async () => {
+    await priceCheck('2400')
+    jest.advanceTimersByTime(PRICE_CHECK_CACHE_TTL(ChainId.MAINNET) * 1000 + 1)
+    await priceCheck('2400')
+
+    expect(handleQuoteRequest).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not cache failed quotes', async () => {
+    handleQuoteRequest.mockResolvedValueOnce({ statusCode: 404, errorCode: 'NO_ROUTE', detail: 'No route found' })
+
+    expect((await priceCheck('2400')).statusCode).toEqual(404)
+    expect((await priceCheck('2400')).statusCode).toEqual(200)
+    expect(handleQuoteRequest).toHaveBeenCalledTimes(2)
+  })
+
+  it('finds no route for an exactOut quote of zero', async () => {
+    handleQuoteRequest.mockResolvedValueOnce({
+      statusCode: 200,
+      body: { amountDecimals: '2500', quoteGasAdjustedDecimals: '0', blockNumber: '10' },
+    })
+
+    expect(await priceCheck('2000', 'exactOut')).toMatchObject({ statusCode: 404, errorCode: 'NO_ROUTE' })
+  })
+})
@@ -0,0 +1,146 @@
+import { describe, expect, it } from '@jest/globals'
+import {
+  QuoteQueryParams,
+  QuoteRequestBody,
+  QuoteRequestBodyJoi,
+  resolveQuoteQueryParams,
+} from '../../../../lib/handlers/quote/schema/quote-schema'
+
+const BODY: QuoteRequestBody = {
+  tokenInAddress: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+  tokenInChainId: 1,
+  tokenOutAddress: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+  tokenOutChainId: 1,
+  amount: '1000000',
+  type: 'exactIn',
+}
+
+describe('quote schema', () => {
+  describe('QuoteRequestBodyJoi', () => {
+    it('accepts nested permit, portion and simulation options', () => {
+      const { error, value } = QuoteRequestBodyJoi.validate({
+        ...BODY,
+        protocols: ['v2', 'v3'],
+        debugRoutingConfig: { maxSplits: 1 },
+        permit: { signature: '0x1234', nonce: '0', expiration: 1000, amount: '1', sigDeadline: 1000 },
+        portion: { bips: '15', recipient: '0xd8da6bf26964af9d7eed9e03e53415d37aa96045' },
+        simulation: { fromAddress: '0xd8da6bf26964af9d7eed9e03e53415d37aa96045' },
+      })
+
+      expect(error).toBeUndefined()
+      expect(value.protocols).toEqual(['v2', 'v3'])
+      expect(value.portion.bips).toEqual(15)
+    })
+
+    it('accepts portion bips as a number, and rejects bips past 100%', () => {
+      const portion = (bips: number) => ({
+        ...BODY,
+        portion: { bips, recipient: '0xd8da6bf26964af9d7eed9e03e53415d37aa96045' },
+      })
+
+      expect(QuoteRequestBodyJoi.validate(portion(15)).value.portion.bips).toEqual(15)
+      expect(QuoteRequestBodyJoi.validate(portion(10001)).error?.message).toContain('portion.bips')
+      expect(QuoteRequestBodyJoi.validate(portion(1.5)).error?.message).toContain('portion.bips')
+    })
+
+    it('defaults the hooks policy to permissive, and rejects unknown policies', () => {
+      expect(QuoteRequestBodyJoi.validate(BODY).value.hooksPolicy).toEqual('permissive')
+      expect(QuoteRequestBodyJoi.validate({ ...BODY, hooksPolicy: 'strict' }).error).toBeUndefined()
+      expect(QuoteRequestBodyJoi.validate({ ...BODY, hooksPolicy: 'paranoid' }).error?.message).toContain('hooksPolicy')
+    })
+
+    it('rejects a permit without a signature', () => {
+      const { error } = QuoteRequestBodyJoi.validate({ ...BODY, permit: { nonce: '0' } })
+
+      expect(error).toBeDefined()
+    })
+
+    it('rejects bodies missing required parameters', () => {
+      const { amount: _, ...body } = BODY
+      const { error } = QuoteRequestBodyJoi.validate(body)
+
+      expect(error?.message).toContain('amount')
+    })
+
+    it('accepts outputs instead of an amount for exactOut', () => {
+      const { amount: _, ...body } = BODY
+      const { error } = QuoteRequestBodyJoi.validate({
+        ...body,
+        type: 'exactOut',
+        outputs: [
+          { recipient: '0xd8da6bf26964af9d7eed9e03e53415d37aa96045', amount: '1000' },
+          { recipient: '0xab5801a7d398351b8be11c439e05c5b3259aec9b', amount: '2000' },
+        ],
+      })
+
+      expect(error).toBeUndefined()
+    })
+
+    it('rejects outputs for exactIn or alongside an amount', () => {
+      const outputs = [{ recipient: '0xd8da6bf26964af9d7eed9e03e53415d37aa96045', amount: '1000' }]
+      const { amount: _, ...body } = BODY
+
+      expect(QuoteRequestBodyJoi.validate({ ...body, outputs }).error).toBeDefined()
+      expect(QuoteRequestBodyJoi.validate({ ...BODY, type: 'exactOut', outputs }).error).toBeDefined()
+    })
+
+    it('only accepts positive integer block numbers', () => {
+      expect(QuoteRequestBodyJoi.validate({ ...BODY, blockNumber: 19000000 }).error).toBeUndefined()
+      expect(QuoteRequestBodyJoi.validate({ ...BODY, blockNumber: 0 }).error).toBeDefined()
+      expect(QuoteRequestBodyJoi.validate({ ...BODY, blockNumber: 1.5 }).error).toBeDefined()
+    })
+  })
+
+  describe('resolveQuoteQueryParams', () => {
+    it('returns the query params when there is no body', () => {
+      const queryParams = { ...BODY, protocols: 'v2,v3' } as QuoteQueryParams
+
+      expect(resolveQuoteQueryParams(undefined, queryParams)).toBe(queryParams)
+    })
+
+    it('flattens the body into query params', () => {
+      expect(
+        resolveQuoteQueryParams(
+          {
+            ...BODY,
+            debugRoutingConfig: { maxSplits: 1 },
+            permit: { signature: '0x1234', nonce: '0' },
+            portion: { bips: 15, recipient: '0xd8da6bf26964af9d7eed9e03e53415d37aa96045' },
+            simulation: { fromAddress: '0xd8da6bf26964af9d7eed9e03e53415d37aa96045' },
+          },
+          undefined
+        )
+      ).toEqual({
+        ...BODY,
+        debugRoutingConfig: '{"maxSplits":1}',
+        permitSignature: '0x1234',
+        permitNonce: '0',
+        permitExpiration: undefined,
+        permitAmount: undefined,
+        permitSigDeadline: undefined,
+        portionBips: 15,
+        portionAmount: undefined,
+        portionRecipient: '0xd8da6bf26964af9d7eed9e03e53415d37aa96045',
+        simulateFromAddress: '0xd8da6bf26964af9d7eed9e03e53415d37aa96045',
+      })
+    })
+
+    it('sums the outputs into the amount', () => {
+      const { amount: _, ...body } = BODY
+      const queryParams = resolveQuoteQueryParams(
+        {
+          ...body,
+          type: 'exactOut',
+          outputs: [
+            { recipient: '0xd8da6bf26964af9d7eed9e03e53415d37aa96045', amount: '1000' },
+            { recipient: '0xab5801a7d398351b8be11c439e05c5b3259aec9b', amount: '2000' },
+          ],
+        },
+        undefined
+      )
+
+      expect(queryParams!.amount).toEqual('3000')
+      expect(queryParams!.outputs).toHaveLength(2)
+    })
+  })
+})
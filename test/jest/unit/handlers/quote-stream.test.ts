@@ -0,0 +1,159 @@
+import { describe, expect, it, jest } from '@jest/globals'
+import { APIGatewayProxyEvent, APIGatewayProxyEventV2, APIGatewayProxyResult, Context } from 'aws-lambda'
+import { QuoteStreamHandler, QuoteStreamWriter } from '../../../../lib/handlers/quote/stream/quote-stream'
+
+const buildEvent = (accept?: string): APIGatewayProxyEventV2 =>
+  ({
+    version: '2.0',
+    routeKey: '$default',
+    rawPath: '/',
+    rawQueryString: '',
+    headers: accept ? { accept } : {},
+    queryStringParameters: { tokenInAddress: 'USDC', tokenOutAddress: 'ETH', amount: '1', type: 'exactIn' },
+    requestContext: { http: { method: 'GET' } },
+    isBase64Encoded: false,
+  } as any)
+
+const buildWriter = () => {
+  const chunks: string[] = []
+  const writer: QuoteStreamWriter & { statusCode?: number; headers?: any; closed: boolean } = {
+    closed: false,
+    open(statusCode, headers) {
+      this.statusCode = statusCode
+      this.headers = headers
+    },
+    write: (chunk) => {
+      chunks.push(chunk)
+    },
+    close() {
+      this.closed = true
+    },
+  }
+  return { writer, chunks }
+}
+
+const eventsOf = (chunks: string[]) =>
+  chunks.map((chunk) => {
+    const [eventLine, dataLine] = chunk.trim().split('\n')
+    return { event: eventLine.replace('event: ', ''), data: JSON.parse(dataLine.replace('data: ', '')) }
+  })
+
+const delayed = (ms: number, result: APIGatewayProxyResult) =>
+  new Promise<APIGatewayProxyResult>((resolve) => setTimeout(() => resolve(result), ms))
+
+describe('QuoteStreamHandler', () => {
+  it('emits the cached quote, then the standard quote, then done', async () => {
+    const quoteHandler = jest.fn((event: APIGatewayProxyEvent, _: Context) =>
+      event.queryStringParameters!.cachedRoutes == 'only'
+        ? delayed(1, { statusCode: 200, body: JSON.stringify({ quote: '1', hitsCachedRoutes: true }) })
+        : delayed(10, { statusCode: 200, body: JSON.stringify({ quote: '2', hitsCachedRoutes: false }) })
+    )
+    const { writer, chunks } = buildWriter()
+
+    await new QuoteStreamHandler(quoteHandler).stream(buildEvent('text/event-stream'), {} as Context, writer)
+
+    expect(writer.statusCode).toEqual(200)
+    expect(writer.headers['Content-Type']).toEqual('text/event-stream')
+    expect(eventsOf(chunks)).toEqual([
+      { event: 'quote', data: { stage: 'cached', quote: { quote: '1', hitsCachedRoutes: true } } },
+      { event: 'quote', data: { stage: 'standard', quote: { quote: '2', hitsCachedRoutes: false } } },
+      { event: 'done', data: { stage: 'standard' } },
+    ])
+    expect(writer.closed).toBeTruthy()
+    expect(quoteHandler.mock.calls.map(([event]) => event.queryStringParameters!.cachedRoutes)).toEqual([
+      'only',
+      'skip',
+    ])
+  })
+
+  it('skips the cached quote when there are no cached routes', async () => {
+    const quoteHandler = jest.fn((event: APIGatewayProxyEvent, _: Context) =>
+      event.queryStringParameters!.cachedRoutes == 'only'
+        ? delayed(1, { statusCode: 404, body: JSON.stringify({ errorCode: 'NO_ROUTE', detail: 'No route found' }) })
+        : delayed(10, { statusCode: 200, body: JSON.stringify({ quote: '2' }) })
+    )
+    const { writer, chunks } = buildWriter()
+
+    await new QuoteStreamHandler(quoteHandler).stream(buildEvent('text/event-stream'), {} as Context, writer)
+
+    expect(eventsOf(chunks).map(({ event, data }) => [event, data.stage])).toEqual([
+      ['quote', 'standard'],
+      ['done', 'standard'],
+    ])
+  })
+
+  it('drops the cached quote when the standard quote finishes first', async () => {
+    const quoteHandler = jest.fn((event: APIGatewayProxyEvent, _: Context) =>
+      event.queryStringParameters!.cachedRoutes == 'only'
+        ? delayed(10, { statusCode: 200, body: JSON.stringify({ quote: '1' }) })
+        : delayed(1, { statusCode: 200, body: JSON.stringify({ quote: '2' }) })
+    )
+    const { writer, chunks } = buildWriter()
+
+    await new QuoteStreamHandler(quoteHandler).stream(buildEvent('text/event-stream'), {} as Context, writer)
+
+    expect(eventsOf(chunks).map(({ event, data }) => [event, data.stage])).toEqual([
+      ['quote', 'standard'],
+      ['done', 'standard'],
+    ])
+  })
+
+  it('emits an error when no quote could be found', async () => {
+    const quoteHandler = jest.fn((_: APIGatewayProxyEvent, __: Context) =>
+      delayed(1, { statusCode: 404, body: JSON.stringify({ errorCode: 'NO_ROUTE', detail: 'No route found' }) })
+    )
+    const { writer, chunks } = buildWriter()
+
+    await new QuoteStreamHandler(quoteHandler).stream(buildEvent('text/event-stream'), {} as Context, writer)
+
+    expect(eventsOf(chunks)).toEqual([
+      { event: 'error', data: { statusCode: 404, errorCode: 'NO_ROUTE', detail: 'No route found' } },
+      { event: 'done', data: {} },
+    ])
+  })
+
+  it('returns a single JSON body when the client does not accept event streams', async () => {
+    const quoteHandler = jest.fn((_: APIGatewayProxyEvent, __: Context) =>
+      delayed(1, { statusCode: 200, body: JSON.stringify({ quote: '2' }) })
+    )
+    const { writer, chunks } = buildWriter()
+
+    await new QuoteStreamHandler(quoteHandler).stream(buildEvent('application/json'), {} as Context, writer)
+
+    expect(quoteHandler).toHaveBeenCalledTimes(1)
+    expect(quoteHandler.mock.calls[0][0].queryStringParameters!.quoteSpeed).toEqual('standard')
+    expect(quoteHandler.mock.calls[0][0].queryStringParameters!.cachedRoutes).toBeUndefined()
+    expect(writer.headers['Content-Type']).toEqual('application/json')
+    expect(chunks).toEqual([JSON.stringify({ quote: '2' })])
+  })
+
+  it('maps the function URL request context to the REST API one', () => {
+    const event = QuoteStreamHandler.toAPIGatewayProxyEvent(
+      {
+        ...buildEvent(),
+        requestContext: {
+          accountId: '123456789012',
+          apiId: 'url-id',
+          domainName: 'url-id.lambda-url.us-east-1.on.aws',
+          domainPrefix: 'url-id',
+          http: { method: 'GET', path: '/', protocol: 'HTTP/1.1', sourceIp: '1.2.3.4', userAgent: 'bot' },
+          requestId: 'request-id',
+          routeKey: '$default',
+          stage: '$default',
+          time: '19/Oct/2026:12:00:00 +0000',
+          timeEpoch: 1792411200000,
+        },
+      },
+      { quoteSpeed: 'standard' }
+    )
+
+    expect(event.requestContext).toMatchObject({
+      accountId: '123456789012',
+      httpMethod: 'GET',
+      protocol: 'HTTP/1.1',
+      requestId: 'request-id',
+      requestTimeEpoch: 1792411200000,
+      identity: { sourceIp: '1.2.3.4', userAgent: 'bot' },
+    })
+  })
+})
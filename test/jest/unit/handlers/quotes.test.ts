@@ -0,0 +1,139 @@
+import { describe, expect, it, jest } from '@jest/globals'
+import { APIGatewayProxyEvent, Context } from 'aws-lambda'
+import Logger from 'bunyan'
+import { QuoteHandler } from '../../../../lib/handlers/quote/quote'
+import { QuotesRequestInjected } from '../../../../lib/handlers/quotes/injector'
+import { QuotesHandler } from '../../../../lib/handlers/quotes/quotes'
+import { RoutingApiSimulationStatus } from '../../../../lib/handlers/quote/util/simulation'
+import { QuoteResponse } from '../../../../lib/handlers/schema'
+
+process.env.AWS_EMF_ENVIRONMENT = 'Local'
+
+const QUOTE: QuoteResponse = {
+  quoteId: 'abcde',
+  amount: '1000000',
+  amountDecimals: '1',
+  quote: '999000',
+  quoteDecimals: '0.999',
+  quoteGasAdjusted: '998000',
+  quoteGasAdjustedDecimals: '0.998',
+  gasUseEstimateQuote: '1000',
+  gasUseEstimateQuoteDecimals: '0.001',
+  gasUseEstimate: '100000',
+  gasUseEstimateUSD: '0.001',
+  simulationStatus: RoutingApiSimulationStatus.UNATTEMPTED,
+  simulationError: false,
+  gasPriceWei: '1000000000',
+  blockNumber: '1',
+  route: [],
+  routeString: '[V3] 100.00% = USDC -- 0.01% [0x0] --> USDT',
+  hitsCachedRoutes: true,
+}
+
+const validItem = (amount: string) => ({
+  tokenInAddress: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+  tokenInChainId: 1,
+  tokenOutAddress: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+  tokenOutChainId: 1,
+  amount,
+  type: 'exactIn',
+})
+
+describe('QuotesHandler', () => {
+  const buildHandler = (handleRequest: QuoteHandler['handleRequest']) => {
+    const quoteHandler = { handleRequest } as unknown as QuoteHandler
+    return new QuotesHandler('quotes', Promise.resolve(undefined as any), quoteHandler)
+  }
+
+  const buildParams = (quotes: any[]) => {
+    const log = Logger.createLogger({ name: 'test', level: Logger.FATAL })
+    const requestInjected: QuotesRequestInjected = {
+      id: 'batch',
+      log,
+      metric: { putMetric: jest.fn(), putDimensions: jest.fn(), setProperty: jest.fn() } as any,
+      getQuoteRequestInjected: jest.fn(async () => ({ log } as any)),
+    }
+
+    return {
+      context: {} as Context,
+      event: {} as APIGatewayProxyEvent,
+      requestBody: { quotes },
+      requestQueryParams: undefined,
+      containerInjected: { dependencies: {} },
+      requestInjected,
+    }
+  }
+
+  it('returns a result per item in request order', async () => {
+    const handleRequest = jest.fn(async (params: any) =>
+      params.requestQueryParams.amount == '1'
+        ? { statusCode: 404 as const, errorCode: 'NO_ROUTE', detail: 'No route found' }
+        : { statusCode: 200 as const, body: QUOTE }
+    )
+    const handler = buildHandler(handleRequest as any)
+
+    const result = await handler.handleRequest(buildParams([validItem('1000000'), validItem('1')]))
+
+    expect(result.statusCode).toEqual(200)
+    expect((result as any).body.quotes).toEqual([
+      { statusCode: 200, quote: QUOTE },
+      { statusCode: 404, errorCode: 'NO_ROUTE', detail: 'No route found' },
+    ])
+  })
+
+  it('reports invalid items without quoting them', async () => {
+    const handleRequest = jest.fn(async () => ({ statusCode: 200 as const, body: QUOTE }))
+    const handler = buildHandler(handleRequest as any)
+
+    const result = await handler.handleRequest(
+      buildParams([validItem('1000000'), { ...validItem('1000000'), type: 'exactSideways' }])
+    )
+
+    const items = (result as any).body.quotes
+    expect(items[0].statusCode).toEqual(200)
+    expect(items[1].statusCode).toEqual(400)
+    expect(items[1].errorCode).toEqual('VALIDATION_ERROR')
+    expect(handleRequest).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not fail the batch when an item throws', async () => {
+    const handleRequest = jest.fn(async (params: any) => {
+      if (params.requestQueryParams.amount == '1') {
+        throw new Error('boom')
+      }
+      return { statusCode: 200 as const, body: QUOTE }
+    })
+    const handler = buildHandler(handleRequest as any)
+
+    const result = await handler.handleRequest(buildParams([validItem('1'), validItem('1000000')]))
+
+    expect(result.statusCode).toEqual(200)
+    expect((result as any).body.quotes).toEqual([
+      { statusCode: 500, errorCode: 'INTERNAL_ERROR', detail: 'Unexpected error' },
+      { statusCode: 200, quote: QUOTE },
+    ])
+  })
+
+  it('rejects a request without a body', async () => {
+    const handler = buildHandler(jest.fn() as any)
+    const params = buildParams([])
+
+    const result = await handler.handleRequest({ ...params, requestBody: undefined as any })
+
+    expect(result.statusCode).toEqual(400)
+  })
+
+  it('gives every item a metrics context of its own', async () => {
+    const handleRequest = jest.fn(async () => ({ statusCode: 200 as const, body: QUOTE }))
+    const handler = buildHandler(handleRequest as any)
+    const params = buildParams([validItem('1000000'), validItem('2000000')])
+
+    await handler.handleRequest(params)
+
+    const getQuoteRequestInjected = params.requestInjected.getQuoteRequestInjected as jest.Mock<any>
+    expect(getQuoteRequestInjected).toHaveBeenCalledTimes(2)
+    const [firstMetricsLogger, secondMetricsLogger] = getQuoteRequestInjected.mock.calls.map((call) => call[2])
+    expect(firstMetricsLogger).toBeDefined()
+    expect(secondMetricsLogger).not.toBe(firstMetricsLogger)
+  })
+})
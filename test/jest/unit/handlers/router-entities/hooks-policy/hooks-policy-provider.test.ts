@@ -0,0 +1,129 @@
+import { describe, expect, it, jest } from '@jest/globals'
+import { ADDRESS_ZERO } from '@uniswap/router-sdk'
+import { ChainId, Ether } from '@uniswap/sdk-core'
+import { IV4PoolProvider, USDC_MAINNET } from '@uniswap/smart-order-router'
+import { encodeSqrtRatioX96, FeeAmount, TickMath } from '@uniswap/v3-sdk'
+import { Pool as V4Pool } from '@uniswap/v4-sdk'
+import {
+  HookClassification,
+  HookPermission,
+  hookPermissions,
+  HooksPolicyProvider,
+  HooksPolicyStrictness,
+  HooksPolicyV4PoolProvider,
+} from '../../../../../../lib/handlers/router-entities/hooks-policy'
+
+// Hooks addresses end with their permission flags.
+const LIQUIDITY_HOOKS = '0x0000000000000000000000000000000000002400'
+const SWAP_HOOKS = '0x00000000000000000000000000000000000000C0'
+const SWAP_DELTA_HOOKS = '0x0000000000000000000000000000000000000088'
+const LISTED_SWAP_DELTA_HOOKS = '0x1111111111111111111111111111111111110088'
+
+const HOOKS_POLICY_LIST = {
+  name: 'Test Hooks Policy',
+  timestamp: '2026-10-19T00:00:00.000Z',
+  version: { major: 1, minor: 0, patch: 0 },
+  hooks: [
+    { chainId: ChainId.MAINNET, address: LISTED_SWAP_DELTA_HOOKS, classification: 'allowed', name: 'Audited' },
+    { chainId: ChainId.MAINNET, address: LIQUIDITY_HOOKS, classification: 'blocked', reason: 'Exploited' },
+    { chainId: ChainId.BASE, address: SWAP_HOOKS, classification: 'blocked' },
+  ],
+}
+
+const v4Pool = (hooks: string) =>
+  new V4Pool(
+    Ether.onChain(ChainId.MAINNET),
+    USDC_MAINNET,
+    FeeAmount.LOW,
+    10,
+    hooks,
+    encodeSqrtRatioX96(1, 1),
+    1_000_000,
+    TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(1, 1))
+  )
+
+describe('HooksPolicyProvider', () => {
+  const hooksPolicyProvider = HooksPolicyProvider.fromList(ChainId.MAINNET, HOOKS_POLICY_LIST)
+
+  it('reads the permissions of hooks from their address', () => {
+    expect(hookPermissions(ADDRESS_ZERO)).toEqual([])
+    expect(hookPermissions(LIQUIDITY_HOOKS)).toEqual([
+      HookPermission.BEFORE_INITIALIZE,
+      HookPermission.AFTER_ADD_LIQUIDITY,
+    ])
+    expect(hookPermissions(SWAP_DELTA_HOOKS)).toEqual([
+      HookPermission.BEFORE_SWAP,
+      HookPermission.BEFORE_SWAP_RETURNS_DELTA,
+    ])
+  })
+
+  it('classifies unlisted hooks from their permissions', () => {
+    expect(hooksPolicyProvider.getHookPolicy(ADDRESS_ZERO).classification).toEqual(HookClassification.ALLOWED)
+    expect(hooksPolicyProvider.getHookPolicy(SWAP_HOOKS)).toEqual({
+      classification: HookClassification.WARN,
+      permissions: [HookPermission.BEFORE_SWAP, HookPermission.AFTER_SWAP],
+      listed: false,
+    })
+    expect(hooksPolicyProvider.getHookPolicy(SWAP_DELTA_HOOKS).classification).toEqual(HookClassification.BLOCKED)
+  })
+
+  it('classifies listed hooks of its chain from the list', () => {
+    expect(hooksPolicyProvider.getHookPolicy(LISTED_SWAP_DELTA_HOOKS.toLowerCase())).toMatchObject({
+      classification: HookClassification.ALLOWED,
+      listed: true,
+    })
+    expect(hooksPolicyProvider.getHookPolicy(LIQUIDITY_HOOKS).classification).toEqual(HookClassification.BLOCKED)
+  })
+
+  it('blocks more hooks the stricter the policy', () => {
+    const blocked = (strictness: HooksPolicyStrictness) =>
+      [ADDRESS_ZERO, LIQUIDITY_HOOKS, SWAP_HOOKS, SWAP_DELTA_HOOKS, LISTED_SWAP_DELTA_HOOKS].filter((hooks) =>
+        hooksPolicyProvider.isBlocked(hooks, strictness)
+      )
+
+    expect(blocked(HooksPolicyStrictness.PERMISSIVE)).toEqual([LIQUIDITY_HOOKS])
+    expect(blocked(HooksPolicyStrictness.STANDARD)).toEqual([LIQUIDITY_HOOKS, SWAP_DELTA_HOOKS])
+    expect(blocked(HooksPolicyStrictness.STRICT)).toEqual([LIQUIDITY_HOOKS, SWAP_HOOKS, SWAP_DELTA_HOOKS])
+  })
+
+  it('rejects an invalid list', () => {
+    expect(() =>
+      HooksPolicyProvider.fromList(ChainId.MAINNET, {
+        ...HOOKS_POLICY_LIST,
+        hooks: [{ chainId: ChainId.MAINNET, address: SWAP_HOOKS, classification: 'trusted' }],
+      })
+    ).toThrow('HooksPolicyList failed data validation')
+  })
+
+  it('loads the committed list', () => {
+    expect(() => HooksPolicyProvider.fromList(ChainId.MAINNET)).not.toThrow()
+  })
+})
+
+describe('HooksPolicyV4PoolProvider', () => {
+  it('leaves the pools with blocked hooks out of the pools loaded', async () => {
+    const pools = [v4Pool(ADDRESS_ZERO), v4Pool(SWAP_HOOKS), v4Pool(SWAP_DELTA_HOOKS)]
+    const poolProvider: IV4PoolProvider = {
+      getPools: jest.fn(async () => ({
+        getPool: () => pools[2],
+        getPoolById: (poolId: string) => pools.find((pool) => pool.poolId === poolId),
+        getAllPools: () => pools,
+      })),
+      getPoolId: jest.fn(),
+    } as any
+    const hooksPolicyV4PoolProvider = new HooksPolicyV4PoolProvider(
+      poolProvider,
+      HooksPolicyProvider.fromList(ChainId.MAINNET, HOOKS_POLICY_LIST),
+      HooksPolicyStrictness.STANDARD
+    )
+
+    const accessor = await hooksPolicyV4PoolProvider.getPools([])
+
+    expect(accessor.getAllPools()).toEqual([pools[0], pools[1]])
+    expect(accessor.getPoolById(pools[1]!.poolId)).toEqual(pools[1])
+    expect(accessor.getPoolById(pools[2]!.poolId)).toBeUndefined()
+    expect(
+      accessor.getPool(Ether.onChain(ChainId.MAINNET), USDC_MAINNET, FeeAmount.LOW, 10, SWAP_DELTA_HOOKS)
+    ).toBeUndefined()
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, expect, it } from '@jest/globals'
+import { ChainId, CurrencyAmount, Token, TradeType } from '@uniswap/sdk-core'
+import { CacheMode } from '@uniswap/smart-order-router'
+import {
+  buildCachedRoutesConfiguration,
+  CachedRoutesStrategy,
+  CachedRoutesStrategyConfig,
+} from '../../../../../../lib/handlers/router-entities/route-caching'
+
+const WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2'
+const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48'
+
+const strategyConfig = (overrides: Partial<CachedRoutesStrategyConfig> = {}): CachedRoutesStrategyConfig => ({
+  pair: 'WETH/USDC',
+  tokenInAddress: WETH,
+  tokenOutAddress: USDC,
+  tradeType: 'exactIn',
+  chainId: ChainId.MAINNET,
+  buckets: [
+    { bucket: 1, cacheMode: CacheMode.Livemode, blocksToLive: 5 },
+    { bucket: 10, cacheMode: CacheMode.Tapcompare, maxSplits: 2 },
+  ],
+  ...overrides,
+})
+
+describe('buildCachedRoutesConfiguration', () => {
+  it('loads the committed config', () => {
+    expect(() => buildCachedRoutesConfiguration()).not.toThrow()
+  })
+
+  it('keys the strategies by their lowercased PairTradeTypeChainId', () => {
+    const configuration = buildCachedRoutesConfiguration([strategyConfig(), strategyConfig({ tradeType: 'exactOut' })])
+
+    const strategy = configuration.get(`${WETH.toLowerCase()}/${USDC.toLowerCase()}/${TradeType.EXACT_INPUT}/1`)
+    expect(strategy?.readablePairTradeTypeChainId()).toEqual('WETH/USDC/ExactIn/1')
+    expect(strategy?.bucketPairs()).toEqual([
+      [0, 1],
+      [1, 10],
+      [10, -1],
+    ])
+    expect(configuration.get(`${WETH.toLowerCase()}/${USDC.toLowerCase()}/${TradeType.EXACT_OUTPUT}/1`)).toBeDefined()
+  })
+
+  it('applies the bucket defaults, leaving the ones of the route caching provider undefined', () => {
+    const configuration = buildCachedRoutesConfiguration([strategyConfig()])
+    const strategy = configuration.values().next().value as CachedRoutesStrategy
+    const weth = new Token(ChainId.MAINNET, WETH, 18)
+
+    const bucket = strategy.getCachingBucket(CurrencyAmount.fromRawAmount(weth, 5 * 10 ** 18))
+
+    expect(strategy.willTapcompare).toBe(true)
+    expect(bucket).toMatchObject({
+      bucket: 10,
+      cacheMode: CacheMode.Tapcompare,
+      maxSplits: 2,
+      tapcompareSampleRate: 0.1,
+    })
+    expect(bucket?.blocksToLive).toBeUndefined()
+    expect(bucket?.withLastNCachedRoutes).toBeUndefined()
+  })
+
+  it.each<[string, object]>([
+    ['an unknown cacheMode', [strategyConfig({ buckets: [{ bucket: 1, cacheMode: 'fastmode' as CacheMode }] })]],
+    ['a strategy without buckets', [strategyConfig({ buckets: [] })]],
+    [
+      'duplicated buckets',
+      [
+        strategyConfig({
+          buckets: [
+            { bucket: 1, cacheMode: CacheMode.Livemode },
+            { bucket: 1, cacheMode: CacheMode.Darkmode },
+          ],
+        }),
+      ],
+    ],
+    ['an invalid address', [strategyConfig({ tokenInAddress: 'WETH' })]],
+    ['two strategies for the same pair', [strategyConfig(), strategyConfig({ tokenInAddress: WETH.toLowerCase() })]],
+  ])('rejects %s', (_name, config) => {
+    expect(() => buildCachedRoutesConfiguration(config)).toThrow(/CachedRoutesConfig failed data validation/)
+  })
+})
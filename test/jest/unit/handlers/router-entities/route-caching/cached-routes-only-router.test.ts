@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals'
+import { StaticJsonRpcProvider } from '@ethersproject/providers'
+import { ChainId, CurrencyAmount, TradeType } from '@uniswap/sdk-core'
+import {
+  AlphaRouterConfig,
+  CachedRoutes,
+  CacheMode,
+  IRouteCachingProvider,
+  IRouter,
+  SwapRoute,
+  USDC_MAINNET,
+} from '@uniswap/smart-order-router'
+import { CachedRoutesOnlyRouter } from '../../../../../../lib/handlers/router-entities/route-caching'
+import { WNATIVE_ON } from '../../../../../utils/tokens'
+
+const WETH = WNATIVE_ON(ChainId.MAINNET)
+const AMOUNT = CurrencyAmount.fromRawAmount(WETH, (10 ** WETH.decimals).toString())
+
+describe('CachedRoutesOnlyRouter', () => {
+  let route: jest.Mock<IRouter<AlphaRouterConfig>['route']>
+  let getCachedRoute: jest.Mock<(...args: any[]) => Promise<CachedRoutes | undefined>>
+  let cacheMode: CacheMode
+  let router: CachedRoutesOnlyRouter
+
+  beforeEach(() => {
+    route = jest.fn<IRouter<AlphaRouterConfig>['route']>(async () => ({ hitsCachedRoute: true } as SwapRoute))
+    getCachedRoute = jest.fn(async () => ({} as CachedRoutes))
+    cacheMode = CacheMode.Livemode
+    const routeCachingProvider = {
+      getCacheMode: async () => cacheMode,
+      getCachedRoute,
+    } as unknown as IRouteCachingProvider
+    const provider = { getBlockNumber: async () => 10 } as StaticJsonRpcProvider
+    router = new CachedRoutesOnlyRouter({ route }, routeCachingProvider, provider, ChainId.MAINNET)
+  })
+
+  it('routes the quotes with cached routes at the block they were looked up at', async () => {
+    const result = await router.route(AMOUNT, USDC_MAINNET, TradeType.EXACT_INPUT, undefined, {
+      optimisticCachedRoutes: true,
+    })
+
+    expect(result?.hitsCachedRoute).toBe(true)
+    expect(getCachedRoute.mock.calls[0]!.slice(5)).toEqual([10, true])
+    expect(route.mock.calls[0]![4]).toEqual({ optimisticCachedRoutes: true, blockNumber: 10 })
+  })
+
+  it('does not route the quotes without cached routes', async () => {
+    getCachedRoute.mockResolvedValue(undefined)
+
+    expect(await router.route(AMOUNT, USDC_MAINNET, TradeType.EXACT_INPUT)).toBeNull()
+    expect(route).not.toHaveBeenCalled()
+  })
+
+  it('does not route the quotes of Darkmode buckets', async () => {
+    cacheMode = CacheMode.Darkmode
+
+    expect(await router.route(AMOUNT, USDC_MAINNET, TradeType.EXACT_INPUT)).toBeNull()
+    expect(getCachedRoute).not.toHaveBeenCalled()
+    expect(route).not.toHaveBeenCalled()
+  })
+
+  it('drops the routes found from scratch after the cached routes expired', async () => {
+    route.mockResolvedValue({ hitsCachedRoute: false } as SwapRoute)
+
+    expect(await router.route(AMOUNT, USDC_MAINNET, TradeType.EXACT_INPUT)).toBeNull()
+  })
+})
@@ -0,0 +1,308 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals'
+import { ADDRESS_ZERO, Protocol } from '@uniswap/router-sdk'
+import { ChainId, CurrencyAmount, Ether, Token, TradeType } from '@uniswap/sdk-core'
+import { CachedRoute, CachedRoutes, CacheMode, USDC_MAINNET, V3Route, V4Route } from '@uniswap/smart-order-router'
+import { FeeAmount, Pool as V3Pool } from '@uniswap/v3-sdk'
+import { Pool as V4Pool } from '@uniswap/v4-sdk'
+import JSBI from 'jsbi'
+import {
+  buildCachedRoutesConfiguration,
+  CachingRefreshDispatcher,
+  DynamoRouteCachingProvider,
+  InMemoryRoutesStore,
+  routesIndexKey,
+} from '../../../../../../lib/handlers/router-entities/route-caching'
+import { HookClassification, HooksPolicyProvider } from '../../../../../../lib/handlers/router-entities/hooks-policy'
+import { WNATIVE_ON } from '../../../../../utils/tokens'
+
+const WETH = WNATIVE_ON(ChainId.MAINNET)
+
+const TEST_WETH_USDC_POOL = new V3Pool(
+  WETH,
+  USDC_MAINNET,
+  FeeAmount.HIGH,
+  /* sqrtRatio */ '2437312313659959819381354528',
+  /* liquidity */ '10272714736694327408',
+  /* tickCurrent */ -69633
+)
+
+const TEST_CACHED_ROUTE = new CachedRoute({
+  route: new V3Route([TEST_WETH_USDC_POOL], WETH, USDC_MAINNET),
+  percent: 100,
+})
+
+const cachedRoutes = (blockNumber: number, routes: CachedRoute<V3Route>[] = [TEST_CACHED_ROUTE]) =>
+  new CachedRoutes({
+    routes,
+    chainId: ChainId.MAINNET,
+    currencyIn: WETH,
+    currencyOut: USDC_MAINNET,
+    protocolsCovered: [Protocol.V3],
+    blockNumber,
+    tradeType: TradeType.EXACT_INPUT,
+    originalAmount: '1',
+    blocksToLive: 5,
+  })
+
+const AMOUNT = CurrencyAmount.fromRawAmount(WETH, JSBI.BigInt(10 ** WETH.decimals))
+
+describe('DynamoRouteCachingProvider', () => {
+  let routesStore: InMemoryRoutesStore
+  let provider: DynamoRouteCachingProvider
+  let dispatch: jest.Mock<CachingRefreshDispatcher['dispatch']>
+
+  beforeEach(() => {
+    routesStore = new InMemoryRoutesStore()
+    dispatch = jest.fn(async () => {})
+    provider = new DynamoRouteCachingProvider({ routesStore, cachingRefreshDispatcher: { dispatch } })
+  })
+
+  it('reads back the routes it cached from the store', async () => {
+    expect(await provider.setCachedRoute(cachedRoutes(10), AMOUNT)).toBe(true)
+
+    const route = await provider.getCachedRoute(
+      ChainId.MAINNET,
+      AMOUNT,
+      USDC_MAINNET,
+      TradeType.EXACT_INPUT,
+      [Protocol.V3],
+      10
+    )
+
+    expect(route?.routes).toHaveLength(1)
+    expect(route?.blockNumber).toEqual(10)
+  })
+
+  it('does not return routes of protocols that were not requested', async () => {
+    await provider.setCachedRoute(cachedRoutes(10), AMOUNT)
+
+    const route = await provider.getCachedRoute(
+      ChainId.MAINNET,
+      AMOUNT,
+      USDC_MAINNET,
+      TradeType.EXACT_INPUT,
+      [Protocol.V2],
+      10
+    )
+
+    expect(route).toBeUndefined()
+  })
+
+  it('sends a single caching request for close amounts', async () => {
+    await provider.setCachedRoute(cachedRoutes(10), AMOUNT)
+    const getOptimistically = () =>
+      provider.getCachedRoute(ChainId.MAINNET, AMOUNT, USDC_MAINNET, TradeType.EXACT_INPUT, [Protocol.V3], 10, true)
+
+    await getOptimistically()
+    // The caching request is fired and forgotten.
+    await new Promise((resolve) => setImmediate(resolve))
+    await getOptimistically()
+    await new Promise((resolve) => setImmediate(resolve))
+
+    expect(dispatch).toHaveBeenCalledTimes(1)
+    expect(dispatch.mock.calls[0]![0].amount).toEqual(AMOUNT)
+    const pair = `${WETH.address.toLowerCase()}/${USDC_MAINNET.address.toLowerCase()}/${TradeType.EXACT_INPUT}/1`
+    const flags = await routesStore.getCachingRequestFlags(pair, 1, 1)
+    expect(flags).toHaveLength(1)
+  })
+
+  it('purges the routes going through a pool, and the caching request flags of their pair', async () => {
+    const pair = `${WETH.address.toLowerCase()}/${USDC_MAINNET.address.toLowerCase()}/${TradeType.EXACT_INPUT}/1`
+    await provider.setCachedRoute(cachedRoutes(10), AMOUNT)
+    await routesStore.putCachingRequestFlag({ pairTradeTypeChainId: pair, amount: 1, blockNumber: 10, ttl: 2 ** 32 })
+
+    const poolAddress = V3Pool.getAddress(WETH, USDC_MAINNET, FeeAmount.HIGH)
+    const result = await provider.purgeCachedRoutes({ chainId: ChainId.MAINNET, poolAddress })
+
+    expect(result).toEqual({
+      pairTradeTypeChainIds: [pair],
+      routesDeleted: 1,
+      cachingRequestFlagsDeleted: 1,
+      indexEntriesDeleted: 1,
+    })
+    expect(await routesStore.getRoutes(pair)).toEqual([])
+    expect(await routesStore.getCachingRequestFlags(pair, 0, 10)).toEqual([])
+    expect(await routesStore.getRoutesIndexEntries(routesIndexKey(ChainId.MAINNET, 'pool', poolAddress))).toEqual([])
+  })
+
+  it('indexes the routes by their tokens', async () => {
+    await provider.setCachedRoute(cachedRoutes(10), AMOUNT)
+
+    const result = await provider.purgeCachedRoutes({ chainId: ChainId.MAINNET, tokenAddress: USDC_MAINNET.address })
+
+    expect(result.routesDeleted).toEqual(1)
+    expect(
+      await provider.getCachedRoute(ChainId.MAINNET, AMOUNT, USDC_MAINNET, TradeType.EXACT_INPUT, [Protocol.V3], 10)
+    ).toBeUndefined()
+  })
+
+  it('leaves out the cached routes going through hooks blocked by the hooks policy list', async () => {
+    const ETH = Ether.onChain(ChainId.MAINNET)
+    const hooks = '0x1000000000000000000000000000000000000000'
+    const v4Route = (hooks: string) =>
+      new V4Route(
+        [
+          new V4Pool(
+            ETH,
+            USDC_MAINNET,
+            FeeAmount.LOW,
+            10,
+            hooks,
+            /* sqrtRatio */ '79228162514264337593543950336',
+            /* liquidity */ '0',
+            /* tickCurrent */ 0
+          ),
+        ],
+        ETH,
+        USDC_MAINNET
+      )
+    const v4CachedRoutes = (blockNumber: number, route: V4Route) =>
+      new CachedRoutes({
+        routes: [new CachedRoute({ route, percent: 100 })],
+        chainId: ChainId.MAINNET,
+        currencyIn: ETH,
+        currencyOut: USDC_MAINNET,
+        protocolsCovered: [Protocol.V4],
+        blockNumber,
+        tradeType: TradeType.EXACT_INPUT,
+        originalAmount: '1',
+        blocksToLive: 5,
+      })
+    const ethAmount = CurrencyAmount.fromRawAmount(ETH, JSBI.BigInt(10 ** 18))
+    const getCachedRoute = () =>
+      provider.getCachedRoute(ChainId.MAINNET, ethAmount, USDC_MAINNET, TradeType.EXACT_INPUT, [Protocol.V4], 11)
+    provider = new DynamoRouteCachingProvider({
+      routesStore,
+      cachingRefreshDispatcher: { dispatch },
+      hooksPolicyProvider: new HooksPolicyProvider(ChainId.MAINNET, {
+        name: 'test',
+        timestamp: '2024-01-01T00:00:00Z',
+        version: { major: 1, minor: 0, patch: 0 },
+        hooks: [{ chainId: ChainId.MAINNET, address: hooks, classification: HookClassification.BLOCKED }],
+      }),
+    })
+
+    await provider.setCachedRoute(v4CachedRoutes(10, v4Route(hooks)), ethAmount)
+    expect(await getCachedRoute()).toBeUndefined()
+
+    await provider.setCachedRoute(v4CachedRoutes(11, v4Route(ADDRESS_ZERO)), ethAmount)
+    const route = await getCachedRoute()
+    expect(route?.routes).toHaveLength(1)
+    expect((route?.routes[0].route as V4Route).pools[0].hooks).toEqual(ADDRESS_ZERO)
+  })
+
+  describe('with a CachedRoutesStrategy for the pair', () => {
+    beforeEach(() => {
+      const cachedRoutesConfiguration = buildCachedRoutesConfiguration([
+        {
+          pair: 'WETH/USDC',
+          tokenInAddress: WETH.address,
+          tokenOutAddress: USDC_MAINNET.address,
+          tradeType: 'exactIn',
+          chainId: ChainId.MAINNET,
+          buckets: [
+            { bucket: 1, cacheMode: CacheMode.Livemode, blocksToLive: 7, maxSplits: 1, withLastNCachedRoutes: 1 },
+            { bucket: 10, cacheMode: CacheMode.Darkmode },
+          ],
+        },
+      ])
+      provider = new DynamoRouteCachingProvider({
+        routesStore,
+        cachingRefreshDispatcher: { dispatch },
+        cachedRoutesConfiguration,
+      })
+    })
+
+    it('uses the cacheMode of the bucket, and Darkmode past the last bucket', async () => {
+      const cacheMode = (amount: number) =>
+        provider.getCacheMode(
+          ChainId.MAINNET,
+          CurrencyAmount.fromRawAmount(WETH, JSBI.BigInt(amount * 10 ** WETH.decimals)),
+          USDC_MAINNET,
+          TradeType.EXACT_INPUT,
+          [Protocol.V3]
+        )
+
+      expect(await cacheMode(1)).toEqual(CacheMode.Livemode)
+      expect(await cacheMode(5)).toEqual(CacheMode.Darkmode)
+      expect(await cacheMode(50)).toEqual(CacheMode.Darkmode)
+      // Other pairs keep the default
+      expect(
+        await provider.getCacheMode(ChainId.MAINNET, AMOUNT, USDC_MAINNET, TradeType.EXACT_OUTPUT, [Protocol.V3])
+      ).toEqual(CacheMode.Livemode)
+    })
+
+    it('reads the last withLastNCachedRoutes routes with the blocksToLive of the bucket', async () => {
+      const mediumFeePool = new V3Pool(
+        WETH,
+        USDC_MAINNET,
+        FeeAmount.MEDIUM,
+        TEST_WETH_USDC_POOL.sqrtRatioX96,
+        TEST_WETH_USDC_POOL.liquidity,
+        TEST_WETH_USDC_POOL.tickCurrent
+      )
+      const mediumFeeRoute = new CachedRoute({
+        route: new V3Route([mediumFeePool], WETH, USDC_MAINNET),
+        percent: 100,
+      })
+      await provider.setCachedRoute(cachedRoutes(10), AMOUNT)
+      await provider.setCachedRoute(cachedRoutes(11, [mediumFeeRoute]), AMOUNT)
+
+      const route = await provider.getCachedRoute(
+        ChainId.MAINNET,
+        AMOUNT,
+        USDC_MAINNET,
+        TradeType.EXACT_INPUT,
+        [Protocol.V3],
+        11
+      )
+
+      expect(route?.routes).toHaveLength(1)
+      expect(route?.blockNumber).toEqual(11)
+      expect(route?.blocksToLive).toEqual(7)
+    })
+
+    it('uses the blocksToLive of the chain for buckets without one', async () => {
+      const arbWeth = WNATIVE_ON(ChainId.ARBITRUM_ONE)
+      const arbUsdc = new Token(ChainId.ARBITRUM_ONE, '0xaf88d065e77c8cC2239327C5EDb3A432268e5831', 6, 'USDC')
+      provider = new DynamoRouteCachingProvider({
+        routesStore,
+        cachingRefreshDispatcher: { dispatch },
+        cachedRoutesConfiguration: buildCachedRoutesConfiguration([
+          {
+            pair: 'WETH/USDC',
+            tokenInAddress: arbWeth.address,
+            tokenOutAddress: arbUsdc.address,
+            tradeType: 'exactIn',
+            chainId: ChainId.ARBITRUM_ONE,
+            buckets: [{ bucket: 10, cacheMode: CacheMode.Livemode }],
+          },
+        ]),
+      })
+      const arbCachedRoutes = new CachedRoutes({
+        routes: [TEST_CACHED_ROUTE],
+        chainId: ChainId.ARBITRUM_ONE,
+        currencyIn: arbWeth,
+        currencyOut: arbUsdc,
+        protocolsCovered: [Protocol.V3],
+        blockNumber: 10,
+        tradeType: TradeType.EXACT_INPUT,
+        originalAmount: '1',
+        blocksToLive: 5,
+      })
+
+      expect(
+        await provider['_getBlocksToLive'](arbCachedRoutes, CurrencyAmount.fromRawAmount(arbWeth, 10 ** 18))
+      ).toEqual(100)
+    })
+
+    it('does not cache routes with more splits than maxSplits', async () => {
+      const split = new CachedRoute({ route: TEST_CACHED_ROUTE.route, percent: 50 })
+
+      expect(await provider.setCachedRoute(cachedRoutes(10, [split, split]), AMOUNT)).toBe(false)
+      expect(
+        await routesStore.getRoutes(`${WETH.address.toLowerCase()}/${USDC_MAINNET.address.toLowerCase()}/0/1`)
+      ).toEqual([])
+    })
+  })
+})
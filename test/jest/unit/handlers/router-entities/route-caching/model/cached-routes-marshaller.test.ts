@@ -0,0 +1,128 @@
+import { describe, expect, it } from '@jest/globals'
+import { ADDRESS_ZERO } from '@uniswap/router-sdk'
+import { ChainId, CurrencyAmount, Ether, TradeType } from '@uniswap/sdk-core'
+import {
+  CachedRoute,
+  CachedRoutes,
+  DAI_MAINNET,
+  MixedRoute,
+  SupportedRoutes,
+  USDC_MAINNET,
+  V2Route,
+  V3Route,
+  V4Route,
+} from '@uniswap/smart-order-router'
+import { Pair } from '@uniswap/v2-sdk'
+import { FeeAmount, Pool as V3Pool } from '@uniswap/v3-sdk'
+import { Pool as V4Pool } from '@uniswap/v4-sdk'
+import {
+  CachedRoutesEncoding,
+  CachedRoutesMarshaller,
+} from '../../../../../../../lib/handlers/router-entities/route-caching'
+import { WNATIVE_ON } from '../../../../../../utils/tokens'
+
+const WETH = WNATIVE_ON(ChainId.MAINNET)
+const ETH = Ether.onChain(ChainId.MAINNET)
+
+const WETH_USDC_V3_POOL = new V3Pool(
+  WETH,
+  USDC_MAINNET,
+  FeeAmount.HIGH,
+  /* sqrtRatio */ '2437312313659959819381354528',
+  /* liquidity */ '10272714736694327408',
+  /* tickCurrent */ -69633
+)
+const USDC_DAI_V2_PAIR = new Pair(
+  CurrencyAmount.fromRawAmount(USDC_MAINNET, '45000000000000'),
+  CurrencyAmount.fromRawAmount(DAI_MAINNET, '45010000000000000000000000')
+)
+const ETH_USDC_V4_POOL = new V4Pool(
+  ETH,
+  USDC_MAINNET,
+  FeeAmount.LOW,
+  10,
+  ADDRESS_ZERO,
+  /* sqrtRatio */ '79228162514264337593543950336',
+  /* liquidity */ '0',
+  /* tickCurrent */ 0
+)
+
+const cachedRoutes = (route: SupportedRoutes, splits: number = 1) =>
+  new CachedRoutes({
+    routes: Array.from({ length: splits }, () => new CachedRoute({ route, percent: 100 / splits })),
+    chainId: ChainId.MAINNET,
+    currencyIn: route.input,
+    currencyOut: route.output,
+    protocolsCovered: [route.protocol],
+    blockNumber: 21000000,
+    tradeType: TradeType.EXACT_INPUT,
+    originalAmount: '1.5',
+    blocksToLive: 2,
+  })
+
+const firstPool = (route: SupportedRoutes) => ('pairs' in route ? route.pairs[0] : route.pools[0])
+
+describe('CachedRoutesMarshaller', () => {
+  describe.each<[string, SupportedRoutes]>([
+    ['V2', new V2Route([USDC_DAI_V2_PAIR], USDC_MAINNET, DAI_MAINNET)],
+    ['V3', new V3Route([WETH_USDC_V3_POOL], WETH, USDC_MAINNET)],
+    ['V4', new V4Route([ETH_USDC_V4_POOL], ETH, USDC_MAINNET)],
+    ['MIXED', new MixedRoute([WETH_USDC_V3_POOL, USDC_DAI_V2_PAIR], WETH, DAI_MAINNET)],
+  ])('with a %s route', (_protocol, route) => {
+    it('deserializes the binary encoding into the same routes as the JSON encoding', () => {
+      const fromJson = CachedRoutesMarshaller.deserialize(
+        CachedRoutesMarshaller.serialize(cachedRoutes(route), CachedRoutesEncoding.JSON)
+      )
+      const fromBinary = CachedRoutesMarshaller.deserialize(
+        CachedRoutesMarshaller.serialize(cachedRoutes(route), CachedRoutesEncoding.BINARY)
+      )
+
+      expect(CachedRoutesMarshaller.marshal(fromBinary)).toEqual(CachedRoutesMarshaller.marshal(fromJson))
+      expect(fromBinary.routes[0]!.routeId).toEqual(fromJson.routes[0]!.routeId)
+    })
+
+    it('encodes in fewer bytes than JSON', () => {
+      const json = CachedRoutesMarshaller.serialize(cachedRoutes(route), CachedRoutesEncoding.JSON)
+      const binary = CachedRoutesMarshaller.serialize(cachedRoutes(route), CachedRoutesEncoding.BINARY)
+
+      expect(binary.length).toBeLessThan(json.length / 3)
+    })
+
+    it('writes the pools shared by the routes of a split once', () => {
+      const single = CachedRoutesMarshaller.serialize(cachedRoutes(route), CachedRoutesEncoding.BINARY)
+      const split = CachedRoutesMarshaller.serialize(cachedRoutes(route, 2), CachedRoutesEncoding.BINARY)
+      const fromBinary = CachedRoutesMarshaller.deserialize(split)
+
+      expect(split.length - single.length).toBeLessThan(single.length / 2)
+      expect(CachedRoutesMarshaller.marshal(fromBinary)).toEqual(CachedRoutesMarshaller.marshal(cachedRoutes(route, 2)))
+      expect(firstPool(fromBinary.routes[1]!.route)).toBe(firstPool(fromBinary.routes[0]!.route))
+    })
+  })
+
+  it('reads JSON items written before the binary encoding', () => {
+    const marshalled = CachedRoutesMarshaller.marshal(
+      cachedRoutes(new V3Route([WETH_USDC_V3_POOL], WETH, USDC_MAINNET))
+    )
+    const item = Buffer.from(JSON.stringify(marshalled))
+
+    expect(CachedRoutesMarshaller.marshal(CachedRoutesMarshaller.deserialize(item))).toEqual(marshalled)
+  })
+
+  it('reads binary items written before pools were interned', () => {
+    // A 50/50 split over the same V3 route, in version 1 of the binary encoding
+    const item = Buffer.from(
+      'AQEAAcAqqjmyI/6NCg5cTyfq2Qg8dWzCEgMEV0VUSA1XcmFwcGVkIEV0aGVyAAGguGmRxiGLNsHRnUounrDONgbrSAYDBFVTREMGVVNELy9DAQHA3oEKAAMxLjUCAgEBAgECAZBODAfgGPVGWKLiKYWwIAiOkAOgN5X4cIHACAAAAAAAAElAAQECAQIBkE4MB+AY9UZYouIphbAgCI6QA6A3lfhwgcAIAAAAAAAASUA=',
+      'base64'
+    )
+
+    expect(CachedRoutesMarshaller.marshal(CachedRoutesMarshaller.deserialize(item))).toEqual(
+      CachedRoutesMarshaller.marshal(cachedRoutes(new V3Route([WETH_USDC_V3_POOL], WETH, USDC_MAINNET), 2))
+    )
+  })
+
+  it('rejects items of an unknown version', () => {
+    expect(() => CachedRoutesMarshaller.deserialize(Buffer.from([0x03, 0x01]))).toThrow(
+      'Unsupported RoutesDb item version 3'
+    )
+  })
+})
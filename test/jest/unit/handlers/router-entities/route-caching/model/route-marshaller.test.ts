@@ -0,0 +1,185 @@
+import { describe, expect, it } from '@jest/globals'
+import { ADDRESS_ZERO, Protocol } from '@uniswap/router-sdk'
+import { ChainId, Currency, CurrencyAmount, Ether, Token, TradeType } from '@uniswap/sdk-core'
+import {
+  CachedRoute,
+  CachedRoutes,
+  DAI_MAINNET,
+  MixedRoute,
+  SupportedRoutes,
+  USDC_MAINNET,
+  USDT_MAINNET,
+  V2Route,
+  V3Route,
+  V4Route,
+  WBTC_MAINNET,
+} from '@uniswap/smart-order-router'
+import { Pair } from '@uniswap/v2-sdk'
+import { FeeAmount, Pool as V3Pool, TickMath } from '@uniswap/v3-sdk'
+import { DYNAMIC_FEE_FLAG, Pool as V4Pool } from '@uniswap/v4-sdk'
+import { BigNumber, utils } from 'ethers'
+import {
+  CachedRoutesEncoding,
+  CachedRoutesMarshaller,
+  MarshalledRoute,
+  RouteMarshaller,
+} from '../../../../../../../lib/handlers/router-entities/route-caching'
+import { UNI_MAINNET, WNATIVE_ON } from '../../../../../../utils/tokens'
+
+const ETH = Ether.onChain(ChainId.MAINNET)
+const FOT_MAINNET = new Token(
+  ChainId.MAINNET,
+  '0xa3BD6d5cf6Ea2D6A7D6C8fc3B0a9fdCf1B2d6E24',
+  9,
+  'FOT',
+  'Fee on transfer',
+  true,
+  BigNumber.from(200),
+  BigNumber.from(300)
+)
+const TOKENS: Token[] = [
+  WNATIVE_ON(ChainId.MAINNET),
+  USDC_MAINNET,
+  DAI_MAINNET,
+  USDT_MAINNET,
+  WBTC_MAINNET,
+  UNI_MAINNET,
+  FOT_MAINNET,
+]
+const V3_FEES = [FeeAmount.LOWEST, FeeAmount.LOW, FeeAmount.MEDIUM, FeeAmount.HIGH]
+const RUNS = 50
+
+// Seeded, so that a failing route can be reproduced (mulberry32).
+const random = (() => {
+  let seed = 0x5eed
+  return (): number => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+})()
+const randomInt = (min: number, max: number): number => min + Math.floor(random() * (max - min + 1))
+const randomItem = <T>(items: T[]): T => items[randomInt(0, items.length - 1)]!
+const randomUint = (maxDigits: number): string =>
+  Array.from({ length: randomInt(1, maxDigits) }, (_, i) => randomInt(i === 0 ? 1 : 0, 9)).join('')
+
+// Distinct tokens, so that routes do not go through the same pool twice.
+const randomPath = (currencies: Currency[]): Currency[] => {
+  const remaining = [...currencies]
+  return Array.from({ length: randomInt(2, 4) }, () => remaining.splice(randomInt(0, remaining.length - 1), 1)[0]!)
+}
+
+const randomPair = (tokenA: Token, tokenB: Token): Pair =>
+  new Pair(CurrencyAmount.fromRawAmount(tokenA, randomUint(30)), CurrencyAmount.fromRawAmount(tokenB, randomUint(30)))
+
+const randomV3Pool = (tokenA: Token, tokenB: Token): V3Pool => {
+  const tick = randomInt(TickMath.MIN_TICK, TickMath.MAX_TICK - 1)
+  return new V3Pool(tokenA, tokenB, randomItem(V3_FEES), TickMath.getSqrtRatioAtTick(tick), randomUint(30), tick)
+}
+
+const randomV4Pool = (currencyA: Currency, currencyB: Currency): V4Pool => {
+  const hooks =
+    random() < 0.5 ? ADDRESS_ZERO : utils.getAddress(utils.hexlify(Array.from({ length: 20 }, () => randomInt(0, 255))))
+  const fee = hooks !== ADDRESS_ZERO && random() < 0.5 ? DYNAMIC_FEE_FLAG : randomInt(0, 999_999)
+  const tick = randomInt(TickMath.MIN_TICK, TickMath.MAX_TICK - 1)
+  return new V4Pool(
+    currencyA,
+    currencyB,
+    fee,
+    randomInt(1, 32767),
+    hooks,
+    TickMath.getSqrtRatioAtTick(tick),
+    randomUint(30),
+    tick
+  )
+}
+
+const randomRoute = (protocol: Protocol): SupportedRoutes => {
+  switch (protocol) {
+    case Protocol.V2: {
+      const path = randomPath(TOKENS) as Token[]
+      return new V2Route(
+        path.slice(1).map((token, i) => randomPair(path[i]!, token)),
+        path[0]!,
+        path[path.length - 1]!
+      )
+    }
+    case Protocol.V3: {
+      const path = randomPath(TOKENS) as Token[]
+      return new V3Route(
+        path.slice(1).map((token, i) => randomV3Pool(path[i]!, token)),
+        path[0]!,
+        path[path.length - 1]!
+      )
+    }
+    case Protocol.V4: {
+      // v4 pools can hold the native currency rather than its wrapped token.
+      const path = randomPath([ETH, ...TOKENS.slice(1)])
+      return new V4Route(
+        path.slice(1).map((currency, i) => randomV4Pool(path[i]!, currency)),
+        path[0]!,
+        path[path.length - 1]!
+      )
+    }
+    case Protocol.MIXED: {
+      const path = randomPath(TOKENS) as Token[]
+      const pools = path
+        .slice(1)
+        .map((token, i) => randomItem([randomPair, randomV3Pool, randomV4Pool])(path[i]!, token))
+      // Goes through at least one v4 pool, which may hold the native currency rather than the wrapped token.
+      const input = path[0]!.equals(TOKENS[0]!) && random() < 0.5 ? ETH : path[0]!
+      pools[0] = randomV4Pool(input, path[1]!)
+      return new MixedRoute(pools, input, path[path.length - 1]!)
+    }
+    default:
+      throw new Error(`Unsupported protocol ${protocol}`)
+  }
+}
+
+const cachedRoutes = (route: SupportedRoutes) =>
+  new CachedRoutes({
+    routes: [new CachedRoute({ route, percent: 100 })],
+    chainId: ChainId.MAINNET,
+    currencyIn: route.input,
+    currencyOut: route.output,
+    protocolsCovered: [route.protocol],
+    blockNumber: 21000000,
+    tradeType: TradeType.EXACT_INPUT,
+    originalAmount: '1',
+    blocksToLive: 2,
+  })
+
+describe('RouteMarshaller', () => {
+  describe.each([Protocol.V2, Protocol.V3, Protocol.V4, Protocol.MIXED])('with %s routes', (protocol) => {
+    const routes = Array.from({ length: RUNS }, () => randomRoute(protocol))
+
+    it('unmarshals what it marshalled, through JSON', () => {
+      routes.forEach((route) => {
+        const marshalled = RouteMarshaller.marshal(route)
+        const unmarshalled = RouteMarshaller.unmarshal(JSON.parse(JSON.stringify(marshalled)) as MarshalledRoute)
+
+        expect(RouteMarshaller.marshal(unmarshalled)).toEqual(marshalled)
+        expect(new CachedRoute({ route: unmarshalled, percent: 100 }).routeId).toEqual(
+          new CachedRoute({ route, percent: 100 }).routeId
+        )
+      })
+    })
+
+    it.each([CachedRoutesEncoding.JSON, CachedRoutesEncoding.BINARY])(
+      'deserializes the RoutesDb items it serialized in %s',
+      (encoding) => {
+        routes.forEach((route) => {
+          const deserialized = CachedRoutesMarshaller.deserialize(
+            CachedRoutesMarshaller.serialize(cachedRoutes(route), encoding)
+          )
+
+          expect(deserialized.routes[0]!.route.protocol).toEqual(protocol)
+          expect(CachedRoutesMarshaller.marshal(deserialized)).toEqual(
+            CachedRoutesMarshaller.marshal(cachedRoutes(route))
+          )
+        })
+      }
+    )
+  })
+})
@@ -0,0 +1,105 @@
+import { describe, expect, it, jest } from '@jest/globals'
+import { Protocol } from '@uniswap/router-sdk'
+import { ChainId, CurrencyAmount, Token, TradeType } from '@uniswap/sdk-core'
+import { PairTradeTypeChainId } from '../../../../../../../lib/handlers/router-entities/route-caching'
+import {
+  CachingRefreshRequest,
+  InProcessCachingRefreshDispatcher,
+} from '../../../../../../../lib/handlers/router-entities/route-caching/refresh'
+
+const WETH = new Token(ChainId.MAINNET, '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', 18)
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'
+
+const request = (amount: string, chainId: ChainId = ChainId.MAINNET): CachingRefreshRequest => ({
+  partitionKey: new PairTradeTypeChainId({
+    currencyIn: WETH.address,
+    currencyOut: USDC,
+    tradeType: TradeType.EXACT_INPUT,
+    chainId,
+  }),
+  protocols: [Protocol.V3],
+  amount: CurrencyAmount.fromRawAmount(WETH, amount),
+})
+
+const flush = () => new Promise((resolve) => setImmediate(resolve))
+
+// Refreshes that only finish once released.
+const blockingRefresh = () => {
+  const releases: (() => void)[] = []
+  const refresh = jest.fn(() => new Promise<void>((resolve) => releases.push(resolve)))
+  const releaseAll = async () => {
+    await flush()
+    releases.splice(0).forEach((release) => release())
+    await flush()
+  }
+  return { refresh, releaseAll }
+}
+
+describe('QueuedCachingRefreshDispatcher', () => {
+  it('coalesces refreshes of amounts in the same bucket', async () => {
+    const refresh = jest.fn(async () => {})
+    const dispatcher = new InProcessCachingRefreshDispatcher(refresh)
+
+    await dispatcher.dispatch(request('1000000000000000000'))
+    await dispatcher.dispatch(request('1100000000000000000'))
+    await dispatcher.dispatch(request('5000000000000000000'))
+
+    expect(refresh.mock.calls.map(([{ amount }]: any) => amount.toExact())).toEqual(['1', '5'])
+  })
+
+  it('refreshes the same bucket again after the dedup window', async () => {
+    const refresh = jest.fn(async () => {})
+    const dispatcher = new InProcessCachingRefreshDispatcher(refresh, { dedupWindowMs: 0 })
+
+    await dispatcher.dispatch(request('1000000000000000000'))
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    await dispatcher.dispatch(request('1000000000000000000'))
+
+    expect(refresh).toHaveBeenCalledTimes(2)
+  })
+
+  it('drops refreshes past the pending limit of the chain', async () => {
+    const { refresh, releaseAll } = blockingRefresh()
+    const dispatcher = new InProcessCachingRefreshDispatcher(refresh, { maxPendingPerChain: 2, concurrencyPerChain: 2 })
+
+    const dispatches = [
+      dispatcher.dispatch(request('1000000000000000000')),
+      dispatcher.dispatch(request('5000000000000000000')),
+      dispatcher.dispatch(request('20000000000000000000')),
+      dispatcher.dispatch(request('1000000000000000000', ChainId.BASE)),
+    ]
+    await releaseAll()
+    await Promise.all(dispatches)
+
+    expect(refresh.mock.calls.map(([{ partitionKey }]: any) => partitionKey.chainId)).toEqual([
+      ChainId.MAINNET,
+      ChainId.MAINNET,
+      ChainId.BASE,
+    ])
+  })
+
+  it('runs at most the concurrency of the chain at once', async () => {
+    const { refresh, releaseAll } = blockingRefresh()
+    const dispatcher = new InProcessCachingRefreshDispatcher(refresh, { concurrencyPerChain: 1 })
+
+    const dispatches = [
+      dispatcher.dispatch(request('1000000000000000000')),
+      dispatcher.dispatch(request('5000000000000000000')),
+    ]
+    await flush()
+    expect(refresh).toHaveBeenCalledTimes(1)
+
+    await releaseAll()
+    expect(refresh).toHaveBeenCalledTimes(2)
+    await releaseAll()
+    await Promise.all(dispatches)
+  })
+
+  it('does not reject when the refresh fails', async () => {
+    const dispatcher = new InProcessCachingRefreshDispatcher(async () => {
+      throw new Error('boom')
+    })
+
+    await expect(dispatcher.dispatch(request('1000000000000000000'))).resolves.toBeUndefined()
+  })
+})
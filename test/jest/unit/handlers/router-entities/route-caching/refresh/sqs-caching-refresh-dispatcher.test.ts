@@ -0,0 +1,85 @@
+import { describe, expect, it, jest } from '@jest/globals'
+import { Protocol } from '@uniswap/router-sdk'
+import { ChainId, CurrencyAmount, Token, TradeType } from '@uniswap/sdk-core'
+import { SQS } from 'aws-sdk'
+import { PairTradeTypeChainId } from '../../../../../../../lib/handlers/router-entities/route-caching'
+import {
+  CachingRefreshRequest,
+  SqsCachingRefreshDispatcher,
+} from '../../../../../../../lib/handlers/router-entities/route-caching/refresh'
+
+const WETH = new Token(ChainId.MAINNET, '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', 18)
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'
+const QUEUE_URL = 'https://sqs.us-east-2.amazonaws.com/123456789012/CachingRefreshQueue.fifo'
+
+const request = (amount: string, chainId: ChainId = ChainId.MAINNET): CachingRefreshRequest => ({
+  partitionKey: new PairTradeTypeChainId({
+    currencyIn: WETH.address,
+    currencyOut: USDC,
+    tradeType: TradeType.EXACT_INPUT,
+    chainId,
+  }),
+  protocols: [Protocol.V3],
+  amount: CurrencyAmount.fromRawAmount(WETH, amount),
+})
+
+const sqsClient = (sendMessage: jest.Mock<(params: SQS.SendMessageRequest) => Promise<void>>) =>
+  ({ sendMessage: (params: SQS.SendMessageRequest) => ({ promise: () => sendMessage(params) }) } as unknown as SQS)
+
+describe('SqsCachingRefreshDispatcher', () => {
+  it('sends refreshes of the same bucket and window with the same deduplication id from every lambda', async () => {
+    const sendMessage = jest.fn(async (_params: SQS.SendMessageRequest) => {})
+    const dispatcher = new SqsCachingRefreshDispatcher(QUEUE_URL, { dedupWindowMs: 2 ** 50 }, sqsClient(sendMessage))
+    const otherLambda = new SqsCachingRefreshDispatcher(QUEUE_URL, { dedupWindowMs: 2 ** 50 }, sqsClient(sendMessage))
+
+    await dispatcher.dispatch(request('1000000000000000000'))
+    await otherLambda.dispatch(request('1000000000000000001'))
+    await dispatcher.dispatch(request('1000000000000000000', ChainId.ARBITRUM_ONE))
+
+    const [first, second, otherChain] = sendMessage.mock.calls.map(([params]) => params)
+    expect(first!.QueueUrl).toEqual(QUEUE_URL)
+    expect(JSON.parse(first!.MessageBody).queryStringParameters.intent).toEqual('caching')
+    expect(first!.MessageGroupId).toEqual(ChainId.MAINNET.toString())
+    expect(second!.MessageDeduplicationId).toEqual(first!.MessageDeduplicationId)
+    expect(otherChain!.MessageGroupId).toEqual(ChainId.ARBITRUM_ONE.toString())
+    expect(otherChain!.MessageDeduplicationId).not.toEqual(first!.MessageDeduplicationId)
+  })
+
+  it('coalesces refreshes of the same bucket before sending them', async () => {
+    const sendMessage = jest.fn(async (_params: SQS.SendMessageRequest) => {})
+    const dispatcher = new SqsCachingRefreshDispatcher(QUEUE_URL, {}, sqsClient(sendMessage))
+
+    await dispatcher.dispatch(request('1000000000000000000'))
+    await dispatcher.dispatch(request('1000000000000000001'))
+
+    expect(sendMessage).toHaveBeenCalledTimes(1)
+  })
+
+  it('drops refreshes past the pending sends of a chain', async () => {
+    const sends: (() => void)[] = []
+    const sendMessage = jest.fn(
+      (_params: SQS.SendMessageRequest) => new Promise<void>((resolve) => sends.push(resolve))
+    )
+    const dispatcher = new SqsCachingRefreshDispatcher(QUEUE_URL, { maxPendingPerChain: 1 }, sqsClient(sendMessage))
+
+    const first = dispatcher.dispatch(request('1000000000000000000'))
+    await dispatcher.dispatch(request('5000000000000000000'))
+    sends.forEach((send) => send())
+    await first
+
+    expect(sendMessage).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not reject when the message fails to send', async () => {
+    const sendMessage = jest.fn(async (_params: SQS.SendMessageRequest) => {
+      throw new Error('throttled')
+    })
+    const dispatcher = new SqsCachingRefreshDispatcher(QUEUE_URL, {}, sqsClient(sendMessage))
+
+    await expect(dispatcher.dispatch(request('1000000000000000000'))).resolves.toBeUndefined()
+  })
+
+  it('only accepts FIFO queues, which deduplicate across lambdas', () => {
+    expect(() => new SqsCachingRefreshDispatcher(QUEUE_URL.replace('.fifo', ''))).toThrow('must be a FIFO queue')
+  })
+})
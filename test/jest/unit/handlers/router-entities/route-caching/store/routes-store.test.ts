@@ -0,0 +1,258 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals'
+import { DynamoDB } from 'aws-sdk'
+import _ from 'lodash'
+import {
+  DynamoRoutesStore,
+  InMemoryRoutesStore,
+  RedisCompatibleClient,
+  RedisRoutesStore,
+  RoutesDbEntry,
+  RoutesIndexEntry,
+  RoutesStore,
+} from '../../../../../../../lib/handlers/router-entities/route-caching/store'
+
+const PAIR = '0xa/0xb/0/1'
+const NOW = Math.floor(Date.now() / 1000)
+
+const entry = (routeId: number, overrides: Partial<RoutesDbEntry> = {}): RoutesDbEntry => ({
+  pairTradeTypeChainId: PAIR,
+  routeId,
+  blockNumber: 100,
+  protocol: 'V3',
+  item: Buffer.from(`{"routeId":${routeId}}`),
+  ttl: NOW + 60,
+  ...overrides,
+})
+
+const indexEntry = (indexKey: string, routeId: number, pairTradeTypeChainId: string = PAIR): RoutesIndexEntry => ({
+  indexKey,
+  pairTradeTypeChainId,
+  routeId,
+  ttl: NOW + 60,
+})
+
+// Keeps hashes in memory, with the expirations set on each key. Like Redis, a key without an expiration has an
+// infinite one for GT.
+class FakeRedisClient implements RedisCompatibleClient {
+  public readonly hashes: { [key: string]: { [field: string]: string } } = {}
+  public readonly expirations: { [key: string]: number } = {}
+
+  async hgetall(key: string) {
+    return { ...this.hashes[key] }
+  }
+
+  async hset(key: string, values: { [field: string]: string }) {
+    this.hashes[key] = { ...this.hashes[key], ...values }
+    return _.size(values)
+  }
+
+  async hdel(key: string, ...fields: string[]) {
+    this.hashes[key] = _.omit(this.hashes[key], fields)
+    return fields.length
+  }
+
+  async expire(key: string, seconds: number, mode: 'NX' | 'GT') {
+    const current = this.expirations[key]
+    if (mode == 'NX' ? current !== undefined : current === undefined || seconds <= current) {
+      return 0
+    }
+    this.expirations[key] = seconds
+    return 1
+  }
+
+  async del(...keys: string[]) {
+    keys.forEach((key) => delete this.hashes[key])
+    return keys.length
+  }
+}
+
+describe.each<[string, () => RoutesStore]>([
+  ['InMemoryRoutesStore', () => new InMemoryRoutesStore()],
+  ['RedisRoutesStore', () => new RedisRoutesStore({ client: new FakeRedisClient() })],
+])('%s', (_name, buildStore) => {
+  it('returns the routes of the pair, replacing routes with the same routeId', async () => {
+    const store = buildStore()
+    await store.putRoutes([entry(1), entry(2), entry(3, { pairTradeTypeChainId: '0xa/0xb/1/1' })])
+    await store.putRoutes([entry(2, { blockNumber: 101 })])
+
+    const routes = _.sortBy(await store.getRoutes(PAIR), 'routeId')
+
+    expect(routes.map(({ routeId, blockNumber }) => [routeId, blockNumber])).toEqual([
+      [1, 100],
+      [2, 101],
+    ])
+    expect(routes[0]!.item.toString()).toEqual('{"routeId":1}')
+  })
+
+  it('does not return expired routes', async () => {
+    const store = buildStore()
+    await store.putRoutes([entry(1), entry(2, { ttl: NOW - 1 })])
+
+    expect((await store.getRoutes(PAIR)).map(({ routeId }) => routeId)).toEqual([1])
+  })
+
+  it('returns the caching request flags within the amounts', async () => {
+    const store = buildStore()
+    for (const amount of [1, 1.5, 2, 3]) {
+      await store.putCachingRequestFlag({ pairTradeTypeChainId: PAIR, amount, blockNumber: 100, ttl: NOW + 60 })
+    }
+    await store.putCachingRequestFlag({ pairTradeTypeChainId: PAIR, amount: 1.2, blockNumber: 100, ttl: NOW - 1 })
+
+    const flags = await store.getCachingRequestFlags(PAIR, 1, 2)
+
+    expect(_.sortBy(flags.map(({ amount }) => amount))).toEqual([1, 1.5, 2])
+  })
+
+  it('returns the index entries of the pool or token, and deletes them', async () => {
+    const store = buildStore()
+    await store.putRoutesIndexEntries([
+      indexEntry('1/pool/0xc', 1),
+      indexEntry('1/pool/0xc', 1, '0xa/0xb/1/1'),
+      indexEntry('1/pool/0xc', 2, '0xa/0xb/1/1'),
+      indexEntry('1/token/0xa', 1),
+    ])
+    await store.deleteRoutesIndexEntries([indexEntry('1/pool/0xc', 2, '0xa/0xb/1/1')])
+
+    const entries = await store.getRoutesIndexEntries('1/pool/0xc')
+
+    expect(_.sortBy(entries.map(({ pairTradeTypeChainId, routeId }) => `${pairTradeTypeChainId}#${routeId}`))).toEqual([
+      '0xa/0xb/0/1#1',
+      '0xa/0xb/1/1#1',
+    ])
+  })
+
+  it('deletes routes and every caching request flag of the pair', async () => {
+    const store = buildStore()
+    await store.putRoutes([entry(1), entry(2), entry(3)])
+    for (const amount of [1, 2]) {
+      await store.putCachingRequestFlag({ pairTradeTypeChainId: PAIR, amount, blockNumber: 100, ttl: NOW + 60 })
+    }
+
+    await store.deleteRoutes(PAIR, [1, 3, 4])
+
+    expect((await store.getRoutes(PAIR)).map(({ routeId }) => routeId)).toEqual([2])
+    expect(await store.deleteCachingRequestFlags(PAIR)).toEqual(2)
+    expect(await store.getCachingRequestFlags(PAIR, 0, 10)).toEqual([])
+  })
+})
+
+describe('RedisRoutesStore', () => {
+  it('expires the keys with their entry that expires last', async () => {
+    const client = new FakeRedisClient()
+    const store = new RedisRoutesStore({ client, keyPrefix: 'test' })
+    await store.putRoutes([entry(1, { ttl: NOW + 30 }), entry(2, { ttl: NOW + 60 })])
+
+    expect(client.expirations[`test:routes:${PAIR}`]).toBeGreaterThan(30)
+    expect(client.expirations[`test:routes:${PAIR}`]).toBeLessThanOrEqual(60)
+  })
+
+  it('does not shorten the expiry of a key for entries that expire sooner', async () => {
+    const client = new FakeRedisClient()
+    const store = new RedisRoutesStore({ client, keyPrefix: 'test' })
+    await store.putRoutes([entry(1, { ttl: NOW + 3600 })])
+    await store.putRoutes([entry(2, { ttl: NOW + 60 })])
+
+    expect(client.expirations[`test:routes:${PAIR}`]).toBeGreaterThan(60)
+  })
+
+  it('deletes expired entries when the pair is read', async () => {
+    const client = new FakeRedisClient()
+    const store = new RedisRoutesStore({ client, keyPrefix: 'test' })
+    await store.putRoutes([entry(1)])
+    client.hashes[`test:routes:${PAIR}`]!['2'] = JSON.stringify({ ...entry(2), item: '', ttl: NOW - 1 })
+
+    await store.getRoutes(PAIR)
+
+    expect(_.keys(client.hashes[`test:routes:${PAIR}`])).toEqual(['1'])
+  })
+})
+
+describe('DynamoRoutesStore', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  // Serves the items one page at a time, as DynamoDB does past 1 MB of items.
+  const mockQueryPages = (pages: DynamoDB.DocumentClient.ItemList[]) =>
+    jest.spyOn(DynamoDB.DocumentClient.prototype, 'query').mockImplementation(((
+      params: DynamoDB.DocumentClient.QueryInput
+    ) => {
+      const page = params.ExclusiveStartKey ? params.ExclusiveStartKey.page : 0
+      return {
+        promise: async () => ({
+          Items: pages[page],
+          LastEvaluatedKey: page + 1 < pages.length ? { page: page + 1 } : undefined,
+        }),
+      }
+    }) as any)
+
+  const buildStore = () =>
+    new DynamoRoutesStore({
+      routesTableName: 'Routes',
+      routesCachingRequestFlagTableName: 'RoutesCachingRequestFlag',
+      routesIndexTableName: 'RoutesIndex',
+    })
+
+  it('reads every page of the index entries', async () => {
+    const query = mockQueryPages([
+      [{ ...indexEntry('1/pool/0xc', 1), routeKey: `${PAIR}#1` }],
+      [{ ...indexEntry('1/pool/0xc', 2), routeKey: `${PAIR}#2` }],
+    ])
+
+    const entries = await buildStore().getRoutesIndexEntries('1/pool/0xc')
+
+    expect(entries).toEqual([indexEntry('1/pool/0xc', 1), indexEntry('1/pool/0xc', 2)])
+    expect(query).toHaveBeenCalledTimes(2)
+  })
+
+  it('deletes the caching request flags of every page', async () => {
+    mockQueryPages([
+      [{ pairTradeTypeChainId: PAIR, amount: 1 }],
+      [{ pairTradeTypeChainId: PAIR, amount: 2 }],
+      [{ pairTradeTypeChainId: PAIR, amount: 3 }],
+    ])
+    const batchWrite = jest
+      .spyOn(DynamoDB.DocumentClient.prototype, 'batchWrite')
+      .mockImplementation((() => ({ promise: async () => ({}) })) as any)
+
+    expect(await buildStore().deleteCachingRequestFlags(PAIR)).toEqual(3)
+    expect(batchWrite.mock.calls[0]![0].RequestItems['RoutesCachingRequestFlag']).toHaveLength(3)
+  })
+})
+
+describe('routesStoreFromEnv', () => {
+  const env = process.env
+
+  afterEach(() => {
+    process.env = env
+  })
+
+  // The store is shared by the whole process, so every test loads its own module.
+  const routesStoreFromEnv = (vars: { [name: string]: string }) => {
+    process.env = { ...env, ...vars }
+    let module: any
+    jest.isolateModules(() => {
+      module = require('../../../../../../../lib/handlers/router-entities/route-caching/store/routes-store-from-env')
+    })
+    return () => module.routesStoreFromEnv()
+  }
+
+  it('shares a single in-memory store', () => {
+    const load = routesStoreFromEnv({ ROUTES_STORE: 'memory' })
+
+    expect(load().constructor.name).toEqual('InMemoryRoutesStore')
+    expect(load()).toBe(load())
+  })
+
+  it('only stores routes in DynamoDB if the cached routes table is set', () => {
+    expect(routesStoreFromEnv({ CACHED_ROUTES_TABLE_NAME: '' })()).toBeUndefined()
+    expect(routesStoreFromEnv({ CACHED_ROUTES_TABLE_NAME: 'CachedRoutes' })().constructor.name).toEqual(
+      'DynamoRoutesStore'
+    )
+  })
+
+  it('rejects unknown stores and Redis stores without a url', () => {
+    expect(routesStoreFromEnv({ ROUTES_STORE: 'postgres' })).toThrow('Unknown routes store postgres')
+    expect(routesStoreFromEnv({ ROUTES_STORE: 'redis', REDIS_URL: '' })).toThrow('REDIS_URL must be set')
+  })
+})
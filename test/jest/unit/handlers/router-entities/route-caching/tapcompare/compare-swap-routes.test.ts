@@ -0,0 +1,83 @@
+import { describe, expect, it } from '@jest/globals'
+import { ChainId, CurrencyAmount, TradeType } from '@uniswap/sdk-core'
+import { SwapRoute, USDC_MAINNET, V3Route } from '@uniswap/smart-order-router'
+import { FeeAmount, Pool as V3Pool } from '@uniswap/v3-sdk'
+import { BigNumber } from 'ethers'
+import { compareSwapRoutes } from '../../../../../../../lib/handlers/router-entities/route-caching'
+import { WNATIVE_ON } from '../../../../../../utils/tokens'
+
+const WETH = WNATIVE_ON(ChainId.MAINNET)
+
+const v3Route = (fee: FeeAmount) =>
+  new V3Route(
+    [new V3Pool(WETH, USDC_MAINNET, fee, '2437312313659959819381354528', '10272714736694327408', -69633)],
+    WETH,
+    USDC_MAINNET
+  )
+
+const swapRoute = (quoteGasAdjusted: number, estimatedGasUsed: number, routes: [number, FeeAmount][]): SwapRoute =>
+  ({
+    quoteGasAdjusted: CurrencyAmount.fromRawAmount(USDC_MAINNET, quoteGasAdjusted),
+    estimatedGasUsed: BigNumber.from(estimatedGasUsed),
+    route: routes.map(([percent, fee]) => ({ percent, route: v3Route(fee) })),
+  } as unknown as SwapRoute)
+
+describe('compareSwapRoutes', () => {
+  it('measures how much less the cached route receives for ExactIn', () => {
+    const comparison = compareSwapRoutes(
+      swapRoute(10_000, 100_000, [[100, FeeAmount.MEDIUM]]),
+      swapRoute(9_990, 120_000, [[100, FeeAmount.MEDIUM]]),
+      TradeType.EXACT_INPUT
+    )
+
+    expect(comparison).toEqual({ quoteDeltaBips: 10, gasUsedDelta: 20_000, sameRoutes: true })
+  })
+
+  it('measures how much more the cached route pays for ExactOut', () => {
+    const comparison = compareSwapRoutes(
+      swapRoute(10_000, 100_000, [[100, FeeAmount.MEDIUM]]),
+      swapRoute(10_005, 100_000, [[100, FeeAmount.MEDIUM]]),
+      TradeType.EXACT_OUTPUT
+    )
+
+    expect(comparison.quoteDeltaBips).toEqual(5)
+  })
+
+  it('compares the routes regardless of their order', () => {
+    const fresh = swapRoute(10_000, 100_000, [
+      [60, FeeAmount.MEDIUM],
+      [40, FeeAmount.HIGH],
+    ])
+
+    expect(
+      compareSwapRoutes(
+        fresh,
+        swapRoute(10_000, 100_000, [
+          [40, FeeAmount.HIGH],
+          [60, FeeAmount.MEDIUM],
+        ]),
+        TradeType.EXACT_INPUT
+      ).sameRoutes
+    ).toBe(true)
+    expect(
+      compareSwapRoutes(
+        fresh,
+        swapRoute(10_000, 100_000, [
+          [50, FeeAmount.HIGH],
+          [50, FeeAmount.MEDIUM],
+        ]),
+        TradeType.EXACT_INPUT
+      ).sameRoutes
+    ).toBe(false)
+  })
+
+  it('does not measure the quote delta of a zero fresh quote', () => {
+    const comparison = compareSwapRoutes(
+      swapRoute(0, 100_000, [[100, FeeAmount.MEDIUM]]),
+      swapRoute(10, 100_000, [[100, FeeAmount.MEDIUM]]),
+      TradeType.EXACT_INPUT
+    )
+
+    expect(comparison.quoteDeltaBips).toBeUndefined()
+  })
+})
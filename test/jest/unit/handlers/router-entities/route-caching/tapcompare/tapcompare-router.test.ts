@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals'
+import { ChainId, CurrencyAmount, TradeType } from '@uniswap/sdk-core'
+import { AlphaRouterConfig, CacheMode, IRouter, SwapRoute, USDC_MAINNET } from '@uniswap/smart-order-router'
+import { BigNumber } from 'ethers'
+import {
+  buildCachedRoutesConfiguration,
+  DynamoRouteCachingProvider,
+  InMemoryRoutesStore,
+  TapcompareRouter,
+} from '../../../../../../../lib/handlers/router-entities/route-caching'
+import { WNATIVE_ON } from '../../../../../../utils/tokens'
+
+const WETH = WNATIVE_ON(ChainId.MAINNET)
+
+const amount = (value: number) => CurrencyAmount.fromRawAmount(WETH, (value * 10 ** WETH.decimals).toString())
+
+const swapRoute = (hitsCachedRoute: boolean): SwapRoute =>
+  ({
+    quoteGasAdjusted: CurrencyAmount.fromRawAmount(USDC_MAINNET, 10_000),
+    estimatedGasUsed: BigNumber.from(100_000),
+    blockNumber: BigNumber.from(10),
+    route: [],
+    hitsCachedRoute,
+  } as unknown as SwapRoute)
+
+describe('TapcompareRouter', () => {
+  let route: jest.Mock<IRouter<AlphaRouterConfig>['route']>
+  let router: TapcompareRouter
+
+  beforeEach(() => {
+    route = jest.fn<IRouter<AlphaRouterConfig>['route']>(
+      async (_amount, _quoteCurrency, _tradeType, _swapOptions, routingConfig) =>
+        swapRoute(routingConfig?.overwriteCacheMode === CacheMode.Livemode)
+    )
+    const routeCachingProvider = new DynamoRouteCachingProvider({
+      routesStore: new InMemoryRoutesStore(),
+      cachingRefreshDispatcher: { dispatch: async () => {} },
+      cachedRoutesConfiguration: buildCachedRoutesConfiguration([
+        {
+          pair: 'WETH/USDC',
+          tokenInAddress: WETH.address,
+          tokenOutAddress: USDC_MAINNET.address,
+          tradeType: 'exactIn',
+          chainId: ChainId.MAINNET,
+          buckets: [
+            { bucket: 1, cacheMode: CacheMode.Livemode },
+            { bucket: 10, cacheMode: CacheMode.Tapcompare, tapcompareSampleRate: 0.5 },
+          ],
+        },
+      ]),
+    })
+    router = new TapcompareRouter({ route }, routeCachingProvider, ChainId.MAINNET)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('routes the quotes outside of Tapcompare buckets as they are', async () => {
+    await router.route(amount(1), USDC_MAINNET, TradeType.EXACT_INPUT, undefined, { useCachedRoutes: true })
+
+    expect(route).toHaveBeenCalledTimes(1)
+    expect(route.mock.calls[0]![4]).toEqual({ useCachedRoutes: true })
+  })
+
+  it('does not read the cached routes of Tapcompare quotes that are not sampled', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5)
+
+    await router.route(amount(5), USDC_MAINNET, TradeType.EXACT_INPUT)
+
+    expect(route).toHaveBeenCalledTimes(1)
+    expect(route.mock.calls[0]![4]).toEqual({ useCachedRoutes: false })
+  })
+
+  it('returns the fresh route of sampled Tapcompare quotes, and quotes the cached routes next to it', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.1)
+
+    const result = await router.route(amount(5), USDC_MAINNET, TradeType.EXACT_INPUT)
+
+    expect(result?.hitsCachedRoute).toBe(false)
+    expect(route.mock.calls.map((call) => call[4])).toEqual([
+      { useCachedRoutes: false },
+      { overwriteCacheMode: CacheMode.Livemode, writeToCachedRoutes: false },
+    ])
+  })
+
+  it('returns the fresh route when quoting the cached routes fails', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.1)
+    route.mockImplementation(async (_amount, _quoteCurrency, _tradeType, _swapOptions, routingConfig) => {
+      if (routingConfig?.overwriteCacheMode) {
+        throw new Error('boom')
+      }
+      return swapRoute(false)
+    })
+
+    await expect(router.route(amount(5), USDC_MAINNET, TradeType.EXACT_INPUT)).resolves.toBeDefined()
+  })
+})
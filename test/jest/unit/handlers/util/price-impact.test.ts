@@ -0,0 +1,70 @@
+import { describe, expect, it, jest } from '@jest/globals'
+import { ChainId, Currency, CurrencyAmount, Percent, Token } from '@uniswap/sdk-core'
+import {
+  exceedsPriceImpact,
+  findLargestAmountWithinPriceImpact,
+  MAX_PRICE_IMPACT_PROBES,
+  priceImpactToPercent,
+} from '../../../../../lib/handlers/quote/util/price-impact'
+
+const USDC = new Token(ChainId.MAINNET, '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 6, 'USDC')
+
+// Price impact grows linearly with the amount: 1% per 1000 USDC.
+const linearPriceImpact = (amount: CurrencyAmount<Currency>) =>
+  new Percent(amount.quotient, CurrencyAmount.fromRawAmount(USDC, 100_000_000_000).quotient)
+
+describe('price impact', () => {
+  it('converts maxPriceImpact from percent', () => {
+    expect(priceImpactToPercent(1.5).toFixed(2)).toEqual('1.50')
+    expect(exceedsPriceImpact(new Percent(2, 100), priceImpactToPercent(1.5))).toBeTruthy()
+    expect(exceedsPriceImpact(new Percent(1, 100), priceImpactToPercent(1.5))).toBeFalsy()
+    expect(exceedsPriceImpact(undefined, priceImpactToPercent(1.5))).toBeFalsy()
+  })
+
+  it('finds the largest amount within the max price impact', async () => {
+    const probe = jest.fn(async (amount: CurrencyAmount<Currency>) => ({ priceImpact: linearPriceImpact(amount) }))
+
+    const result = await findLargestAmountWithinPriceImpact(
+      CurrencyAmount.fromRawAmount(USDC, 4_000_000_000),
+      priceImpactToPercent(1.5),
+      probe,
+      (route) => route.priceImpact
+    )
+
+    expect(result).toBeDefined()
+    expect(exceedsPriceImpact(result!.route.priceImpact, priceImpactToPercent(1.5))).toBeFalsy()
+    // Within 0.5% of the requested amount of the 1500 USDC limit.
+    expect(Number(result!.amount.toExact())).toBeGreaterThan(1480)
+    expect(Number(result!.amount.toExact())).toBeLessThanOrEqual(1500)
+    expect(probe.mock.calls.length).toBeLessThanOrEqual(MAX_PRICE_IMPACT_PROBES)
+  })
+
+  it('treats amounts without a route as exceeding the max price impact', async () => {
+    const probe = jest.fn(async (amount: CurrencyAmount<Currency>) =>
+      Number(amount.toExact()) > 500 ? null : { priceImpact: linearPriceImpact(amount) }
+    )
+
+    const result = await findLargestAmountWithinPriceImpact(
+      CurrencyAmount.fromRawAmount(USDC, 4_000_000_000),
+      priceImpactToPercent(1.5),
+      probe,
+      (route) => route.priceImpact
+    )
+
+    expect(Number(result!.amount.toExact())).toBeLessThanOrEqual(500)
+  })
+
+  it('returns undefined when even the smallest probe exceeds the max price impact', async () => {
+    const probe = jest.fn(async (_: CurrencyAmount<Currency>) => ({ priceImpact: new Percent(50, 100) }))
+
+    const result = await findLargestAmountWithinPriceImpact(
+      CurrencyAmount.fromRawAmount(USDC, 4_000_000_000),
+      priceImpactToPercent(1.5),
+      probe,
+      (route) => route.priceImpact
+    )
+
+    expect(result).toBeUndefined()
+    expect(probe).toHaveBeenCalledTimes(MAX_PRICE_IMPACT_PROBES)
+  })
+})
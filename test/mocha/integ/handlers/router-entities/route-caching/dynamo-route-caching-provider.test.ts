@@ -79,6 +79,34 @@ const TEST_ROUTE_DB_TABLE = {
   },
 }
 
+const TEST_ROUTE_DB_INDEX_TABLE = {
+  TableName: DynamoDBTableProps.RoutesDbIndexTable.Name,
+  KeySchema: [
+    {
+      AttributeName: 'indexKey',
+      KeyType: 'HASH',
+    },
+    {
+      AttributeName: 'routeKey',
+      KeyType: 'RANGE',
+    },
+  ],
+  AttributeDefinitions: [
+    {
+      AttributeName: 'indexKey',
+      AttributeType: 'S',
+    },
+    {
+      AttributeName: 'routeKey',
+      AttributeType: 'S',
+    },
+  ],
+  ProvisionedThroughput: {
+    ReadCapacityUnits: 1,
+    WriteCapacityUnits: 1,
+  },
+}
+
 const WETH = WNATIVE_ON(ChainId.MAINNET)
 
 const TEST_WETH_USDC_POOL = new V3Pool(
@@ -152,10 +180,11 @@ const TEST_UNCACHED_ROUTES = new CachedRoutes({
 })
 
 describe('DynamoRouteCachingProvider', async () => {
-  setupTables(TEST_ROUTE_CACHING_TABLE, TEST_ROUTE_DB_TABLE)
+  setupTables(TEST_ROUTE_CACHING_TABLE, TEST_ROUTE_DB_TABLE, TEST_ROUTE_DB_INDEX_TABLE)
   const dynamoRouteCache = new DynamoRouteCachingProvider({
     routesTableName: DynamoDBTableProps.RoutesDbTable.Name,
     routesCachingRequestFlagTableName: DynamoDBTableProps.RoutesDbCachingRequestFlagTable.Name,
+    routesIndexTableName: DynamoDBTableProps.RoutesDbIndexTable.Name,
     cachingQuoteLambdaName: 'test',
   })
 
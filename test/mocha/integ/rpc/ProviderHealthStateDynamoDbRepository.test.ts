@@ -4,7 +4,7 @@ import { default as bunyan } from 'bunyan'
 import chai, { expect } from 'chai'
 import { ProviderHealthStateRepository } from '../../../../lib/rpc/ProviderHealthStateRepository'
 import { ProviderHealthStateDynamoDbRepository } from '../../../../lib/rpc/ProviderHealthStateDynamoDbRepository'
-import { ProviderHealthiness, ProviderHealthState } from '../../../../lib/rpc/ProviderHealthState'
+import { MethodGroup, ProviderHealthiness, ProviderHealthState } from '../../../../lib/rpc/ProviderHealthState'
 import chaiAsPromised from 'chai-as-promised'
 
 chai.use(chaiAsPromised)
@@ -123,4 +123,37 @@ describe('ProviderHealthStateDynamoDbRepository', () => {
       version: 2,
     })
   })
+
+  it('Update item keeps method group healthiness, unless updated', async () => {
+    await storage.write(PROVIDER_ID, {
+      healthiness: ProviderHealthiness.HEALTHY,
+      ongoingAlarms: ['alarm-call'],
+      version: 1,
+      methodHealthiness: { [MethodGroup.CALL]: ProviderHealthiness.UNHEALTHY },
+    })
+    await storage.update(PROVIDER_ID, {
+      healthiness: ProviderHealthiness.UNHEALTHY,
+      ongoingAlarms: ['alarm-call', 'alarm1'],
+      version: 2,
+    })
+    expect(await storage.read(PROVIDER_ID)).deep.equals({
+      healthiness: ProviderHealthiness.UNHEALTHY,
+      ongoingAlarms: ['alarm-call', 'alarm1'],
+      version: 2,
+      methodHealthiness: { [MethodGroup.CALL]: ProviderHealthiness.UNHEALTHY },
+    })
+
+    await storage.update(PROVIDER_ID, {
+      healthiness: ProviderHealthiness.UNHEALTHY,
+      ongoingAlarms: ['alarm1'],
+      version: 3,
+      methodHealthiness: { [MethodGroup.CALL]: ProviderHealthiness.HEALTHY },
+    })
+    expect(await storage.read(PROVIDER_ID)).deep.equals({
+      healthiness: ProviderHealthiness.UNHEALTHY,
+      ongoingAlarms: ['alarm1'],
+      version: 3,
+      methodHealthiness: { [MethodGroup.CALL]: ProviderHealthiness.HEALTHY },
+    })
+  })
 })
@@ -4,7 +4,7 @@ import { expect } from 'chai'
 import { AlarmEvent, FallbackHandler } from '../../../../lib/rpc/handler/FallbackHandler'
 import Sinon from 'sinon'
 import { ProviderHealthStateDynamoDbRepository } from '../../../../lib/rpc/ProviderHealthStateDynamoDbRepository'
-import { ProviderHealthiness } from '../../../../lib/rpc/ProviderHealthState'
+import { MethodGroup, ProviderHealthiness } from '../../../../lib/rpc/ProviderHealthState'
 
 const PROVIDER_ID = '56_QUIKNODE'
 
@@ -287,4 +287,77 @@ describe('FallbackHandler', () => {
       expect(newHealthiness).equals(ProviderHealthiness.UNHEALTHY)
     })
   })
+
+  describe('verify we do DB update for method group alarms', async () => {
+    const CALL_ALARM_NAME = 'RoutingAPI-RpcGateway-ErrorRateAlarm-ChainId-56-Provider-QUIKNODE-MethodGroup-call'
+    let stubRepo: Sinon.SinonStubbedInstance<ProviderHealthStateDynamoDbRepository>
+
+    beforeEach(() => {
+      stubRepo = Sinon.createStubInstance(ProviderHealthStateDynamoDbRepository)
+      stubRepo.read.resolves()
+      stubRepo.write.resolves()
+      stubRepo.update.resolves()
+      fallbackHandler['healthStateRepository'] = stubRepo
+    })
+
+    it('reads the method group from the alarm name', async () => {
+      const alarm = { ...realisticAlarm, alarmData: { ...realisticAlarm.alarmData, alarmName: CALL_ALARM_NAME } }
+
+      const alarmEvent = fallbackHandler.readAlarmEvent(alarm)
+
+      expect(alarmEvent.providerId).equals(PROVIDER_ID)
+      expect(alarmEvent.methodGroup).equals(MethodGroup.CALL)
+    })
+
+    it('alarm only makes the method group unhealthy', async () => {
+      stubRepo.read.resolves({
+        healthiness: ProviderHealthiness.HEALTHY,
+        ongoingAlarms: [],
+        version: 1,
+      })
+      const { oldHealthiness, newHealthiness } = await fallbackHandler['updateDbItemForAlarmEvent']({
+        alarmName: CALL_ALARM_NAME,
+        state: 'ALARM',
+        previousState: 'OK',
+        providerId: PROVIDER_ID,
+        reason: 'reason',
+        methodGroup: MethodGroup.CALL,
+      })
+
+      expect(stubRepo.update.getCall(0).args[1]).deep.equals({
+        healthiness: ProviderHealthiness.HEALTHY,
+        ongoingAlarms: [CALL_ALARM_NAME],
+        version: 2,
+        methodHealthiness: { [MethodGroup.CALL]: ProviderHealthiness.UNHEALTHY },
+      })
+      expect(oldHealthiness).equals(ProviderHealthiness.HEALTHY)
+      expect(newHealthiness).equals(ProviderHealthiness.UNHEALTHY)
+    })
+
+    it('OK recovers the method group, while the alarm on the provider is still ongoing', async () => {
+      stubRepo.read.resolves({
+        healthiness: ProviderHealthiness.UNHEALTHY,
+        ongoingAlarms: ['alarm1', CALL_ALARM_NAME],
+        version: 1,
+        methodHealthiness: { [MethodGroup.CALL]: ProviderHealthiness.UNHEALTHY },
+      })
+      const { oldHealthiness, newHealthiness } = await fallbackHandler['updateDbItemForOkEvent']({
+        alarmName: CALL_ALARM_NAME,
+        state: 'OK',
+        previousState: 'ALARM',
+        providerId: PROVIDER_ID,
+        reason: 'reason',
+        methodGroup: MethodGroup.CALL,
+      })
+
+      expect(stubRepo.update.getCall(0).args[1]).deep.equals({
+        healthiness: ProviderHealthiness.UNHEALTHY,
+        ongoingAlarms: ['alarm1'],
+        version: 2,
+        methodHealthiness: { [MethodGroup.CALL]: ProviderHealthiness.HEALTHY },
+      })
+      expect(oldHealthiness).equals(ProviderHealthiness.UNHEALTHY)
+      expect(newHealthiness).equals(ProviderHealthiness.HEALTHY)
+    })
+  })
 })
@@ -2,9 +2,18 @@ import { GlobalRpcProviders } from '../../../../lib/rpc/GlobalRpcProviders'
 import { default as bunyan, default as Logger } from 'bunyan'
 import { ChainId } from '@uniswap/sdk-core'
 import { expect } from 'chai'
-import { SingleJsonRpcProviderConfig, UniJsonRpcProviderConfig } from '../../../../lib/rpc/config'
+import {
+  ProviderSelectionMode,
+  SingleJsonRpcProviderConfig,
+  UniJsonRpcProviderConfig,
+} from '../../../../lib/rpc/config'
 import Sinon, { SinonSandbox } from 'sinon'
 import TEST_PROD_CONFIG from './rpcProviderTestProdConfig.json'
+import { FileProdConfigSource } from '../../../../lib/rpc/ProdConfigSource'
+import { ProviderHealthiness } from '../../../../lib/rpc/ProviderHealthState'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
 
 const log: Logger = bunyan.createLogger({ name: 'test' })
 
@@ -13,6 +22,17 @@ const UNI_PROVIDER_TEST_CONFIG: UniJsonRpcProviderConfig = {
   ENABLE_SHADOW_LATENCY_EVALUATION: false,
   LATENCY_EVALUATION_WAIT_PERIOD_IN_S: 15,
   DEFAULT_INITIAL_WEIGHT: 1000,
+  PROVIDER_SELECTION_MODE: ProviderSelectionMode.STATIC,
+  ADAPTIVE_WEIGHT_FLOOR_RATIO: 0.1,
+  ADAPTIVE_WEIGHT_CEILING_RATIO: 2,
+  ADAPTIVE_WEIGHT_MIN_SAMPLE_COUNT: 20,
+  ADAPTIVE_WEIGHT_REFRESH_INTERVAL_IN_S: 10,
+  ENABLE_HEDGING: false,
+  HEDGING_LATENCY_PERCENTILE: 0.95,
+  HEDGING_MIN_DEADLINE_IN_MS: 100,
+  HEDGING_MAX_EXTRA_REQUEST_RATIO: 0.05,
+  ENABLE_BLOCK_CONSISTENCY: false,
+  MAX_BLOCK_LAG: 2,
 }
 
 const SINGLE_PROVIDER_TEST_CONFIG: SingleJsonRpcProviderConfig = {
@@ -20,18 +40,21 @@ const SINGLE_PROVIDER_TEST_CONFIG: SingleJsonRpcProviderConfig = {
   ERROR_PENALTY: -50,
   HIGH_LATENCY_PENALTY: -50,
   HEALTH_SCORE_FALLBACK_THRESHOLD: -70,
+  METHOD_GROUP_HEALTH_SCORE_FALLBACK_THRESHOLD: -70,
   HEALTH_SCORE_RECOVER_THRESHOLD: -10,
   MAX_LATENCY_ALLOWED_IN_MS: 500,
   RECOVER_SCORE_PER_MS: 0.005,
   RECOVER_MAX_WAIT_TIME_TO_ACKNOWLEDGE_IN_MS: 20000,
   DB_SYNC_INTERVAL_IN_S: 5,
   LATENCY_STAT_HISTORY_WINDOW_LENGTH_IN_S: 300,
+  LATENCY_STAT_HISTORY_MAX_SAMPLES: 1000,
   LATENCY_EVALUATION_WAIT_PERIOD_IN_S: 15,
 }
 
 const cleanUp = () => {
   GlobalRpcProviders['UNI_RPC_PROVIDERS'] = null
   GlobalRpcProviders['SINGLE_RPC_PROVIDERS'] = null
+  GlobalRpcProviders['PROD_CONFIG_SOURCE'] = null
 }
 
 describe('GlobalRpcProviders', () => {
@@ -58,6 +81,9 @@ describe('GlobalRpcProviders', () => {
         useMultiProviderProb: 1,
         sessionAllowProviderFallbackWhenUnhealthy: true,
         providerInitialWeights: [2, 1],
+        providerSelectionMode: 'adaptive',
+        enableHedging: true,
+        maxBlockLag: 5,
         providerUrls: ['INFURA_43114', 'QUICKNODE_43114'],
         providerNames: ['INFURA', 'QUICKNODE'],
       },
@@ -100,6 +126,10 @@ describe('GlobalRpcProviders', () => {
     const url1 = 'https://node1.avalanche-mainnet.quiknode.pro/key1/ext/bc/C/rpc/'
     expect(avaUniProvider['sessionAllowProviderFallbackWhenUnhealthy']).to.be.true
     expect(avaUniProvider['urlWeight']).to.deep.equal({ [url0]: 2, [url1]: 1 })
+    expect(avaUniProvider['config'].PROVIDER_SELECTION_MODE).to.equal(ProviderSelectionMode.ADAPTIVE)
+    expect(avaUniProvider['config'].ENABLE_HEDGING).to.be.true
+    expect(avaUniProvider['config'].MAX_BLOCK_LAG).to.equal(5)
+    expect(UNI_PROVIDER_TEST_CONFIG.ENABLE_HEDGING).to.be.false
     expect(avaUniProvider['providers'][0].url).to.equal(url0)
     expect(avaUniProvider['providers'][1].url).to.equal(url1)
   })
@@ -336,4 +366,124 @@ describe('GlobalRpcProviders', () => {
 
     cleanUp()
   })
+
+  describe('with a polled ProdConfig', () => {
+    const prodConfigPath = path.join(os.tmpdir(), 'rpcProviderProdConfig.test.json')
+    const url0 = 'https://avalanche-mainnet.infura.io/v3/key0'
+    const url1 = 'https://node1.avalanche-mainnet.quiknode.pro/key1/ext/bc/C/rpc/'
+    const chainConfig = {
+      chainId: 43114,
+      useMultiProviderProb: 1,
+      providerInitialWeights: [2, 1],
+      providerUrls: ['INFURA_43114', 'QUICKNODE_43114'],
+      providerNames: ['INFURA', 'QUICKNODE'],
+    }
+
+    const initProviders = () =>
+      GlobalRpcProviders.getGlobalUniRpcProviders(log, UNI_PROVIDER_TEST_CONFIG, SINGLE_PROVIDER_TEST_CONFIG, [
+        chainConfig,
+      ])
+
+    beforeEach(() => {
+      process.env = {
+        INFURA_43114: 'key0',
+        QUICKNODE_43114: 'node1,key1',
+      }
+      GlobalRpcProviders.pollProdConfigFrom(new FileProdConfigSource(prodConfigPath))
+    })
+
+    afterEach(async () => {
+      await fs.rm(prodConfigPath, { force: true })
+    })
+
+    it('swaps the providers, keeping the health state of the unchanged ones', async () => {
+      const avaUniProvider = initProviders().get(ChainId.AVALANCHE)!
+      const infuraProvider = avaUniProvider['providers'][0]
+      infuraProvider['healthiness'] = ProviderHealthiness.UNHEALTHY
+
+      await fs.writeFile(
+        prodConfigPath,
+        JSON.stringify([
+          { ...chainConfig, providerInitialWeights: [5], providerUrls: ['INFURA_43114'], providerNames: ['INFURA'] },
+        ])
+      )
+      expect(await GlobalRpcProviders.reloadProdConfig()).to.be.true
+
+      // Dependencies built at cold start hold on to the same UniJsonRpcProvider.
+      expect(initProviders().get(ChainId.AVALANCHE)).to.equal(avaUniProvider)
+      expect(avaUniProvider['providers'][0]).to.equal(infuraProvider)
+      expect(avaUniProvider['providers'][0].isHealthy()).to.be.false
+      expect(avaUniProvider['providers']).to.have.length(1)
+      expect(avaUniProvider['urlWeight']).to.deep.equal({ [url0]: 5 })
+      expect(GlobalRpcProviders['SINGLE_RPC_PROVIDERS']!.get(ChainId.AVALANCHE)).to.equal(avaUniProvider['providers'])
+
+      // The same config again is not applied.
+      expect(await GlobalRpcProviders.reloadProdConfig()).to.be.false
+    })
+
+    it('rejects invalid configs, keeping the providers', async () => {
+      const avaUniProvider = initProviders().get(ChainId.AVALANCHE)!
+
+      for (const invalidConfig of [
+        [{ ...chainConfig, useMultiProviderProb: 'always' }],
+        [{ ...chainConfig, providerInitialWeights: [1] }],
+        [{ ...chainConfig, providerUrls: ['INFURA_43114', 'UNDEFINED_43114'] }],
+        [{ ...chainConfig, providerNames: undefined }],
+        [{ ...chainConfig, providerNames: ['INFURA'] }],
+        [{ ...chainConfig, providerUrls: ['INFURA_43114', 'INFURA_43114'] }],
+      ]) {
+        await fs.writeFile(prodConfigPath, JSON.stringify(invalidConfig))
+        expect(await GlobalRpcProviders.reloadProdConfig()).to.be.false
+      }
+      await fs.writeFile(prodConfigPath, 'not json')
+      expect(await GlobalRpcProviders.reloadProdConfig()).to.be.false
+
+      expect(initProviders().get(ChainId.AVALANCHE)).to.equal(avaUniProvider)
+      expect(avaUniProvider['urlWeight']).to.deep.equal({ [url0]: 2, [url1]: 1 })
+    })
+
+    it('applies nothing of a config failing to build for any chain', async () => {
+      const avaUniProvider = initProviders().get(ChainId.AVALANCHE)!
+      process.env['INFURA_1'] = 'key2'
+
+      // Building the providers of mainnet throws, as their health table isn't set.
+      await fs.writeFile(
+        prodConfigPath,
+        JSON.stringify([
+          { ...chainConfig, providerInitialWeights: [5, 5] },
+          {
+            chainId: 1,
+            useMultiProviderProb: 1,
+            providerUrls: ['INFURA_1'],
+            providerNames: ['INFURA'],
+            enableDbSync: true,
+          },
+        ])
+      )
+      expect(await GlobalRpcProviders.reloadProdConfig()).to.be.false
+
+      expect(avaUniProvider['urlWeight']).to.deep.equal({ [url0]: 2, [url1]: 1 })
+      expect(initProviders().get(ChainId.MAINNET)).to.be.undefined
+    })
+
+    it('survives a failed poll', async () => {
+      initProviders()
+      sandbox.stub(GlobalRpcProviders, 'reloadProdConfig').rejects(new Error('unexpected'))
+      GlobalRpcProviders['lastProdConfigPollTimestampInMs'] = 0
+
+      initProviders()
+      // Lets the rejection settle.
+      await new Promise((resolve) => setImmediate(resolve))
+      expect(GlobalRpcProviders['pollingProdConfig']).to.be.false
+    })
+
+    it('polls the config on calls once the poll interval has passed', async () => {
+      initProviders()
+      const reloadProdConfig = sandbox.stub(GlobalRpcProviders, 'reloadProdConfig').resolves(false)
+
+      initProviders()
+      initProviders()
+      expect(reloadProdConfig.callCount).equals(1)
+    })
+  })
 })
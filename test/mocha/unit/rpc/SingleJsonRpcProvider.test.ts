@@ -1,12 +1,12 @@
 import { ChainId } from '@uniswap/sdk-core'
-import { SingleJsonRpcProvider } from '../../../../lib/rpc/SingleJsonRpcProvider'
+import { CallType, SingleJsonRpcProvider } from '../../../../lib/rpc/SingleJsonRpcProvider'
 import Sinon, { SinonSandbox } from 'sinon'
 import chai, { assert, expect } from 'chai'
 import chaiAsPromised from 'chai-as-promised'
-import { SingleJsonRpcProviderConfig } from '../../../../lib/rpc/config'
+import { DEFAULT_SINGLE_PROVIDER_CONFIG, SingleJsonRpcProviderConfig } from '../../../../lib/rpc/config'
 import { default as bunyan } from 'bunyan'
 import { ProviderHealthStateDynamoDbRepository } from '../../../../lib/rpc/ProviderHealthStateDynamoDbRepository'
-import { ProviderHealthiness } from '../../../../lib/rpc/ProviderHealthState'
+import { MethodGroup, ProviderHealthiness } from '../../../../lib/rpc/ProviderHealthState'
 
 chai.use(chaiAsPromised)
 
@@ -15,6 +15,7 @@ const config: SingleJsonRpcProviderConfig = {
   ERROR_PENALTY: -50,
   HIGH_LATENCY_PENALTY: -50,
   HEALTH_SCORE_FALLBACK_THRESHOLD: -70,
+  METHOD_GROUP_HEALTH_SCORE_FALLBACK_THRESHOLD: -70,
   HEALTH_SCORE_RECOVER_THRESHOLD: -10,
   MAX_LATENCY_ALLOWED_IN_MS: 500,
   RECOVER_SCORE_PER_MS: 0.01,
@@ -22,6 +23,7 @@ const config: SingleJsonRpcProviderConfig = {
   DB_SYNC_INTERVAL_IN_S: 5,
   LATENCY_EVALUATION_WAIT_PERIOD_IN_S: 15,
   LATENCY_STAT_HISTORY_WINDOW_LENGTH_IN_S: 300,
+  LATENCY_STAT_HISTORY_MAX_SAMPLES: 1000,
 }
 
 const log = bunyan.createLogger({
@@ -77,6 +79,133 @@ describe('SingleJsonRpcProvider', () => {
     }
   })
 
+  it('latency stats only cover calls within the latency history window', async () => {
+    const now = Date.now()
+    const perf = (latencyInMs: number, startTimestampInMs: number = now) => ({
+      callType: CallType.NORMAL,
+      methodName: 'call',
+      methodGroup: MethodGroup.CALL,
+      succeed: true,
+      latencyInMs,
+      startTimestampInMs,
+    })
+    // Out of the 300s window.
+    provider['recentCallPerfs'].push(perf(10000, now - 301 * 1000))
+
+    const getBlockNumber = sandbox.stub(SingleJsonRpcProvider.prototype, '_getBlockNumber' as any)
+    getBlockNumber.rejects('error')
+    await expect(provider.getBlockNumber()).to.be.rejected
+
+    provider['recentCallPerfs'].push(...[40, 10, 30, 20].map((latency) => perf(latency)))
+
+    expect(provider.getLatencyStats()).to.deep.equal({
+      p50LatencyInMs: 30,
+      p95LatencyInMs: 40,
+      errorRate: 0.2,
+      sampleCount: 5,
+    })
+    expect(provider['recentCallPerfs']).to.have.length(5)
+  })
+
+  it('latency stats only cover the latest calls', async () => {
+    provider = new SingleJsonRpcProvider(
+      {
+        chainId: ChainId.MAINNET,
+        name: 'mainnet',
+      },
+      'provider_0_url',
+      undefined,
+      log,
+      { ...config, LATENCY_STAT_HISTORY_MAX_SAMPLES: 3 },
+      false,
+      1.0
+    )
+    const getBlockNumber = sandbox.stub(SingleJsonRpcProvider.prototype, '_getBlockNumber' as any)
+    getBlockNumber.rejects('error')
+    await expect(provider.getBlockNumber()).to.be.rejected
+
+    const perf = (latencyInMs: number) => ({
+      callType: CallType.NORMAL,
+      methodName: 'call',
+      methodGroup: MethodGroup.CALL,
+      succeed: true,
+      latencyInMs,
+      startTimestampInMs: Date.now(),
+    })
+    // Overwrites the failed call and the first one.
+    provider['recentCallPerfs'].push(...[40, 10, 30, 20].map(perf))
+
+    expect(provider.getLatencyStats()).to.deep.equal({
+      p50LatencyInMs: 20,
+      p95LatencyInMs: 30,
+      errorRate: 0,
+      sampleCount: 3,
+    })
+    expect(provider['recentCallPerfs']).to.have.length(3)
+  })
+
+  it('health is tracked per method group', async () => {
+    const getBlockNumber = sandbox.stub(SingleJsonRpcProvider.prototype, '_getBlockNumber' as any)
+    getBlockNumber.rejects('error')
+
+    await expect(provider.getBlockNumber()).to.be.rejected
+    expect(provider.isHealthy(MethodGroup.BLOCK_NUMBER)).to.be.true
+    await expect(provider.getBlockNumber()).to.be.rejected
+
+    expect(provider.isHealthy(MethodGroup.BLOCK_NUMBER)).to.be.false
+    expect(provider.isHealthy(MethodGroup.CALL)).to.be.true
+    expect(provider.isHealthy()).to.be.true
+
+    provider['healthiness'] = ProviderHealthiness.UNHEALTHY
+    expect(provider.isHealthy(MethodGroup.CALL)).to.be.false
+  })
+
+  it('unhealthy method group recovers as time passes', async () => {
+    const getBlockNumber = sandbox.stub(SingleJsonRpcProvider.prototype, '_getBlockNumber' as any)
+    getBlockNumber.rejects('error')
+    await expect(provider.getBlockNumber()).to.be.rejected
+    await expect(provider.getBlockNumber()).to.be.rejected
+    const health = provider['methodGroupHealth'].get(MethodGroup.BLOCK_NUMBER)!
+
+    // Score is about -100, recovering 10 per second.
+    health.lastScoreUpdateTimestampInMs -= 2000
+    expect(provider.isHealthy(MethodGroup.BLOCK_NUMBER)).to.be.false
+    // Recovery is capped to the one of RECOVER_MAX_WAIT_TIME_TO_ACKNOWLEDGE_IN_MS.
+    health.score = -300
+    health.lastScoreUpdateTimestampInMs -= 60000
+    expect(provider.isHealthy(MethodGroup.BLOCK_NUMBER)).to.be.false
+    health.score = -100
+    expect(provider.isHealthy(MethodGroup.BLOCK_NUMBER)).to.be.true
+  })
+
+  it('method group fails over with the default config', async () => {
+    provider['config'] = DEFAULT_SINGLE_PROVIDER_CONFIG
+    const getBlockNumber = sandbox.stub(SingleJsonRpcProvider.prototype, '_getBlockNumber' as any)
+    getBlockNumber.rejects('error')
+
+    for (let i = 0; i < 10; i++) {
+      await expect(provider.getBlockNumber()).to.be.rejected
+    }
+    expect(provider.isHealthy(MethodGroup.BLOCK_NUMBER)).to.be.true
+    await expect(provider.getBlockNumber()).to.be.rejected
+    expect(provider.isHealthy(MethodGroup.BLOCK_NUMBER)).to.be.false
+    expect(provider.isHealthy(MethodGroup.CALL)).to.be.true
+
+    // Score is about -550, recovering 10 per second up to -200.
+    const health = provider['methodGroupHealth'].get(MethodGroup.BLOCK_NUMBER)!
+    health.lastScoreUpdateTimestampInMs -= 30000
+    expect(provider.isHealthy(MethodGroup.BLOCK_NUMBER)).to.be.false
+    health.lastScoreUpdateTimestampInMs -= 10000
+    expect(provider.isHealthy(MethodGroup.BLOCK_NUMBER)).to.be.true
+  })
+
+  it('method groups follow their healthiness synced from DB', async () => {
+    provider['methodHealthiness'] = { [MethodGroup.FEE_HISTORY]: ProviderHealthiness.UNHEALTHY }
+
+    expect(provider.isHealthy(MethodGroup.FEE_HISTORY)).to.be.false
+    expect(provider.isHealthy(MethodGroup.SEND)).to.be.true
+  })
+
   it('test sync and update states with DB', async () => {
     provider['enableDbSync'] = true
     const stubRepo = sandbox.createStubInstance(ProviderHealthStateDynamoDbRepository)
@@ -4,21 +4,34 @@ import { UniJsonRpcProvider } from '../../../../lib/rpc/UniJsonRpcProvider'
 import { ChainId } from '@uniswap/sdk-core'
 import Sinon, { SinonSandbox } from 'sinon'
 import {
+  ProviderSelectionMode,
   ProviderSpecialWeight,
   SingleJsonRpcProviderConfig,
   UniJsonRpcProviderConfig,
 } from '../../../../lib/rpc/config'
 import { SingleJsonRpcProvider } from '../../../../lib/rpc/SingleJsonRpcProvider'
 import { default as bunyan } from 'bunyan'
-import { ProviderHealthiness } from '../../../../lib/rpc/ProviderHealthState'
+import { MethodGroup, ProviderHealthiness } from '../../../../lib/rpc/ProviderHealthState'
 import { JsonRpcResponse } from 'hardhat/types'
 import { EthFeeHistory } from '../../../../lib/util/eth_feeHistory'
+import { BigNumber } from '@ethersproject/bignumber'
 
 const UNI_PROVIDER_TEST_CONFIG: UniJsonRpcProviderConfig = {
   HEALTH_EVALUATION_WAIT_PERIOD_IN_S: 0,
   ENABLE_SHADOW_LATENCY_EVALUATION: false,
   LATENCY_EVALUATION_WAIT_PERIOD_IN_S: 15,
   DEFAULT_INITIAL_WEIGHT: 1000,
+  PROVIDER_SELECTION_MODE: ProviderSelectionMode.STATIC,
+  ADAPTIVE_WEIGHT_FLOOR_RATIO: 0.1,
+  ADAPTIVE_WEIGHT_CEILING_RATIO: 2,
+  ADAPTIVE_WEIGHT_MIN_SAMPLE_COUNT: 20,
+  ADAPTIVE_WEIGHT_REFRESH_INTERVAL_IN_S: 10,
+  ENABLE_HEDGING: false,
+  HEDGING_LATENCY_PERCENTILE: 0.95,
+  HEDGING_MIN_DEADLINE_IN_MS: 100,
+  HEDGING_MAX_EXTRA_REQUEST_RATIO: 0.05,
+  ENABLE_BLOCK_CONSISTENCY: false,
+  MAX_BLOCK_LAG: 2,
 }
 
 const SINGLE_PROVIDER_TEST_CONFIG: SingleJsonRpcProviderConfig = {
@@ -26,12 +39,14 @@ const SINGLE_PROVIDER_TEST_CONFIG: SingleJsonRpcProviderConfig = {
   ERROR_PENALTY: -50,
   HIGH_LATENCY_PENALTY: -50,
   HEALTH_SCORE_FALLBACK_THRESHOLD: -70,
+  METHOD_GROUP_HEALTH_SCORE_FALLBACK_THRESHOLD: -70,
   HEALTH_SCORE_RECOVER_THRESHOLD: -10,
   MAX_LATENCY_ALLOWED_IN_MS: 500,
   RECOVER_SCORE_PER_MS: 0.005,
   RECOVER_MAX_WAIT_TIME_TO_ACKNOWLEDGE_IN_MS: 20000,
   DB_SYNC_INTERVAL_IN_S: 5,
   LATENCY_STAT_HISTORY_WINDOW_LENGTH_IN_S: 300,
+  LATENCY_STAT_HISTORY_MAX_SAMPLES: 1000,
   LATENCY_EVALUATION_WAIT_PERIOD_IN_S: 15,
 }
 
@@ -169,6 +184,30 @@ describe('UniJsonRpcProvider', () => {
     expect(uniProvider.lastUsedUrl).equals('url_0')
   })
 
+  it('select providers healthy for the method group of the call', async () => {
+    const getBlockNumber0 = sandbox.stub(uniProvider['providers'][0], '_getBlockNumber' as any)
+    getBlockNumber0.rejects('error')
+    const getBlockNumber1 = sandbox.stub(uniProvider['providers'][1], '_getBlockNumber' as any)
+    getBlockNumber1.resolves(123)
+
+    // Two errors bring provider0 below the fallback threshold for getBlockNumber.
+    for (let i = 0; i < 2; i++) {
+      try {
+        await uniProvider.getBlockNumber()
+        assert(false, 'Should not reach')
+      } catch (err: any) {
+        expect(err.name).equals('error')
+      }
+    }
+    expect(await uniProvider.getBlockNumber()).equals(123)
+    expect(uniProvider.lastUsedUrl).equals('url_1')
+
+    // But it still serves the other method groups.
+    expect(uniProvider.currentHealthyUrls).to.have.ordered.members(['url_0', 'url_1', 'url_2'])
+    expect(uniProvider['selectPreferredProvider'](undefined, [], MethodGroup.CALL).url).equals('url_0')
+    expect(uniProvider['selectPreferredProvider'](undefined, [], MethodGroup.BLOCK_NUMBER).url).equals('url_1')
+  })
+
   it('no healthy provider available', async () => {
     sandbox.stub(uniProvider['providers'][0], 'isHealthy' as any).returns(false)
     sandbox.stub(uniProvider['providers'][1], 'isHealthy' as any).returns(false)
@@ -472,6 +511,264 @@ describe('UniJsonRpcProvider', () => {
     expect(uniProvider['selectPreferredProvider']().url).equals('url_0')
   })
 
+  const createAdaptiveUniProvider = (weights: number[]) => {
+    uniProvider = new UniJsonRpcProvider(
+      ChainId.MAINNET,
+      SINGLE_RPC_PROVIDERS[ChainId.MAINNET],
+      log,
+      { ...UNI_PROVIDER_TEST_CONFIG, PROVIDER_SELECTION_MODE: ProviderSelectionMode.ADAPTIVE },
+      1.0,
+      1.0,
+      weights
+    )
+    for (const provider of uniProvider['providers']) {
+      provider['config'] = SINGLE_PROVIDER_TEST_CONFIG
+    }
+  }
+
+  it('test selectPreferredProvider: adaptive weights follow latencies and errors, within floor and ceiling', async () => {
+    createAdaptiveUniProvider([3, 1, ProviderSpecialWeight.AS_FALLBACK])
+    sandbox
+      .stub(uniProvider['providers'][0], 'getLatencyStats')
+      .returns({ p50LatencyInMs: 50, p95LatencyInMs: 150, errorRate: 0, sampleCount: 100 })
+    sandbox
+      .stub(uniProvider['providers'][1], 'getLatencyStats')
+      .returns({ p50LatencyInMs: 300, p95LatencyInMs: 700, errorRate: 0.5, sampleCount: 100 })
+    sandbox
+      .stub(uniProvider['providers'][2], 'getLatencyStats')
+      .returns({ p50LatencyInMs: 10, p95LatencyInMs: 10, errorRate: 0, sampleCount: 100 })
+
+    const randStub = sandbox.stub(Math, 'random')
+    randStub.returns(0.0)
+    expect(uniProvider['selectPreferredProvider']().url).equals('url_0')
+
+    // Average latency is 300ms. url_0 is 3 times faster, capped to twice its initial weight.
+    // url_1 is slower and fails half of its calls, 300 / 500 * 0.5 = 0.3 times its initial weight.
+    // AS_FALLBACK providers are not scaled.
+    expect(uniProvider['effectiveUrlWeight']).to.deep.equal({ url_0: 6, url_1: 0.3, url_2: -1 })
+    // (6 / 6.3, 1) -> url_1
+    randStub.returns(0.99)
+    expect(uniProvider['selectPreferredProvider']().url).equals('url_1')
+  })
+
+  it('test selectPreferredProvider: adaptive weights do not starve failing providers, nor scale providers without enough calls', async () => {
+    createAdaptiveUniProvider([1, 1, 1])
+    sandbox
+      .stub(uniProvider['providers'][0], 'getLatencyStats')
+      .returns({ p50LatencyInMs: 0, p95LatencyInMs: 0, errorRate: 1, sampleCount: 100 })
+    sandbox
+      .stub(uniProvider['providers'][1], 'getLatencyStats')
+      .returns({ p50LatencyInMs: 100, p95LatencyInMs: 100, errorRate: 0, sampleCount: 100 })
+    sandbox
+      .stub(uniProvider['providers'][2], 'getLatencyStats')
+      .returns({ p50LatencyInMs: 1000, p95LatencyInMs: 1000, errorRate: 0, sampleCount: 19 })
+
+    uniProvider['selectPreferredProvider']()
+
+    expect(uniProvider['effectiveUrlWeight']).to.deep.equal({ url_0: 0.1, url_1: 1, url_2: 1 })
+  })
+
+  it('test selectPreferredProvider: adaptive weights are only recomputed after the refresh interval', async () => {
+    createAdaptiveUniProvider([1, 1, 1])
+    const getLatencyStats = sandbox
+      .stub(uniProvider['providers'][0], 'getLatencyStats')
+      .returns({ p50LatencyInMs: 100, p95LatencyInMs: 100, errorRate: 0, sampleCount: 100 })
+
+    uniProvider['selectPreferredProvider']()
+    uniProvider['selectPreferredProvider']()
+    expect(getLatencyStats.callCount).equals(1)
+
+    uniProvider['lastEffectiveWeightUpdateTimestampInMs'] = Date.now() - 1000 * 10
+    uniProvider['selectPreferredProvider']()
+    expect(getLatencyStats.callCount).equals(2)
+  })
+
+  it('test selectPreferredProvider: static weights ignore latencies', async () => {
+    uniProvider = new UniJsonRpcProvider(
+      ChainId.MAINNET,
+      SINGLE_RPC_PROVIDERS[ChainId.MAINNET],
+      log,
+      UNI_PROVIDER_TEST_CONFIG,
+      1.0,
+      1.0,
+      [3, 1, 4]
+    )
+    const getLatencyStats = sandbox.stub(uniProvider['providers'][0], 'getLatencyStats')
+
+    uniProvider['selectPreferredProvider']()
+
+    expect(getLatencyStats.called).to.be.false
+    expect(uniProvider['effectiveUrlWeight']).to.deep.equal({ url_0: 3, url_1: 1, url_2: 4 })
+  })
+
+  const createHedgingUniProvider = (hedgingMaxExtraRequestRatio: number = 1) => {
+    uniProvider = new UniJsonRpcProvider(
+      ChainId.MAINNET,
+      SINGLE_RPC_PROVIDERS[ChainId.MAINNET],
+      log,
+      {
+        ...UNI_PROVIDER_TEST_CONFIG,
+        ENABLE_HEDGING: true,
+        HEDGING_MIN_DEADLINE_IN_MS: 10,
+        HEDGING_MAX_EXTRA_REQUEST_RATIO: hedgingMaxExtraRequestRatio,
+      },
+      1.0,
+      1.0,
+      [1, ProviderSpecialWeight.NEVER, ProviderSpecialWeight.AS_FALLBACK]
+    )
+    for (const provider of uniProvider['providers']) {
+      provider['config'] = SINGLE_PROVIDER_TEST_CONFIG
+    }
+  }
+
+  const resolvesAfter = (result: string, delayInMs: number) =>
+    new Promise<string>((resolve) => setTimeout(() => resolve(result), delayInMs))
+
+  it('hedges a read-only call to the next provider allowed to receive traffic, the first answer wins', async () => {
+    createHedgingUniProvider()
+    sandbox.stub(uniProvider['providers'][0], 'call').callsFake(() => resolvesAfter('0x0', 200))
+    const neverCall = sandbox.stub(uniProvider['providers'][1], 'call').resolves('0x1')
+    const fallbackCall = sandbox.stub(uniProvider['providers'][2], 'call').resolves('0x2')
+
+    expect(await uniProvider.call({})).equals('0x2')
+    expect(neverCall.called).to.be.false
+    expect(fallbackCall.calledOnce).to.be.true
+  })
+
+  it('does not hedge calls answered before the deadline', async () => {
+    createHedgingUniProvider()
+    sandbox.stub(uniProvider['providers'][0], 'call').resolves('0x0')
+    const fallbackCall = sandbox.stub(uniProvider['providers'][2], 'call').resolves('0x2')
+
+    expect(await uniProvider.call({})).equals('0x0')
+    expect(fallbackCall.called).to.be.false
+  })
+
+  it('never hedges write methods', async () => {
+    createHedgingUniProvider()
+    sandbox.stub(uniProvider['providers'][0], 'send').callsFake(() => resolvesAfter('0x0', 50))
+    sandbox.stub(uniProvider['providers'][0], 'sendTransaction').callsFake(() => resolvesAfter('0x0', 50) as any)
+    const fallbackSend = sandbox.stub(uniProvider['providers'][2], 'send').resolves('0x2')
+    const fallbackSendTransaction = sandbox.stub(uniProvider['providers'][2], 'sendTransaction').resolves({} as any)
+
+    expect(await uniProvider.send('eth_sendRawTransaction', ['0x'])).equals('0x0')
+    expect(await uniProvider.sendTransaction('0x')).equals('0x0')
+    expect(fallbackSend.called).to.be.false
+    expect(fallbackSendTransaction.called).to.be.false
+
+    // Read-only send methods are hedged.
+    expect(await uniProvider.send('eth_call', [{}, 'latest'])).equals('0x2')
+  })
+
+  it('hedges within the hedging budget', async () => {
+    createHedgingUniProvider(0.5)
+    sandbox.stub(uniProvider['providers'][0], 'call').callsFake(() => resolvesAfter('0x0', 50))
+    const fallbackCall = sandbox.stub(uniProvider['providers'][2], 'call').resolves('0x2')
+
+    // Each call adds half a hedge to the budget.
+    expect(await uniProvider.call({})).equals('0x0')
+    expect(await uniProvider.call({})).equals('0x2')
+    expect(await uniProvider.call({})).equals('0x0')
+    expect(fallbackCall.callCount).equals(1)
+  })
+
+  it('throws the error of the selected provider when the hedged call also fails', async () => {
+    createHedgingUniProvider()
+    sandbox
+      .stub(uniProvider['providers'][0], 'call')
+      .callsFake(() => new Promise((_, reject) => setTimeout(() => reject(new Error('primary')), 50)))
+    sandbox.stub(uniProvider['providers'][2], 'call').rejects(new Error('hedge'))
+
+    try {
+      await uniProvider.call({})
+      assert(false, 'Should not reach')
+    } catch (err: any) {
+      expect(err.message).equals('primary')
+    }
+  })
+
+  const createBlockConsistentUniProvider = () => {
+    uniProvider = new UniJsonRpcProvider(
+      ChainId.MAINNET,
+      SINGLE_RPC_PROVIDERS[ChainId.MAINNET],
+      log,
+      { ...UNI_PROVIDER_TEST_CONFIG, ENABLE_BLOCK_CONSISTENCY: true, MAX_BLOCK_LAG: 2 },
+      1.0,
+      1.0
+    )
+    for (const provider of uniProvider['providers']) {
+      provider['config'] = SINGLE_PROVIDER_TEST_CONFIG
+    }
+  }
+
+  it('block consistency: rejects fallback providers lagging behind the session', async () => {
+    createBlockConsistentUniProvider()
+    sandbox.stub(uniProvider['providers'][0], '_getBlockNumber' as any).resolves(100)
+    sandbox.stub(uniProvider['providers'][1], '_getBlockNumber' as any).resolves(97)
+    sandbox.stub(uniProvider['providers'][2], '_getBlockNumber' as any).resolves(98)
+    const call1 = sandbox.stub(uniProvider['providers'][1], 'call').resolves('0x1')
+    const call2 = sandbox.stub(uniProvider['providers'][2], 'call').resolves('0x2')
+
+    const sessionId = uniProvider.createNewSessionId()
+    expect(await uniProvider.getBlockNumber(sessionId)).equals(100)
+
+    // The session provider fails, url_1 is 3 blocks behind, url_2 only 2.
+    uniProvider['providers'][0]['healthiness'] = ProviderHealthiness.UNHEALTHY
+    expect(await uniProvider.call({}, undefined, sessionId)).equals('0x2')
+    expect(call1.called).to.be.false
+    expect(uniProvider.lastUsedUrl).equals('url_2')
+    // Reads are pinned to the block url_2 has, not to the block of the session.
+    expect(call2.lastCall.args[1]).equals(98)
+
+    // The session sticks to url_2 without checking it again.
+    expect(await uniProvider.call({}, undefined, sessionId)).equals('0x2')
+    expect(call2.callCount).equals(2)
+    expect(call2.lastCall.args[1]).equals(98)
+  })
+
+  it('block consistency: falls back to the least lagging provider if all of them lag', async () => {
+    createBlockConsistentUniProvider()
+    sandbox.stub(uniProvider['providers'][0], '_getBlockNumber' as any).resolves(100)
+    sandbox.stub(uniProvider['providers'][1], '_getBlockNumber' as any).resolves(95)
+    sandbox.stub(uniProvider['providers'][2], '_getBlockNumber' as any).resolves(96)
+    const call1 = sandbox.stub(uniProvider['providers'][1], 'call').resolves('0x1')
+    const call2 = sandbox.stub(uniProvider['providers'][2], 'call').resolves('0x2')
+
+    const sessionId = uniProvider.createNewSessionId()
+    expect(await uniProvider.getBlockNumber(sessionId)).equals(100)
+
+    uniProvider['providers'][0]['healthiness'] = ProviderHealthiness.UNHEALTHY
+    expect(await uniProvider.call({}, undefined, sessionId)).equals('0x2')
+    expect(call1.called).to.be.false
+    expect(call2.lastCall.args[1]).equals(96)
+  })
+
+  it('block consistency: pins latest reads of the session to its highest block', async () => {
+    createBlockConsistentUniProvider()
+    sandbox.stub(uniProvider['providers'][0], '_getBlockNumber' as any).resolves(100)
+    const call = sandbox.stub(uniProvider['providers'][0], 'call').resolves('0x0')
+    const send = sandbox.stub(uniProvider['providers'][0], 'send').resolves('0x0')
+
+    const sessionId = uniProvider.createNewSessionId()
+    await uniProvider.call({}, 'latest', sessionId)
+    expect(call.lastCall.args[1]).equals('latest')
+
+    await uniProvider.getBlockNumber(sessionId)
+    await uniProvider.call({}, undefined, sessionId)
+    expect(call.lastCall.args[1]).equals(100)
+    await uniProvider.call({}, 90, sessionId)
+    expect(call.lastCall.args[1]).equals(90)
+    await uniProvider.send('eth_call', [{}, 'latest'], sessionId)
+    expect(send.lastCall.args).to.deep.equal(['eth_call', [{}, '0x64']])
+    const getBalance = sandbox.stub(uniProvider['providers'][0], 'getBalance').resolves(BigNumber.from(1))
+    await uniProvider.getBalance('0x0000000000000000000000000000000000000000', undefined, sessionId)
+    expect(getBalance.lastCall.args[1]).equals(100)
+
+    // Other sessions are not pinned.
+    await uniProvider.call({}, 'latest', uniProvider.createNewSessionId())
+    expect(call.lastCall.args[1]).equals('latest')
+  })
+
   it('multiple UniJsonRpcProvider share the same instances of SingleJsonRpcProvider', async () => {
     const uniProvider1 = new UniJsonRpcProvider(
       ChainId.MAINNET,